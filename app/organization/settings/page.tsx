@@ -19,6 +19,8 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { AppSidebar } from "@/components/app-sidebar";
+import { AdministrationTimesSettings } from "@/components/ui/administration-times-settings";
+import { MedicineCatalogueImport } from "@/components/ui/medicine-catalogue-import";
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -690,6 +692,10 @@ export default function OrganizationSettingsPage() {
             </form>
           </CardContent>
         </Card>
+
+        <AdministrationTimesSettings />
+
+        <MedicineCatalogueImport />
           </div>
         </div>
       </SidebarInset>
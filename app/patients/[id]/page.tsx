@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArrowLeft, Edit, Save, X, Trash2, Copy, User, Calendar, Mail, Phone, MapPin, Package, Share2, Shield, Pill, MessageSquare, FileText, PackageCheck } from "lucide-react";
@@ -35,8 +36,11 @@ import { TokenAccessManagement } from "@/components/ui/token-access-management";
 import { PatientMedications } from "@/components/ui/patient-medications";
 import { PatientComments } from "@/components/ui/patient-comments";
 import { MedicationLog } from "@/components/ui/medication-log";
+import { MedicationReconciliation } from "@/components/ui/medication-reconciliation";
 import { PatientScripts } from "@/components/ui/patient-scripts";
 import { PatientWebsterPacks } from "@/components/ui/patient-webster-packs";
+import { AdministrationTimesSettings } from "@/components/ui/administration-times-settings";
+import { AllergySummary, PatientAllergies } from "@/components/ui/patient-allergies";
 
 export default function PatientDetailPage() {
   const params = useParams();
@@ -68,6 +72,7 @@ export default function PatientDetailPage() {
     state: "",
     postcode: "",
     preferredPack: "blister" as "blister" | "sachets",
+    requiresSecondCheck: false,
   });
 
   // Initialize form data when patient is loaded
@@ -84,6 +89,7 @@ export default function PatientDetailPage() {
         state: patient.state,
         postcode: patient.postcode,
         preferredPack: patient.preferredPack,
+        requiresSecondCheck: patient.requiresSecondCheck ?? false,
       });
     }
   }, [patient]);
@@ -117,6 +123,7 @@ export default function PatientDetailPage() {
         state: patient.state,
         postcode: patient.postcode,
         preferredPack: patient.preferredPack,
+        requiresSecondCheck: patient.requiresSecondCheck ?? false,
       });
       setIsEditing(true);
     }
@@ -193,6 +200,7 @@ export default function PatientDetailPage() {
         state: formData.state.trim(),
         postcode: formData.postcode.trim(),
         preferredPack: formData.preferredPack,
+        requiresSecondCheck: formData.requiresSecondCheck,
       };
 
       await updatePatient(updateData);
@@ -358,6 +366,9 @@ export default function PatientDetailPage() {
                         </span>
                       )}
                     </p>
+                    <div className="mt-2">
+                      <AllergySummary patientId={patientId} />
+                    </div>
                   </div>
                 </div>
         
@@ -534,6 +545,15 @@ export default function PatientDetailPage() {
                     {patient.preferredPack === "blister" ? "Blister Pack" : "Sachets"}
                   </Badge>
                 </div>
+                {patient.requiresSecondCheck && (
+                  <div className="flex items-center gap-2 mt-2">
+                    <PackageCheck className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">Pack Checking:</span>
+                    <Badge className="text-orange-600 bg-orange-50 border-orange-200 border">
+                      High-risk - second check required
+                    </Badge>
+                  </div>
+                )}
               </div>
 
               <Separator />
@@ -709,6 +729,20 @@ export default function PatientDetailPage() {
                 </Select>
               </div>
 
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <Label htmlFor="requiresSecondCheck">High-risk patient</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Packs need a second independent check before they can be dispatched
+                  </p>
+                </div>
+                <Switch
+                  id="requiresSecondCheck"
+                  checked={formData.requiresSecondCheck}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, requiresSecondCheck: checked }))}
+                />
+              </div>
+
               {/* Submit Button */}
               <div className="flex justify-end">
                 <Button type="submit" disabled={isSubmitting}>
@@ -729,6 +763,10 @@ export default function PatientDetailPage() {
           )}
                   </CardContent>
                 </Card>
+
+                <PatientAllergies patientId={patientId} />
+
+                <AdministrationTimesSettings patientId={patientId} />
               </TabsContent>
 
               {/* Token Access Tab - Only shown for non-shared access */}
@@ -741,6 +779,7 @@ export default function PatientDetailPage() {
               {/* Medications Tab */}
               <TabsContent value="medications" className="space-y-4">
                 <PatientMedications patientId={patientId} />
+                <MedicationReconciliation patientId={patientId} />
               </TabsContent>
 
               {/* Medication Log Tab */}
@@ -44,6 +44,7 @@ import {
 import { PatientMedications } from "@/components/ui/patient-medications";
 import { PatientComments } from "@/components/ui/patient-comments";
 import { PatientWebsterPacks } from "@/components/ui/patient-webster-packs";
+import { AllergySummary, PatientAllergies } from "@/components/ui/patient-allergies";
 
 export default function SharedPatientPage() {
   const params = useParams();
@@ -251,6 +252,9 @@ export default function SharedPatientPage() {
                     <p className="text-muted-foreground">
                       Shared patient from {patient.organizationName}
                     </p>
+                    <div className="mt-2">
+                      <AllergySummary patientId={patient._id} />
+                    </div>
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
@@ -402,6 +406,8 @@ export default function SharedPatientPage() {
                 </div>
                   </CardContent>
                 </Card>
+
+                <PatientAllergies patientId={patient._id} />
               </TabsContent>
 
               {/* Medications Tab */}
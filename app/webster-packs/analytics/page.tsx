@@ -0,0 +1,406 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  ChartConfig,
+} from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { AlertTriangle, Download, LineChart } from "lucide-react";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { addDays, format, subDays } from "date-fns";
+import { downloadCsv, CsvValue } from "@/lib/csv";
+
+const trendChartConfig = {
+  checks: {
+    label: "Checks",
+    color: "var(--chart-1)",
+  },
+  failureRate: {
+    label: "Failure rate %",
+    color: "var(--chart-2)",
+  },
+} satisfies ChartConfig;
+
+const hourChartConfig = {
+  passed: {
+    label: "Passed",
+    color: "var(--chart-1)",
+  },
+  failed: {
+    label: "Failed or review",
+    color: "var(--chart-2)",
+  },
+} satisfies ChartConfig;
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, "0")}:00`;
+
+const formatDuration = (minutes: number | null) => {
+  if (minutes === null) return "—";
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 24 * 60) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / (24 * 60)).toFixed(1)} days`;
+};
+
+interface StaffRow {
+  userId: string;
+  name: string;
+  checks: number;
+  failed: number;
+  requiresReview: number;
+  failureRate: number;
+}
+
+function StaffTable({ title, description, rows }: { title: string; description: string; rows: StaffRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No checks in this period.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4">Staff member</th>
+                  <th className="py-2 pr-4 text-right">Checks</th>
+                  <th className="py-2 pr-4 text-right">Failed</th>
+                  <th className="py-2 pr-4 text-right">Review</th>
+                  <th className="py-2 text-right">Failure rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.userId} className="border-b last:border-b-0">
+                    <td className="py-2 pr-4 font-medium">{row.name}</td>
+                    <td className="py-2 pr-4 text-right">{row.checks}</td>
+                    <td className="py-2 pr-4 text-right">{row.failed}</td>
+                    <td className="py-2 pr-4 text-right">{row.requiresReview}</td>
+                    <td className="py-2 text-right">{row.failureRate.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PackQaAnalyticsPage() {
+  const organization = useQuery(api.users.getOrganization);
+
+  // Report date range (inclusive calendar days)
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 29), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const analytics = useQuery(
+    api.packAnalytics.getPackQaAnalytics,
+    startDate && endDate && startDate <= endDate ? {
+      startDate: new Date(`${startDate}T00:00:00`).getTime(),
+      endDate: addDays(new Date(`${endDate}T00:00:00`), 1).getTime(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    } : "skip"
+  );
+
+  // Check if user has access (pharmacy organizations only)
+  const hasAccess = organization?.type === "pharmacy";
+
+  const handleExport = () => {
+    if (!analytics) return;
+
+    const rows: CsvValue[][] = [
+      ["Webster pack QA analytics", `${startDate} to ${endDate}`],
+      [],
+      ["Summary"],
+      ["Checks", analytics.totalChecks],
+      ["Passed", analytics.passedChecks],
+      ["Failed", analytics.failedChecks],
+      ["Requires review", analytics.reviewChecks],
+      ["Failure rate %", analytics.failureRate],
+      ["Checks per day", analytics.checksPerDay],
+      ["Scan outs", analytics.totalScanOuts],
+      ["Median check to scan out (minutes)", analytics.medianCheckToScanOutMinutes],
+      [],
+      ["By checker"],
+      ["Staff member", "Checks", "Failed", "Requires review", "Failure rate %"],
+      ...analytics.byChecker.map((row) => [row.name, row.checks, row.failed, row.requiresReview, row.failureRate]),
+      [],
+      ["By packer"],
+      ["Staff member", "Checks", "Failed", "Requires review", "Failure rate %"],
+      ...analytics.byPacker.map((row) => [row.name, row.checks, row.failed, row.requiresReview, row.failureRate]),
+      [],
+      ["By hour of day"],
+      ["Hour", "Checks", "Failed or review"],
+      ...analytics.byHour.map((row) => [formatHour(row.hour), row.checks, row.failed]),
+      [],
+      ["By day"],
+      ["Date", "Checks", "Failed", "Requires review", "Failure rate %"],
+      ...analytics.byDay.map((row) => [row.date, row.checks, row.failed, row.requiresReview, row.failureRate]),
+    ];
+
+    downloadCsv(`webster-qa-analytics-${startDate}-to-${endDate}.csv`, rows);
+  };
+
+  if (!hasAccess) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-6 text-center">
+            <AlertTriangle className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Access Restricted
+            </h1>
+            <p className="text-muted-foreground mb-4">
+              QA analytics are only available to pharmacy organisations.
+            </p>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/webster-packs">
+                    Webster Packs
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>QA Analytics</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <div className="max-w-7xl mx-auto space-y-6 w-full">
+            {/* Header */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex items-center gap-4">
+                <div className="bg-primary/10 p-3 rounded-lg">
+                  <LineChart className="w-8 h-8 text-primary" />
+                </div>
+                <div>
+                  <h1 className="text-3xl font-bold">QA Analytics</h1>
+                  <p className="text-muted-foreground">
+                    Check failure rates by staff member, throughput by hour and time to dispatch
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Filters */}
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex flex-wrap items-end justify-between gap-4">
+                  <div className="flex flex-wrap items-end gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="start-date">From</Label>
+                      <Input
+                        id="start-date"
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="end-date">To</Label>
+                      <Input
+                        id="end-date"
+                        type="date"
+                        value={endDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <Button variant="outline" onClick={handleExport} disabled={!analytics}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {analytics === undefined ? (
+              <div className="flex items-center justify-center p-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : !analytics ? (
+              <Card>
+                <CardContent className="p-8 text-center text-muted-foreground">
+                  Choose a valid date range to see QA analytics.
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                {/* Summary */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-sm text-muted-foreground">Checks</div>
+                      <div className="text-2xl font-bold">{analytics.totalChecks}</div>
+                      <div className="text-xs text-muted-foreground">{analytics.checksPerDay} per day</div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-sm text-muted-foreground">Failure rate</div>
+                      <div className="text-2xl font-bold">{analytics.failureRate.toFixed(1)}%</div>
+                      <div className="text-xs text-muted-foreground">
+                        {analytics.failedChecks} failed • {analytics.reviewChecks} review
+                      </div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-sm text-muted-foreground">Scan outs</div>
+                      <div className="text-2xl font-bold">{analytics.totalScanOuts}</div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-sm text-muted-foreground">Median check to scan out</div>
+                      <div className="text-2xl font-bold">{formatDuration(analytics.medianCheckToScanOutMinutes)}</div>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {/* Daily trend */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Daily Trend</CardTitle>
+                    <CardDescription>Checks per day and the share that failed or needed review</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={trendChartConfig} className="h-72 w-full aspect-auto">
+                      <ComposedChart data={analytics.byDay} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                          dataKey="date"
+                          tickLine={false}
+                          axisLine={false}
+                          tickFormatter={(value) => format(new Date(`${value}T00:00:00`), "dd/MM")}
+                        />
+                        <YAxis yAxisId="checks" allowDecimals={false} tickLine={false} axisLine={false} />
+                        <YAxis
+                          yAxisId="failureRate"
+                          orientation="right"
+                          domain={[0, 100]}
+                          tickFormatter={(value) => `${value}%`}
+                          tickLine={false}
+                          axisLine={false}
+                        />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar yAxisId="checks" dataKey="checks" fill="var(--color-checks)" radius={4} />
+                        <Line
+                          yAxisId="failureRate"
+                          dataKey="failureRate"
+                          stroke="var(--color-failureRate)"
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      </ComposedChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                {/* Checks by hour */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Checks by Hour of Day</CardTitle>
+                    <CardDescription>When checks happen across the period, and when failures are found</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={hourChartConfig} className="h-72 w-full aspect-auto">
+                      <BarChart
+                        data={analytics.byHour.map((row) => ({
+                          hour: formatHour(row.hour),
+                          passed: row.checks - row.failed,
+                          failed: row.failed,
+                        }))}
+                        margin={{ top: 10, right: 10, bottom: 0, left: 0 }}
+                      >
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="hour" tickLine={false} axisLine={false} interval={1} />
+                        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="passed" stackId="checks" fill="var(--color-passed)" />
+                        <Bar dataKey="failed" stackId="checks" fill="var(--color-failed)" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <StaffTable
+                    title="By Checker"
+                    description="Checks performed and how many failed or were flagged for review"
+                    rows={analytics.byChecker}
+                  />
+                  <StaffTable
+                    title="By Packer"
+                    description="Packs each staff member packed and how their checks turned out"
+                    rows={analytics.byPacker}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
+import Link from "next/link";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Button } from "@/components/ui/button";
@@ -39,8 +40,29 @@ import {
   SidebarTrigger,
 } from "@/components/ui/sidebar";
 import { toast } from "sonner";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 import { Id } from "@/convex/_generated/dataModel";
+import { WebsterPackScanner, ScannedWebsterPack } from "@/components/ui/webster-pack-scanner";
+import { DAYS_PER_PACK, describeExpiringBatch, getBatchesExpiringInPeriod, getPackPeriod } from "@/lib/pack-expiry";
+import { formatAdministrationTime } from "@/lib/administration-times";
+
+type ChecklistOutcome = "verified" | "incorrect" | "missing";
+
+// Colours for the patient's administration times, earliest first; repeats when there are more times
+const SLOT_STYLES: { headingClass: string; dotClass: string; itemClass: string; doseClass: string }[] = [
+  { headingClass: "text-yellow-600", dotClass: "bg-yellow-400", itemClass: "bg-yellow-50", doseClass: "text-yellow-700" },
+  { headingClass: "text-orange-600", dotClass: "bg-orange-400", itemClass: "bg-orange-50", doseClass: "text-orange-700" },
+  { headingClass: "text-teal-600", dotClass: "bg-teal-400", itemClass: "bg-teal-50", doseClass: "text-teal-700" },
+  { headingClass: "text-purple-600", dotClass: "bg-purple-400", itemClass: "bg-purple-50", doseClass: "text-purple-700" },
+  { headingClass: "text-indigo-600", dotClass: "bg-indigo-400", itemClass: "bg-indigo-50", doseClass: "text-indigo-700" },
+  { headingClass: "text-slate-600", dotClass: "bg-slate-400", itemClass: "bg-slate-50", doseClass: "text-slate-700" },
+];
+
+const CHECKLIST_OUTCOMES: { outcome: ChecklistOutcome; label: string; selectedClass: string }[] = [
+  { outcome: "verified", label: "✓ Verified", selectedClass: "bg-green-100 border-green-400 text-green-800" },
+  { outcome: "incorrect", label: "Incorrect", selectedClass: "bg-red-100 border-red-400 text-red-800" },
+  { outcome: "missing", label: "Missing", selectedClass: "bg-red-100 border-red-400 text-red-800" },
+];
 
 interface SelectedPatient {
   _id: Id<"patients">;
@@ -54,6 +76,7 @@ export default function WebsterPacksPage() {
   const organization = useQuery(api.users.getOrganization);
   const recentChecks = useQuery(api.websterPacks.getRecentWebsterChecks, { limit: 10 });
   const stats = useQuery(api.websterPacks.getWebsterCheckStats);
+  const issueCategories = useQuery(api.packIssues.getPackIssueCategories, {});
   
   // Mutations
   const createCheck = useMutation(api.websterPacks.createWebsterPackCheck);
@@ -71,18 +94,17 @@ export default function WebsterPacksPage() {
     // Step 3: Final Check
     checkStatus: "passed" as "passed" | "failed" | "requires_review",
     notes: "",
-    issues: [] as string[],
+    issueCategoryIds: [] as Id<"packIssueCategories">[],
     medicationCount: "",
     packWeight: "",
-    batchNumber: "",
-    expiryDate: "",
   });
   
   // Form state
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedPatient, setSelectedPatient] = useState<SelectedPatient | null>(null);
-  const [newIssue, setNewIssue] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [checklist, setChecklist] = useState<Record<string, { outcome: ChecklistOutcome; note: string }>>({});
+  const [batches, setBatches] = useState<Record<string, { batchNumber: string; expiryDate: string }>>({});
   
   // Patient search
   const patientSearchResults = useQuery(
@@ -90,18 +112,106 @@ export default function WebsterPacksPage() {
     searchTerm.trim() ? { searchTerm: searchTerm.trim(), limit: 10 } : "skip"
   );
 
-  // Get patient medications by time (for step 2)
+  // Packer and pack week recorded on the pack
+  const packCheckStatus = useQuery(
+    api.websterPacks.getWebsterPackCheckStatus,
+    formData.websterPackId.trim() && currentStep >= 2 ? { websterPackId: formData.websterPackId.trim() } : "skip"
+  );
+  const packDetails = packCheckStatus && "packDetails" in packCheckStatus ? packCheckStatus.packDetails : undefined;
+  const packPeriod = getPackPeriod(packDetails?.packWeekStart, format(new Date(), "yyyy-MM-dd"));
+
+  // Get patient medications by time for the days the pack covers (for step 2)
   const patientMedications = useQuery(
     api.websterPacks.getPatientMedicationsByTime,
-    selectedPatient && currentStep >= 2 ? { patientId: selectedPatient._id } : "skip"
+    selectedPatient && currentStep >= 2
+      ? { patientId: selectedPatient._id, date: packPeriod.start, days: DAYS_PER_PACK }
+      : "skip"
+  );
+
+  const measuredCount = formData.medicationCount ? parseInt(formData.medicationCount) : NaN;
+  const measuredWeight = formData.packWeight ? parseFloat(formData.packWeight) : NaN;
+  const measurementAssessment = useQuery(
+    api.websterPacks.getPackMeasurementAssessment,
+    selectedPatient && currentStep === 3 ? {
+      patientId: selectedPatient._id,
+      packType: formData.packType,
+      packWeekStart: packDetails?.packWeekStart,
+      medicationCount: isNaN(measuredCount) ? undefined : measuredCount,
+      packWeight: isNaN(measuredWeight) ? undefined : measuredWeight,
+    } : "skip"
   );
+  const currentUser = useQuery(api.users.getCurrentUserProfile);
 
   // Check if user has access (pharmacy organizations only)
   const hasAccess = organization?.type === "pharmacy";
 
+  // Dual sign-off: the packer signs the pack off themselves, and the checker cannot be the packer
+  const recordedPacker = packDetails?.packedBy;
+  const isOwnPack = !!recordedPacker && recordedPacker._id === currentUser?._id;
+
+  // Every medication in every slot must be given an outcome
+  const checklistItems = patientMedications
+    ? patientMedications.administrationTimes.flatMap(({ id: slot }) =>
+        (patientMedications.medicationsByTime[slot] ?? []).map(med => ({
+          key: `${slot}:${med._id}`,
+          medicationId: med._id,
+          medicationName: med.medicationName,
+          time: med.time,
+          timeSlot: slot,
+        }))
+      )
+    : [];
+  const isChecklistComplete = checklistItems.every(item => checklist[item.key]);
+
+  // Medications whose schedule is unsafe (e.g. methotrexate without a weekly day) block the pack from passing
+  const scheduleProblems = patientMedications
+    ? [...new Set(Object.values(patientMedications.medicationsByTime).flat().flatMap(med => med.scheduleProblem ? [med.scheduleProblem] : []))]
+    : [];
+
+  // Batch and expiry are recorded once per medication, however many slots it is in
+  const packedMedications = checklistItems.filter(
+    (item, index) => checklistItems.findIndex(other => other.medicationId === item.medicationId) === index
+  );
+  const enteredBatches = packedMedications.flatMap(item => {
+    const batch = batches[item.medicationId];
+    return batch?.batchNumber.trim() && batch.expiryDate
+      ? [{ medicationId: item.medicationId, medicationName: item.medicationName, batchNumber: batch.batchNumber.trim(), expiryDate: batch.expiryDate }]
+      : [];
+  });
+  const hasIncompleteBatches = packedMedications.some(item => {
+    const batch = batches[item.medicationId];
+    return !!batch && !batch.batchNumber.trim() !== !batch.expiryDate;
+  });
+  const expiryWarnings = getBatchesExpiringInPeriod(enteredBatches, packPeriod).map(batch => describeExpiringBatch(batch, packPeriod));
+  const allItemsVerified = isChecklistComplete && checklistItems.every(item => checklist[item.key].outcome === "verified");
+  const canPass = allItemsVerified && scheduleProblems.length === 0;
+
+  const setChecklistOutcome = (key: string, outcome: ChecklistOutcome) => {
+    setChecklist(prev => ({
+      ...prev,
+      [key]: { outcome, note: outcome === "verified" ? "" : prev[key]?.note ?? "" }
+    }));
+  };
+
+  const setBatchField = (medicationId: string, field: "batchNumber" | "expiryDate", value: string) => {
+    setBatches(prev => ({
+      ...prev,
+      [medicationId]: { ...(prev[medicationId] ?? { batchNumber: "", expiryDate: "" }), [field]: value }
+    }));
+  };
+
+  const setChecklistNote = (key: string, note: string) => {
+    setChecklist(prev => ({
+      ...prev,
+      [key]: { ...prev[key], note }
+    }));
+  };
+
   const handlePatientSelect = (patient: SelectedPatient) => {
     setSelectedPatient(patient);
     setSearchTerm("");
+    setChecklist({});
+    setBatches({});
     // Set default pack type based on patient preference
     setFormData(prev => ({
       ...prev,
@@ -109,20 +219,33 @@ export default function WebsterPacksPage() {
     }));
   };
 
-  const handleAddIssue = () => {
-    if (newIssue.trim() && !formData.issues.includes(newIssue.trim())) {
-      setFormData(prev => ({
-        ...prev,
-        issues: [...prev.issues, newIssue.trim()]
-      }));
-      setNewIssue("");
+  // Scan-first: the pack label resolves the patient and skips straight to verification
+  const handlePackScanned = useCallback((pack: ScannedWebsterPack) => {
+    setSelectedPatient(pack.patient);
+    setSearchTerm("");
+    setChecklist({});
+    setBatches({});
+    setFormData(prev => ({
+      ...prev,
+      websterPackId: pack.websterPackId,
+      packType: pack.packType,
+    }));
+
+    const packStatus = pack.checkStatus.packStatus;
+    if (packStatus === "packed" || packStatus === "checked") {
+      setCurrentStep(2);
+      toast.success(`Webster pack ${pack.websterPackId} for ${pack.patient.name}`);
+    } else {
+      toast.error(`Webster pack ${pack.websterPackId} is ${packStatus} and cannot be checked`);
     }
-  };
+  }, []);
 
-  const handleRemoveIssue = (index: number) => {
+  const toggleIssueCategory = (categoryId: Id<"packIssueCategories">) => {
     setFormData(prev => ({
       ...prev,
-      issues: prev.issues.filter((_, i) => i !== index)
+      issueCategoryIds: prev.issueCategoryIds.includes(categoryId)
+        ? prev.issueCategoryIds.filter(id => id !== categoryId)
+        : [...prev.issueCategoryIds, categoryId]
     }));
   };
 
@@ -139,6 +262,36 @@ export default function WebsterPacksPage() {
       return;
     }
 
+    if (!isChecklistComplete) {
+      toast.error("Check every medication in every slot before saving");
+      return;
+    }
+
+    if (formData.checkStatus === "passed" && !allItemsVerified) {
+      toast.error("A pack can only pass when every medication is verified");
+      return;
+    }
+
+    if (formData.checkStatus === "passed" && scheduleProblems.length > 0) {
+      toast.error("A pack can only pass once every medication's schedule is corrected");
+      return;
+    }
+
+    if (isOwnPack) {
+      toast.error("You packed this pack, so another team member must check it");
+      return;
+    }
+
+    if (!recordedPacker) {
+      toast.error("The packer must sign this pack off as packed before it can be checked");
+      return;
+    }
+
+    if (hasIncompleteBatches) {
+      toast.error("Enter both the batch number and expiry date for each medication, or leave both blank");
+      return;
+    }
+
     setIsSubmitting(true);
     
     try {
@@ -148,19 +301,32 @@ export default function WebsterPacksPage() {
         packType: formData.packType,
         checkStatus: formData.checkStatus,
         notes: formData.notes.trim() || undefined,
-        issues: formData.issues.length > 0 ? formData.issues : undefined,
+        issueCategoryIds: formData.issueCategoryIds.length > 0 ? formData.issueCategoryIds : undefined,
+        checklist: checklistItems.map(item => ({
+          medicationId: item.medicationId,
+          timeSlot: item.timeSlot,
+          outcome: checklist[item.key].outcome,
+          note: checklist[item.key].note.trim() || undefined,
+        })),
         medicationCount: formData.medicationCount ? parseInt(formData.medicationCount) : undefined,
         packWeight: formData.packWeight ? parseFloat(formData.packWeight) : undefined,
-        batchNumber: formData.batchNumber.trim() || undefined,
-        expiryDate: formData.expiryDate || undefined,
+        medicationBatches: enteredBatches.length > 0
+          ? enteredBatches.map(({ medicationId, batchNumber, expiryDate }) => ({ medicationId, batchNumber, expiryDate }))
+          : undefined,
       };
 
-      await createCheck(submitData);
-      
-      toast.success("Webster pack check recorded successfully!");
+      const result = await createCheck(submitData);
+
+      if (result.checkStatus !== formData.checkStatus) {
+        toast.warning(`Pack held for review: ${result.anomalies.join("; ")}`);
+      } else {
+        toast.success("Webster pack check recorded successfully!");
+      }
       
       // Reset form
       setSelectedPatient(null);
+      setChecklist({});
+      setBatches({});
       setCurrentStep(1);
       setFormData({
         websterPackId: "",
@@ -168,16 +334,14 @@ export default function WebsterPacksPage() {
         medicationVerified: false,
         checkStatus: "passed",
         notes: "",
-        issues: [],
+        issueCategoryIds: [],
         medicationCount: "",
         packWeight: "",
-        batchNumber: "",
-        expiryDate: "",
       });
       
     } catch (error) {
       console.error("Error creating Webster pack check:", error);
-      toast.error("Failed to record pack check. Please try again.");
+      toast.error(error instanceof Error ? error.message : "Failed to record pack check. Please try again.");
     } finally {
       setIsSubmitting(false);
     }
@@ -192,6 +356,15 @@ export default function WebsterPacksPage() {
     }
   };
 
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case "critical": return "text-red-700 bg-red-50 border-red-200";
+      case "high": return "text-orange-700 bg-orange-50 border-orange-200";
+      case "medium": return "text-yellow-700 bg-yellow-50 border-yellow-200";
+      default: return "text-gray-600 bg-gray-50 border-gray-200";
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "passed": return <CheckCircle2 className="h-4 w-4" />;
@@ -378,6 +551,11 @@ export default function WebsterPacksPage() {
                       </div>
                     </div>
 
+                    {/* Scan-first mode */}
+                    <div className="mb-6">
+                      <WebsterPackScanner active={currentStep === 1} onPackScanned={handlePackScanned} />
+                    </div>
+
                     {/* Step 1: Patient & Pack Details */}
                     {currentStep === 1 && (
                       <div className="space-y-6">
@@ -493,109 +671,90 @@ export default function WebsterPacksPage() {
                           <div className="space-y-4">
                             {/* Medications Grid - Side by Side */}
                             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                              {/* Morning Medications */}
-                              <div className="border rounded-lg p-4 h-fit">
-                                <h4 className="font-medium text-yellow-600 mb-3 flex items-center gap-2">
-                                  <div className="w-3 h-3 bg-yellow-400 rounded-full"></div>
-                                  <span className="text-sm">Morning</span>
-                                </h4>
-                                <div className="text-xs text-gray-500 mb-2">
-                                  {patientMedications.medicationsByTime.morning.length} medications
-                                </div>
-                                <div className="space-y-2">
-                                  {patientMedications.medicationsByTime.morning.length > 0 ? (
-                                    patientMedications.medicationsByTime.morning.map((med, index) => (
-                                      <div key={index} className="p-2 bg-yellow-50 rounded text-sm">
-                                        <div className="font-medium text-gray-900">{med.medicationName}</div>
-                                        <div className="text-yellow-700 font-medium">{med.dose}</div>
-                                        {med.strength && (
-                                          <div className="text-xs text-gray-500">{med.strength}</div>
-                                        )}
-                                      </div>
-                                    ))
-                                  ) : (
-                                    <div className="text-xs text-gray-400 italic">No morning medications</div>
-                                  )}
-                                </div>
-                              </div>
-
-                              {/* Afternoon Medications */}
-                              <div className="border rounded-lg p-4 h-fit">
-                                <h4 className="font-medium text-orange-600 mb-3 flex items-center gap-2">
-                                  <div className="w-3 h-3 bg-orange-400 rounded-full"></div>
-                                  <span className="text-sm">Afternoon</span>
-                                </h4>
-                                <div className="text-xs text-gray-500 mb-2">
-                                  {patientMedications.medicationsByTime.afternoon.length} medications
-                                </div>
-                                <div className="space-y-2">
-                                  {patientMedications.medicationsByTime.afternoon.length > 0 ? (
-                                    patientMedications.medicationsByTime.afternoon.map((med, index) => (
-                                      <div key={index} className="p-2 bg-orange-50 rounded text-sm">
-                                        <div className="font-medium text-gray-900">{med.medicationName}</div>
-                                        <div className="text-orange-700 font-medium">{med.dose}</div>
-                                        {med.strength && (
-                                          <div className="text-xs text-gray-500">{med.strength}</div>
-                                        )}
-                                      </div>
-                                    ))
-                                  ) : (
-                                    <div className="text-xs text-gray-400 italic">No afternoon medications</div>
-                                  )}
+                              {patientMedications.administrationTimes.map((administrationTime, index) => {
+                                const slot = administrationTime.id;
+                                const slotMedications = patientMedications.medicationsByTime[slot] ?? [];
+                                const { headingClass, dotClass, itemClass, doseClass } = SLOT_STYLES[index % SLOT_STYLES.length];
+                                return (
+                                <div key={slot} className="border rounded-lg p-4 h-fit">
+                                  <h4 className={`font-medium ${headingClass} mb-3 flex items-center gap-2`}>
+                                    <div className={`w-3 h-3 ${dotClass} rounded-full`}></div>
+                                    <span className="text-sm">{formatAdministrationTime(administrationTime)}</span>
+                                  </h4>
+                                  <div className="text-xs text-gray-500 mb-2">
+                                    {slotMedications.length} medications
+                                  </div>
+                                  <div className="space-y-2">
+                                    {slotMedications.length > 0 ? (
+                                      slotMedications.map((med) => {
+                                        const key = `${slot}:${med._id}`;
+                                        const item = checklist[key];
+                                        return (
+                                          <div key={key} className={`p-2 ${itemClass} rounded text-sm space-y-2`}>
+                                            <div>
+                                              <div className="font-medium text-gray-900">{med.medicationName}</div>
+                                              <div className={`${doseClass} font-medium`}>{med.dose}</div>
+                                              {med.strength && (
+                                                <div className="text-xs text-gray-500">{med.strength}</div>
+                                              )}
+                                              {med.schedule && med.schedule.type !== "daily" && (
+                                                <div className="text-xs font-medium text-purple-700">
+                                                  {med.scheduleLabel} ({med.dueDates.length} of {patientMedications.dates.length} days)
+                                                </div>
+                                              )}
+                                              {med.scheduleProblem && (
+                                                <div className="text-xs font-medium text-red-700">{med.scheduleProblem}</div>
+                                              )}
+                                            </div>
+                                            <div className="flex gap-1">
+                                              {CHECKLIST_OUTCOMES.map(({ outcome, label: outcomeLabel, selectedClass }) => (
+                                                <button
+                                                  key={outcome}
+                                                  type="button"
+                                                  onClick={() => setChecklistOutcome(key, outcome)}
+                                                  className={`flex-1 px-1 py-1 rounded border text-xs bg-white ${
+                                                    item?.outcome === outcome ? selectedClass : "text-gray-600 hover:bg-gray-50"
+                                                  }`}
+                                                >
+                                                  {outcomeLabel}
+                                                </button>
+                                              ))}
+                                            </div>
+                                            {item && item.outcome !== "verified" && (
+                                              <Input
+                                                value={item.note}
+                                                onChange={(e) => setChecklistNote(key, e.target.value)}
+                                                placeholder="What was wrong?"
+                                                className="h-8 text-xs bg-white"
+                                              />
+                                            )}
+                                          </div>
+                                        );
+                                      })
+                                    ) : (
+                                      <div className="text-xs text-gray-400 italic">No {administrationTime.label.toLowerCase()} medications</div>
+                                    )}
+                                  </div>
                                 </div>
-                              </div>
+                                );
+                              })}
+                            </div>
 
-                              {/* Evening Medications */}
-                              <div className="border rounded-lg p-4 h-fit">
-                                <h4 className="font-medium text-purple-600 mb-3 flex items-center gap-2">
-                                  <div className="w-3 h-3 bg-purple-400 rounded-full"></div>
-                                  <span className="text-sm">Evening</span>
-                                </h4>
-                                <div className="text-xs text-gray-500 mb-2">
-                                  {patientMedications.medicationsByTime.evening.length} medications
-                                </div>
-                                <div className="space-y-2">
-                                  {patientMedications.medicationsByTime.evening.length > 0 ? (
-                                    patientMedications.medicationsByTime.evening.map((med, index) => (
-                                      <div key={index} className="p-2 bg-purple-50 rounded text-sm">
-                                        <div className="font-medium text-gray-900">{med.medicationName}</div>
-                                        <div className="text-purple-700 font-medium">{med.dose}</div>
-                                        {med.strength && (
-                                          <div className="text-xs text-gray-500">{med.strength}</div>
-                                        )}
-                                      </div>
-                                    ))
-                                  ) : (
-                                    <div className="text-xs text-gray-400 italic">No evening medications</div>
-                                  )}
-                                </div>
+                            {patientMedications.asNeeded.length > 0 && (
+                              <div className="text-sm text-muted-foreground">
+                                Not packed (as needed):{" "}
+                                {patientMedications.asNeeded.map(med => `${med.medicationName} – ${med.scheduleLabel}`).join("; ")}
                               </div>
+                            )}
 
-                              {/* Night Medications */}
-                              <div className="border rounded-lg p-4 h-fit">
-                                <h4 className="font-medium text-indigo-600 mb-3 flex items-center gap-2">
-                                  <div className="w-3 h-3 bg-indigo-400 rounded-full"></div>
-                                  <span className="text-sm">Night</span>
-                                </h4>
-                                <div className="text-xs text-gray-500 mb-2">
-                                  {patientMedications.medicationsByTime.night.length} medications
-                                </div>
-                                <div className="space-y-2">
-                                  {patientMedications.medicationsByTime.night.length > 0 ? (
-                                    patientMedications.medicationsByTime.night.map((med, index) => (
-                                      <div key={index} className="p-2 bg-indigo-50 rounded text-sm">
-                                        <div className="font-medium text-gray-900">{med.medicationName}</div>
-                                        <div className="text-indigo-700 font-medium">{med.dose}</div>
-                                        {med.strength && (
-                                          <div className="text-xs text-gray-500">{med.strength}</div>
-                                        )}
-                                      </div>
-                                    ))
-                                  ) : (
-                                    <div className="text-xs text-gray-400 italic">No night medications</div>
-                                  )}
-                                </div>
-                              </div>
+                            {/* Checklist Progress */}
+                            <div className="text-sm text-muted-foreground">
+                              {checklistItems.filter(item => checklist[item.key]).length} of {checklistItems.length} items checked
+                              {checklistItems.some(item => checklist[item.key] && checklist[item.key].outcome !== "verified") && (
+                                <span className="ml-2 text-red-600 font-medium">
+                                  • {checklistItems.filter(item => checklist[item.key] && checklist[item.key].outcome !== "verified").length} not verified
+                                </span>
+                              )}
                             </div>
 
                             {/* Summary */}
@@ -636,12 +795,20 @@ export default function WebsterPacksPage() {
                           <Button 
                             type="button"
                             onClick={() => {
-                              setFormData({...formData, medicationVerified: true});
+                              setFormData({
+                                ...formData,
+                                medicationVerified: allItemsVerified,
+                                // A pack with unverified items or unsafe schedules cannot pass
+                                checkStatus: canPass || formData.checkStatus !== "passed"
+                                  ? formData.checkStatus
+                                  : allItemsVerified ? "requires_review" : "failed",
+                              });
                               setCurrentStep(3);
                             }}
+                            disabled={!patientMedications || !isChecklistComplete}
                             className="min-w-32"
                           >
-                            Medications Verified
+                            {allItemsVerified ? "Medications Verified" : "Continue"}
                           </Button>
                         </div>
                       </div>
@@ -657,6 +824,69 @@ export default function WebsterPacksPage() {
                           </p>
                         </div>
 
+                        {/* Packer */}
+                        <div className="space-y-2">
+                          <Label>Packed By *</Label>
+                          {recordedPacker ? (
+                            <div className={`flex items-center gap-2 p-3 rounded-md border text-sm ${
+                              isOwnPack ? "bg-red-50 border-red-200 text-red-800" : "bg-gray-50"
+                            }`}>
+                              <User className="h-4 w-4" />
+                              <span className="font-medium">{recordedPacker.name}</span>
+                              {isOwnPack && <span>- you packed this pack, so another team member must check it</span>}
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-2 p-3 rounded-md border text-sm bg-red-50 border-red-200 text-red-800">
+                              <User className="h-4 w-4" />
+                              <span>
+                                Not signed off as packed. The packer must sign it off on the{" "}
+                                <Link href={`/webster-packs/packs/${encodeURIComponent(formData.websterPackId.trim())}`} className="underline">
+                                  pack&apos;s page
+                                </Link>{" "}
+                                before it can be checked.
+                              </span>
+                            </div>
+                          )}
+                          {packCheckStatus && "packDetails" in packCheckStatus && packCheckStatus.packDetails?.requiresSecondCheck && (
+                            <p className="text-sm text-orange-600">
+                              High-risk patient: a second team member must also sign off this pack before it can be dispatched.
+                            </p>
+                          )}
+                        </div>
+
+                        {/* Unverified checklist items */}
+                        {!allItemsVerified && (
+                          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm">
+                            <div className="font-medium text-red-800 mb-1">
+                              Not every medication was verified, so this pack cannot pass
+                            </div>
+                            <ul className="text-red-700 space-y-0.5">
+                              {checklistItems
+                                .filter(item => checklist[item.key]?.outcome !== "verified")
+                                .map(item => (
+                                  <li key={item.key}>
+                                    {item.medicationName} ({item.time}): {checklist[item.key]?.outcome}
+                                    {checklist[item.key]?.note && ` - ${checklist[item.key].note}`}
+                                  </li>
+                                ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        {/* Unsafe schedules */}
+                        {scheduleProblems.length > 0 && (
+                          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm">
+                            <div className="font-medium text-red-800 mb-1">
+                              A medication&apos;s schedule must be corrected before this pack can pass
+                            </div>
+                            <ul className="text-red-700 space-y-0.5">
+                              {scheduleProblems.map((problem) => (
+                                <li key={problem}>{problem}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
                         {/* Check Status */}
                         <div className="space-y-2">
                           <Label htmlFor="check-status">Check Status</Label>
@@ -668,7 +898,7 @@ export default function WebsterPacksPage() {
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="passed">
+                              <SelectItem value="passed" disabled={!canPass}>
                                 <div className="flex items-center gap-2">
                                   <CheckCircle2 className="h-4 w-4 text-green-600" />
                                   Passed
@@ -694,38 +924,42 @@ export default function WebsterPacksPage() {
                         {(formData.checkStatus === "failed" || formData.checkStatus === "requires_review") && (
                           <div className="space-y-2">
                             <Label>Issues Identified</Label>
-                            <div className="flex gap-2">
-                              <Input
-                                value={newIssue}
-                                onChange={(e) => setNewIssue(e.target.value)}
-                                placeholder="Describe an issue..."
-                                onKeyPress={(e) => e.key === "Enter" && (e.preventDefault(), handleAddIssue())}
-                              />
-                              <Button type="button" onClick={handleAddIssue} variant="outline">
-                                Add
-                              </Button>
-                            </div>
-                            {formData.issues.length > 0 && (
-                              <div className="flex flex-wrap gap-2 mt-2">
-                                {formData.issues.map((issue: string, index: number) => (
-                                  <Badge key={index} variant="secondary" className="flex items-center gap-1">
-                                    {issue}
+                            {issueCategories && issueCategories.length > 0 ? (
+                              <div className="flex flex-wrap gap-2">
+                                {issueCategories.map((category) => {
+                                  const isSelected = formData.issueCategoryIds.includes(category._id);
+                                  return (
                                     <button
+                                      key={category._id}
                                       type="button"
-                                      onClick={() => handleRemoveIssue(index)}
-                                      className="ml-1 text-xs hover:text-red-600"
+                                      onClick={() => toggleIssueCategory(category._id)}
+                                      title={category.description}
+                                      className={`px-3 py-1.5 rounded-md border text-sm flex items-center gap-2 ${
+                                        isSelected ? "bg-blue-50 border-blue-400 text-blue-900" : "hover:bg-gray-50"
+                                      }`}
                                     >
-                                      ×
+                                      {isSelected && <CheckCircle2 className="h-4 w-4 text-blue-600" />}
+                                      {category.name}
+                                      <Badge className={`${getSeverityColor(category.severity)} border capitalize`}>
+                                        {category.severity}
+                                      </Badge>
                                     </button>
-                                  </Badge>
-                                ))}
+                                  );
+                                })}
                               </div>
+                            ) : (
+                              <p className="text-sm text-muted-foreground">
+                                No issue categories have been set up.{" "}
+                                <Link href="/webster-packs/issues" className="underline">
+                                  Set up issue categories
+                                </Link>
+                              </p>
                             )}
                           </div>
                         )}
 
                         {/* Additional Details */}
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div className="grid grid-cols-2 gap-4">
                           <div className="space-y-2">
                             <Label htmlFor="medication-count">Medication Count</Label>
                             <Input
@@ -733,8 +967,13 @@ export default function WebsterPacksPage() {
                               type="number"
                               value={formData.medicationCount}
                               onChange={(e) => setFormData({...formData, medicationCount: e.target.value})}
-                              placeholder="0"
+                              placeholder={measurementAssessment?.expectedTabletCount?.toString() ?? "0"}
                             />
+                            {measurementAssessment?.expectedTabletCount != null && (
+                              <p className="text-xs text-muted-foreground">
+                                Expected {measurementAssessment.expectedTabletCount}
+                              </p>
+                            )}
                           </div>
                           
                           <div className="space-y-2">
@@ -747,28 +986,74 @@ export default function WebsterPacksPage() {
                               onChange={(e) => setFormData({...formData, packWeight: e.target.value})}
                               placeholder="0.0"
                             />
+                            {measurementAssessment?.typicalWeight && (
+                              <p className="text-xs text-muted-foreground">
+                                Usually {measurementAssessment.typicalWeight.mean}g ± {measurementAssessment.typicalWeight.tolerance}g
+                              </p>
+                            )}
                           </div>
-                          
+                        </div>
+
+                        {/* Batch and expiry per medication */}
+                        {packedMedications.length > 0 && (
                           <div className="space-y-2">
-                            <Label htmlFor="batch-number">Batch Number</Label>
-                            <Input
-                              id="batch-number"
-                              value={formData.batchNumber}
-                              onChange={(e) => setFormData({...formData, batchNumber: e.target.value})}
-                              placeholder="Batch #"
-                            />
+                            <Label>Batch & Expiry</Label>
+                            <p className="text-xs text-muted-foreground">
+                              Pack covers {packPeriod.start} to {packPeriod.end}
+                            </p>
+                            <div className="space-y-2">
+                              {packedMedications.map(item => (
+                                <div key={item.medicationId} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+                                  <span className="text-sm font-medium">{item.medicationName}</span>
+                                  <Input
+                                    aria-label={`${item.medicationName} batch number`}
+                                    value={batches[item.medicationId]?.batchNumber ?? ""}
+                                    onChange={(e) => setBatchField(item.medicationId, "batchNumber", e.target.value)}
+                                    placeholder="Batch #"
+                                  />
+                                  <Input
+                                    aria-label={`${item.medicationName} expiry date`}
+                                    type="date"
+                                    value={batches[item.medicationId]?.expiryDate ?? ""}
+                                    onChange={(e) => setBatchField(item.medicationId, "expiryDate", e.target.value)}
+                                  />
+                                </div>
+                              ))}
+                            </div>
                           </div>
-                          
-                          <div className="space-y-2">
-                            <Label htmlFor="expiry-date">Earliest Expiry</Label>
-                            <Input
-                              id="expiry-date"
-                              type="date"
-                              value={formData.expiryDate}
-                              onChange={(e) => setFormData({...formData, expiryDate: e.target.value})}
-                            />
+                        )}
+
+                        {/* Expiry within the pack period */}
+                        {expiryWarnings.length > 0 && (
+                          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+                            <div className="font-medium text-yellow-800 mb-1">
+                              {formData.checkStatus === "passed"
+                                ? "This pack will be saved as Requires Review"
+                                : "Medications expire before the pack is finished"}
+                            </div>
+                            <ul className="text-yellow-700 space-y-0.5">
+                              {expiryWarnings.map((warning) => (
+                                <li key={warning}>{warning}</li>
+                              ))}
+                            </ul>
                           </div>
-                        </div>
+                        )}
+
+                        {/* Measurement anomalies */}
+                        {measurementAssessment && measurementAssessment.anomalies.length > 0 && (
+                          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+                            <div className="font-medium text-yellow-800 mb-1">
+                              {formData.checkStatus === "passed"
+                                ? "This pack will be saved as Requires Review"
+                                : "Measurements look unusual"}
+                            </div>
+                            <ul className="text-yellow-700 space-y-0.5">
+                              {measurementAssessment.anomalies.map((anomaly) => (
+                                <li key={anomaly}>{anomaly}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
 
                         {/* Notes */}
                         <div className="space-y-2">
@@ -795,7 +1080,7 @@ export default function WebsterPacksPage() {
                           <Button 
                             type="button"
                             onClick={handleSubmit}
-                            disabled={isSubmitting}
+                            disabled={isSubmitting || isOwnPack || !recordedPacker}
                             className="min-w-32"
                           >
                             {isSubmitting ? (
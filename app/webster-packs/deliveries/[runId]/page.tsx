@@ -0,0 +1,396 @@
+"use client";
+
+import { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  CheckCircle2,
+  FileDown,
+  MapPin,
+  Phone,
+  Route,
+  Trash2,
+  Truck,
+  XCircle,
+} from "lucide-react";
+import Link from "next/link";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Id } from "@/convex/_generated/dataModel";
+import { exportDeliveryManifestToPDF } from "@/components/ui/delivery-manifest-pdf";
+import {
+  ProofOfDeliveryCapture,
+  ProofOfDelivery,
+  EMPTY_PROOF_OF_DELIVERY,
+  useProofOfDeliveryUpload,
+} from "@/components/ui/proof-of-delivery-capture";
+
+export default function DeliveryRunPage() {
+  const params = useParams();
+  const router = useRouter();
+  const runId = params.runId as Id<"deliveryRuns">;
+
+  const organization = useQuery(api.users.getOrganization);
+  const details = useQuery(api.deliveryRuns.getDeliveryRun, { runId });
+  const updateStopStatus = useMutation(api.deliveryRuns.updateDeliveryStopStatus);
+  const cancelRun = useMutation(api.deliveryRuns.cancelDeliveryRun);
+  const uploadProofOfDelivery = useProofOfDeliveryUpload();
+
+  const [failingStopId, setFailingStopId] = useState<Id<"deliveryRunStops"> | null>(null);
+  const [failureReason, setFailureReason] = useState("");
+  const [deliveringStopId, setDeliveringStopId] = useState<Id<"deliveryRunStops"> | null>(null);
+  const [recipientName, setRecipientName] = useState("");
+  const [proofOfDelivery, setProofOfDelivery] = useState<ProofOfDelivery>(EMPTY_PROOF_OF_DELIVERY);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Check if user has access (pharmacy organizations only)
+  const hasAccess = organization?.type === "pharmacy";
+
+  const handleStopStatus = async (stopId: Id<"deliveryRunStops">, status: "delivered" | "failed") => {
+    setIsSubmitting(true);
+    try {
+      const proof = status === "delivered" ? await uploadProofOfDelivery(proofOfDelivery) : {};
+      await updateStopStatus({
+        ...proof,
+        stopId,
+        status,
+        failureReason: status === "failed" ? failureReason.trim() : undefined,
+        recipientName: status === "delivered" ? recipientName.trim() || undefined : undefined,
+      });
+      toast.success(status === "delivered" ? "Stop marked delivered" : "Stop marked failed");
+      setFailingStopId(null);
+      setFailureReason("");
+      setDeliveringStopId(null);
+      setRecipientName("");
+      setProofOfDelivery(EMPTY_PROOF_OF_DELIVERY);
+    } catch (error) {
+      console.error("Error updating delivery stop:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update stop");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleExportManifest = async () => {
+    if (!details) return;
+
+    setIsExporting(true);
+    try {
+      await exportDeliveryManifestToPDF(details.run, details.stops);
+      toast.success("Manifest downloaded");
+    } catch (error) {
+      console.error("Error exporting manifest:", error);
+      toast.error("Failed to export manifest");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCancelRun = async () => {
+    if (!window.confirm("Cancel this delivery run? Its packs will go back to the unassigned list.")) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await cancelRun({ runId });
+      toast.success("Delivery run cancelled");
+      router.push("/webster-packs/deliveries");
+    } catch (error) {
+      console.error("Error cancelling delivery run:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel delivery run");
+      setIsSubmitting(false);
+    }
+  };
+
+  const getStopStatusColor = (status: string) => {
+    switch (status) {
+      case "pending": return "text-gray-600 bg-gray-50 border-gray-200";
+      case "delivered": return "text-green-600 bg-green-50 border-green-200";
+      case "failed": return "text-red-600 bg-red-50 border-red-200";
+      default: return "text-gray-600 bg-gray-50 border-gray-200";
+    }
+  };
+
+  if (!hasAccess) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-6 text-center">
+            <Truck className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Access Restricted
+            </h1>
+            <p className="text-muted-foreground mb-4">
+              Delivery runs are only available to pharmacy organisations.
+            </p>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/webster-packs/deliveries">
+                    Delivery Runs
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>{details?.run.driverName ?? "Run"}</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <div className="max-w-5xl mx-auto space-y-6 w-full">
+            {details === undefined ? (
+              <div className="flex items-center justify-center p-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : details === null ? (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <Route className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-muted-foreground mb-2">
+                    Run Not Found
+                  </h3>
+                  <p className="text-muted-foreground">
+                    This delivery run does not exist or has been cancelled.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                {/* Run Summary */}
+                <div className="bg-white rounded-lg shadow-sm p-6">
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div className="flex items-center gap-4">
+                      <div className="bg-primary/10 p-3 rounded-lg">
+                        <Truck className="w-8 h-8 text-primary" />
+                      </div>
+                      <div>
+                        <h1 className="text-3xl font-bold">{details.run.driverName}</h1>
+                        <p className="text-muted-foreground">
+                          {format(new Date(`${details.run.runDate}T00:00:00`), "EEEE dd/MM/yyyy")} • {details.stops.length} stops
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" onClick={handleExportManifest} disabled={isExporting}>
+                        <FileDown className="h-4 w-4 mr-2" />
+                        {isExporting ? "Exporting..." : "Print Manifest"}
+                      </Button>
+                      {details.run.status === "planned" && (
+                        <Button variant="outline" onClick={handleCancelRun} disabled={isSubmitting}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Cancel Run
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {details.run.notes && (
+                    <p className="mt-4 text-sm p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                      {details.run.notes}
+                    </p>
+                  )}
+                </div>
+
+                {/* Stops */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Stops</CardTitle>
+                    <CardDescription>
+                      {details.canUpdateStops
+                        ? "Mark each stop as it is delivered or fails"
+                        : "Only the driver or a pharmacy admin can update stops"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {details.stops.map((stop) => (
+                      <div key={stop._id} className="p-4 border rounded-lg space-y-3">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="flex items-start gap-3">
+                            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary/10 font-bold text-primary">
+                              {stop.sequence}
+                            </div>
+                            <div className="space-y-1">
+                              <Link href={`/patients/${stop.patientId}`} className="font-medium hover:underline">
+                                {stop.patientName}
+                              </Link>
+                              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                                <MapPin className="h-3 w-3" />
+                                {stop.deliveryAddress}
+                              </div>
+                              {stop.patientPhone && (
+                                <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                                  <Phone className="h-3 w-3" />
+                                  {stop.patientPhone}
+                                </div>
+                              )}
+                              <div className="text-xs font-mono text-muted-foreground">{stop.websterPackId}</div>
+                              {stop.deliveryNotes && (
+                                <div className="text-sm">{stop.deliveryNotes}</div>
+                              )}
+                              {stop.failureReason && (
+                                <div className="text-sm text-red-600">Failed: {stop.failureReason}</div>
+                              )}
+                            </div>
+                          </div>
+                          <Badge className={`${getStopStatusColor(stop.status)} border capitalize`}>
+                            {stop.status}
+                          </Badge>
+                        </div>
+
+                        {details.canUpdateStops && stop.status === "pending" && (
+                          deliveringStopId === stop._id ? (
+                            <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+                              <div className="space-y-2">
+                                <Label htmlFor={`recipient-${stop._id}`}>Received By</Label>
+                                <Input
+                                  id={`recipient-${stop._id}`}
+                                  value={recipientName}
+                                  onChange={(e) => setRecipientName(e.target.value)}
+                                  placeholder="Name of the person receiving the pack"
+                                />
+                              </div>
+                              <ProofOfDeliveryCapture value={proofOfDelivery} onChange={setProofOfDelivery} />
+                              <div className="flex gap-2">
+                                <Button
+                                  type="button"
+                                  disabled={isSubmitting || (!proofOfDelivery.signature && !proofOfDelivery.photo)}
+                                  onClick={() => handleStopStatus(stop._id, "delivered")}
+                                >
+                                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                                  {isSubmitting ? "Saving..." : "Confirm Delivered"}
+                                </Button>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  onClick={() => {
+                                    setDeliveringStopId(null);
+                                    setRecipientName("");
+                                    setProofOfDelivery(EMPTY_PROOF_OF_DELIVERY);
+                                  }}
+                                >
+                                  Cancel
+                                </Button>
+                              </div>
+                            </div>
+                          ) : failingStopId === stop._id ? (
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Input
+                                value={failureReason}
+                                onChange={(e) => setFailureReason(e.target.value)}
+                                placeholder="Reason (e.g. no one home)"
+                                className="flex-1 min-w-48"
+                                autoFocus
+                              />
+                              <Button
+                                type="button"
+                                variant="destructive"
+                                disabled={isSubmitting || !failureReason.trim()}
+                                onClick={() => handleStopStatus(stop._id, "failed")}
+                              >
+                                Confirm Failed
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                onClick={() => {
+                                  setFailingStopId(null);
+                                  setFailureReason("");
+                                }}
+                              >
+                                Cancel
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="flex gap-2">
+                              <Button
+                                type="button"
+                                size="sm"
+                                disabled={isSubmitting}
+                                onClick={() => {
+                                  setFailingStopId(null);
+                                  setDeliveringStopId(stop._id);
+                                  setRecipientName(stop.patientName);
+                                  setProofOfDelivery(EMPTY_PROOF_OF_DELIVERY);
+                                }}
+                              >
+                                <CheckCircle2 className="h-4 w-4 mr-2" />
+                                Delivered
+                              </Button>
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                disabled={isSubmitting}
+                                onClick={() => {
+                                  setDeliveringStopId(null);
+                                  setFailingStopId(stop._id);
+                                  setFailureReason("");
+                                }}
+                              >
+                                <XCircle className="h-4 w-4 mr-2" />
+                                Failed
+                              </Button>
+                            </div>
+                          )
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,359 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  ChevronLeft,
+  ChevronRight,
+  MapPin,
+  Route,
+  Truck,
+  User,
+} from "lucide-react";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { toast } from "sonner";
+import { addDays, format } from "date-fns";
+import { Id } from "@/convex/_generated/dataModel";
+
+export default function DeliveryRunsPage() {
+  const organization = useQuery(api.users.getOrganization);
+  const [runDate, setRunDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const runs = useQuery(api.deliveryRuns.getDeliveryRuns, runDate ? { runDate } : "skip");
+  const unassigned = useQuery(api.deliveryRuns.getUnassignedDeliveries);
+  const members = useQuery(api.users.getOrganizationMembers);
+  const createRun = useMutation(api.deliveryRuns.createDeliveryRun);
+
+  const [selectedScanOutIds, setSelectedScanOutIds] = useState<Id<"websterPackScanOuts">[]>([]);
+  const [driverId, setDriverId] = useState<Id<"userProfiles"> | "">("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Check if user has access (pharmacy organizations only)
+  const hasAccess = organization?.type === "pharmacy";
+
+  const shiftDate = (days: number) => {
+    setRunDate(format(addDays(new Date(`${runDate}T00:00:00`), days), "yyyy-MM-dd"));
+  };
+
+  const toggleDelivery = (scanOutId: Id<"websterPackScanOuts">) => {
+    setSelectedScanOutIds(prev =>
+      prev.includes(scanOutId) ? prev.filter(id => id !== scanOutId) : [...prev, scanOutId]
+    );
+  };
+
+  const handleCreateRun = async () => {
+    if (!driverId) {
+      toast.error("Select a driver for the run");
+      return;
+    }
+    if (selectedScanOutIds.length === 0) {
+      toast.error("Select at least one delivery");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await createRun({
+        runDate,
+        driverId,
+        scanOutIds: selectedScanOutIds,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`Delivery run created with ${selectedScanOutIds.length} stops`);
+      setSelectedScanOutIds([]);
+      setDriverId("");
+      setNotes("");
+    } catch (error) {
+      console.error("Error creating delivery run:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create delivery run");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getRunStatusColor = (status: string) => {
+    switch (status) {
+      case "planned": return "text-gray-600 bg-gray-50 border-gray-200";
+      case "in_progress": return "text-blue-600 bg-blue-50 border-blue-200";
+      case "completed": return "text-green-600 bg-green-50 border-green-200";
+      default: return "text-gray-600 bg-gray-50 border-gray-200";
+    }
+  };
+
+  if (!hasAccess) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-6 text-center">
+            <Truck className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Access Restricted
+            </h1>
+            <p className="text-muted-foreground mb-4">
+              Delivery runs are only available to pharmacy organisations.
+            </p>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/webster-packs">
+                    Webster Packs
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Delivery Runs</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <div className="max-w-7xl mx-auto space-y-6 w-full">
+            {/* Header */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                  <div className="bg-primary/10 p-3 rounded-lg">
+                    <Truck className="w-8 h-8 text-primary" />
+                  </div>
+                  <div>
+                    <h1 className="text-3xl font-bold">Delivery Runs</h1>
+                    <p className="text-muted-foreground">
+                      Assign dispatched packs to drivers and print manifests
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="icon" onClick={() => shiftDate(-1)} disabled={!runDate}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Input
+                    type="date"
+                    value={runDate}
+                    onChange={(e) => setRunDate(e.target.value)}
+                    className="w-44"
+                  />
+                  <Button variant="outline" size="icon" onClick={() => shiftDate(1)} disabled={!runDate}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" onClick={() => setRunDate(format(new Date(), "yyyy-MM-dd"))}>
+                    Today
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Unassigned Deliveries */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <MapPin className="h-5 w-5" />
+                      Awaiting a Run
+                    </span>
+                    <Badge variant="secondary">{unassigned?.length ?? 0}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    Packs scanned out for home delivery, ordered by suburb and postcode
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {unassigned === undefined ? (
+                    <div className="flex items-center justify-center p-8">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                    </div>
+                  ) : unassigned.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No dispatched deliveries are waiting for a run
+                    </p>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {selectedScanOutIds.length} of {unassigned.length} selected
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedScanOutIds(
+                            selectedScanOutIds.length === unassigned.length ? [] : unassigned.map(delivery => delivery.scanOutId)
+                          )}
+                        >
+                          {selectedScanOutIds.length === unassigned.length ? "Clear" : "Select all"}
+                        </Button>
+                      </div>
+                      <div className="space-y-2 max-h-96 overflow-y-auto">
+                        {unassigned.map((delivery) => (
+                          <label
+                            key={delivery.scanOutId}
+                            className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer hover:bg-gray-50"
+                          >
+                            <Checkbox
+                              checked={selectedScanOutIds.includes(delivery.scanOutId)}
+                              onCheckedChange={() => toggleDelivery(delivery.scanOutId)}
+                              className="mt-1"
+                            />
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center justify-between gap-2">
+                                <span className="font-medium">{delivery.patientName}</span>
+                                <span className="text-xs font-mono text-muted-foreground">{delivery.websterPackId}</span>
+                              </div>
+                              <div className="text-sm text-muted-foreground truncate">{delivery.deliveryAddress}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {delivery.suburb} {delivery.postcode}
+                              </div>
+                            </div>
+                          </label>
+                        ))}
+                      </div>
+
+                      <Separator />
+
+                      <div className="space-y-3">
+                        <div className="space-y-2">
+                          <Label>Driver *</Label>
+                          <Select value={driverId} onValueChange={(value) => setDriverId(value as Id<"userProfiles">)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a driver" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(members || []).map(member => (
+                                <SelectItem key={member._id} value={member._id}>
+                                  {member.firstName} {member.lastName}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="run-notes">Notes</Label>
+                          <Textarea
+                            id="run-notes"
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            placeholder="Instructions for the driver..."
+                            rows={2}
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          className="w-full"
+                          onClick={handleCreateRun}
+                          disabled={isSubmitting || !driverId || selectedScanOutIds.length === 0}
+                        >
+                          <Route className="h-4 w-4 mr-2" />
+                          Create Run for {format(new Date(`${runDate}T00:00:00`), "dd/MM/yyyy")}
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Runs for the day */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Route className="h-5 w-5" />
+                    Runs
+                  </CardTitle>
+                  <CardDescription>
+                    Delivery runs for {runDate ? format(new Date(`${runDate}T00:00:00`), "EEEE dd/MM/yyyy") : "the selected date"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {runs === undefined ? (
+                    <div className="flex items-center justify-center p-8">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                    </div>
+                  ) : runs.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No delivery runs for this date
+                    </p>
+                  ) : (
+                    runs.map((run) => (
+                      <Link
+                        key={run._id}
+                        href={`/webster-packs/deliveries/${run._id}`}
+                        className="block p-4 border rounded-lg hover:bg-gray-50"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="flex items-center gap-2 font-medium">
+                            <User className="h-4 w-4 text-muted-foreground" />
+                            {run.driverName}
+                            {run.isMyRun && <Badge variant="outline">My run</Badge>}
+                          </span>
+                          <Badge className={`${getRunStatusColor(run.status)} border capitalize`}>
+                            {run.status.replace("_", " ")}
+                          </Badge>
+                        </div>
+                        <div className="text-sm text-muted-foreground mt-1">
+                          {run.totalStops} stops • {run.deliveredStops} delivered
+                          {run.failedStops > 0 && (
+                            <span className="text-red-600"> • {run.failedStops} failed</span>
+                          )}
+                        </div>
+                      </Link>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ClipboardList,
+  Package,
+  PackageCheck,
+  Truck,
+} from "lucide-react";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { addDays, format } from "date-fns";
+
+type Stage = "pack" | "check" | "dispatch";
+
+const STAGES: { stage: Stage; title: string; description: string; actionLabel: string; actionUrl: string; icon: typeof Package }[] = [
+  {
+    stage: "pack",
+    title: "To Pack",
+    description: "Packs to be made up and labelled",
+    actionLabel: "Print Labels",
+    actionUrl: "/webster-packs/labels",
+    icon: Package,
+  },
+  {
+    stage: "check",
+    title: "To Check",
+    description: "Packed and awaiting a quality check",
+    actionLabel: "Check",
+    actionUrl: "/webster-packs/checking-packs",
+    icon: PackageCheck,
+  },
+  {
+    stage: "dispatch",
+    title: "To Dispatch",
+    description: "Checked and ready to scan out",
+    actionLabel: "Scan Out",
+    actionUrl: "/webster-packs/scan-out",
+    icon: Truck,
+  },
+];
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), "dd/MM/yyyy");
+
+export default function PacksDuePage() {
+  const organization = useQuery(api.users.getOrganization);
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const packsDue = useQuery(api.websterPacks.getPacksDue, date ? { date } : "skip");
+
+  // Check if user has access (pharmacy organizations only)
+  const hasAccess = organization?.type === "pharmacy";
+
+  const shiftDate = (days: number) => {
+    setDate(format(addDays(new Date(`${date}T00:00:00`), days), "yyyy-MM-dd"));
+  };
+
+  if (!hasAccess) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-6 text-center">
+            <ClipboardList className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Access Restricted
+            </h1>
+            <p className="text-muted-foreground mb-4">
+              The packs due queue is only available to pharmacy organisations.
+            </p>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/webster-packs">
+                    Webster Packs
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Packs Due</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <div className="max-w-7xl mx-auto space-y-6 w-full">
+            {/* Header */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                  <div className="bg-primary/10 p-3 rounded-lg">
+                    <ClipboardList className="w-8 h-8 text-primary" />
+                  </div>
+                  <div>
+                    <h1 className="text-3xl font-bold">Packs Due</h1>
+                    <p className="text-muted-foreground">
+                      Daily worklist from patient pack schedules
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="icon" onClick={() => shiftDate(-1)} disabled={!date}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="w-44"
+                  />
+                  <Button variant="outline" size="icon" onClick={() => shiftDate(1)} disabled={!date}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" onClick={() => setDate(format(new Date(), "yyyy-MM-dd"))}>
+                    Today
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {packsDue === undefined ? (
+              <div className="flex items-center justify-center p-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {STAGES.map(({ stage, title, description, actionLabel, actionUrl, icon: Icon }) => {
+                  const items = packsDue.filter(item => item.stage === stage);
+                  const overdueCount = items.filter(item => item.isOverdue).length;
+
+                  return (
+                    <Card key={stage}>
+                      <CardHeader>
+                        <CardTitle className="flex items-center justify-between">
+                          <span className="flex items-center gap-2">
+                            <Icon className="h-5 w-5" />
+                            {title}
+                          </span>
+                          <span className="flex items-center gap-2">
+                            {overdueCount > 0 && (
+                              <Badge className="text-red-600 bg-red-50 border-red-200 border">
+                                {overdueCount} overdue
+                              </Badge>
+                            )}
+                            <Badge variant="secondary">{items.length}</Badge>
+                          </span>
+                        </CardTitle>
+                        <CardDescription>{description}</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {items.length === 0 ? (
+                          <p className="text-sm text-muted-foreground text-center py-4">
+                            Nothing due
+                          </p>
+                        ) : (
+                          items.map((item) => (
+                            <div
+                              key={`${item.scheduleId}-${item.packWeekStart}`}
+                              className={`p-3 border rounded-lg space-y-1 ${item.isOverdue ? "border-red-200 bg-red-50" : ""}`}
+                            >
+                              <div className="flex items-center justify-between gap-2">
+                                <Link
+                                  href={`/patients/${item.patientId}`}
+                                  className="font-medium hover:underline"
+                                >
+                                  {item.patientName}
+                                </Link>
+                                <Badge variant="outline" className="capitalize">{item.packType}</Badge>
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {item.patientShareToken} • Week of {formatDate(item.packWeekStart)}
+                              </div>
+                              {item.websterPackId && (
+                                <div className="text-xs">
+                                  <Link
+                                    href={`/webster-packs/packs/${encodeURIComponent(item.websterPackId)}`}
+                                    className="font-mono hover:underline"
+                                  >
+                                    {item.websterPackId}
+                                  </Link>
+                                  {item.checkStatus && item.checkStatus !== "passed" && (
+                                    <span className="ml-2 text-red-600 capitalize">
+                                      Last check {item.checkStatus.replace("_", " ")}
+                                    </span>
+                                  )}
+                                  {item.packStatus === "returned" && (
+                                    <span className="ml-2 text-red-600">Returned</span>
+                                  )}
+                                </div>
+                              )}
+                              {item.signOffProblem && (
+                                <div className="text-xs text-orange-600">{item.signOffProblem}</div>
+                              )}
+                              <div className="flex items-center justify-between pt-1">
+                                <span className={`text-xs ${item.isOverdue ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+                                  {item.isOverdue ? "Overdue since" : "Due"} {formatDate(item.dueDate)}
+                                </span>
+                                <Button asChild variant="outline" size="sm">
+                                  {item.signOffProblem && item.websterPackId ? (
+                                    <Link href={`/webster-packs/packs/${encodeURIComponent(item.websterPackId)}`}>Review</Link>
+                                  ) : (
+                                    <Link href={actionUrl}>{actionLabel}</Link>
+                                  )}
+                                </Button>
+                              </div>
+                            </div>
+                          ))
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,509 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartConfig,
+} from "@/components/ui/chart";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { AlertTriangle, BarChart3, ListChecks, Plus } from "lucide-react";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { toast } from "sonner";
+import { addDays, format, subDays } from "date-fns";
+import { Id } from "@/convex/_generated/dataModel";
+
+type Severity = "low" | "medium" | "high" | "critical";
+
+const SEVERITIES: Severity[] = ["low", "medium", "high", "critical"];
+
+const chartConfig = {
+  count: {
+    label: "Occurrences",
+    color: "var(--chart-1)",
+  },
+  cumulativePercentage: {
+    label: "Cumulative %",
+    color: "var(--chart-2)",
+  },
+} satisfies ChartConfig;
+
+const getSeverityColor = (severity?: string) => {
+  switch (severity) {
+    case "critical": return "text-red-700 bg-red-50 border-red-200";
+    case "high": return "text-orange-700 bg-orange-50 border-orange-200";
+    case "medium": return "text-yellow-700 bg-yellow-50 border-yellow-200";
+    default: return "text-gray-600 bg-gray-50 border-gray-200";
+  }
+};
+
+export default function PackIssuesPage() {
+  // Queries
+  const organization = useQuery(api.users.getOrganization);
+  const userProfile = useQuery(api.users.getCurrentUserProfile);
+  const categories = useQuery(api.packIssues.getPackIssueCategories, { includeInactive: true });
+
+  // Mutations
+  const createCategory = useMutation(api.packIssues.createPackIssueCategory);
+  const updateCategory = useMutation(api.packIssues.updatePackIssueCategory);
+  const addDefaultCategories = useMutation(api.packIssues.addDefaultPackIssueCategories);
+
+  // Report date range (inclusive calendar days)
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 29), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  // New category form
+  const [newCategory, setNewCategory] = useState({
+    name: "",
+    description: "",
+    severity: "medium" as Severity,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const report = useQuery(
+    api.packIssues.getIssueParetoReport,
+    startDate && endDate && startDate <= endDate ? {
+      startDate: new Date(`${startDate}T00:00:00`).getTime(),
+      endDate: addDays(new Date(`${endDate}T00:00:00`), 1).getTime(),
+    } : "skip"
+  );
+
+  // Check if user has access (pharmacy organizations only)
+  const hasAccess = organization?.type === "pharmacy";
+  const canManage = userProfile?.role === "owner" || userProfile?.role === "admin";
+
+  const handleCreateCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCategory.name.trim()) {
+      toast.error("Category name is required");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createCategory({
+        name: newCategory.name,
+        description: newCategory.description.trim() || undefined,
+        severity: newCategory.severity,
+      });
+      toast.success("Issue category added");
+      setNewCategory({ name: "", description: "", severity: "medium" });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add issue category");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdateCategory = async (
+    categoryId: Id<"packIssueCategories">,
+    updates: { severity?: Severity; isActive?: boolean }
+  ) => {
+    try {
+      await updateCategory({ categoryId, ...updates });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update issue category");
+    }
+  };
+
+  const handleAddDefaults = async () => {
+    try {
+      const added = await addDefaultCategories({});
+      toast.success(added > 0 ? `${added} standard categories added` : "All standard categories are already set up");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add standard categories");
+    }
+  };
+
+  if (!hasAccess) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-6 text-center">
+            <AlertTriangle className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Access Restricted
+            </h1>
+            <p className="text-muted-foreground mb-4">
+              Pack issue reporting is only available to pharmacy organisations.
+            </p>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/webster-packs">
+                    Webster Packs
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Check Issues</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <div className="max-w-7xl mx-auto space-y-6 w-full">
+            {/* Header */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex items-center gap-4">
+                <div className="bg-primary/10 p-3 rounded-lg">
+                  <AlertTriangle className="w-8 h-8 text-primary" />
+                </div>
+                <div>
+                  <h1 className="text-3xl font-bold">Check Issues</h1>
+                  <p className="text-muted-foreground">
+                    Issue categories for pack checks and how often each one occurs
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <Tabs defaultValue="report" className="space-y-4">
+              <TabsList>
+                <TabsTrigger value="report" className="flex items-center gap-2">
+                  <BarChart3 className="h-4 w-4" />
+                  Pareto Report
+                </TabsTrigger>
+                <TabsTrigger value="categories" className="flex items-center gap-2">
+                  <ListChecks className="h-4 w-4" />
+                  Issue Categories
+                </TabsTrigger>
+              </TabsList>
+
+              {/* Pareto Report */}
+              <TabsContent value="report" className="space-y-4">
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="flex flex-wrap items-end gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="start-date">From</Label>
+                        <Input
+                          id="start-date"
+                          type="date"
+                          value={startDate}
+                          onChange={(e) => setStartDate(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="end-date">To</Label>
+                        <Input
+                          id="end-date"
+                          type="date"
+                          value={endDate}
+                          onChange={(e) => setEndDate(e.target.value)}
+                        />
+                      </div>
+                      {report && (
+                        <div className="flex gap-6 text-sm">
+                          <div>
+                            <div className="text-muted-foreground">Checks</div>
+                            <div className="text-2xl font-bold">{report.totalChecks}</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Checks with issues</div>
+                            <div className="text-2xl font-bold">{report.checksWithIssues}</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Issues recorded</div>
+                            <div className="text-2xl font-bold">{report.totalIssues}</div>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {report === undefined ? (
+                  <div className="flex items-center justify-center p-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                  </div>
+                ) : !report || report.issues.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-8 text-center text-muted-foreground">
+                      No issues were recorded on pack checks in this period.
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <>
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Issue Frequency</CardTitle>
+                        <CardDescription>
+                          Categories ranked by occurrences, with the cumulative share of all issues
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ChartContainer config={chartConfig} className="h-80 w-full aspect-auto">
+                          <ComposedChart data={report.issues} margin={{ top: 10, right: 10, bottom: 40, left: 0 }}>
+                            <CartesianGrid vertical={false} />
+                            <XAxis
+                              dataKey="name"
+                              tickLine={false}
+                              axisLine={false}
+                              interval={0}
+                              angle={-30}
+                              textAnchor="end"
+                            />
+                            <YAxis yAxisId="count" allowDecimals={false} tickLine={false} axisLine={false} />
+                            <YAxis
+                              yAxisId="cumulative"
+                              orientation="right"
+                              domain={[0, 100]}
+                              tickFormatter={(value) => `${value}%`}
+                              tickLine={false}
+                              axisLine={false}
+                            />
+                            <ChartTooltip content={<ChartTooltipContent />} />
+                            <Bar yAxisId="count" dataKey="count" fill="var(--color-count)" radius={4} />
+                            <Line
+                              yAxisId="cumulative"
+                              dataKey="cumulativePercentage"
+                              stroke="var(--color-cumulativePercentage)"
+                              strokeWidth={2}
+                              dot={false}
+                            />
+                          </ComposedChart>
+                        </ChartContainer>
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardContent className="pt-6">
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="border-b text-left text-muted-foreground">
+                                <th className="py-2 pr-4">#</th>
+                                <th className="py-2 pr-4">Issue</th>
+                                <th className="py-2 pr-4">Severity</th>
+                                <th className="py-2 pr-4 text-right">Occurrences</th>
+                                <th className="py-2 pr-4 text-right">Share</th>
+                                <th className="py-2 text-right">Cumulative</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {report.issues.map((issue, index) => (
+                                <tr key={issue.key} className="border-b last:border-b-0">
+                                  <td className="py-2 pr-4 text-muted-foreground">{index + 1}</td>
+                                  <td className="py-2 pr-4 font-medium">
+                                    {issue.name}
+                                    {issue.isUncategorised && (
+                                      <span className="ml-2 text-xs text-muted-foreground">(free text)</span>
+                                    )}
+                                  </td>
+                                  <td className="py-2 pr-4">
+                                    {issue.severity && (
+                                      <Badge className={`${getSeverityColor(issue.severity)} border capitalize`}>
+                                        {issue.severity}
+                                      </Badge>
+                                    )}
+                                  </td>
+                                  <td className="py-2 pr-4 text-right">{issue.count}</td>
+                                  <td className="py-2 pr-4 text-right">{issue.percentage.toFixed(1)}%</td>
+                                  <td className="py-2 text-right">{issue.cumulativePercentage.toFixed(1)}%</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </>
+                )}
+              </TabsContent>
+
+              {/* Issue Categories */}
+              <TabsContent value="categories" className="space-y-4">
+                {canManage && (
+                  <Card>
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <CardTitle>Add Issue Category</CardTitle>
+                          <CardDescription>
+                            Categories are selected on the checking page when a pack fails or needs review
+                          </CardDescription>
+                        </div>
+                        <Button variant="outline" onClick={handleAddDefaults}>
+                          Add Standard Categories
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <form onSubmit={handleCreateCategory} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                        <div className="space-y-2">
+                          <Label htmlFor="category-name">Name *</Label>
+                          <Input
+                            id="category-name"
+                            value={newCategory.name}
+                            onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+                            placeholder="e.g. Wrong slot"
+                          />
+                        </div>
+                        <div className="space-y-2 md:col-span-2">
+                          <Label htmlFor="category-description">Description</Label>
+                          <Input
+                            id="category-description"
+                            value={newCategory.description}
+                            onChange={(e) => setNewCategory({ ...newCategory, description: e.target.value })}
+                            placeholder="Optional guidance for checkers"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Severity</Label>
+                          <div className="flex gap-2">
+                            <Select
+                              value={newCategory.severity}
+                              onValueChange={(value) => setNewCategory({ ...newCategory, severity: value as Severity })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SEVERITIES.map((severity) => (
+                                  <SelectItem key={severity} value={severity} className="capitalize">
+                                    {severity}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button type="submit" disabled={isSaving || !newCategory.name.trim()}>
+                              <Plus className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </form>
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Issue Categories</CardTitle>
+                    <CardDescription>
+                      {canManage
+                        ? "Change severity or remove categories. Past checks keep the details recorded at the time."
+                        : "Only organisation owners and admins can change issue categories."}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {categories === undefined ? (
+                      <div className="flex items-center justify-center p-4">
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                      </div>
+                    ) : categories.length === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center py-4">
+                        No issue categories yet.
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        {categories.map((category) => (
+                          <div
+                            key={category._id}
+                            className={`flex flex-wrap items-center justify-between gap-3 p-3 border rounded-lg ${category.isActive ? "" : "opacity-60"}`}
+                          >
+                            <div>
+                              <div className="font-medium">
+                                {category.name}
+                                {!category.isActive && (
+                                  <span className="ml-2 text-xs text-muted-foreground">(removed)</span>
+                                )}
+                              </div>
+                              {category.description && (
+                                <div className="text-sm text-muted-foreground">{category.description}</div>
+                              )}
+                            </div>
+                            {canManage ? (
+                              <div className="flex items-center gap-2">
+                                <Select
+                                  value={category.severity}
+                                  onValueChange={(value) => handleUpdateCategory(category._id, { severity: value as Severity })}
+                                >
+                                  <SelectTrigger className="w-32">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {SEVERITIES.map((severity) => (
+                                      <SelectItem key={severity} value={severity} className="capitalize">
+                                        {severity}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleUpdateCategory(category._id, { isActive: !category.isActive })}
+                                >
+                                  {category.isActive ? "Remove" : "Restore"}
+                                </Button>
+                              </div>
+                            ) : (
+                              <Badge className={`${getSeverityColor(category.severity)} border capitalize`}>
+                                {category.severity}
+                              </Badge>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,415 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { LayoutGrid, Printer, Search, Tag, User } from "lucide-react";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { toast } from "sonner";
+import { differenceInCalendarDays, format } from "date-fns";
+import { Id } from "@/convex/_generated/dataModel";
+import { exportWebsterPackLabelsToPDF } from "@/components/ui/webster-pack-labels-pdf";
+import { exportPackLayoutToPDF } from "@/components/ui/pack-layout-pdf";
+import { DAYS_PER_PACK } from "@/lib/pack-expiry";
+
+interface SelectedPatient {
+  _id: Id<"patients">;
+  name: string;
+  shareToken: string;
+  preferredPack: string;
+}
+
+export default function PackLabelsPage() {
+  // Queries
+  const organization = useQuery(api.users.getOrganization);
+
+  // Mutations
+  const issuePacks = useMutation(api.websterPacks.issueWebsterPacks);
+
+  // Form state
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedPatient, setSelectedPatient] = useState<SelectedPatient | null>(null);
+  const [packType, setPackType] = useState<"blister" | "sachets">("blister");
+  const [firstPackWeekStart, setFirstPackWeekStart] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [numberOfPacks, setNumberOfPacks] = useState("4");
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [selectedReprints, setSelectedReprints] = useState<string[]>([]);
+
+  // Patient search
+  const patientSearchResults = useQuery(
+    api.websterPacks.searchPatientsForWebsterCheck,
+    searchTerm.trim() ? { searchTerm: searchTerm.trim(), limit: 10 } : "skip"
+  );
+
+  // Packs already issued for the selected patient (for reprints)
+  const issuedPacks = useQuery(
+    api.websterPacks.getPatientIssuedWebsterPacks,
+    selectedPatient ? { patientId: selectedPatient._id } : "skip"
+  );
+
+  // Current regimen for printing blister card and sachet roll layouts, covering every week of the
+  // selected packs so medications taken on some days only are included
+  const today = format(new Date(), "yyyy-MM-dd");
+  const layoutWeekStarts = (issuedPacks ?? [])
+    .filter(pack => selectedReprints.includes(pack.websterPackId))
+    .map(pack => pack.packWeekStart ?? today)
+    .sort();
+  const layoutStart = layoutWeekStarts[0] ?? today;
+  const layoutEnd = layoutWeekStarts[layoutWeekStarts.length - 1] ?? today;
+  const medicationsByTime = useQuery(
+    api.websterPacks.getPatientMedicationsByTime,
+    selectedPatient ? {
+      patientId: selectedPatient._id,
+      date: layoutStart,
+      days: differenceInCalendarDays(new Date(`${layoutEnd}T00:00:00`), new Date(`${layoutStart}T00:00:00`)) + DAYS_PER_PACK,
+    } : "skip"
+  );
+
+  // Check if user has access (pharmacy organizations only)
+  const hasAccess = organization?.type === "pharmacy";
+
+  const handlePatientSelect = (patient: SelectedPatient) => {
+    setSelectedPatient(patient);
+    setSearchTerm("");
+    setSelectedReprints([]);
+    // Set default pack type based on patient preference
+    setPackType(patient.preferredPack as "blister" | "sachets");
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedPatient) {
+      toast.error("Please select a patient");
+      return;
+    }
+
+    const count = parseInt(numberOfPacks);
+    if (isNaN(count) || count < 1 || count > 12) {
+      toast.error("Enter between 1 and 12 packs");
+      return;
+    }
+
+    setIsIssuing(true);
+    try {
+      const result = await issuePacks({
+        patientId: selectedPatient._id,
+        packType,
+        firstPackWeekStart,
+        numberOfPacks: count,
+      });
+
+      await exportWebsterPackLabelsToPDF(result.packs, {
+        name: result.patientName,
+        shareToken: result.patientShareToken,
+      });
+
+      toast.success(`${result.packs.length} pack label${result.packs.length === 1 ? "" : "s"} issued`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to issue pack labels");
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const handleReprint = async () => {
+    if (!selectedPatient || !issuedPacks) return;
+
+    const packs = issuedPacks.filter(pack => selectedReprints.includes(pack.websterPackId));
+    if (packs.length === 0) {
+      toast.error("Select at least one pack to reprint");
+      return;
+    }
+
+    try {
+      await exportWebsterPackLabelsToPDF(packs, {
+        name: selectedPatient.name,
+        shareToken: selectedPatient.shareToken,
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reprint pack labels");
+    }
+  };
+
+  const handlePrintLayouts = async () => {
+    if (!selectedPatient || !issuedPacks || !medicationsByTime) return;
+
+    const packs = issuedPacks.filter(pack => selectedReprints.includes(pack.websterPackId));
+    if (packs.length === 0) {
+      toast.error("Select at least one pack to print a layout for");
+      return;
+    }
+    if (medicationsByTime.totalDoses === 0) {
+      toast.error(`${selectedPatient.name} has no scheduled doses to lay out`);
+      return;
+    }
+
+    try {
+      await exportPackLayoutToPDF(packs, {
+        name: selectedPatient.name,
+        shareToken: selectedPatient.shareToken,
+      }, medicationsByTime.medicationsByTime, medicationsByTime.administrationTimes);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to print pack layouts");
+    }
+  };
+
+  const toggleReprint = (websterPackId: string) => {
+    setSelectedReprints(prev =>
+      prev.includes(websterPackId)
+        ? prev.filter(id => id !== websterPackId)
+        : [...prev, websterPackId]
+    );
+  };
+
+  if (!hasAccess) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-6 text-center">
+            <Tag className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Access Restricted
+            </h1>
+            <p className="text-muted-foreground mb-4">
+              Webster pack labels are only available to pharmacy organisations.
+            </p>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/webster-packs">
+                    Webster Packs
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Pack Labels</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <div className="max-w-3xl mx-auto space-y-6 w-full">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Tag className="h-5 w-5" />
+                  Pack Labels
+                </CardTitle>
+                <CardDescription>
+                  Issue pack IDs and print barcode/QR labels to stick on each Webster pack
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleIssue} className="space-y-6">
+                  {/* Patient Search */}
+                  <div className="space-y-2">
+                    <Label htmlFor="patient-search">Search Patient</Label>
+                    <div className="relative">
+                      <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="patient-search"
+                        placeholder="Search by name or share token..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+
+                    {/* Patient Search Results */}
+                    {patientSearchResults && patientSearchResults.length > 0 && searchTerm && (
+                      <div className="border rounded-md bg-white shadow-sm max-h-60 overflow-y-auto">
+                        {patientSearchResults.map((patient) => (
+                          <button
+                            key={patient._id}
+                            type="button"
+                            onClick={() => handlePatientSelect(patient)}
+                            className="w-full px-3 py-2 text-left hover:bg-gray-50 border-b last:border-b-0 focus:outline-none focus:bg-gray-50"
+                          >
+                            <div className="font-medium">{patient.name}</div>
+                            <div className="text-sm text-muted-foreground">
+                              {patient.shareToken} • Prefers {patient.preferredPack}
+                            </div>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Selected Patient */}
+                    {selectedPatient && (
+                      <div className="flex items-center gap-2 p-3 bg-blue-50 border border-blue-200 rounded-md">
+                        <User className="h-4 w-4 text-blue-600" />
+                        <span className="font-medium">{selectedPatient.name}</span>
+                        <Badge variant="outline">{selectedPatient.shareToken}</Badge>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedPatient(null)}
+                        >
+                          Change
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="pack-type">Pack Type</Label>
+                      <Select value={packType} onValueChange={(value) => setPackType(value as "blister" | "sachets")}>
+                        <SelectTrigger id="pack-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="blister">Blister Pack</SelectItem>
+                          <SelectItem value="sachets">Sachets</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="first-week">First Pack Week Starting</Label>
+                      <Input
+                        id="first-week"
+                        type="date"
+                        value={firstPackWeekStart}
+                        onChange={(e) => setFirstPackWeekStart(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="number-of-packs">Number of Packs</Label>
+                      <Input
+                        id="number-of-packs"
+                        type="number"
+                        min="1"
+                        max="12"
+                        value={numberOfPacks}
+                        onChange={(e) => setNumberOfPacks(e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <Button type="submit" disabled={!selectedPatient || !firstPackWeekStart || isIssuing}>
+                    <Printer className="h-4 w-4 mr-2" />
+                    {isIssuing ? "Issuing..." : "Issue & Print Labels"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Reprint labels for packs not yet checked */}
+            {selectedPatient && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Reprint Labels</CardTitle>
+                  <CardDescription>
+                    Packs issued for {selectedPatient.name} that have not been checked yet. Layout sheets show
+                    the blister card or sachet roll for the current regimen.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {issuedPacks === undefined ? (
+                    <div className="flex items-center justify-center p-4">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                    </div>
+                  ) : issuedPacks.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No unchecked packs for this patient.</p>
+                  ) : (
+                    <>
+                      <div className="space-y-2">
+                        {issuedPacks.map((pack) => (
+                          <label
+                            key={pack._id}
+                            className="flex items-center gap-3 p-2 border rounded-md cursor-pointer hover:bg-gray-50"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selectedReprints.includes(pack.websterPackId)}
+                              onChange={() => toggleReprint(pack.websterPackId)}
+                            />
+                            <span className="font-mono font-medium">{pack.websterPackId}</span>
+                            <Badge variant="outline" className="capitalize">{pack.packType}</Badge>
+                            {pack.packWeekStart && (
+                              <span className="text-sm text-muted-foreground">
+                                Week of {format(new Date(`${pack.packWeekStart}T00:00:00`), "dd/MM/yyyy")}
+                              </span>
+                            )}
+                          </label>
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={handleReprint}
+                          disabled={selectedReprints.length === 0}
+                        >
+                          <Printer className="h-4 w-4 mr-2" />
+                          Reprint Selected
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={handlePrintLayouts}
+                          disabled={selectedReprints.length === 0 || !medicationsByTime}
+                        >
+                          <LayoutGrid className="h-4 w-4 mr-2" />
+                          Print Layout Sheets
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
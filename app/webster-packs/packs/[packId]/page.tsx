@@ -0,0 +1,467 @@
+"use client";
+
+import { useState } from "react";
+import { useParams } from "next/navigation";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  History,
+  Package,
+  PackageCheck,
+  Truck,
+  CheckCircle2,
+  Undo2,
+  Trash2,
+  Clock,
+  User,
+  FileText,
+} from "lucide-react";
+import Link from "next/link";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+type ManualStatus = "packed" | "collected" | "returned" | "destroyed";
+
+// Transitions staff can trigger from this page; checks and dispatch have their own pages
+const MANUAL_ACTIONS: Record<ManualStatus, string> = {
+  packed: "Re-use (mark as packed)",
+  collected: "Mark collected",
+  returned: "Mark returned",
+  destroyed: "Mark destroyed",
+};
+
+export default function WebsterPackHistoryPage() {
+  const params = useParams();
+  const websterPackId = decodeURIComponent(params.packId as string);
+
+  const organization = useQuery(api.users.getOrganization);
+  const history = useQuery(api.websterPacks.getWebsterPackHistory, { websterPackId });
+  const updateStatus = useMutation(api.websterPacks.updateWebsterPackStatus);
+  const signOffPacking = useMutation(api.websterPacks.signOffWebsterPackPacking);
+  const signOffSecondCheck = useMutation(api.websterPacks.signOffWebsterPackSecondCheck);
+  const acceptMeasurements = useMutation(api.websterPacks.acceptWebsterPackMeasurements);
+
+  const [notes, setNotes] = useState("");
+  const [measurementReason, setMeasurementReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Check if user has access (pharmacy organizations only)
+  const hasAccess = organization?.type === "pharmacy";
+
+  const handleStatusChange = async (status: ManualStatus) => {
+    if (status === "returned" && !notes.trim()) {
+      toast.error("Enter a reason for the return in the notes");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await updateStatus({
+        websterPackId,
+        status,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`Webster pack marked as ${status}`);
+      setNotes("");
+    } catch (error) {
+      console.error("Error updating Webster pack status:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update pack status");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignOffPacking = async () => {
+    setIsSubmitting(true);
+    try {
+      await signOffPacking({ websterPackId });
+      toast.success("Signed off as packer");
+    } catch (error) {
+      console.error("Error signing off Webster pack:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to sign off pack");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignOffSecondCheck = async () => {
+    setIsSubmitting(true);
+    try {
+      await signOffSecondCheck({ websterPackId });
+      toast.success("Second check signed off");
+    } catch (error) {
+      console.error("Error signing off second check:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to sign off second check");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAcceptMeasurements = async () => {
+    if (!measurementReason.trim()) {
+      toast.error("Enter why the measurements are correct");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await acceptMeasurements({ websterPackId, reason: measurementReason.trim() });
+      toast.success("Measurements accepted");
+      setMeasurementReason("");
+    } catch (error) {
+      console.error("Error accepting measurements:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to accept measurements");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "packed": return "text-gray-600 bg-gray-50 border-gray-200";
+      case "checked": return "text-green-600 bg-green-50 border-green-200";
+      case "dispatched": return "text-blue-600 bg-blue-50 border-blue-200";
+      case "collected": return "text-green-700 bg-green-100 border-green-300";
+      case "returned": return "text-yellow-600 bg-yellow-50 border-yellow-200";
+      case "destroyed": return "text-red-600 bg-red-50 border-red-200";
+      default: return "text-gray-600 bg-gray-50 border-gray-200";
+    }
+  };
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case "packed": return <Package className="h-4 w-4" />;
+      case "checked": return <PackageCheck className="h-4 w-4" />;
+      case "dispatched": return <Truck className="h-4 w-4" />;
+      case "collected": return <CheckCircle2 className="h-4 w-4" />;
+      case "returned": return <Undo2 className="h-4 w-4" />;
+      case "destroyed": return <Trash2 className="h-4 w-4" />;
+      default: return <Clock className="h-4 w-4" />;
+    }
+  };
+
+  if (!hasAccess) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-6 text-center">
+            <History className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Access Restricted
+            </h1>
+            <p className="text-muted-foreground mb-4">
+              Webster pack history is only available to pharmacy organisations.
+            </p>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
+
+  const manualActions = (history?.allowedTransitions || []).filter(
+    (status): status is ManualStatus => status in MANUAL_ACTIONS
+  );
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/webster-packs/packs">
+                    Pack History
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>{websterPackId}</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <div className="max-w-5xl mx-auto space-y-6 w-full">
+            {history === undefined ? (
+              <div className="flex items-center justify-center p-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : history === null ? (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-muted-foreground mb-2">
+                    Pack Not Found
+                  </h3>
+                  <p className="text-muted-foreground">
+                    No Webster pack with ID {websterPackId} has been recorded by your organisation.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                {/* Pack Summary */}
+                <div className="bg-white rounded-lg shadow-sm p-6">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                      <div className="bg-primary/10 p-3 rounded-lg">
+                        <History className="w-8 h-8 text-primary" />
+                      </div>
+                      <div>
+                        <h1 className="text-3xl font-bold">{history.pack.websterPackId}</h1>
+                        <p className="text-muted-foreground">
+                          <Link href={`/patients/${history.pack.patientId}`} className="hover:underline">
+                            {history.pack.patientName}
+                          </Link>
+                          {" "}• {history.patientShareToken} • <span className="capitalize">{history.pack.packType}</span>
+                        </p>
+                      </div>
+                    </div>
+                    <Badge className={`${getStatusColor(history.pack.status)} border text-sm`}>
+                      <span className="flex items-center gap-1 capitalize">
+                        {getStatusIcon(history.pack.status)}
+                        {history.pack.status}
+                      </span>
+                    </Badge>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  {/* Timeline */}
+                  <div className="lg:col-span-2">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Lifecycle</CardTitle>
+                        <CardDescription>
+                          Every status change recorded for this pack
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          {history.events.map((event) => (
+                            <div key={event._id} className="flex gap-3 border-l-2 border-gray-200 pl-4 relative">
+                              <div className={`absolute -left-3 top-0 rounded-full p-1 border ${getStatusColor(event.toStatus)}`}>
+                                {getStatusIcon(event.toStatus)}
+                              </div>
+                              <div className="flex-1 space-y-1 pb-2 ml-2">
+                                <div className="font-medium capitalize">
+                                  {event.fromStatus && event.fromStatus !== event.toStatus
+                                    ? `${event.fromStatus} → ${event.toStatus}`
+                                    : event.toStatus}
+                                </div>
+                                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                  <User className="h-4 w-4" />
+                                  <span>{event.performerName}</span>
+                                  <span>•</span>
+                                  <span>{new Date(event.performedAt).toLocaleString("en-AU")}</span>
+                                  <span className="text-xs">
+                                    ({formatDistanceToNow(new Date(event.performedAt), { addSuffix: true })})
+                                  </span>
+                                </div>
+                                {event.notes && (
+                                  <div className="flex items-start gap-2 text-sm">
+                                    <FileText className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                                    <span>{event.notes}</span>
+                                  </div>
+                                )}
+                                {event.check && event.check.issues && event.check.issues.length > 0 && (
+                                  <div className="text-sm text-red-600">
+                                    Issues: {event.check.issues.join(", ")}
+                                  </div>
+                                )}
+                                {event.check?.anomalyReasons && event.check.anomalyReasons.length > 0 && (
+                                  <div className="text-sm text-yellow-700">
+                                    Held for review: {event.check.anomalyReasons.join("; ")}
+                                  </div>
+                                )}
+                                {event.check?.checklist && event.check.checklist.length > 0 && (
+                                  <div className="text-sm">
+                                    <span className="text-muted-foreground">
+                                      {event.check.checklist.filter(item => item.outcome === "verified").length} of {event.check.checklist.length} items verified
+                                    </span>
+                                    {event.check.checklist
+                                      .filter(item => item.outcome !== "verified")
+                                      .map(item => (
+                                        <div key={`${item.timeSlot}:${item.medicationId}`} className="text-red-600 capitalize">
+                                          {item.medicationName} ({item.timeSlot}): {item.outcome}
+                                          {item.note && <span className="normal-case"> - {item.note}</span>}
+                                        </div>
+                                      ))}
+                                  </div>
+                                )}
+                                {event.scanOut && (
+                                  <div className="text-sm text-muted-foreground capitalize">
+                                    {event.scanOut.deliveryMethod}
+                                    {event.scanOut.recipientName && ` • ${event.scanOut.recipientName}`}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="lg:col-span-1 space-y-6">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Sign-off</CardTitle>
+                        <CardDescription>
+                          The packer and checker must be different people
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="flex items-center gap-2 text-sm">
+                          <User className="h-4 w-4 text-muted-foreground" />
+                          <span>
+                            Packed by {history.packerName ?? <span className="text-muted-foreground">(not signed off)</span>}
+                          </span>
+                        </div>
+                        {history.canSignOffPacking && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="w-full"
+                            disabled={isSubmitting}
+                            onClick={handleSignOffPacking}
+                          >
+                            <Package className="h-4 w-4 mr-2" />
+                            Sign off as packer
+                          </Button>
+                        )}
+                        {history.requiresSecondCheck && (
+                          <Badge className="text-orange-600 bg-orange-50 border-orange-200 border">
+                            High-risk patient: second check required
+                          </Badge>
+                        )}
+                        {history.signOffProblem && (
+                          <p className="text-sm text-red-600">{history.signOffProblem}</p>
+                        )}
+                        {history.canSignOffSecondCheck && (
+                          <Button
+                            type="button"
+                            className="w-full"
+                            disabled={isSubmitting}
+                            onClick={handleSignOffSecondCheck}
+                          >
+                            <PackageCheck className="h-4 w-4 mr-2" />
+                            Sign off second check
+                          </Button>
+                        )}
+                        {history.canAcceptMeasurements && (
+                          <div className="space-y-2">
+                            <Label htmlFor="measurementReason">Accept measurements</Label>
+                            <Input
+                              id="measurementReason"
+                              value={measurementReason}
+                              onChange={(e) => setMeasurementReason(e.target.value)}
+                              placeholder="Recounted and correct? Say why, e.g. a larger brand this month"
+                            />
+                            <Button
+                              type="button"
+                              variant="outline"
+                              className="w-full"
+                              disabled={isSubmitting || !measurementReason.trim()}
+                              onClick={handleAcceptMeasurements}
+                            >
+                              <CheckCircle2 className="h-4 w-4 mr-2" />
+                              Accept measurements
+                            </Button>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Update Status</CardTitle>
+                        <CardDescription>
+                          Only transitions allowed from the current status are shown
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        {manualActions.length > 0 ? (
+                          <>
+                            <div className="space-y-2">
+                              <Label htmlFor="notes">Notes</Label>
+                              <Textarea
+                                id="notes"
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                placeholder="Reason for the status change..."
+                                rows={3}
+                              />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                              {manualActions.map((status) => (
+                                <Button
+                                  key={status}
+                                  type="button"
+                                  variant={status === "destroyed" ? "destructive" : "outline"}
+                                  disabled={isSubmitting}
+                                  onClick={() => handleStatusChange(status)}
+                                >
+                                  {getStatusIcon(status)}
+                                  <span className="ml-2">{MANUAL_ACTIONS[status]}</span>
+                                </Button>
+                              ))}
+                            </div>
+                          </>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            {history.pack.status === "packed" || history.pack.status === "checked"
+                              ? "Use Checking Packs or Scan Out to move this pack on."
+                              : "This pack has reached the end of its lifecycle."}
+                          </p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { AlertTriangle, CalendarX, Download, Search, ShieldAlert } from "lucide-react";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { downloadCsv } from "@/lib/csv";
+
+const STATUS_BADGES: Record<string, string> = {
+  packed: "bg-gray-100 text-gray-800",
+  checked: "bg-blue-100 text-blue-800",
+  dispatched: "bg-purple-100 text-purple-800",
+  collected: "bg-green-100 text-green-800",
+  returned: "bg-orange-100 text-orange-800",
+  destroyed: "bg-red-100 text-red-800",
+};
+
+export default function BatchRecallsPage() {
+  const organization = useQuery(api.users.getOrganization);
+  const expiryAlerts = useQuery(api.packBatches.getPackExpiryAlerts);
+
+  // Recall search runs when submitted, not on every keystroke
+  const [medication, setMedication] = useState("");
+  const [batchNumber, setBatchNumber] = useState("");
+  const [search, setSearch] = useState<{ medication: string; batchNumber: string } | null>(null);
+  const recallMatches = useQuery(api.packBatches.searchBatchRecall, search ?? "skip");
+
+  // Check if user has access (pharmacy organizations only)
+  const hasAccess = organization?.type === "pharmacy";
+
+  const affectedPatientCount = new Set((recallMatches ?? []).map((match) => match.patientId)).size;
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!medication.trim() || !batchNumber.trim()) {
+      toast.error("Enter the drug and batch number from the recall notice");
+      return;
+    }
+    setSearch({ medication: medication.trim(), batchNumber: batchNumber.trim() });
+  };
+
+  const handleExport = () => {
+    if (!search || !recallMatches || recallMatches.length === 0) return;
+
+    downloadCsv(`recall-${search.medication}-${search.batchNumber}.csv`, [
+      ["Patient", "Patient ID", "Date of Birth", "Pack ID", "Pack Status", "Pack Week", "Medication", "Strength", "Batch", "Expiry", "Checked", "Checked By", "Earlier Check", "Scanned Out"],
+      ...recallMatches.map((match) => [
+        match.patientName,
+        match.shareToken,
+        match.dateOfBirth,
+        match.websterPackId,
+        match.status,
+        match.packWeekStart,
+        match.medicationName,
+        match.strength,
+        match.packLevelBatch ? `${match.batchNumber} (pack level)` : match.batchNumber,
+        match.expiryDate,
+        format(new Date(match.checkedAt), "yyyy-MM-dd HH:mm"),
+        match.checkedByName,
+        match.fromEarlierCheck ? "Yes" : "",
+        match.scannedOutAt ? format(new Date(match.scannedOutAt), "yyyy-MM-dd HH:mm") : "",
+      ]),
+    ]);
+  };
+
+  if (!hasAccess) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-6 text-center">
+            <AlertTriangle className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Access Restricted
+            </h1>
+            <p className="text-muted-foreground mb-4">
+              Batch tracking and recalls are only available to pharmacy organisations.
+            </p>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/webster-packs">
+                    Webster Packs
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Batches & Recalls</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <div className="max-w-7xl mx-auto space-y-6 w-full">
+            {/* Header */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex items-center gap-4">
+                <div className="bg-primary/10 p-3 rounded-lg">
+                  <ShieldAlert className="w-8 h-8 text-primary" />
+                </div>
+                <div>
+                  <h1 className="text-3xl font-bold">Batches & Recalls</h1>
+                  <p className="text-muted-foreground">
+                    Find packs affected by a recall and packs with medications expiring during use
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Recall search */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Search className="h-5 w-5" />
+                  Recall Search
+                </CardTitle>
+                <CardDescription>
+                  Every patient with a pack checked with the batch, including packs checked again since
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="recall-medication">Drug</Label>
+                    <Input
+                      id="recall-medication"
+                      value={medication}
+                      onChange={(e) => setMedication(e.target.value)}
+                      placeholder="Brand or generic name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recall-batch">Batch Number</Label>
+                    <Input
+                      id="recall-batch"
+                      value={batchNumber}
+                      onChange={(e) => setBatchNumber(e.target.value)}
+                      placeholder="Batch #"
+                    />
+                  </div>
+                  <Button type="submit">
+                    <Search className="h-4 w-4 mr-2" />
+                    Search
+                  </Button>
+                </form>
+
+                {search && (
+                  recallMatches === undefined ? (
+                    <div className="flex items-center justify-center p-4">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                    </div>
+                  ) : recallMatches.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No packs contain batch {search.batchNumber} of {search.medication}.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm font-medium">
+                          {affectedPatientCount} patient{affectedPatientCount === 1 ? "" : "s"} • {recallMatches.length} pack{recallMatches.length === 1 ? "" : "s"}
+                        </div>
+                        <Button variant="outline" size="sm" onClick={handleExport}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Export CSV
+                        </Button>
+                      </div>
+                      <div className="overflow-x-auto border rounded-md">
+                        <table className="w-full text-sm">
+                          <thead className="bg-gray-50 text-left">
+                            <tr>
+                              <th className="p-2 font-medium">Patient</th>
+                              <th className="p-2 font-medium">Pack</th>
+                              <th className="p-2 font-medium">Status</th>
+                              <th className="p-2 font-medium">Medication</th>
+                              <th className="p-2 font-medium">Batch</th>
+                              <th className="p-2 font-medium">Expiry</th>
+                              <th className="p-2 font-medium">Checked</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {recallMatches.map((match) => (
+                              <tr key={`${match.packId}:${match.medicationName}`} className="border-t">
+                                <td className="p-2">
+                                  <div className="font-medium">{match.patientName}</div>
+                                  <div className="text-xs text-muted-foreground">{match.shareToken}</div>
+                                </td>
+                                <td className="p-2">
+                                  <Link href={`/webster-packs/packs/${match.packId}`} className="font-mono underline">
+                                    {match.websterPackId}
+                                  </Link>
+                                  {match.packWeekStart && (
+                                    <div className="text-xs text-muted-foreground">Week of {match.packWeekStart}</div>
+                                  )}
+                                </td>
+                                <td className="p-2">
+                                  <Badge className={STATUS_BADGES[match.status]}>{match.status}</Badge>
+                                </td>
+                                <td className="p-2">
+                                  {match.medicationName}
+                                  {match.strength && <span className="text-muted-foreground"> {match.strength}</span>}
+                                </td>
+                                <td className="p-2 font-mono">
+                                  {match.batchNumber}
+                                  {match.packLevelBatch && (
+                                    <div className="text-xs text-muted-foreground font-sans">Pack level</div>
+                                  )}
+                                </td>
+                                <td className="p-2">{match.expiryDate || "—"}</td>
+                                <td className="p-2">
+                                  <div>{format(new Date(match.checkedAt), "d MMM yyyy")}</div>
+                                  <div className="text-xs text-muted-foreground">{match.checkedByName}</div>
+                                  {match.fromEarlierCheck && (
+                                    <div className="text-xs text-orange-700">Earlier check; the pack was checked again since</div>
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Expiry alerts */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarX className="h-5 w-5" />
+                  Expiry Alerts
+                </CardTitle>
+                <CardDescription>
+                  Packs in use with a medication that expires before the pack&apos;s last day
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {expiryAlerts === undefined ? (
+                  <div className="flex items-center justify-center p-4">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                  </div>
+                ) : expiryAlerts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No packs have medications expiring during their pack period.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {expiryAlerts.map((alert) => (
+                      <div key={alert.packId} className="p-3 border rounded-lg">
+                        <div className="flex items-center justify-between gap-2">
+                          <div>
+                            <div className="font-medium">{alert.patientName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              <Link href={`/webster-packs/packs/${alert.packId}`} className="font-mono underline">
+                                {alert.websterPackId}
+                              </Link>
+                              {" "}• {alert.periodStart} to {alert.periodEnd}
+                            </div>
+                          </div>
+                          <Badge className={STATUS_BADGES[alert.status]}>{alert.status}</Badge>
+                        </div>
+                        <ul className="mt-2 space-y-1 text-sm">
+                          {alert.expiringBatches.map((batch) => (
+                            <li key={`${batch.medicationName}:${batch.batchNumber}`} className="flex items-center gap-2">
+                              <span className={batch.isExpired ? "text-red-700" : "text-yellow-700"}>
+                                {batch.medicationName}
+                                {batch.strength && ` ${batch.strength}`}
+                                {batch.batchNumber && ` • batch ${batch.batchNumber}`}
+                              </span>
+                              <span className="text-muted-foreground">
+                                {batch.isExpired ? "expired" : "expires"} {batch.expiryDate}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
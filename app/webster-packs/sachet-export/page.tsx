@@ -0,0 +1,306 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import { AlertTriangle, Download, FileCog } from "lucide-react";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { toast } from "sonner";
+import { addDays, format } from "date-fns";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  buildSachetDoses,
+  downloadSachetMachineFile,
+  SACHET_MACHINE_FORMATTERS,
+} from "@/lib/sachet-machine-export";
+
+const PREVIEW_LINES = 12;
+
+export default function SachetExportPage() {
+  const organization = useQuery(api.users.getOrganization);
+  const sachetPatients = useQuery(api.sachetExport.getSachetPatients);
+
+  // Export settings
+  const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(addDays(new Date(), 6), "yyyy-MM-dd"));
+  const [selectedPatientIds, setSelectedPatientIds] = useState<Id<"patients">[]>([]);
+  const [formatterId, setFormatterId] = useState(SACHET_MACHINE_FORMATTERS[0].id);
+
+  const machineDoses = useQuery(
+    api.sachetExport.getSachetMachineDoses,
+    selectedPatientIds.length > 0 && startDate && endDate && startDate <= endDate
+      ? { patientIds: selectedPatientIds, startDate, endDate }
+      : "skip"
+  );
+
+  const formatter = SACHET_MACHINE_FORMATTERS.find((candidate) => candidate.id === formatterId) ?? SACHET_MACHINE_FORMATTERS[0];
+  const doses = machineDoses ? buildSachetDoses(machineDoses) : [];
+  const heldMedications = machineDoses
+    ? machineDoses.flatMap((patient) => patient.heldMedications.map((held) => ({ ...held, patientName: patient.patientName })))
+    : [];
+  const preview = doses.length > 0 ? formatter.format(doses).split("\n").slice(0, PREVIEW_LINES).join("\n") : "";
+
+  // Check if user has access (pharmacy organizations only)
+  const hasAccess = organization?.type === "pharmacy";
+
+  const togglePatient = (patientId: Id<"patients">) => {
+    setSelectedPatientIds(prev =>
+      prev.includes(patientId)
+        ? prev.filter(id => id !== patientId)
+        : [...prev, patientId]
+    );
+  };
+
+  const toggleAllPatients = () => {
+    if (!sachetPatients) return;
+    setSelectedPatientIds(
+      selectedPatientIds.length === sachetPatients.length ? [] : sachetPatients.map((patient) => patient._id)
+    );
+  };
+
+  const handleExport = () => {
+    if (doses.length === 0) {
+      toast.error("There are no doses to export for the selected patients and dates");
+      return;
+    }
+
+    downloadSachetMachineFile(formatter, doses, `sachet-import-${startDate}-to-${endDate}`);
+    toast.success(`Exported ${doses.length} doses for ${machineDoses?.length ?? 0} patient${machineDoses?.length === 1 ? "" : "s"}`);
+  };
+
+  if (!hasAccess) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-6 text-center">
+            <AlertTriangle className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Access Restricted
+            </h1>
+            <p className="text-muted-foreground mb-4">
+              Sachet machine exports are only available to pharmacy organisations.
+            </p>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/webster-packs">
+                    Webster Packs
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Sachet Export</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <div className="max-w-7xl mx-auto space-y-6 w-full">
+            {/* Header */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex items-center gap-4">
+                <div className="bg-primary/10 p-3 rounded-lg">
+                  <FileCog className="w-8 h-8 text-primary" />
+                </div>
+                <div>
+                  <h1 className="text-3xl font-bold">Sachet Machine Export</h1>
+                  <p className="text-muted-foreground">
+                    Create a dose-by-dose import file for the sachet packing machine
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Patients */}
+              <Card className="lg:col-span-1">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>Patients</CardTitle>
+                      <CardDescription>Patients whose preferred pack is sachets</CardDescription>
+                    </div>
+                    {sachetPatients && sachetPatients.length > 0 && (
+                      <Button variant="ghost" size="sm" onClick={toggleAllPatients}>
+                        {selectedPatientIds.length === sachetPatients.length ? "Clear" : "Select All"}
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {sachetPatients === undefined ? (
+                    <div className="flex items-center justify-center p-4">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                    </div>
+                  ) : sachetPatients.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No sachet patients.</p>
+                  ) : (
+                    <div className="space-y-2 max-h-[28rem] overflow-y-auto">
+                      {sachetPatients.map((patient) => (
+                        <label
+                          key={patient._id}
+                          className="flex items-center gap-3 p-2 border rounded-md cursor-pointer hover:bg-gray-50"
+                        >
+                          <Checkbox
+                            checked={selectedPatientIds.includes(patient._id)}
+                            onCheckedChange={() => togglePatient(patient._id)}
+                          />
+                          <div>
+                            <div className="font-medium text-sm">{patient.name}</div>
+                            <div className="text-xs text-muted-foreground">{patient.shareToken}</div>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="lg:col-span-2 space-y-6">
+                {/* Settings */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Export Settings</CardTitle>
+                    <CardDescription>{formatter.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="start-date">From</Label>
+                        <Input
+                          id="start-date"
+                          type="date"
+                          value={startDate}
+                          onChange={(e) => setStartDate(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="end-date">To</Label>
+                        <Input
+                          id="end-date"
+                          type="date"
+                          value={endDate}
+                          onChange={(e) => setEndDate(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>File Format</Label>
+                        <Select value={formatterId} onValueChange={setFormatterId}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SACHET_MACHINE_FORMATTERS.map((candidate) => (
+                              <SelectItem key={candidate.id} value={candidate.id}>
+                                {candidate.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <p className="text-sm text-muted-foreground">
+                      Sachets are timed by each patient&apos;s administration times, set in organisation settings or on the patient.
+                    </p>
+
+                    <div className="flex items-center justify-between pt-2">
+                      <div className="text-sm text-muted-foreground">
+                        {selectedPatientIds.length === 0
+                          ? "Select patients to export"
+                          : machineDoses === undefined
+                            ? "Loading doses..."
+                            : machineDoses === null
+                              ? "Choose a date range of up to 62 days"
+                              : `${doses.length} doses for ${machineDoses?.length ?? 0} patient${machineDoses?.length === 1 ? "" : "s"}`}
+                      </div>
+                      <Button onClick={handleExport} disabled={doses.length === 0}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Export File
+                      </Button>
+                    </div>
+                    {heldMedications.length > 0 && (
+                      <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm">
+                        <div className="font-medium text-red-800 mb-1">
+                          Left out of the file until their schedule is corrected
+                        </div>
+                        <ul className="text-red-700 space-y-0.5">
+                          {heldMedications.map((held) => (
+                            <li key={held.medicationId}>
+                              {held.patientName}: {held.problem}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Preview */}
+                {preview && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Preview</CardTitle>
+                      <CardDescription>First {PREVIEW_LINES} lines of the import file</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <pre className="text-xs bg-gray-50 border rounded-md p-3 overflow-x-auto whitespace-pre">
+                        {preview}
+                      </pre>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
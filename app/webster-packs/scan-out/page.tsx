@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Button } from "@/components/ui/button";
@@ -41,6 +41,14 @@ import {
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 import { Id } from "@/convex/_generated/dataModel";
+import {
+  ProofOfDeliveryCapture,
+  ProofOfDelivery,
+  EMPTY_PROOF_OF_DELIVERY,
+  useProofOfDeliveryUpload,
+} from "@/components/ui/proof-of-delivery-capture";
+import { WebsterPackScanner, ScannedWebsterPack } from "@/components/ui/webster-pack-scanner";
+import { WebsterPackReturns } from "@/components/ui/webster-pack-returns";
 
 interface SelectedPatient {
   _id: Id<"patients">;
@@ -59,6 +67,7 @@ export default function ScanOutPage() {
   
   // Mutations
   const createScanOut = useMutation(api.websterPacks.createWebsterPackScanOut);
+  const uploadProofOfDelivery = useProofOfDeliveryUpload();
   
   // Multi-step form state
   const [currentStep, setCurrentStep] = useState(1);
@@ -85,6 +94,9 @@ export default function ScanOutPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedPatient, setSelectedPatient] = useState<SelectedPatient | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const memberInitialsRef = useRef<HTMLInputElement>(null);
+  const [proofOfDelivery, setProofOfDelivery] = useState<ProofOfDelivery>(EMPTY_PROOF_OF_DELIVERY);
+  const [proofKey, setProofKey] = useState(0);
   
   // Patient search
   const patientSearchResults = useQuery(
@@ -116,6 +128,39 @@ export default function ScanOutPage() {
     }));
   };
 
+  // Scan-first: the pack label resolves the patient; continue once the member has entered their initials
+  const handlePackScanned = useCallback((pack: ScannedWebsterPack) => {
+    setSelectedPatient(pack.patient);
+    setSearchTerm("");
+    setFormData(prev => ({
+      ...prev,
+      websterPackId: pack.websterPackId,
+      packType: pack.packType,
+      deliveryAddress: "",
+      recipientName: pack.patient.name
+    }));
+
+    if (!pack.checkStatus.canScanOut) {
+      toast.error(pack.checkStatus.message);
+      return;
+    }
+
+    if (formData.memberInitials.trim()) {
+      setCurrentStep(2);
+    } else {
+      memberInitialsRef.current?.focus();
+      toast.info("Enter your initials to continue");
+    }
+  }, [formData.memberInitials]);
+
+  const canProceedToDelivery = Boolean(
+    selectedPatient &&
+    formData.websterPackId.trim() &&
+    formData.memberInitials.trim() &&
+    formData.numberOfPacks >= 1 &&
+    websterPackCheck?.canScanOut
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -160,7 +205,13 @@ export default function ScanOutPage() {
     setIsSubmitting(true);
     
     try {
+      // Proof of collection is only captured when the pack is handed over at the counter
+      const proof = formData.scanOutStatus === "collected"
+        ? await uploadProofOfDelivery(proofOfDelivery)
+        : {};
+
       const submitData = {
+        ...proof,
         patientId: selectedPatient._id,
         websterPackId: formData.websterPackId.trim(),
         packType: formData.packType,
@@ -195,10 +246,12 @@ export default function ScanOutPage() {
         recipientName: "",
         recipientSignature: "",
       });
+      setProofOfDelivery(EMPTY_PROOF_OF_DELIVERY);
+      setProofKey(key => key + 1);
       
     } catch (error) {
       console.error("Error creating Webster pack scan out:", error);
-      toast.error("Failed to record scan out. Please try again.");
+      toast.error(error instanceof Error ? error.message : "Failed to record scan out. Please try again.");
     } finally {
       setIsSubmitting(false);
     }
@@ -208,6 +261,7 @@ export default function ScanOutPage() {
     switch (status) {
       case "dispatched": return "text-blue-600 bg-blue-50 border-blue-200";
       case "collected": return "text-green-600 bg-green-50 border-green-200";
+      case "delivered": return "text-green-600 bg-green-50 border-green-200";
       case "failed": return "text-red-600 bg-red-50 border-red-200";
       default: return "text-gray-600 bg-gray-50 border-gray-200";
     }
@@ -217,6 +271,7 @@ export default function ScanOutPage() {
     switch (status) {
       case "dispatched": return <Truck className="h-4 w-4" />;
       case "collected": return <CheckCircle2 className="h-4 w-4" />;
+      case "delivered": return <CheckCircle2 className="h-4 w-4" />;
       case "failed": return <XCircle className="h-4 w-4" />;
       default: return <Clock className="h-4 w-4" />;
     }
@@ -329,9 +384,9 @@ export default function ScanOutPage() {
                     <CheckCircle2 className="h-4 w-4 text-green-500" />
                   </CardHeader>
                   <CardContent>
-                    <div className="text-2xl font-bold text-green-600">{scanOutStats.collectedCount}</div>
+                    <div className="text-2xl font-bold text-green-600">{scanOutStats.collectedCount + scanOutStats.deliveredCount}</div>
                     <p className="text-xs text-muted-foreground">
-                      successfully delivered
+                      {scanOutStats.deliveredCount} delivered by driver
                     </p>
                   </CardContent>
                 </Card>
@@ -399,6 +454,11 @@ export default function ScanOutPage() {
                       </div>
                     </div>
 
+                    {/* Scan-first mode */}
+                    <div className="mb-6">
+                      <WebsterPackScanner active={currentStep === 1} onPackScanned={handlePackScanned} />
+                    </div>
+
                     {/* Step 1: Patient & Pack Details */}
                     {currentStep === 1 && (
                       <div className="space-y-6">
@@ -512,8 +572,14 @@ export default function ScanOutPage() {
                             <Label htmlFor="member-initials">Member Initials *</Label>
                             <Input
                               id="member-initials"
+                              ref={memberInitialsRef}
                               value={formData.memberInitials}
                               onChange={(e) => setFormData({...formData, memberInitials: e.target.value.toUpperCase()})}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter" && canProceedToDelivery) {
+                                  setCurrentStep(2);
+                                }
+                              }}
                               placeholder="Enter your initials"
                               maxLength={5}
                               required
@@ -543,6 +609,16 @@ export default function ScanOutPage() {
                                     {websterPackCheck.message}
                                   </span>
                                 </div>
+                                {websterPackCheck.regimenChanges && websterPackCheck.regimenChanges.length > 0 && (
+                                  <div className="mt-2 text-sm text-red-700">
+                                    <p className="font-medium">Changed since checking:</p>
+                                    <ul className="list-disc pl-5">
+                                      {websterPackCheck.regimenChanges.map((change) => (
+                                        <li key={change}>{change}</li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                )}
                                 {websterPackCheck.checkDetails && (
                                   <div className="mt-2 text-sm text-gray-600">
                                     <p>Status: <span className="font-medium">{websterPackCheck.checkDetails.checkStatus}</span></p>
@@ -579,14 +655,7 @@ export default function ScanOutPage() {
                           <Button 
                             type="button"
                             onClick={() => setCurrentStep(2)}
-                            disabled={
-                              !selectedPatient || 
-                              !formData.websterPackId.trim() || 
-                              !formData.memberInitials.trim() ||
-                              formData.numberOfPacks < 1 ||
-                              !websterPackCheck ||
-                              !websterPackCheck.canScanOut
-                            }
+                            disabled={!canProceedToDelivery}
                             className="min-w-32"
                           >
                             Next Step
@@ -784,14 +853,33 @@ export default function ScanOutPage() {
                           </Select>
                         </div>
 
+                        {/* Proof of Collection */}
+                        {formData.scanOutStatus === "collected" && (
+                          <div className="space-y-2 p-4 border rounded-lg">
+                            <h4 className="font-medium">Proof of Collection</h4>
+                            <p className="text-sm text-muted-foreground">
+                              Ask {formData.recipientName || "the recipient"} to sign below
+                            </p>
+                            <ProofOfDeliveryCapture
+                              key={proofKey}
+                              value={proofOfDelivery}
+                              onChange={setProofOfDelivery}
+                            />
+                          </div>
+                        )}
+
                         {/* Notes */}
                         <div className="space-y-2">
-                          <Label htmlFor="notes">Notes</Label>
+                          <Label htmlFor="notes">
+                            {formData.scanOutStatus === "failed" ? "Reason for Failure" : "Notes"}
+                          </Label>
                           <Textarea
                             id="notes"
                             value={formData.notes}
                             onChange={(e) => setFormData({...formData, notes: e.target.value})}
-                            placeholder="Additional notes about the scan out..."
+                            placeholder={formData.scanOutStatus === "failed"
+                              ? "Why the pack could not be handed over - it will be added to returns..."
+                              : "Additional notes about the scan out..."}
                             rows={3}
                           />
                         </div>
@@ -831,8 +919,10 @@ export default function ScanOutPage() {
                 </Card>
               </div>
 
-              {/* Recent Scan Outs */}
-              <div className="lg:col-span-1">
+              {/* Outstanding Returns and Recent Scan Outs */}
+              <div className="lg:col-span-1 space-y-6">
+                <WebsterPackReturns />
+
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
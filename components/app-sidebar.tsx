@@ -96,14 +96,46 @@ const getNavigationData = (organizationType?: "pharmacy" | "gp_clinic" | "hospit
     icon: Shield,
     isActive: false,
     items: [
+      {
+        title: "Packs Due",
+        url: "/webster-packs/due",
+      },
+      {
+        title: "Pack Labels",
+        url: "/webster-packs/labels",
+      },
       {
         title: "Checking Packs",
         url: "/webster-packs/checking-packs",
       },
+      {
+        title: "Sachet Export",
+        url: "/webster-packs/sachet-export",
+      },
       {
         title: "Scan Out",
         url: "/webster-packs/scan-out",
       },
+      {
+        title: "Delivery Runs",
+        url: "/webster-packs/deliveries",
+      },
+      {
+        title: "Pack History",
+        url: "/webster-packs/packs",
+      },
+      {
+        title: "Batches & Recalls",
+        url: "/webster-packs/recalls",
+      },
+      {
+        title: "Check Issues",
+        url: "/webster-packs/issues",
+      },
+      {
+        title: "QA Analytics",
+        url: "/webster-packs/analytics",
+      },
     ],
   };
 
@@ -1,6 +1,9 @@
 "use client";
 
 import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,10 +11,30 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { MedicationAutocomplete } from "@/components/ui/medication-autocomplete";
+import { InteractionWarnings } from "@/components/ui/interaction-warnings";
+import { AllergyWarnings } from "@/components/ui/allergy-warnings";
 import { Info, Plus, X } from "lucide-react";
 import { toast } from "sonner";
-import { type MedicationSuggestion } from "@/lib/fda-api";
+import { getMedicineSourceLabel, type MedicationSuggestion } from "@/lib/medicine-sources";
+import { DOSE_UNITS, DoseTimeSlot, formatDose, getDoseText, getMedicationDoses, parseDose, splitDoses, TimedDose } from "@/lib/doses";
+import {
+  AdministrationTime,
+  DEFAULT_ADMINISTRATION_TIMES,
+  formatAdministrationTime,
+  includeDoseTimes,
+} from "@/lib/administration-times";
+import { getMedicationIngredients, hasMajorInteraction } from "@/lib/drug-interactions";
+import {
+  describeSchedule,
+  getScheduleFields,
+  getScheduleProblem,
+  MedicationSchedule,
+  MedicationScheduleType,
+  SCHEDULE_TYPES,
+  WEEKDAY_LABELS,
+} from "@/lib/medication-schedule";
 
 interface MedicationFormData {
   medicationName: string;
@@ -21,11 +44,15 @@ interface MedicationFormData {
   afternoonDose: string;
   eveningDose: string;
   nightDose: string;
+  // Doses at administration times other than the standard four
+  additionalDoses?: TimedDose[];
   instructions: string;
   prescribedBy: string;
   prescribedDate: string;
   startDate: string;
   endDate: string;
+  // Days the doses are taken; every day when not set
+  schedule?: MedicationSchedule;
   // FDA NDC fields
   fdaNdc?: string;
   genericName?: string;
@@ -35,12 +62,49 @@ interface MedicationFormData {
   manufacturer?: string;
   activeIngredient?: string;
   strength?: string;
+  // Australian catalogue codes
+  amtCode?: string;
+  pbsItemCode?: string;
   // Request notes for shared users
   requestNotes?: string;
+  // Why the medication is going ahead despite a major interaction
+  interactionOverrideReason?: string;
+  // Why the medication is being added despite a recorded allergy
+  allergyOverrideReason?: string;
+}
+
+// Structured dose being entered for one administration time. Dose text that could not be parsed is kept
+// until a quantity is entered or it is cleared.
+interface DoseEntry {
+  quantity: string;
+  unit: string;
+  unparsedText: string;
+}
+
+function getInitialDoseEntries(
+  doseTimes: AdministrationTime[],
+  initialData?: Partial<MedicationFormData>
+): Record<DoseTimeSlot, DoseEntry> {
+  const defaultUnit = initialData?.dosageForm?.toLowerCase().includes("capsule") ? "capsule" : "tablet";
+  const entries: Record<DoseTimeSlot, DoseEntry> = {};
+  for (const { id: slot } of doseTimes) {
+    const text = (initialData && getDoseText(initialData, slot)) ?? "";
+    const dose = text ? parseDose(text, initialData?.dosageForm) : null;
+    entries[slot] = dose
+      ? { quantity: dose.quantity.toString(), unit: dose.unit, unparsedText: "" }
+      : { quantity: "", unit: defaultUnit, unparsedText: text };
+  }
+  return entries;
 }
 
 interface MedicationFormProps {
   initialData?: Partial<MedicationFormData>;
+  // The patient's administration times; the standard four when not given
+  administrationTimes?: AdministrationTime[];
+  // Checks the medication for interactions with the patient's other medications
+  patientId?: string;
+  medicationId?: string; // The medication being edited
+
   onSubmit: (data: MedicationFormData) => Promise<void>;
   onRequestChange?: (data: MedicationFormData, requestType: "update" | "remove") => Promise<void>;
   onCancel: () => void;
@@ -52,6 +116,9 @@ interface MedicationFormProps {
 
 export function MedicationForm({
   initialData,
+  administrationTimes = DEFAULT_ADMINISTRATION_TIMES,
+  patientId,
+  medicationId,
   onSubmit,
   onRequestChange,
   onCancel,
@@ -68,6 +135,7 @@ export function MedicationForm({
     afternoonDose: initialData?.afternoonDose || "",
     eveningDose: initialData?.eveningDose || "",
     nightDose: initialData?.nightDose || "",
+    additionalDoses: initialData?.additionalDoses,
     instructions: initialData?.instructions || "",
     prescribedBy: initialData?.prescribedBy || "",
     prescribedDate: initialData?.prescribedDate || "",
@@ -81,19 +149,70 @@ export function MedicationForm({
     manufacturer: initialData?.manufacturer || "",
     activeIngredient: initialData?.activeIngredient || "",
     strength: initialData?.strength || "",
+    amtCode: initialData?.amtCode || "",
+    pbsItemCode: initialData?.pbsItemCode || "",
     requestNotes: initialData?.requestNotes || "",
+    interactionOverrideReason: "",
+    allergyOverrideReason: "",
   });
 
-  const [selectedFDAMedication, setSelectedFDAMedication] = useState<MedicationSuggestion | null>(null);
+  // Times already used by the medication's doses stay editable even if no longer configured
+  const [doseTimes] = useState(() =>
+    includeDoseTimes(administrationTimes, getMedicationDoses(initialData ?? {}).map(({ timeSlot }) => timeSlot))
+  );
+
+  const [doseEntries, setDoseEntries] = useState(() => getInitialDoseEntries(doseTimes, initialData));
+
+  const [schedule, setSchedule] = useState<MedicationSchedule>(initialData?.schedule ?? { type: "daily" });
+
+  const [selectedMedication, setSelectedMedication] = useState<MedicationSuggestion | null>(null);
+
+  const interactionWarnings = useQuery(
+    api.drugInteractions.checkMedicationInteractions,
+    patientId && formData.medicationName.trim()
+      ? {
+          patientId: patientId as Id<"patients">,
+          medicationName: formData.medicationName,
+          genericName: formData.genericName || undefined,
+          activeIngredient: formData.activeIngredient || undefined,
+          medicationId: medicationId as Id<"patientMedications"> | undefined,
+        }
+      : "skip"
+  ) ?? [];
+
+  // Interactions are reviewed when a medication is added, or changed to a different ingredient
+  const ingredientsChanged = !isEdit ||
+    getMedicationIngredients(formData).join() !== getMedicationIngredients({
+      medicationName: initialData?.medicationName || "",
+      genericName: initialData?.genericName,
+      activeIngredient: initialData?.activeIngredient,
+    }).join();
+  const needsOverrideReason = ingredientsChanged && hasMajorInteraction(interactionWarnings);
+
+  // Medications being added are checked against the patient's allergy register
+  const allergyWarnings = useQuery(
+    api.patientAllergies.checkMedicationAllergies,
+    patientId && !isEdit && formData.medicationName.trim()
+      ? {
+          patientId: patientId as Id<"patients">,
+          medicationName: formData.medicationName,
+          genericName: formData.genericName || undefined,
+          activeIngredient: formData.activeIngredient || undefined,
+        }
+      : "skip"
+  ) ?? [];
 
-  const handleFDAMedicationSelect = (medication: MedicationSuggestion | null) => {
-    setSelectedFDAMedication(medication);
+  const handleMedicationSelect = (medication: MedicationSuggestion | null) => {
+    setSelectedMedication(medication);
     
     if (medication) {
       setFormData(prev => ({
         ...prev,
         medicationName: medication.brandName || medication.genericName || medication.name,
-        fdaNdc: medication.ndc,
+        // Codes from the chosen source only, so a previous choice's codes don't linger
+        fdaNdc: medication.ndc || "",
+        amtCode: medication.amtCode || "",
+        pbsItemCode: medication.pbsItemCode || "",
         genericName: medication.genericName,
         brandName: medication.brandName,
         dosageForm: medication.dosageForm,
@@ -105,7 +224,7 @@ export function MedicationForm({
         dosage: medication.strength || prev.dosage,
       }));
       
-      toast.success("Medication details populated from FDA database");
+      toast.success(`Medication details populated from ${getMedicineSourceLabel(medication.source)}`);
     }
   };
 
@@ -116,6 +235,34 @@ export function MedicationForm({
     }));
   };
 
+  const handleDoseChange = (slot: DoseTimeSlot, field: keyof DoseEntry, value: string) => {
+    setDoseEntries(prev => ({
+      ...prev,
+      [slot]: { ...prev[slot], [field]: value },
+    }));
+  };
+
+  const handleScheduleNumberChange = (field: "intervalDays" | "daysOn" | "daysOff", value: string) => {
+    setSchedule(prev => ({ ...prev, [field]: value === "" ? undefined : Number(value) }));
+  };
+
+  const toggleScheduleDay = (day: number) => {
+    setSchedule(prev => {
+      const days = prev.daysOfWeek ?? [];
+      return { ...prev, daysOfWeek: days.includes(day) ? days.filter(d => d !== day) : [...days, day] };
+    });
+  };
+
+  // Dose text for each administration time, written from the structured entry
+  const getDoseFields = () =>
+    splitDoses(doseTimes.map(({ id: slot }) => {
+      const entry = doseEntries[slot];
+      return {
+        timeSlot: slot,
+        dose: entry.quantity ? formatDose({ quantity: Number(entry.quantity), unit: entry.unit }) : entry.unparsedText,
+      };
+    }));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -124,12 +271,45 @@ export function MedicationForm({
       return;
     }
 
+    const invalidDose = doseTimes.find(({ id: slot }) => {
+      const quantity = doseEntries[slot].quantity;
+      return quantity !== "" && !(Number(quantity) > 0);
+    });
+    if (invalidDose) {
+      toast.error(`${invalidDose.label} dose must be a quantity greater than zero`);
+      return;
+    }
+
+    const data = {
+      ...formData,
+      ...getDoseFields(),
+      schedule: getScheduleFields(schedule),
+      interactionOverrideReason: needsOverrideReason ? formData.interactionOverrideReason?.trim() || undefined : undefined,
+      allergyOverrideReason: allergyWarnings.length > 0 ? formData.allergyOverrideReason?.trim() || undefined : undefined,
+    };
+
+    const scheduleProblem = getScheduleProblem(data, data.schedule);
+    if (scheduleProblem) {
+      toast.error(scheduleProblem);
+      return;
+    }
+
     // Check if at least one timing dose is provided
-    if (!formData.morningDose && !formData.afternoonDose && !formData.eveningDose && !formData.nightDose) {
+    if (getMedicationDoses(data).length === 0) {
       toast.error("Please specify at least one timing dose");
       return;
     }
 
+    if (allergyWarnings.length > 0 && !data.allergyOverrideReason) {
+      toast.error("Enter a reason for going ahead despite the recorded allergy");
+      return;
+    }
+
+    if (needsOverrideReason && !data.interactionOverrideReason) {
+      toast.error("Enter a reason for going ahead despite the major interaction");
+      return;
+    }
+
     try {
       if (isSharedAccess && isEdit) {
         // Shared users request changes instead of directly updating
@@ -137,11 +317,11 @@ export function MedicationForm({
           toast.error("Request change handler not provided");
           return;
         }
-        await onRequestChange(formData, "update");
+        await onRequestChange(data, "update");
         toast.success("Change request submitted for approval");
       } else {
         // Regular users or new medications
-        await onSubmit(formData);
+        await onSubmit(data);
         toast.success(isEdit ? "Medication updated successfully" : "Medication added successfully");
       }
     } catch (error) {
@@ -157,7 +337,7 @@ export function MedicationForm({
     }
 
     try {
-      await onRequestChange(formData, "remove");
+      await onRequestChange({ ...formData, ...getDoseFields(), schedule: getScheduleFields(schedule) }, "remove");
       toast.success("Removal request submitted for approval");
     } catch (error) {
       console.error("Error requesting removal:", error);
@@ -165,11 +345,13 @@ export function MedicationForm({
     }
   };
 
-  const clearFDAData = () => {
-    setSelectedFDAMedication(null);
+  const clearMedicineData = () => {
+    setSelectedMedication(null);
     setFormData(prev => ({
       ...prev,
       fdaNdc: "",
+      amtCode: "",
+      pbsItemCode: "",
       genericName: "",
       brandName: "",
       dosageForm: "",
@@ -178,7 +360,7 @@ export function MedicationForm({
       activeIngredient: "",
       strength: "",
     }));
-    toast.info("FDA data cleared");
+    toast.info("Medicine details cleared");
   };
 
   return (
@@ -189,47 +371,57 @@ export function MedicationForm({
           {isEdit ? "Edit Medication" : "Add New Medication"}
         </CardTitle>
         <CardDescription>
-          {isEdit ? "Update medication details" : "Add medication details using FDA database or manual entry"}
+          {isEdit ? "Update medication details" : "Add medication details from the medicines catalogue or manual entry"}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
         <form onSubmit={handleSubmit} className="space-y-6">
-          {/* FDA Medication Search */}
+          {/* Medicine Search */}
           <div className="space-y-2">
-            <Label htmlFor="fda-search">Search FDA Medication Database</Label>
+            <Label htmlFor="fda-search">Search Medicines</Label>
             <MedicationAutocomplete
-              value={selectedFDAMedication}
-              onSelect={handleFDAMedicationSelect}
-              placeholder="Search for medications in FDA database..."
+              value={selectedMedication}
+              onSelect={handleMedicationSelect}
+              placeholder="Search by brand, generic name or PBS code..."
               className="w-full"
             />
             <p className="text-sm text-muted-foreground">
-              Search by medication name to auto-populate details from FDA database
+              Searches your organisation&apos;s Australian catalogue first, then the FDA database
             </p>
           </div>
 
-          {/* FDA Data Display */}
-          {selectedFDAMedication && (
+          {/* Chosen Medicine Display */}
+          {selectedMedication && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
               <div className="flex items-center justify-between mb-2">
                 <div className="flex items-center gap-2">
                   <Info className="h-4 w-4 text-blue-600" />
-                  <span className="text-sm font-medium text-blue-900">FDA Database Information</span>
+                  <span className="text-sm font-medium text-blue-900">
+                    {getMedicineSourceLabel(selectedMedication.source)} Information
+                  </span>
                 </div>
-                <Button type="button" variant="ghost" size="sm" onClick={clearFDAData}>
+                <Button type="button" variant="ghost" size="sm" onClick={clearMedicineData}>
                   <X className="h-4 w-4" />
                 </Button>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
-                <div><strong>NDC:</strong> {selectedFDAMedication.ndc}</div>
-                {selectedFDAMedication.genericName && (
-                  <div><strong>Generic:</strong> {selectedFDAMedication.genericName}</div>
+                {selectedMedication.pbsItemCode && (
+                  <div><strong>PBS Item:</strong> {selectedMedication.pbsItemCode}</div>
+                )}
+                {selectedMedication.amtCode && (
+                  <div><strong>AMT:</strong> {selectedMedication.amtCode}</div>
+                )}
+                {selectedMedication.ndc && (
+                  <div><strong>NDC:</strong> {selectedMedication.ndc}</div>
                 )}
-                {selectedFDAMedication.brandName && (
-                  <div><strong>Brand:</strong> {selectedFDAMedication.brandName}</div>
+                {selectedMedication.genericName && (
+                  <div><strong>Generic:</strong> {selectedMedication.genericName}</div>
                 )}
-                {selectedFDAMedication.manufacturer && (
-                  <div><strong>Manufacturer:</strong> {selectedFDAMedication.manufacturer}</div>
+                {selectedMedication.brandName && (
+                  <div><strong>Brand:</strong> {selectedMedication.brandName}</div>
+                )}
+                {selectedMedication.manufacturer && (
+                  <div><strong>Manufacturer:</strong> {selectedMedication.manufacturer}</div>
                 )}
               </div>
             </div>
@@ -279,50 +471,171 @@ export function MedicationForm({
             <div className="space-y-4">
               <h4 className="text-md font-semibold">Dosing Schedule</h4>
               <p className="text-sm text-muted-foreground">
-                Specify doses for different times of day. Leave blank for times when medication is not taken.
+                Enter the quantity and unit for each administration time. Leave the quantity blank for times when the medication is not taken.
               </p>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="morningDose">Morning Dose</Label>
-                  <Input
-                    id="morningDose"
-                    value={formData.morningDose}
-                    onChange={(e) => handleInputChange("morningDose", e.target.value)}
-                    placeholder="e.g., 1 tablet"
-                  />
-                </div>
+                {doseTimes.map((time) => {
+                  const { id: slot, label } = time;
+                  const entry = doseEntries[slot];
+                  return (
+                    <div key={slot} className="space-y-2">
+                      <Label htmlFor={`dose-${slot}`}>{formatAdministrationTime(time)}</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id={`dose-${slot}`}
+                          type="number"
+                          min="0"
+                          step="0.25"
+                          value={entry.quantity}
+                          onChange={(e) => handleDoseChange(slot, "quantity", e.target.value)}
+                          placeholder="Qty"
+                          className="w-20"
+                        />
+                        <Select value={entry.unit} onValueChange={(value) => handleDoseChange(slot, "unit", value)}>
+                          <SelectTrigger aria-label={`${label} dose unit`} className="flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DOSE_UNITS.map((unit) => (
+                              <SelectItem key={unit} value={unit}>
+                                {unit}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {entry.quantity && Number(entry.quantity) > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatDose({ quantity: Number(entry.quantity), unit: entry.unit })}
+                        </p>
+                      )}
+                      {entry.unparsedText && !entry.quantity && (
+                        <div className="flex items-start gap-1 text-xs text-amber-700">
+                          <span>Could not read &quot;{entry.unparsedText}&quot;. Enter a quantity and unit.</span>
+                          <button
+                            type="button"
+                            onClick={() => handleDoseChange(slot, "unparsedText", "")}
+                            aria-label={`Clear ${label.toLowerCase()} dose`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
 
+            {/* Days the doses are taken */}
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="afternoonDose">Afternoon Dose</Label>
-                  <Input
-                    id="afternoonDose"
-                    value={formData.afternoonDose}
-                    onChange={(e) => handleInputChange("afternoonDose", e.target.value)}
-                    placeholder="e.g., 1 tablet"
-                  />
+                  <Label htmlFor="scheduleType">Taken</Label>
+                  <Select
+                    value={schedule.type}
+                    onValueChange={(value) => setSchedule(prev => ({ ...prev, type: value as MedicationScheduleType }))}
+                  >
+                    <SelectTrigger id="scheduleType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SCHEDULE_TYPES.map(({ type, label }) => (
+                        <SelectItem key={type} value={type}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="eveningDose">Evening Dose</Label>
-                  <Input
-                    id="eveningDose"
-                    value={formData.eveningDose}
-                    onChange={(e) => handleInputChange("eveningDose", e.target.value)}
-                    placeholder="e.g., 1 tablet"
-                  />
-                </div>
+                {schedule.type === "prn" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="prnIndication">Taken For</Label>
+                    <Input
+                      id="prnIndication"
+                      value={schedule.prnIndication || ""}
+                      onChange={(e) => setSchedule(prev => ({ ...prev, prnIndication: e.target.value }))}
+                      placeholder="e.g., pain, nausea"
+                    />
+                  </div>
+                )}
 
-                <div className="space-y-2">
-                  <Label htmlFor="nightDose">Night Dose</Label>
-                  <Input
-                    id="nightDose"
-                    value={formData.nightDose}
-                    onChange={(e) => handleInputChange("nightDose", e.target.value)}
-                    placeholder="e.g., 1 tablet"
-                  />
-                </div>
+                {(schedule.type === "interval" || schedule.type === "cycle") && (
+                  <div className="space-y-2">
+                    <Label htmlFor="anchorDate">{schedule.type === "interval" ? "First Dose" : "First Cycle Starts"}</Label>
+                    <Input
+                      id="anchorDate"
+                      type="date"
+                      value={schedule.anchorDate || ""}
+                      onChange={(e) => setSchedule(prev => ({ ...prev, anchorDate: e.target.value || undefined }))}
+                    />
+                  </div>
+                )}
+
+                {schedule.type === "interval" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="intervalDays">Every (days)</Label>
+                    <Input
+                      id="intervalDays"
+                      type="number"
+                      min="2"
+                      value={schedule.intervalDays ?? ""}
+                      onChange={(e) => handleScheduleNumberChange("intervalDays", e.target.value)}
+                      placeholder="e.g., 2 for alternate days"
+                    />
+                  </div>
+                )}
+
+                {schedule.type === "cycle" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="daysOn">Days On</Label>
+                      <Input
+                        id="daysOn"
+                        type="number"
+                        min="1"
+                        value={schedule.daysOn ?? ""}
+                        onChange={(e) => handleScheduleNumberChange("daysOn", e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="daysOff">Days Off</Label>
+                      <Input
+                        id="daysOff"
+                        type="number"
+                        min="1"
+                        value={schedule.daysOff ?? ""}
+                        onChange={(e) => handleScheduleNumberChange("daysOff", e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
+
+              {schedule.type === "days_of_week" && (
+                <div className="flex flex-wrap gap-2">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={schedule.daysOfWeek?.includes(day) ? "default" : "outline"}
+                      onClick={() => toggleScheduleDay(day)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {schedule.type !== "daily" && !getScheduleProblem(formData, getScheduleFields(schedule)) && (
+                <p className="text-sm text-muted-foreground">
+                  {describeSchedule(getScheduleFields(schedule))}
+                  {schedule.type === "prn" && ". As-needed medications are not packed."}
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -403,13 +716,29 @@ export function MedicationForm({
             </div>
           </div>
 
-          {/* FDA Details (Read-only display) */}
-          {(formData.fdaNdc || formData.genericName || formData.brandName) && (
+          {/* Medicine Details (Read-only display) */}
+          {(formData.fdaNdc || formData.amtCode || formData.pbsItemCode || formData.genericName || formData.brandName) && (
             <>
               <Separator />
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">FDA Database Details</h3>
+                <h3 className="text-lg font-semibold">Medicine Details</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {formData.pbsItemCode && (
+                    <div className="space-y-2">
+                      <Label>PBS Item Code</Label>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{formData.pbsItemCode}</Badge>
+                      </div>
+                    </div>
+                  )}
+                  {formData.amtCode && (
+                    <div className="space-y-2">
+                      <Label>AMT Code</Label>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{formData.amtCode}</Badge>
+                      </div>
+                    </div>
+                  )}
                   {formData.fdaNdc && (
                     <div className="space-y-2">
                       <Label>NDC Code</Label>
@@ -453,6 +782,56 @@ export function MedicationForm({
             </>
           )}
 
+          {/* Conflicts with the patient's allergy register */}
+          {allergyWarnings.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold">Allergy Alert</h3>
+                <AllergyWarnings warnings={allergyWarnings} />
+                <div className="space-y-2">
+                  <Label htmlFor="allergyOverrideReason">Reason for Overriding Allergy *</Label>
+                  <Textarea
+                    id="allergyOverrideReason"
+                    value={formData.allergyOverrideReason || ""}
+                    onChange={(e) => handleInputChange("allergyOverrideReason", e.target.value)}
+                    placeholder="e.g., Prescriber confirmed previous reaction was a side effect, not an allergy"
+                    rows={2}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    The reason is recorded in the medication log
+                  </p>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Interactions with the patient's other medications */}
+          {interactionWarnings.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold">Drug Interactions</h3>
+                <InteractionWarnings warnings={interactionWarnings} />
+                {needsOverrideReason && (
+                  <div className="space-y-2">
+                    <Label htmlFor="interactionOverrideReason">Reason for Overriding Major Interaction *</Label>
+                    <Textarea
+                      id="interactionOverrideReason"
+                      value={formData.interactionOverrideReason || ""}
+                      onChange={(e) => handleInputChange("interactionOverrideReason", e.target.value)}
+                      placeholder="e.g., Combination intended by prescriber, INR monitored weekly"
+                      rows={2}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      The reason is recorded in the medication log
+                    </p>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
           {/* Form Actions */}
           <div className="flex gap-2 pt-4">
             {isSharedAccess && isEdit ? (
@@ -0,0 +1,217 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Clock, Pencil, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  AdministrationTime,
+  createAdministrationTimeId,
+  DEFAULT_ADMINISTRATION_TIMES,
+  formatAdministrationTime,
+  getAdministrationTimesProblem,
+  MAX_ADMINISTRATION_TIMES,
+  sortAdministrationTimes,
+} from "@/lib/administration-times";
+
+interface AdministrationTimesSettingsProps {
+  // The patient's own rounds; the organisation's when not given
+  patientId?: Id<"patients">;
+}
+
+const SOURCE_LABELS = {
+  patient: "Patient's own times",
+  organization: "Organisation times",
+  default: "Standard times",
+};
+
+export function AdministrationTimesSettings({ patientId }: AdministrationTimesSettingsProps) {
+  const result = useQuery(api.administrationTimes.getAdministrationTimes, patientId ? { patientId } : {});
+  const setOrganizationTimes = useMutation(api.administrationTimes.setOrganizationAdministrationTimes);
+  const setPatientTimes = useMutation(api.administrationTimes.setPatientAdministrationTimes);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [times, setTimes] = useState<AdministrationTime[]>([]);
+
+  const saveTimes = async (administrationTimes: AdministrationTime[] | undefined) => {
+    if (patientId) {
+      await setPatientTimes({ patientId, administrationTimes });
+    } else {
+      await setOrganizationTimes({ administrationTimes });
+    }
+  };
+
+  const startEditing = () => {
+    if (result) {
+      setTimes(result.administrationTimes.map((time) => ({ ...time })));
+    }
+    setIsEditing(true);
+  };
+
+  const updateTime = (index: number, field: "label" | "time", value: string) => {
+    setTimes(prev => prev.map((time, i) => (i === index ? { ...time, [field]: value } : time)));
+  };
+
+  const addTime = () => {
+    // The id is kept when the time is changed, so it only has to be unique
+    const time = "12:30";
+    setTimes(prev => [...prev, { id: createAdministrationTimeId(prev, time), label: "", time }]);
+  };
+
+  const removeTime = (index: number) => {
+    setTimes(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const trimmed = times.map((time) => ({ ...time, label: time.label.trim() }));
+    const problem = getAdministrationTimesProblem(trimmed);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveTimes(sortAdministrationTimes(trimmed));
+      toast.success("Administration times saved");
+      setIsEditing(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save administration times");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const message = patientId
+      ? "Use the organisation's administration times for this patient?"
+      : "Go back to the standard morning, afternoon, evening and night times?";
+    if (!confirm(message)) return;
+
+    try {
+      await saveTimes(undefined);
+      toast.success("Administration times reset");
+      setIsEditing(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reset administration times");
+    }
+  };
+
+  if (!result) {
+    return null;
+  }
+
+  const canReset = patientId ? result.source === "patient" : result.source === "organization";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Administration Times
+            </CardTitle>
+            <CardDescription>
+              {patientId
+                ? "Medication rounds this patient's doses are packed and given at"
+                : "Medication rounds doses are packed and given at, unless a patient has their own"}
+            </CardDescription>
+          </div>
+          {!isEditing && result.canEdit && (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <Pencil className="h-4 w-4 mr-2" />
+              {patientId && result.source !== "patient" ? "Customise" : "Edit"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isEditing ? (
+          <div className="space-y-4">
+            {times.map((time, index) => (
+              <div key={time.id} className="grid grid-cols-[1fr_auto_auto] items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor={`round-label-${time.id}`}>Label</Label>
+                  <Input
+                    id={`round-label-${time.id}`}
+                    value={time.label}
+                    onChange={(e) => updateTime(index, "label", e.target.value)}
+                    placeholder="e.g., Breakfast"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`round-time-${time.id}`}>Time</Label>
+                  <Input
+                    id={`round-time-${time.id}`}
+                    type="time"
+                    value={time.time}
+                    onChange={(e) => updateTime(index, "time", e.target.value)}
+                    className="w-32"
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeTime(index)}
+                  disabled={times.length === 1}
+                  aria-label={`Remove ${time.label || "administration time"}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Renaming or retiming a round keeps the doses recorded against it. A round can only be removed once no
+              current medication has a dose at it.
+            </p>
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button
+                variant="outline"
+                onClick={addTime}
+                disabled={times.length >= MAX_ADMINISTRATION_TIMES}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Time
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {isSaving ? "Saving..." : "Save Times"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="secondary">{SOURCE_LABELS[result.source]}</Badge>
+              {result.administrationTimes.map((time) => (
+                <Badge key={time.id} variant="outline">{formatAdministrationTime(time)}</Badge>
+              ))}
+            </div>
+            {canReset && result.canEdit && (
+              <div className="flex justify-end">
+                <Button variant="ghost" size="sm" onClick={handleReset}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  {patientId ? "Use Organisation Times" : `Use Standard ${DEFAULT_ADMINISTRATION_TIMES.length} Times`}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { ShieldAlert } from "lucide-react";
+import { AllergyWarning, describeAllergyWarning } from "@/lib/allergies";
+
+interface AllergyWarningsProps {
+  warnings: AllergyWarning[];
+}
+
+// Register allergies a medication conflicts with, most severe first
+export function AllergyWarnings({ warnings }: AllergyWarningsProps) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {warnings.map((warning, index) => (
+        <div key={index} className="border rounded-lg p-3 text-sm bg-red-50 border-red-200 text-red-800">
+          <p className="font-medium flex items-center gap-2">
+            <ShieldAlert className="h-4 w-4" />
+            {describeAllergyWarning(warning)}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { BrowserMultiFormatReader, IScannerControls } from "@zxing/browser";
+import { Camera } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface CameraBarcodeScannerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (value: string) => void;
+}
+
+// Live camera preview that decodes Code 128 and QR pack labels
+function CameraPreview({ onScan }: { onScan: (value: string) => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest callback without restarting the camera
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!videoRef.current) return;
+
+    const reader = new BrowserMultiFormatReader();
+    let controls: IScannerControls | null = null;
+    let stopped = false;
+
+    reader
+      .decodeFromConstraints(
+        { video: { facingMode: "environment" } },
+        videoRef.current,
+        (result, _error, scanControls) => {
+          if (result && !stopped) {
+            stopped = true;
+            scanControls.stop();
+            onScanRef.current(result.getText());
+          }
+        }
+      )
+      .then((scanControls) => {
+        controls = scanControls;
+        if (stopped) scanControls.stop();
+      })
+      .catch((err) => {
+        console.error("Error starting camera:", err);
+        setError("Unable to access the camera. Check camera permissions for this site.");
+      });
+
+    return () => {
+      stopped = true;
+      controls?.stop();
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="p-6 text-center text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <video
+      ref={videoRef}
+      className="w-full rounded-md bg-black aspect-video object-cover"
+      muted
+      playsInline
+    />
+  );
+}
+
+export function CameraBarcodeScanner({ open, onOpenChange, onScan }: CameraBarcodeScannerProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Camera className="h-5 w-5" />
+            Scan Pack Label
+          </DialogTitle>
+          <DialogDescription>
+            Point the camera at the barcode or QR code on the Webster pack label
+          </DialogDescription>
+        </DialogHeader>
+        <CameraPreview
+          onScan={(value) => {
+            onOpenChange(false);
+            onScan(value);
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
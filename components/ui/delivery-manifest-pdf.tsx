@@ -0,0 +1,264 @@
+"use client";
+
+import React from 'react';
+import { Document, Page, Text, View, StyleSheet, pdf } from '@react-pdf/renderer';
+import { format } from 'date-fns';
+
+// Define types for manifest data
+interface ManifestRun {
+  runDate: string; // YYYY-MM-DD
+  driverName: string;
+  notes?: string;
+}
+
+interface ManifestStop {
+  sequence: number;
+  websterPackId: string;
+  patientName: string;
+  patientPhone?: string;
+  deliveryAddress: string;
+  suburb: string;
+  postcode: string;
+  deliveryNotes?: string;
+}
+
+// PDF Document Component
+const DeliveryManifestPDFDocument: React.FC<{ run: ManifestRun; stops: ManifestStop[] }> = ({
+  run,
+  stops
+}) => (
+  <Document>
+    <Page size="A4" orientation="landscape" style={styles.page}>
+      {/* Header */}
+      <View style={styles.header} fixed>
+        <View>
+          <Text style={styles.title}>Delivery Manifest</Text>
+          <Text style={styles.subtitle}>
+            {format(new Date(`${run.runDate}T00:00:00`), 'EEEE dd/MM/yyyy')} • Driver: {run.driverName}
+          </Text>
+        </View>
+        <Text style={styles.subtitle}>{stops.length} stops</Text>
+      </View>
+
+      {run.notes && (
+        <View style={styles.notesSection}>
+          <Text style={styles.notesText}>{run.notes}</Text>
+        </View>
+      )}
+
+      {/* Stops Table */}
+      <View style={styles.tableHeader} fixed>
+        <Text style={[styles.headerText, styles.colStop]}>#</Text>
+        <Text style={[styles.headerText, styles.colPatient]}>Patient</Text>
+        <Text style={[styles.headerText, styles.colAddress]}>Address</Text>
+        <Text style={[styles.headerText, styles.colPack]}>Pack ID</Text>
+        <Text style={[styles.headerText, styles.colNotes]}>Delivery Notes</Text>
+        <Text style={[styles.headerText, styles.colOutcome]}>Delivered / Failed</Text>
+        <Text style={[styles.headerText, styles.colSignature]}>Received By</Text>
+      </View>
+
+      {stops.map((stop, index) => (
+        <View
+          key={`${stop.sequence}-${stop.websterPackId}`}
+          style={[styles.tableRow, index % 2 === 0 ? styles.evenRow : styles.oddRow]}
+          wrap={false}
+        >
+          <Text style={[styles.cellText, styles.colStop, styles.stopNumber]}>{stop.sequence}</Text>
+          <View style={styles.colPatient}>
+            <Text style={styles.cellBold}>{stop.patientName}</Text>
+            {stop.patientPhone && <Text style={styles.cellMuted}>{stop.patientPhone}</Text>}
+          </View>
+          <View style={styles.colAddress}>
+            <Text style={styles.cellText}>{stop.deliveryAddress}</Text>
+            <Text style={styles.cellMuted}>{stop.suburb} {stop.postcode}</Text>
+          </View>
+          <Text style={[styles.cellText, styles.colPack]}>{stop.websterPackId}</Text>
+          <Text style={[styles.cellText, styles.colNotes]}>{stop.deliveryNotes || ''}</Text>
+          <View style={[styles.colOutcome, styles.outcomeBoxes]}>
+            <View style={styles.checkbox} />
+            <Text style={styles.cellMuted}>/</Text>
+            <View style={styles.checkbox} />
+          </View>
+          <View style={[styles.colSignature, styles.signatureLine]} />
+        </View>
+      ))}
+
+      {/* Footer */}
+      <View style={styles.footer} fixed>
+        <Text
+          style={styles.footerText}
+          render={({ pageNumber, totalPages }) =>
+            `Generated on ${format(new Date(), 'dd/MM/yyyy HH:mm')} • Page ${pageNumber} of ${totalPages}`
+          }
+        />
+      </View>
+    </Page>
+  </Document>
+);
+
+// PDF Styles
+const styles = StyleSheet.create({
+  page: {
+    flexDirection: 'column',
+    backgroundColor: '#FFFFFF',
+    padding: 20,
+    paddingBottom: 40,
+    fontSize: 9,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    marginBottom: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: '#2563EB',
+    paddingBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 10,
+    color: '#6B7280',
+  },
+  notesSection: {
+    marginBottom: 10,
+    padding: 6,
+    backgroundColor: '#FEF3C7',
+    borderRadius: 3,
+  },
+  notesText: {
+    fontSize: 9,
+    color: '#92400E',
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    paddingVertical: 5,
+  },
+  headerText: {
+    fontSize: 8,
+    fontWeight: 'bold',
+    color: '#374151',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderTopWidth: 0,
+    paddingVertical: 8,
+    minHeight: 40,
+    alignItems: 'center',
+  },
+  evenRow: {
+    backgroundColor: '#FFFFFF',
+  },
+  oddRow: {
+    backgroundColor: '#F9FAFB',
+  },
+  cellText: {
+    fontSize: 9,
+    color: '#1F2937',
+  },
+  cellBold: {
+    fontSize: 9,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  cellMuted: {
+    fontSize: 8,
+    color: '#6B7280',
+  },
+  stopNumber: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  colStop: {
+    width: '5%',
+    paddingHorizontal: 4,
+  },
+  colPatient: {
+    width: '16%',
+    paddingHorizontal: 4,
+  },
+  colAddress: {
+    width: '22%',
+    paddingHorizontal: 4,
+  },
+  colPack: {
+    width: '13%',
+    paddingHorizontal: 4,
+  },
+  colNotes: {
+    width: '18%',
+    paddingHorizontal: 4,
+  },
+  colOutcome: {
+    width: '10%',
+    paddingHorizontal: 4,
+  },
+  colSignature: {
+    width: '16%',
+    paddingHorizontal: 4,
+  },
+  outcomeBoxes: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  checkbox: {
+    width: 12,
+    height: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+  },
+  signatureLine: {
+    height: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#9CA3AF',
+    marginRight: 6,
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 15,
+    left: 20,
+    right: 20,
+    textAlign: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    paddingTop: 6,
+  },
+  footerText: {
+    fontSize: 8,
+    color: '#6B7280',
+  },
+});
+
+// Export function
+export const exportDeliveryManifestToPDF = async (
+  run: ManifestRun,
+  stops: ManifestStop[]
+): Promise<void> => {
+  try {
+    const blob = await pdf(
+      <DeliveryManifestPDFDocument run={run} stops={stops} />
+    ).toBlob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `delivery-manifest-${run.driverName.toLowerCase().replace(/\s+/g, '-')}-${run.runDate}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error generating delivery manifest PDF:', error);
+    throw new Error('Failed to export delivery manifest to PDF');
+  }
+};
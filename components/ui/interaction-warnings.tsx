@@ -0,0 +1,37 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { INTERACTION_SEVERITIES, InteractionSeverity, InteractionWarning } from "@/lib/drug-interactions";
+
+const SEVERITY_CLASSES: Record<InteractionSeverity, string> = {
+  major: "bg-red-50 border-red-200 text-red-800",
+  moderate: "bg-amber-50 border-amber-200 text-amber-800",
+  minor: "bg-blue-50 border-blue-200 text-blue-800",
+};
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+}
+
+// Drug interaction warnings, most severe first
+export function InteractionWarnings({ warnings }: InteractionWarningsProps) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {warnings.map((warning, index) => {
+        const severity = INTERACTION_SEVERITIES.find((entry) => entry.severity === warning.severity);
+        return (
+          <div key={index} className={`border rounded-lg p-3 text-sm ${SEVERITY_CLASSES[warning.severity]}`}>
+            <p className="font-medium flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              {severity?.label} interaction: {warning.ingredients[0]} with {warning.ingredients[1]} ({warning.interactingMedicationName})
+            </p>
+            <p className="text-xs mt-1">{warning.description}</p>
+            {severity && <p className="text-xs mt-1 opacity-80">{severity.description}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
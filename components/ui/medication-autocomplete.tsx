@@ -1,12 +1,16 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { useConvex } from "convex/react";
+import { api } from "@/convex/_generated/api";
 import { Check, ChevronsUpDown, Loader2, Pill } from "lucide-react";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "./command";
 import { Popover, PopoverContent, PopoverTrigger } from "./popover";
 import { Button } from "./button";
 import { cn } from "@/lib/utils";
-import { searchMedicationsFlexible, type MedicationSuggestion } from "@/lib/fda-api";
+import { createFdaSource } from "@/lib/fda-api";
+import { createCatalogueSource } from "@/lib/medicine-catalogue";
+import { searchMedicineSources, type MedicationSuggestion, type MedicineSourceResults } from "@/lib/medicine-sources";
 import { useDebounce } from "@/hooks/use-debounce";
 
 interface MedicationAutocompleteProps {
@@ -26,9 +30,20 @@ export function MedicationAutocomplete({
 }: MedicationAutocompleteProps) {
   const [open, setOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
-  const [medications, setMedications] = useState<MedicationSuggestion[]>([]);
+  const [results, setResults] = useState<MedicineSourceResults[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
+  // The organisation's Australian catalogue is searched first, then the FDA database
+  const convex = useConvex();
+  const sources = useMemo(() => [
+    createCatalogueSource((query, limit) =>
+      convex.query(api.medicineCatalogue.searchMedicineCatalogue, { query, limit })
+    ),
+    createFdaSource((query, limit) =>
+      convex.action(api.medicationSearch.searchFdaMedications, { query, limit })
+    ),
+  ], [convex]);
+
   // Debounce search query to avoid too many API calls
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
 
@@ -36,24 +51,23 @@ export function MedicationAutocomplete({
   useEffect(() => {
     const searchMedications = async () => {
       if (debouncedSearchQuery.length < 2) {
-        setMedications([]);
+        setResults([]);
         return;
       }
 
       setIsLoading(true);
       try {
-        const results = await searchMedicationsFlexible(debouncedSearchQuery, 10);
-        setMedications(results);
+        setResults(await searchMedicineSources(sources, debouncedSearchQuery, 10));
       } catch (error) {
         console.error('Error searching medications:', error);
-        setMedications([]);
+        setResults([]);
       } finally {
         setIsLoading(false);
       }
     };
 
     searchMedications();
-  }, [debouncedSearchQuery]);
+  }, [debouncedSearchQuery, sources]);
 
   const handleSelect = useCallback((medication: MedicationSuggestion) => {
     onSelect(medication);
@@ -102,13 +116,13 @@ export function MedicationAutocomplete({
               {isLoading && (
                 <div className="flex items-center justify-center py-4">
                   <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  <span className="text-sm text-muted-foreground">Searching FDA database...</span>
+                  <span className="text-sm text-muted-foreground">Searching medicines...</span>
                 </div>
               )}
               
-              {!isLoading && searchQuery.length >= 2 && medications.length === 0 && (
+              {!isLoading && searchQuery.length >= 2 && results.length === 0 && (
                 <CommandEmpty>
-                  No medications found in FDA database.
+                  No medications found in the Australian catalogue or FDA database.
                 </CommandEmpty>
               )}
 
@@ -118,12 +132,12 @@ export function MedicationAutocomplete({
                 </div>
               )}
 
-              {!isLoading && medications.length > 0 && (
-                <CommandGroup heading="FDA Medications">
-                  {medications.map((medication) => (
+              {!isLoading && results.map(({ source, suggestions }) => (
+                <CommandGroup key={source.id} heading={source.label}>
+                  {suggestions.map((medication) => (
                     <CommandItem
-                      key={medication.ndc}
-                      value={medication.ndc}
+                      key={`${medication.source}-${medication.id}`}
+                      value={`${medication.source}-${medication.id}`}
                       onSelect={() => handleSelect(medication)}
                       className="flex flex-col items-start gap-1 p-3"
                     >
@@ -131,7 +145,7 @@ export function MedicationAutocomplete({
                         <Check
                           className={cn(
                             "h-4 w-4",
-                            value?.ndc === medication.ndc ? "opacity-100" : "opacity-0"
+                            value?.source === medication.source && value?.id === medication.id ? "opacity-100" : "opacity-0"
                           )}
                         />
                         <div className="flex-1">
@@ -159,16 +173,28 @@ export function MedicationAutocomplete({
                                 <span className="font-medium">Manufacturer:</span> {medication.manufacturer}
                               </div>
                             )}
-                            <div>
-                              <span className="font-medium">NDC:</span> {medication.ndc}
-                            </div>
+                            {medication.pbsItemCode && (
+                              <div>
+                                <span className="font-medium">PBS:</span> {medication.pbsItemCode}
+                              </div>
+                            )}
+                            {medication.amtCode && (
+                              <div>
+                                <span className="font-medium">AMT:</span> {medication.amtCode}
+                              </div>
+                            )}
+                            {medication.ndc && (
+                              <div>
+                                <span className="font-medium">NDC:</span> {medication.ndc}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
                     </CommandItem>
                   ))}
                 </CommandGroup>
-              )}
+              ))}
             </CommandList>
           </Command>
         </PopoverContent>
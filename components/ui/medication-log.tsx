@@ -2,11 +2,13 @@
 
 import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
-import { Id } from "@/convex/_generated/dataModel";
+import { Doc, Id } from "@/convex/_generated/dataModel";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { useMedicationLogsPDFExport } from "@/components/ui/medication-logs-pdf-export";
+import { exportMedicationsToPDF } from "@/components/ui/medications-pdf-export";
 import { toast } from "sonner";
 import { useState } from "react";
 import { 
@@ -18,9 +20,16 @@ import {
   Calendar,
   Building2,
   User,
-  Download
+  Download,
+  History,
+  ClipboardCheck
 } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { addDays, differenceInCalendarDays, endOfDay, format, formatDistanceToNow, isSameDay, parseISO, startOfDay } from "date-fns";
+import { getLoggedDoses, getMedicationDoses, TimedDose } from "@/lib/doses";
+import { AdministrationTime, DEFAULT_ADMINISTRATION_TIMES, findAdministrationTime } from "@/lib/administration-times";
+import { isRegimenChange } from "@/lib/medication-history";
+import { describeInteraction, InteractionWarning } from "@/lib/drug-interactions";
+import { AllergyWarning, describeAllergyWarning } from "@/lib/allergies";
 
 interface MedicationLogProps {
   patientId: string;
@@ -28,7 +37,7 @@ interface MedicationLogProps {
 
 interface MedicationLogEntry {
   _id: Id<"medicationLogs">;
-  actionType: "added" | "updated" | "stopped" | "deleted" | "change_requested" | "change_approved" | "change_rejected" | "removal_requested" | "removal_approved" | "removal_rejected" | "request_canceled" | "addition_requested" | "addition_approved" | "addition_rejected";
+  actionType: "added" | "updated" | "stopped" | "deleted" | "change_requested" | "change_approved" | "change_rejected" | "removal_requested" | "removal_approved" | "removal_rejected" | "request_canceled" | "addition_requested" | "addition_approved" | "addition_rejected" | "reconciled";
   medicationName: string;
   performedAt: number;
   currentDosage?: string;
@@ -36,9 +45,14 @@ interface MedicationLogEntry {
   currentAfternoonDose?: string;
   currentEveningDose?: string;
   currentNightDose?: string;
+  currentAdditionalDoses?: TimedDose[];
   currentInstructions?: string;
   changes?: string;
   requestNotes?: string;
+  interactionWarnings?: InteractionWarning[];
+  interactionOverrideReason?: string;
+  allergyWarnings?: AllergyWarning[];
+  allergyOverrideReason?: string;
   status?: "completed" | "pending" | "approved" | "rejected" | "canceled";
   performedByUser: {
     firstName: string;
@@ -61,10 +75,16 @@ export function MedicationLog({ patientId }: MedicationLogProps) {
     id: patientId as Id<"patients">,
   });
 
+  const administrationTimesResult = useQuery(api.administrationTimes.getAdministrationTimes, {
+    patientId: patientId as Id<"patients">,
+  });
+  const administrationTimes = administrationTimesResult?.administrationTimes ?? DEFAULT_ADMINISTRATION_TIMES;
+
   // PDF Export hook
   const { handleExport } = useMedicationLogsPDFExport(
     logs || [],
     patient?.patient || null,
+    administrationTimes,
     () => {
       setIsExporting(false);
       toast.success("Medication logs exported successfully!");
@@ -114,6 +134,7 @@ export function MedicationLog({ patientId }: MedicationLogProps) {
       case 'addition_requested': return <Plus className="h-4 w-4" />;
       case 'addition_approved': return <Plus className="h-4 w-4" />;
       case 'addition_rejected': return <Plus className="h-4 w-4" />;
+      case 'reconciled': return <ClipboardCheck className="h-4 w-4" />;
       default: return <Pill className="h-4 w-4" />;
     }
   };
@@ -134,6 +155,7 @@ export function MedicationLog({ patientId }: MedicationLogProps) {
       case 'addition_requested': return 'bg-yellow-100 text-yellow-800';
       case 'addition_approved': return 'bg-green-100 text-green-800';
       case 'addition_rejected': return 'bg-red-100 text-red-800';
+      case 'reconciled': return 'bg-purple-100 text-purple-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -154,42 +176,25 @@ export function MedicationLog({ patientId }: MedicationLogProps) {
       case 'addition_requested': return 'Addition Requested';
       case 'addition_approved': return 'Addition Approved';
       case 'addition_rejected': return 'Addition Rejected';
+      case 'reconciled': return 'Reconciled';
       default: return 'Changed';
     }
   };
 
   const renderDosageSchedule = (log: MedicationLogEntry) => {
-    const hasDoses = log.currentMorningDose || log.currentAfternoonDose || log.currentEveningDose || log.currentNightDose;
-    if (!hasDoses) return null;
+    const doses = getLoggedDoses(log);
+    if (doses.length === 0) return null;
 
     return (
       <div className="mt-2">
         <p className="text-xs font-medium text-muted-foreground mb-1">Dosing Schedule:</p>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
-          {log.currentMorningDose && (
-            <div className="flex items-center gap-1">
-              <span className="font-medium">Morning:</span>
-              <span>{log.currentMorningDose}</span>
-            </div>
-          )}
-          {log.currentAfternoonDose && (
-            <div className="flex items-center gap-1">
-              <span className="font-medium">Afternoon:</span>
-              <span>{log.currentAfternoonDose}</span>
+          {doses.map(({ timeSlot, dose }) => (
+            <div key={timeSlot} className="flex items-center gap-1">
+              <span className="font-medium">{findAdministrationTime(administrationTimes, timeSlot).label}:</span>
+              <span>{dose}</span>
             </div>
-          )}
-          {log.currentEveningDose && (
-            <div className="flex items-center gap-1">
-              <span className="font-medium">Evening:</span>
-              <span>{log.currentEveningDose}</span>
-            </div>
-          )}
-          {log.currentNightDose && (
-            <div className="flex items-center gap-1">
-              <span className="font-medium">Night:</span>
-              <span>{log.currentNightDose}</span>
-            </div>
-          )}
+          ))}
         </div>
       </div>
     );
@@ -231,6 +236,15 @@ export function MedicationLog({ patientId }: MedicationLogProps) {
         </div>
       </div>
 
+      {logs.length > 0 && patient?.patient && (
+        <RegimenTimeline
+          patientId={patientId}
+          patient={patient.patient}
+          logs={logs}
+          administrationTimes={administrationTimes}
+        />
+      )}
+
       {logs.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
@@ -316,6 +330,34 @@ export function MedicationLog({ patientId }: MedicationLogProps) {
                         <p className="text-blue-800">{log.requestNotes}</p>
                       </div>
                     )}
+
+                    {log.allergyWarnings && log.allergyWarnings.length > 0 && (
+                      <div className="mt-3 p-2 bg-red-50 rounded text-xs">
+                        <p className="font-medium text-red-700 mb-1">Allergy Warnings:</p>
+                        {log.allergyWarnings.map((warning, index) => (
+                          <p key={index} className="text-red-800">{describeAllergyWarning(warning)}</p>
+                        ))}
+                        {log.allergyOverrideReason && (
+                          <p className="text-red-800 mt-1">
+                            <span className="font-medium">Override reason:</span> {log.allergyOverrideReason}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {log.interactionWarnings && log.interactionWarnings.length > 0 && (
+                      <div className="mt-3 p-2 bg-amber-50 rounded text-xs">
+                        <p className="font-medium text-amber-700 mb-1">Interaction Warnings:</p>
+                        {log.interactionWarnings.map((warning, index) => (
+                          <p key={index} className="text-amber-800">{describeInteraction(warning)}</p>
+                        ))}
+                        {log.interactionOverrideReason && (
+                          <p className="text-amber-800 mt-1">
+                            <span className="font-medium">Override reason:</span> {log.interactionOverrideReason}
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -325,4 +367,171 @@ export function MedicationLog({ patientId }: MedicationLogProps) {
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
+
+// The regimen the patient was on at the end of a chosen day, replayed from the medication log
+function RegimenTimeline({
+  patientId,
+  patient,
+  logs,
+  administrationTimes,
+}: {
+  patientId: string;
+  patient: Doc<"patients">;
+  logs: MedicationLogEntry[];
+  administrationTimes: AdministrationTime[];
+}) {
+  const [dayOffset, setDayOffset] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Logs are newest first
+  const changes = logs.filter((log) => isRegimenChange(log.actionType));
+  const firstDay = startOfDay(changes.length > 0 ? changes[changes.length - 1].performedAt : Date.now());
+  const dayCount = differenceInCalendarDays(new Date(), firstDay);
+  const selectedDay = addDays(firstDay, dayOffset ?? dayCount);
+  const at = endOfDay(selectedDay).getTime();
+
+  const regimen = useQuery(api.patientManagement.getMedicationRegimenAt, {
+    patientId: patientId as Id<"patients">,
+    at,
+  });
+
+  const changeDays = Array.from(new Set(
+    changes.map((log) => differenceInCalendarDays(log.performedAt, firstDay))
+  ));
+  const changesOnDay = changes.filter((log) => isSameDay(log.performedAt, selectedDay));
+
+  const selectDate = (value: string) => {
+    if (!value) return;
+    const offset = differenceInCalendarDays(parseISO(value), firstDay);
+    setDayOffset(Math.min(Math.max(offset, 0), dayCount));
+  };
+
+  const handleExport = async () => {
+    if (!regimen) return;
+    setIsExporting(true);
+    try {
+      await exportMedicationsToPDF(
+        regimen.map((medication) => ({
+          ...medication,
+          _id: medication.medicationId,
+          dosage: medication.dosage ?? "",
+          isActive: true,
+        })),
+        patient,
+        administrationTimes,
+        at
+      );
+      toast.success("Medications exported successfully!");
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("Failed to export medications");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            <h4 className="font-semibold text-sm">Medications on</h4>
+            <Input
+              type="date"
+              className="h-8 w-auto"
+              value={format(selectedDay, "yyyy-MM-dd")}
+              min={format(firstDay, "yyyy-MM-dd")}
+              max={format(new Date(), "yyyy-MM-dd")}
+              onChange={(e) => selectDate(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={isExporting || !regimen || regimen.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? "Exporting..." : "Export PDF"}
+          </Button>
+        </div>
+
+        {dayCount > 0 && (
+          <div className="space-y-1">
+            <div className="relative h-2">
+              {changeDays.map((day) => (
+                <span
+                  key={day}
+                  className="absolute top-0 h-2 w-0.5 bg-blue-400"
+                  style={{ left: `${(day / dayCount) * 100}%` }}
+                />
+              ))}
+            </div>
+            <input
+              type="range"
+              className="w-full accent-blue-600"
+              min={0}
+              max={dayCount}
+              value={dayOffset ?? dayCount}
+              onChange={(e) => setDayOffset(Number(e.target.value))}
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{formatDay(firstDay)}</span>
+              <span>Today</span>
+            </div>
+          </div>
+        )}
+
+        {!regimen ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : regimen.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No medications recorded at the end of this day</p>
+        ) : (
+          <div className="space-y-2">
+            {regimen.map((medication) => (
+              <div key={medication.medicationId} className="rounded border p-2 text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-sm">{medication.medicationName}</span>
+                  {medication.dosage && <span className="text-muted-foreground">{medication.dosage}</span>}
+                  {medication.approximate && (
+                    <Badge variant="outline" className="text-xs">Dosing not recorded</Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-x-3 mt-1">
+                  {getMedicationDoses(medication).map(({ timeSlot, dose }) => (
+                    <span key={timeSlot}>
+                      <span className="font-medium">{findAdministrationTime(administrationTimes, timeSlot).label}:</span> {dose}
+                    </span>
+                  ))}
+                </div>
+                {medication.instructions && (
+                  <p className="text-muted-foreground mt-1">{medication.instructions}</p>
+                )}
+                {medication.since && (
+                  <p className="text-muted-foreground mt-1">Last changed {formatDay(medication.since)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {changesOnDay.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Changed during this day:{" "}
+            {changesOnDay
+              .slice()
+              .reverse()
+              .map((log) => `${log.medicationName} (${log.actionType.replace("_", " ")}, ${format(log.performedAt, "HH:mm")})`)
+              .join("; ")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatDay(date: Date | number) {
+  return format(date, "dd/MM/yyyy");
+}
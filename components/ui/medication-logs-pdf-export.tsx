@@ -3,11 +3,15 @@
 import React from 'react';
 import { Document, Page, Text, View, StyleSheet, pdf } from '@react-pdf/renderer';
 import { format } from 'date-fns';
+import { getLoggedDoses, TimedDose } from '@/lib/doses';
+import { AdministrationTime, findAdministrationTime } from '@/lib/administration-times';
+import { describeInteraction, InteractionWarning } from '@/lib/drug-interactions';
+import { AllergyWarning, describeAllergyWarning } from '@/lib/allergies';
 
 // Define types for medication log and patient data
 interface MedicationLogEntry {
   _id: string;
-  actionType: "added" | "updated" | "stopped" | "deleted" | "change_requested" | "change_approved" | "change_rejected" | "removal_requested" | "removal_approved" | "removal_rejected" | "request_canceled" | "addition_requested" | "addition_approved" | "addition_rejected";
+  actionType: "added" | "updated" | "stopped" | "deleted" | "change_requested" | "change_approved" | "change_rejected" | "removal_requested" | "removal_approved" | "removal_rejected" | "request_canceled" | "addition_requested" | "addition_approved" | "addition_rejected" | "reconciled";
   medicationName: string;
   performedAt: number;
   currentDosage?: string;
@@ -15,9 +19,14 @@ interface MedicationLogEntry {
   currentAfternoonDose?: string;
   currentEveningDose?: string;
   currentNightDose?: string;
+  currentAdditionalDoses?: TimedDose[];
   currentInstructions?: string;
   changes?: string;
   requestNotes?: string;
+  interactionWarnings?: InteractionWarning[];
+  interactionOverrideReason?: string;
+  allergyWarnings?: AllergyWarning[];
+  allergyOverrideReason?: string;
   status?: "completed" | "pending" | "approved" | "rejected" | "canceled";
   performedByUser: {
     firstName: string;
@@ -62,6 +71,7 @@ const getActionText = (actionType: string): string => {
     case 'addition_requested': return 'Addition Requested';
     case 'addition_approved': return 'Addition Approved';
     case 'addition_rejected': return 'Addition Rejected';
+    case 'reconciled': return 'Reconciled';
     default: return actionType;
   }
 };
@@ -83,6 +93,8 @@ const getActionColor = (actionType: string): string => {
     case 'removal_requested':
     case 'addition_requested':
       return '#F59E0B'; // yellow
+    case 'reconciled':
+      return '#7C3AED'; // purple
     case 'change_rejected':
     case 'removal_rejected':
     case 'addition_rejected':
@@ -94,9 +106,14 @@ const getActionColor = (actionType: string): string => {
 };
 
 // PDF Document Component
-const MedicationLogsPDFDocument: React.FC<{ logs: MedicationLogEntry[]; patient: Patient }> = ({ 
+const MedicationLogsPDFDocument: React.FC<{
+  logs: MedicationLogEntry[];
+  patient: Patient;
+  administrationTimes: AdministrationTime[];
+}> = ({ 
   logs, 
-  patient 
+  patient,
+  administrationTimes
 }) => (
   <Document>
     <Page size="A4" style={styles.page}>
@@ -212,34 +229,16 @@ const MedicationLogsPDFDocument: React.FC<{ logs: MedicationLogEntry[]; patient:
                 )}
                 
                 {/* Dosing Schedule */}
-                {(log.currentMorningDose || log.currentAfternoonDose || log.currentEveningDose || log.currentNightDose) && (
+                {getLoggedDoses(log).length > 0 && (
                   <View style={styles.dosingScheduleSection}>
                     <Text style={styles.dosingTitle}>Dosing Schedule:</Text>
                     <View style={styles.dosingGrid}>
-                      {log.currentMorningDose && (
-                        <View style={styles.dosingItem}>
-                          <Text style={styles.dosingLabel}>Morning:</Text>
-                          <Text style={styles.dosingValue}>{log.currentMorningDose}</Text>
+                      {getLoggedDoses(log).map(({ timeSlot, dose }) => (
+                        <View key={timeSlot} style={styles.dosingItem}>
+                          <Text style={styles.dosingLabel}>{findAdministrationTime(administrationTimes, timeSlot).label}:</Text>
+                          <Text style={styles.dosingValue}>{dose}</Text>
                         </View>
-                      )}
-                      {log.currentAfternoonDose && (
-                        <View style={styles.dosingItem}>
-                          <Text style={styles.dosingLabel}>Afternoon:</Text>
-                          <Text style={styles.dosingValue}>{log.currentAfternoonDose}</Text>
-                        </View>
-                      )}
-                      {log.currentEveningDose && (
-                        <View style={styles.dosingItem}>
-                          <Text style={styles.dosingLabel}>Evening:</Text>
-                          <Text style={styles.dosingValue}>{log.currentEveningDose}</Text>
-                        </View>
-                      )}
-                      {log.currentNightDose && (
-                        <View style={styles.dosingItem}>
-                          <Text style={styles.dosingLabel}>Night:</Text>
-                          <Text style={styles.dosingValue}>{log.currentNightDose}</Text>
-                        </View>
-                      )}
+                      ))}
                     </View>
                   </View>
                 )}
@@ -268,6 +267,32 @@ const MedicationLogsPDFDocument: React.FC<{ logs: MedicationLogEntry[]; patient:
                 </View>
               )}
 
+              {/* Allergy Warnings */}
+              {log.allergyWarnings && log.allergyWarnings.length > 0 && (
+                <View style={styles.notesSection}>
+                  <Text style={styles.notesTitle}>Allergy Warnings:</Text>
+                  {log.allergyWarnings.map((warning, index) => (
+                    <Text key={index} style={styles.notesText}>{describeAllergyWarning(warning)}</Text>
+                  ))}
+                  {log.allergyOverrideReason && (
+                    <Text style={styles.notesText}>Override reason: {log.allergyOverrideReason}</Text>
+                  )}
+                </View>
+              )}
+
+              {/* Interaction Warnings */}
+              {log.interactionWarnings && log.interactionWarnings.length > 0 && (
+                <View style={styles.notesSection}>
+                  <Text style={styles.notesTitle}>Interaction Warnings:</Text>
+                  {log.interactionWarnings.map((warning, index) => (
+                    <Text key={index} style={styles.notesText}>{describeInteraction(warning)}</Text>
+                  ))}
+                  {log.interactionOverrideReason && (
+                    <Text style={styles.notesText}>Override reason: {log.interactionOverrideReason}</Text>
+                  )}
+                </View>
+              )}
+
               {/* Status */}
               {log.status && (
                 <View style={styles.statusSection}>
@@ -540,11 +565,12 @@ const styles = StyleSheet.create({
 // Export function
 export const exportMedicationLogsToPDF = async (
   logs: MedicationLogEntry[], 
-  patient: Patient
+  patient: Patient,
+  administrationTimes: AdministrationTime[]
 ): Promise<void> => {
   try {
     const blob = await pdf(
-      <MedicationLogsPDFDocument logs={logs} patient={patient} />
+      <MedicationLogsPDFDocument logs={logs} patient={patient} administrationTimes={administrationTimes} />
     ).toBlob();
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -564,6 +590,7 @@ export const exportMedicationLogsToPDF = async (
 export const useMedicationLogsPDFExport = (
   logs: MedicationLogEntry[], 
   patient: Patient | null,
+  administrationTimes: AdministrationTime[],
   onExportComplete?: () => void
 ) => {
   const handleExport = async () => {
@@ -572,7 +599,7 @@ export const useMedicationLogsPDFExport = (
     }
     
     try {
-      await exportMedicationLogsToPDF(logs, patient);
+      await exportMedicationLogsToPDF(logs, patient, administrationTimes);
       onExportComplete?.();
     } catch (error) {
       console.error('Export failed:', error);
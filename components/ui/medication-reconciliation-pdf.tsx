@@ -0,0 +1,319 @@
+"use client";
+
+import React from 'react';
+import { Document, Page, Text, View, Image, StyleSheet, pdf } from '@react-pdf/renderer';
+import { format } from 'date-fns';
+import { TimedDose } from '@/lib/doses';
+import { AdministrationTime } from '@/lib/administration-times';
+import {
+  describeMedicationState,
+  getReconciliationDecisionLabel,
+  getReconciliationSourceLabel,
+  ReconciliationDecision,
+  ReconciliationSource,
+} from '@/lib/medication-reconciliation';
+
+interface ReconciledState {
+  medicationName: string;
+  dosage?: string;
+  morningDose?: string;
+  afternoonDose?: string;
+  eveningDose?: string;
+  nightDose?: string;
+  additionalDoses?: TimedDose[];
+  instructions?: string;
+}
+
+interface Reconciliation {
+  source: ReconciliationSource;
+  sourceDetails?: string;
+  notes?: string;
+  lines: {
+    decision: ReconciliationDecision;
+    medicationName: string;
+    before?: ReconciledState;
+    after?: ReconciledState;
+    notes?: string;
+  }[];
+  reconciledAt: number;
+  reconciledByName: string;
+  organizationName: string;
+  signatureUrl: string | null;
+}
+
+interface Patient {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  streetAddress: string;
+  suburb: string;
+  state: string;
+  postcode: string;
+}
+
+// PDF Document Component
+const MedicationReconciliationPDFDocument: React.FC<{
+  reconciliation: Reconciliation;
+  patient: Patient;
+  administrationTimes: AdministrationTime[];
+}> = ({
+  reconciliation,
+  patient,
+  administrationTimes
+}) => (
+  <Document>
+    <Page size="A4" style={styles.page}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>Medication Reconciliation Record</Text>
+        <Text style={styles.subtitle}>
+          Reconciled on {format(new Date(reconciliation.reconciledAt), 'dd/MM/yyyy HH:mm')}
+        </Text>
+      </View>
+
+      {/* Patient and source */}
+      <View style={styles.infoSection}>
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Patient:</Text>
+          <Text style={styles.infoValue}>{patient.firstName} {patient.lastName}</Text>
+        </View>
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Date of Birth:</Text>
+          <Text style={styles.infoValue}>{format(new Date(patient.dateOfBirth), 'dd/MM/yyyy')}</Text>
+        </View>
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Address:</Text>
+          <Text style={styles.infoValue}>
+            {patient.streetAddress}, {patient.suburb}, {patient.state} {patient.postcode}
+          </Text>
+        </View>
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Reconciled against:</Text>
+          <Text style={styles.infoValue}>
+            {getReconciliationSourceLabel(reconciliation.source)}
+            {reconciliation.sourceDetails ? ` (${reconciliation.sourceDetails})` : ''}
+          </Text>
+        </View>
+        {reconciliation.notes && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Notes:</Text>
+            <Text style={styles.infoValue}>{reconciliation.notes}</Text>
+          </View>
+        )}
+      </View>
+
+      {/* Decisions */}
+      <View style={styles.table}>
+        <View style={styles.tableHeader}>
+          <Text style={[styles.headerCell, styles.decisionCol]}>Decision</Text>
+          <Text style={[styles.headerCell, styles.stateCol]}>Before</Text>
+          <Text style={[styles.headerCell, styles.stateCol]}>After</Text>
+          <Text style={[styles.headerCell, styles.notesCol]}>Notes</Text>
+        </View>
+        {reconciliation.lines.map((line, index) => (
+          <View key={index} style={styles.tableRow} wrap={false}>
+            <Text style={[styles.cell, styles.decisionCol, styles.decisionText]}>
+              {getReconciliationDecisionLabel(line.decision)}
+            </Text>
+            <View style={styles.stateCol}>
+              {line.before ? (
+                <>
+                  <Text style={styles.medicationName}>{line.before.medicationName}</Text>
+                  <Text style={styles.cell}>{describeMedicationState(line.before, administrationTimes)}</Text>
+                </>
+              ) : (
+                <Text style={styles.cell}>-</Text>
+              )}
+            </View>
+            <View style={styles.stateCol}>
+              {line.after ? (
+                <>
+                  <Text style={styles.medicationName}>{line.after.medicationName}</Text>
+                  <Text style={styles.cell}>{describeMedicationState(line.after, administrationTimes)}</Text>
+                </>
+              ) : (
+                <Text style={styles.cell}>Stopped</Text>
+              )}
+            </View>
+            <Text style={[styles.cell, styles.notesCol]}>{line.notes || ''}</Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Signature */}
+      <View style={styles.signatureSection} wrap={false}>
+        <Text style={styles.sectionTitle}>Reconciled by</Text>
+        {reconciliation.signatureUrl && (
+          // react-pdf images have no alt text
+          // eslint-disable-next-line jsx-a11y/alt-text
+          <Image src={reconciliation.signatureUrl} style={styles.signature} />
+        )}
+        <Text style={styles.infoValue}>
+          {reconciliation.reconciledByName}, {reconciliation.organizationName}
+        </Text>
+        <Text style={styles.footerText}>
+          {format(new Date(reconciliation.reconciledAt), 'dd/MM/yyyy HH:mm')}
+        </Text>
+      </View>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <Text style={styles.footerText}>
+          Export generated by PillFlow Healthcare Management System
+        </Text>
+      </View>
+    </Page>
+  </Document>
+);
+
+// Styles for PDF
+const styles = StyleSheet.create({
+  page: {
+    flexDirection: 'column',
+    backgroundColor: '#FFFFFF',
+    padding: 20,
+    fontSize: 10,
+    fontFamily: 'Helvetica',
+  },
+  header: {
+    marginBottom: 20,
+    textAlign: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: '#3B82F6',
+    paddingBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 5,
+    color: '#1F2937',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  infoSection: {
+    marginBottom: 20,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 5,
+    backgroundColor: '#F9FAFB',
+  },
+  infoRow: {
+    flexDirection: 'row',
+    marginBottom: 3,
+  },
+  infoLabel: {
+    fontSize: 9,
+    fontWeight: 'bold',
+    width: '25%',
+    color: '#4B5563',
+  },
+  infoValue: {
+    fontSize: 9,
+    width: '75%',
+    color: '#1F2937',
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginBottom: 6,
+    color: '#1F2937',
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    marginBottom: 20,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    backgroundColor: '#F3F4F6',
+    borderBottomWidth: 1,
+    borderBottomColor: '#D1D5DB',
+    padding: 4,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    padding: 4,
+  },
+  headerCell: {
+    fontSize: 9,
+    fontWeight: 'bold',
+    color: '#374151',
+  },
+  cell: {
+    fontSize: 8,
+    color: '#374151',
+  },
+  decisionCol: {
+    width: '14%',
+    paddingRight: 4,
+  },
+  stateCol: {
+    width: '30%',
+    paddingRight: 4,
+  },
+  notesCol: {
+    width: '26%',
+  },
+  decisionText: {
+    fontWeight: 'bold',
+  },
+  medicationName: {
+    fontSize: 9,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 2,
+  },
+  signatureSection: {
+    marginTop: 10,
+  },
+  signature: {
+    width: 180,
+    height: 60,
+    objectFit: 'contain',
+    marginBottom: 4,
+  },
+  footer: {
+    marginTop: 20,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  footerText: {
+    fontSize: 8,
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+});
+
+// Export function
+export const exportMedicationReconciliationToPDF = async (
+  reconciliation: Reconciliation,
+  patient: Patient,
+  administrationTimes: AdministrationTime[]
+): Promise<void> => {
+  try {
+    const blob = await pdf(
+      <MedicationReconciliationPDFDocument
+        reconciliation={reconciliation}
+        patient={patient}
+        administrationTimes={administrationTimes}
+      />
+    ).toBlob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `reconciliation-${patient.firstName.toLowerCase()}-${patient.lastName.toLowerCase()}-${format(new Date(reconciliation.reconciledAt), 'yyyy-MM-dd-HHmm')}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error generating reconciliation PDF:', error);
+    throw new Error('Failed to export the reconciliation to PDF');
+  }
+};
@@ -0,0 +1,586 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { SignaturePad } from "@/components/ui/signature-pad";
+import { exportMedicationReconciliationToPDF } from "@/components/ui/medication-reconciliation-pdf";
+import { ClipboardCheck, Download, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { DOSE_TIME_SLOTS } from "@/lib/doses";
+import { DEFAULT_ADMINISTRATION_TIMES, findAdministrationTime } from "@/lib/administration-times";
+import { pickMedicationState } from "@/lib/medication-history";
+import {
+  describeSchedule,
+  getScheduleFields,
+  MedicationSchedule,
+  MedicationScheduleType,
+  SCHEDULE_TYPES,
+  WEEKDAY_LABELS,
+} from "@/lib/medication-schedule";
+import {
+  CurrentMedication,
+  describeMedicationState,
+  getReconciliationDecisionLabel,
+  getReconciliationProblem,
+  getReconciliationSourceLabel,
+  IncomingMedication,
+  matchIncomingMedications,
+  parseIncomingMedicationList,
+  RECONCILIATION_SOURCES,
+  ReconciliationDecision,
+  ReconciliationLine,
+  ReconciliationSource,
+} from "@/lib/medication-reconciliation";
+
+interface MedicationReconciliationProps {
+  patientId: Id<"patients">;
+}
+
+const CURRENT_DECISIONS: ReconciliationDecision[] = ["continue", "change", "stop"];
+
+// Compare an incoming medication list (e.g. a hospital discharge summary) with the patient's
+// medications, and the signed records of past reconciliations
+export function MedicationReconciliation({ patientId }: MedicationReconciliationProps) {
+  const reconciliations = useQuery(api.patientManagement.getMedicationReconciliations, { patientId });
+  const medications = useQuery(api.patientManagement.getPatientMedications, { patientId });
+  const patient = useQuery(api.patients.getPatient, { id: patientId });
+  const currentUser = useQuery(api.users.getCurrentUserProfile);
+  const administrationTimesResult = useQuery(api.administrationTimes.getAdministrationTimes, { patientId });
+  const administrationTimes = administrationTimesResult?.administrationTimes ?? DEFAULT_ADMINISTRATION_TIMES;
+
+  const generateUploadUrl = useMutation(api.patientManagement.generateReconciliationSignatureUploadUrl);
+  const commitReconciliation = useMutation(api.patientManagement.commitMedicationReconciliation);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [source, setSource] = useState<ReconciliationSource>("hospital_discharge");
+  const [sourceDetails, setSourceDetails] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<ReconciliationLine[] | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [signature, setSignature] = useState<Blob | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Active medications only; pending addition requests aren't on the patient's list yet
+  const currentMedications: CurrentMedication[] = (medications ?? [])
+    .filter((medication) => !medication.isPendingAddition)
+    .map((medication) => ({
+      _id: medication._id,
+      medicationName: medication.medicationName,
+      dosage: medication.dosage,
+      morningDose: medication.morningDose,
+      afternoonDose: medication.afternoonDose,
+      eveningDose: medication.eveningDose,
+      nightDose: medication.nightDose,
+      additionalDoses: medication.additionalDoses,
+      instructions: medication.instructions,
+      schedule: medication.schedule,
+      genericName: medication.genericName,
+      activeIngredient: medication.activeIngredient,
+    }));
+
+  const canReconcile = !!currentUser && !!patient?.patient &&
+    currentUser.organizationId === patient.patient.organizationId;
+
+  const reset = () => {
+    setSource("hospital_discharge");
+    setSourceDetails("");
+    setNotes("");
+    setLines(null);
+    setProblems([]);
+    setSignature(null);
+  };
+
+  const handleFile = async (file: File) => {
+    const { items, problems: fileProblems } = parseIncomingMedicationList(await file.text());
+    setProblems(fileProblems);
+    if (items.length === 0) {
+      toast.error(fileProblems[0] ?? "No medications found in the file");
+    } else {
+      setLines(matchIncomingMedications(items, currentMedications));
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<ReconciliationLine>) => {
+    setLines((current) => current && current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const updateIncoming = (index: number, changes: Partial<IncomingMedication>) => {
+    setLines((current) => current && current.map((line, i) =>
+      i === index ? { ...line, incoming: { medicationName: "", ...line.incoming, ...changes } } : line
+    ));
+  };
+
+  const updateSchedule = (index: number, changes: Partial<MedicationSchedule>) => {
+    const schedule = lines?.[index]?.incoming?.schedule;
+    updateIncoming(index, { schedule: { type: "daily", ...schedule, ...changes } });
+  };
+
+  const toggleScheduleDay = (index: number, day: number) => {
+    const days = lines?.[index]?.incoming?.schedule?.daysOfWeek ?? [];
+    updateSchedule(index, { daysOfWeek: days.includes(day) ? days.filter((d) => d !== day) : [...days, day] });
+  };
+
+  // A change to a medication the incoming list leaves out starts from the current dosing and schedule
+  const chooseDecision = (index: number, decision: ReconciliationDecision) => {
+    const line = lines?.[index];
+    const medication = currentMedications.find((candidate) => candidate._id === line?.medicationId);
+    if (decision === "change" && !line?.incoming && medication) {
+      updateLine(index, { decision, incoming: { ...pickMedicationState(medication), schedule: medication.schedule } });
+    } else {
+      updateLine(index, { decision });
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!lines) return;
+    const problem = getReconciliationProblem(lines);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    if (!signature) {
+      toast.error("Sign the reconciliation before committing it");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const uploadUrl = await generateUploadUrl({ patientId });
+      const result = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": signature.type },
+        body: signature,
+      });
+      if (!result.ok) {
+        throw new Error("Failed to upload the signature");
+      }
+      const { storageId } = await result.json();
+
+      await commitReconciliation({
+        patientId,
+        source,
+        sourceDetails: sourceDetails || undefined,
+        notes: notes || undefined,
+        signatureStorageId: storageId,
+        lines: lines.map((line) => ({
+          decision: line.decision!,
+          medicationId: line.medicationId as Id<"patientMedications"> | undefined,
+          incoming: (line.decision === "change" || line.decision === "new") && line.incoming
+            ? { ...line.incoming, schedule: line.incoming.schedule && getScheduleFields(line.incoming.schedule) }
+            : undefined,
+          notes: line.notes || undefined,
+          overrideReason: line.overrideReason || undefined,
+        })),
+      });
+      toast.success("Medications reconciled");
+      reset();
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reconcile medications");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async (reconciliation: NonNullable<typeof reconciliations>[number]) => {
+    if (!patient?.patient) {
+      toast.error("Patient information not available for export");
+      return;
+    }
+    try {
+      await exportMedicationReconciliationToPDF(reconciliation, patient.patient, administrationTimes);
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("Failed to export the reconciliation");
+    }
+  };
+
+  if (!reconciliations) {
+    return null;
+  }
+
+  const problem = lines ? getReconciliationProblem(lines) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Medication Reconciliation
+            </CardTitle>
+            <CardDescription>
+              Compare a hospital discharge or GP medication list with the current medications
+            </CardDescription>
+          </div>
+          {canReconcile && (
+            <Dialog
+              open={isDialogOpen}
+              onOpenChange={(open) => {
+                setIsDialogOpen(open);
+                if (!open) reset();
+              }}
+            >
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Reconcile
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Reconcile Medications</DialogTitle>
+                  <DialogDescription>
+                    Decide what happens to each medication. Nothing changes until you sign and commit.
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Incoming list from</Label>
+                      <Select value={source} onValueChange={(value) => setSource(value as ReconciliationSource)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RECONCILIATION_SOURCES.map(({ source: value, label }) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="reconciliationSourceDetails">Details</Label>
+                      <Input
+                        id="reconciliationSourceDetails"
+                        placeholder="e.g. hospital and discharge date"
+                        value={sourceDetails}
+                        onChange={(e) => setSourceDetails(e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  {!lines ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="incomingListFile">Incoming medication list (CSV)</Label>
+                      <Input
+                        id="incomingListFile"
+                        type="file"
+                        accept=".csv,text/csv"
+                        ref={fileInputRef}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleFile(file);
+                        }}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Columns: medication name, plus any of dosage, morning, afternoon, evening, night and
+                        instructions. Lines are matched to current medications by name and active ingredient.
+                      </p>
+                      <Button variant="outline" size="sm" onClick={() => setLines(matchIncomingMedications([], currentMedications))}>
+                        Enter the list by hand
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {lines.map((line, index) => {
+                        const medication = currentMedications.find((candidate) => candidate._id === line.medicationId);
+                        const isEditing = line.decision === "change" || line.decision === "new";
+                        return (
+                          <div key={index} className="rounded-lg border p-3 space-y-3">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                              <div>
+                                <p className="text-xs font-medium text-muted-foreground">Current</p>
+                                {medication ? (
+                                  <>
+                                    <p className="font-medium">{medication.medicationName}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {describeMedicationState(medication, administrationTimes)}
+                                    </p>
+                                    {medication.schedule && medication.schedule.type !== "daily" && (
+                                      <p className="text-xs text-muted-foreground">{describeSchedule(medication.schedule)}</p>
+                                    )}
+                                  </>
+                                ) : (
+                                  <p className="text-muted-foreground">Not currently taken</p>
+                                )}
+                              </div>
+                              <div>
+                                <p className="text-xs font-medium text-muted-foreground">Incoming</p>
+                                {line.incoming?.medicationName ? (
+                                  <>
+                                    <p className="font-medium">{line.incoming.medicationName}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {describeMedicationState(line.incoming, administrationTimes)}
+                                    </p>
+                                    {line.incoming.schedule && line.incoming.schedule.type !== "daily" && (
+                                      <p className="text-xs text-muted-foreground">
+                                        {describeSchedule(getScheduleFields(line.incoming.schedule))}
+                                      </p>
+                                    )}
+                                  </>
+                                ) : (
+                                  <p className="text-muted-foreground">Not on the incoming list</p>
+                                )}
+                              </div>
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                              {medication ? (
+                                CURRENT_DECISIONS.map((decision) => (
+                                  <Button
+                                    key={decision}
+                                    size="sm"
+                                    variant={line.decision === decision ? "default" : "outline"}
+                                    onClick={() => chooseDecision(index, decision)}
+                                  >
+                                    {getReconciliationDecisionLabel(decision)}
+                                  </Button>
+                                ))
+                              ) : (
+                                <>
+                                  <Badge>New</Badge>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              {!line.decision && (
+                                <span className="text-xs text-orange-700">Not on the incoming list - choose a decision</span>
+                              )}
+                            </div>
+
+                            {isEditing && (
+                              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                                <Input
+                                  className="col-span-2"
+                                  placeholder="Medication name"
+                                  value={line.incoming?.medicationName ?? ""}
+                                  onChange={(e) => updateIncoming(index, { medicationName: e.target.value })}
+                                />
+                                <Input
+                                  className="col-span-2"
+                                  placeholder="Dosage"
+                                  value={line.incoming?.dosage ?? ""}
+                                  onChange={(e) => updateIncoming(index, { dosage: e.target.value })}
+                                />
+                                {DOSE_TIME_SLOTS.map(({ slot, doseField }) => (
+                                  <Input
+                                    key={slot}
+                                    placeholder={findAdministrationTime(administrationTimes, slot).label}
+                                    value={line.incoming?.[doseField] ?? ""}
+                                    onChange={(e) => updateIncoming(index, { [doseField]: e.target.value })}
+                                  />
+                                ))}
+                                <Select
+                                  value={line.incoming?.schedule?.type ?? "daily"}
+                                  onValueChange={(value) => updateSchedule(index, { type: value as MedicationScheduleType })}
+                                >
+                                  <SelectTrigger className="col-span-2" aria-label="Taken">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {SCHEDULE_TYPES.map(({ type, label }) => (
+                                      <SelectItem key={type} value={type}>
+                                        {label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                {line.incoming?.schedule?.type === "prn" && (
+                                  <Input
+                                    className="col-span-2"
+                                    placeholder="Taken for, e.g. pain"
+                                    value={line.incoming.schedule.prnIndication ?? ""}
+                                    onChange={(e) => updateSchedule(index, { prnIndication: e.target.value })}
+                                  />
+                                )}
+                                {(line.incoming?.schedule?.type === "interval" || line.incoming?.schedule?.type === "cycle") && (
+                                  <Input
+                                    type="date"
+                                    aria-label={line.incoming.schedule.type === "interval" ? "First dose" : "First cycle starts"}
+                                    value={line.incoming.schedule.anchorDate ?? ""}
+                                    onChange={(e) => updateSchedule(index, { anchorDate: e.target.value || undefined })}
+                                  />
+                                )}
+                                {line.incoming?.schedule?.type === "interval" && (
+                                  <Input
+                                    type="number"
+                                    min="2"
+                                    placeholder="Every (days)"
+                                    value={line.incoming.schedule.intervalDays ?? ""}
+                                    onChange={(e) => updateSchedule(index, { intervalDays: e.target.value === "" ? undefined : Number(e.target.value) })}
+                                  />
+                                )}
+                                {line.incoming?.schedule?.type === "cycle" && (
+                                  <>
+                                    <Input
+                                      type="number"
+                                      min="1"
+                                      placeholder="Days on"
+                                      value={line.incoming.schedule.daysOn ?? ""}
+                                      onChange={(e) => updateSchedule(index, { daysOn: e.target.value === "" ? undefined : Number(e.target.value) })}
+                                    />
+                                    <Input
+                                      type="number"
+                                      min="1"
+                                      placeholder="Days off"
+                                      value={line.incoming.schedule.daysOff ?? ""}
+                                      onChange={(e) => updateSchedule(index, { daysOff: e.target.value === "" ? undefined : Number(e.target.value) })}
+                                    />
+                                  </>
+                                )}
+                                {line.incoming?.schedule?.type === "days_of_week" && (
+                                  <div className="col-span-2 md:col-span-4 flex flex-wrap gap-1">
+                                    {WEEKDAY_LABELS.map((label, day) => (
+                                      <Button
+                                        key={label}
+                                        type="button"
+                                        size="sm"
+                                        variant={line.incoming?.schedule?.daysOfWeek?.includes(day) ? "default" : "outline"}
+                                        onClick={() => toggleScheduleDay(index, day)}
+                                      >
+                                        {label}
+                                      </Button>
+                                    ))}
+                                  </div>
+                                )}
+                                <Input
+                                  className="col-span-2 md:col-span-4"
+                                  placeholder="Instructions"
+                                  value={line.incoming?.instructions ?? ""}
+                                  onChange={(e) => updateIncoming(index, { instructions: e.target.value })}
+                                />
+                                <Input
+                                  className="col-span-2 md:col-span-4"
+                                  placeholder="Reason to go ahead despite any recorded allergy or major interaction"
+                                  value={line.overrideReason ?? ""}
+                                  onChange={(e) => updateLine(index, { overrideReason: e.target.value })}
+                                />
+                              </div>
+                            )}
+
+                            <Input
+                              placeholder="Notes"
+                              value={line.notes ?? ""}
+                              onChange={(e) => updateLine(index, { notes: e.target.value })}
+                            />
+                          </div>
+                        );
+                      })}
+
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLines([...lines, { incoming: { medicationName: "" }, decision: "new" }])}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add New Medication
+                      </Button>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="reconciliationNotes">Notes</Label>
+                        <Textarea
+                          id="reconciliationNotes"
+                          value={notes}
+                          onChange={(e) => setNotes(e.target.value)}
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Signature</Label>
+                        <SignaturePad onChange={setSignature} />
+                      </div>
+
+                      {problem && <p className="text-sm text-orange-700">{problem}</p>}
+
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                          Cancel
+                        </Button>
+                        <Button onClick={handleCommit} disabled={isSaving || !!problem || !signature}>
+                          {isSaving ? "Committing..." : "Sign and Commit"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {problems.length > 0 && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-xs text-yellow-800 space-y-1">
+                      <p className="font-medium">{problems.length} row{problems.length === 1 ? "" : "s"} left out:</p>
+                      {problems.slice(0, 5).map((fileProblem) => (
+                        <p key={fileProblem}>{fileProblem}</p>
+                      ))}
+                      {problems.length > 5 && <p>...</p>}
+                    </div>
+                  )}
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {reconciliations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reconciliations recorded</p>
+        ) : (
+          <div className="space-y-2">
+            {reconciliations.map((reconciliation) => (
+              <div key={reconciliation._id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {getReconciliationSourceLabel(reconciliation.source)}
+                    {reconciliation.sourceDetails && ` - ${reconciliation.sourceDetails}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {reconciliation.lines.length} medication{reconciliation.lines.length === 1 ? "" : "s"} reconciled
+                    by {reconciliation.reconciledByName}{" "}
+                    {formatDistanceToNow(new Date(reconciliation.reconciledAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleExport(reconciliation)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  PDF
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
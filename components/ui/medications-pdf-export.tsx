@@ -3,6 +3,9 @@
 import React from 'react';
 import { Document, Page, Text, View, StyleSheet, pdf } from '@react-pdf/renderer';
 import { format } from 'date-fns';
+import { describeSchedule, MedicationSchedule } from '@/lib/medication-schedule';
+import { getDoseText, getMedicationDoses, TimedDose } from '@/lib/doses';
+import { AdministrationTime, formatAdministrationTime, includeDoseTimes } from '@/lib/administration-times';
 
 // Define types for medication and patient data
 interface Medication {
@@ -13,6 +16,7 @@ interface Medication {
   afternoonDose?: string;
   eveningDose?: string;
   nightDose?: string;
+  additionalDoses?: TimedDose[];
   instructions?: string;
   prescribedBy?: string;
   prescribedDate?: string;
@@ -21,7 +25,9 @@ interface Medication {
   activeIngredient?: string;
   strength?: string;
   route?: string;
+  schedule?: MedicationSchedule;
   isActive: boolean;
+  approximate?: boolean; // Historical regimens only: the log doesn't record how it was taken
 }
 
 interface Patient {
@@ -41,18 +47,32 @@ interface Patient {
 
 
 // PDF Document Component
-const MedicationsPDFDocument: React.FC<{ medications: Medication[]; patient: Patient }> = ({ 
+const MedicationsPDFDocument: React.FC<{
+  medications: Medication[];
+  patient: Patient;
+  administrationTimes: AdministrationTime[];
+  asOf?: number;
+}> = ({ 
   medications, 
-  patient 
+  patient,
+  administrationTimes,
+  asOf
 }) => (
   <Document>
     <Page size="A4" style={styles.page}>
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.title}>Patient Medications Report</Text>
+        <Text style={styles.title}>
+          {asOf ? `Patient Medications as at ${format(new Date(asOf), 'dd/MM/yyyy HH:mm')}` : 'Patient Medications Report'}
+        </Text>
         <Text style={styles.subtitle}>
           Generated on {format(new Date(), 'dd/MM/yyyy HH:mm')}
         </Text>
+        {asOf && (
+          <Text style={styles.subtitle}>
+            Reconstructed from the medication log
+          </Text>
+        )}
       </View>
 
       {/* Patient Information */}
@@ -135,47 +155,44 @@ const MedicationsPDFDocument: React.FC<{ medications: Medication[]; patient: Pat
               {medication.prescribedBy && (
                 <Text style={styles.detailText}>Prescribed by: {medication.prescribedBy}</Text>
               )}
+              {medication.approximate && (
+                <Text style={styles.detailText}>Dosing at this time is not recorded in the medication log</Text>
+              )}
             </View>
 
             {/* Dosing Schedule Table */}
             <View style={styles.dosingTable}>
-              <Text style={styles.dosingTitle}>Daily Dosing Schedule:</Text>
-              <View style={styles.dosingHeader}>
-                <View style={styles.dosingCol}>
-                  <Text style={styles.dosingHeaderText}>Morning</Text>
-                </View>
-                <View style={styles.dosingCol}>
-                  <Text style={styles.dosingHeaderText}>Afternoon</Text>
-                </View>
-                <View style={styles.dosingCol}>
-                  <Text style={styles.dosingHeaderText}>Evening</Text>
-                </View>
-                <View style={styles.dosingCol}>
-                  <Text style={styles.dosingHeaderText}>Night</Text>
-                </View>
-              </View>
-              <View style={styles.dosingRow}>
-                <View style={styles.dosingCol}>
-                  <Text style={styles.dosingText}>
-                    {medication.morningDose || '-'}
-                  </Text>
-                </View>
-                <View style={styles.dosingCol}>
-                  <Text style={styles.dosingText}>
-                    {medication.afternoonDose || '-'}
-                  </Text>
-                </View>
-                <View style={styles.dosingCol}>
-                  <Text style={styles.dosingText}>
-                    {medication.eveningDose || '-'}
-                  </Text>
-                </View>
-                <View style={styles.dosingCol}>
-                  <Text style={styles.dosingText}>
-                    {medication.nightDose || '-'}
-                  </Text>
-                </View>
-              </View>
+              <Text style={styles.dosingTitle}>
+                {!medication.schedule || medication.schedule.type === 'daily'
+                  ? 'Daily Dosing Schedule:'
+                  : `Dosing Schedule (${describeSchedule(medication.schedule)}):`}
+              </Text>
+              {(() => {
+                const doseTimes = includeDoseTimes(
+                  administrationTimes,
+                  getMedicationDoses(medication).map(({ timeSlot }) => timeSlot)
+                );
+                return (
+                  <>
+                    <View style={styles.dosingHeader}>
+                      {doseTimes.map((time) => (
+                        <View key={time.id} style={styles.dosingCol}>
+                          <Text style={styles.dosingHeaderText}>{formatAdministrationTime(time)}</Text>
+                        </View>
+                      ))}
+                    </View>
+                    <View style={styles.dosingRow}>
+                      {doseTimes.map((time) => (
+                        <View key={time.id} style={styles.dosingCol}>
+                          <Text style={styles.dosingText}>
+                            {getDoseText(medication, time.id) || '-'}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  </>
+                );
+              })()}
             </View>
 
             {/* Instructions */}
@@ -192,7 +209,8 @@ const MedicationsPDFDocument: React.FC<{ medications: Medication[]; patient: Pat
       {/* Footer */}
       <View style={styles.footer}>
         <Text style={styles.footerText}>
-          This report contains {medications.filter(m => m.isActive).length} active medications for {patient.firstName} {patient.lastName}.
+          This report contains {medications.filter(m => m.isActive).length} active medications for {patient.firstName} {patient.lastName}
+          {asOf ? ` as at ${format(new Date(asOf), 'dd/MM/yyyy HH:mm')}` : ''}.
         </Text>
         <Text style={styles.footerText}>
           Export generated by PillFlow Healthcare Management System
@@ -392,16 +410,20 @@ const styles = StyleSheet.create({
 // Export function
 export const exportMedicationsToPDF = async (
   medications: Medication[], 
-  patient: Patient
+  patient: Patient,
+  administrationTimes: AdministrationTime[],
+  asOf?: number
 ): Promise<void> => {
   try {
     const blob = await pdf(
-      <MedicationsPDFDocument medications={medications} patient={patient} />
+      <MedicationsPDFDocument medications={medications} patient={patient} administrationTimes={administrationTimes} asOf={asOf} />
     ).toBlob();
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `medications-${patient.firstName.toLowerCase()}-${patient.lastName.toLowerCase()}-${format(new Date(), 'yyyy-MM-dd-HHmm')}.pdf`;
+    link.download = asOf
+      ? `medications-${patient.firstName.toLowerCase()}-${patient.lastName.toLowerCase()}-as-at-${format(new Date(asOf), 'yyyy-MM-dd')}.pdf`
+      : `medications-${patient.firstName.toLowerCase()}-${patient.lastName.toLowerCase()}-${format(new Date(), 'yyyy-MM-dd-HHmm')}.pdf`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -416,6 +438,7 @@ export const exportMedicationsToPDF = async (
 export const useMedicationsPDFExport = (
   medications: Medication[], 
   patient: Patient | null,
+  administrationTimes: AdministrationTime[],
   onExportComplete?: () => void
 ) => {
   const handleExport = async () => {
@@ -424,7 +447,7 @@ export const useMedicationsPDFExport = (
     }
     
     try {
-      await exportMedicationsToPDF(medications, patient);
+      await exportMedicationsToPDF(medications, patient, administrationTimes);
       onExportComplete?.();
     } catch (error) {
       console.error('Export failed:', error);
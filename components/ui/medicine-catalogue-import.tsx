@@ -0,0 +1,140 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { BookOpen, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { CATALOGUE_IMPORT_BATCH_SIZE, parseCatalogueFile } from "@/lib/medicine-catalogue";
+
+// Replace the organisation's Australian medicines catalogue from a CSV extract
+export function MedicineCatalogueImport() {
+  const status = useQuery(api.medicineCatalogue.getMedicineCatalogueStatus);
+  const startImport = useMutation(api.medicineCatalogue.startMedicineCatalogueImport);
+  const importItems = useMutation(api.medicineCatalogue.importMedicineCatalogueItems);
+  const recordImport = useMutation(api.medicineCatalogue.recordMedicineCatalogueImport);
+  const removeOldItems = useMutation(api.medicineCatalogue.removeOldMedicineCatalogueItems);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const handleImport = async (file: File) => {
+    const { items, problems: fileProblems } = parseCatalogueFile(await file.text());
+    setProblems(fileProblems);
+    if (items.length === 0) {
+      toast.error(fileProblems[0] ?? "No catalogue items found in the file");
+      return;
+    }
+
+    const message = status?.lastImport
+      ? `Replace the ${status.lastImport.itemCount} catalogue items with ${items.length} from ${file.name}?`
+      : `Import ${items.length} catalogue items from ${file.name}?`;
+    if (!confirm(message)) return;
+
+    setProgress(0);
+    try {
+      // The current catalogue stays in use until every item is imported and the import is recorded
+      const { version } = await startImport({});
+      for (let start = 0; start < items.length; start += CATALOGUE_IMPORT_BATCH_SIZE) {
+        await importItems({ version, items: items.slice(start, start + CATALOGUE_IMPORT_BATCH_SIZE) });
+        setProgress(Math.round(((start + CATALOGUE_IMPORT_BATCH_SIZE) / items.length) * 100));
+      }
+
+      await recordImport({ version, fileName: file.name, itemCount: items.length });
+      toast.success(`Imported ${items.length} catalogue items`);
+
+      // The replaced catalogue is no longer searched; anything left behind goes after the next import
+      try {
+        let removed = await removeOldItems({});
+        while (removed.hasMore) {
+          removed = await removeOldItems({});
+        }
+      } catch (error) {
+        console.error("Error removing the replaced catalogue:", error);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import the catalogue");
+    } finally {
+      setProgress(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Australian Medicines Catalogue
+        </CardTitle>
+        <CardDescription>
+          Searched before the FDA database when adding medications, so AMT codes and PBS item numbers are recorded
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.lastImport ? (
+          <p className="text-sm">
+            {status.lastImport.itemCount} items from <span className="font-medium">{status.lastImport.fileName}</span>,
+            imported by {status.lastImport.importedByName}{" "}
+            {formatDistanceToNow(new Date(status.lastImport.importedAt), { addSuffix: true })}
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">No catalogue imported yet</p>
+        )}
+
+        {status.canImport && (
+          <div className="space-y-2">
+            <Label htmlFor="catalogueFile">Catalogue file (CSV)</Label>
+            <Input
+              id="catalogueFile"
+              type="file"
+              accept=".csv,text/csv"
+              ref={fileInputRef}
+              disabled={progress !== null}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              Columns: brand name and/or generic name, plus any of AMT code, PBS item code, active ingredient,
+              strength, form, route and manufacturer. Importing replaces the current catalogue.
+            </p>
+          </div>
+        )}
+
+        {progress !== null && (
+          <div className="space-y-1">
+            <p className="text-sm flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              Importing...
+            </p>
+            <Progress value={Math.min(progress, 100)} />
+          </div>
+        )}
+
+        {problems.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-xs text-yellow-800 space-y-1">
+            <p className="font-medium">{problems.length} row{problems.length === 1 ? "" : "s"} left out:</p>
+            {problems.slice(0, 5).map((problem) => (
+              <p key={problem}>{problem}</p>
+            ))}
+            {problems.length > 5 && <p>...</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,481 @@
+"use client";
+
+import React from 'react';
+import { Document, Page, Text, View, StyleSheet, pdf } from '@react-pdf/renderer';
+import { addDays, format } from 'date-fns';
+import { formatDoseQuantity } from '@/lib/doses';
+import { DAYS_PER_PACK } from '@/lib/pack-expiry';
+import { describeSchedule, isDoseDueOn, MedicationSchedule } from '@/lib/medication-schedule';
+import { AdministrationTime, formatAdministrationTime } from '@/lib/administration-times';
+
+// Define types for layout data
+interface LayoutMedication {
+  _id: string;
+  medicationName: string;
+  dosage: string;
+  dose: string;
+  tabletCount: number | null; // Null when the dose is not a tablet or capsule count
+  instructions?: string;
+  brandName?: string;
+  genericName?: string;
+  strength?: string;
+  schedule?: MedicationSchedule;
+  scheduleProblem?: string | null; // Set when the schedule is unsafe, e.g. methotrexate without a weekly day
+}
+
+interface LayoutPack {
+  websterPackId: string;
+  packWeekStart?: string; // YYYY-MM-DD
+  packType: 'blister' | 'sachets';
+}
+
+interface LayoutPatient {
+  name: string;
+  shareToken: string;
+}
+
+// Medications keyed by administration time id
+type MedicationsByTime = Record<string, LayoutMedication[]>;
+
+// Share of the description table's width taken by the dose columns together
+const SLOT_DOSE_COLUMNS_WIDTH = 44;
+
+// Medication line printed in a cell or sachet: "2 × Metformin 500mg", or the dose text when it is not a count
+function describeDose(medication: LayoutMedication): string {
+  const name = [medication.medicationName, medication.strength].filter(Boolean).join(' ');
+  return medication.tabletCount === null
+    ? `${name} (${medication.dose})`
+    : `${formatDoseQuantity(medication.tabletCount)} × ${name}`;
+}
+
+// Tablet total for a slot; doses that are not counts are left out of the total
+function getSlotTotal(medications: LayoutMedication[]): string {
+  const quantities = medications.map((medication) => medication.tabletCount);
+  const total = quantities.reduce<number>((sum, quantity) => sum + (quantity ?? 0), 0);
+  const hasOther = quantities.some((quantity) => quantity === null);
+  return `${formatDoseQuantity(total)} tablet${total === 1 ? '' : 's'}${hasOther ? ' + other' : ''}`;
+}
+
+function getDayLabel(pack: LayoutPack, day: number): string {
+  if (!pack.packWeekStart) return `Day ${day + 1}`;
+  return format(addDays(new Date(`${pack.packWeekStart}T00:00:00`), day), 'EEE dd/MM');
+}
+
+function isScheduled(medication: LayoutMedication): boolean {
+  return !!medication.schedule && medication.schedule.type !== 'daily';
+}
+
+// Medications in a slot on a day of the pack. Without a pack start date the days are unknown, so
+// medications that are not taken every day are left out of the cells. Medications with an unsafe
+// schedule are never laid out; the description table says why.
+function getDayMedications(pack: LayoutPack, day: number, medications: LayoutMedication[]): LayoutMedication[] {
+  const packable = medications.filter((medication) => !medication.scheduleProblem);
+  if (!pack.packWeekStart) return packable.filter((medication) => !isScheduled(medication));
+  const date = format(addDays(new Date(`${pack.packWeekStart}T00:00:00`), day), 'yyyy-MM-dd');
+  return packable.filter((medication) => isDoseDueOn(medication.schedule, date));
+}
+
+// Every medication in the pack with its dose in each slot, for the description table
+function getMedicationRows(medicationsByTime: MedicationsByTime, administrationTimes: AdministrationTime[]) {
+  const rows = new Map<string, { medication: LayoutMedication; doses: Record<string, string> }>();
+  for (const { id } of administrationTimes) {
+    for (const medication of medicationsByTime[id] ?? []) {
+      const row = rows.get(medication._id) ?? { medication, doses: {} };
+      row.doses[id] = medication.dose;
+      rows.set(medication._id, row);
+    }
+  }
+  return Array.from(rows.values());
+}
+
+const PackHeader: React.FC<{ pack: LayoutPack; patient: LayoutPatient; title: string }> = ({ pack, patient, title }) => (
+  <View style={styles.header}>
+    <View>
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.patientName}>{patient.name}</Text>
+    </View>
+    <View style={styles.headerDetails}>
+      <Text style={styles.packId}>{pack.websterPackId}</Text>
+      <Text style={styles.subtitle}>
+        {pack.packWeekStart
+          ? `Pack start ${format(new Date(`${pack.packWeekStart}T00:00:00`), 'EEEE dd/MM/yyyy')}`
+          : 'Pack start: ____________'}
+      </Text>
+    </View>
+  </View>
+);
+
+const MedicationDescriptions: React.FC<{
+  pack: LayoutPack;
+  medicationsByTime: MedicationsByTime;
+  administrationTimes: AdministrationTime[];
+}> = ({ pack, medicationsByTime, administrationTimes }) => {
+  const rows = getMedicationRows(medicationsByTime, administrationTimes);
+  const slotDoseColumn = { width: `${SLOT_DOSE_COLUMNS_WIDTH / administrationTimes.length}%` };
+
+  return (
+    <View style={styles.descriptions} wrap={false}>
+      <Text style={styles.sectionTitle}>Medications in this pack</Text>
+      {!pack.packWeekStart && rows.some(({ medication }) => isScheduled(medication)) && (
+        <Text style={styles.scheduleNote}>
+          This pack has no start date, so medications not taken every day are not shown in the layout. Pack them on their scheduled days.
+        </Text>
+      )}
+      {rows.some(({ medication }) => medication.scheduleProblem) && (
+        <Text style={styles.scheduleProblem}>
+          Medications marked DO NOT PACK are left out of the layout until their schedule is corrected.
+        </Text>
+      )}
+      <View style={styles.descriptionHeader}>
+        <Text style={[styles.headerText, styles.colMedication]}>Medication</Text>
+        {administrationTimes.map((time) => (
+          <Text key={time.id} style={[styles.headerText, styles.colSlotDose, slotDoseColumn]}>{formatAdministrationTime(time)}</Text>
+        ))}
+        <Text style={[styles.headerText, styles.colInstructions]}>Instructions</Text>
+      </View>
+      {rows.map(({ medication, doses }) => (
+        <View key={medication._id} style={styles.descriptionRow}>
+          <View style={styles.colMedication}>
+            <Text style={styles.cellBold}>
+              {[medication.medicationName, medication.strength].filter(Boolean).join(' ')}
+            </Text>
+            <Text style={styles.cellMuted}>
+              {[medication.brandName, medication.genericName].filter(Boolean).join(' / ') || medication.dosage}
+            </Text>
+            {isScheduled(medication) && (
+              <Text style={styles.cellSchedule}>{describeSchedule(medication.schedule)}</Text>
+            )}
+            {medication.scheduleProblem && (
+              <Text style={styles.scheduleProblem}>DO NOT PACK: {medication.scheduleProblem}</Text>
+            )}
+          </View>
+          {administrationTimes.map(({ id }) => (
+            <Text key={id} style={[styles.cellText, styles.colSlotDose, slotDoseColumn]}>{doses[id] || '—'}</Text>
+          ))}
+          <Text style={[styles.cellText, styles.colInstructions]}>{medication.instructions || ''}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+// 7-day blister card for the front of the pack, one row per administration time
+const BlisterLayoutPage: React.FC<{
+  pack: LayoutPack;
+  patient: LayoutPatient;
+  medicationsByTime: MedicationsByTime;
+  administrationTimes: AdministrationTime[];
+}> = ({ pack, patient, medicationsByTime, administrationTimes }) => (
+  <Page size="A4" orientation="landscape" style={styles.page}>
+    <PackHeader pack={pack} patient={patient} title="Blister Pack Layout" />
+
+    <View style={styles.gridRow}>
+      <View style={[styles.slotLabelCell, styles.gridHeaderCell]} />
+      {Array.from({ length: DAYS_PER_PACK }, (_, day) => (
+        <View key={day} style={[styles.gridCell, styles.gridHeaderCell]}>
+          <Text style={styles.headerText}>{getDayLabel(pack, day)}</Text>
+        </View>
+      ))}
+    </View>
+    {administrationTimes.map((time) => (
+      <View key={time.id} style={styles.gridRow}>
+        <View style={styles.slotLabelCell}>
+          <Text style={styles.slotLabel}>{time.label}</Text>
+          {time.time && <Text style={styles.slotTime}>{time.time}</Text>}
+        </View>
+        {Array.from({ length: DAYS_PER_PACK }, (_, day) => {
+          const medications = getDayMedications(pack, day, medicationsByTime[time.id] ?? []);
+          return (
+            <View key={day} style={[styles.gridCell, styles.blisterCell]}>
+              {medications.length === 0 ? (
+                <Text style={styles.emptyCell}>Empty</Text>
+              ) : (
+                <>
+                  {medications.map((medication) => (
+                    <Text key={medication._id} style={styles.cellText}>{describeDose(medication)}</Text>
+                  ))}
+                  <Text style={styles.cellTotal}>{getSlotTotal(medications)}</Text>
+                </>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    ))}
+
+    <MedicationDescriptions pack={pack} medicationsByTime={medicationsByTime} administrationTimes={administrationTimes} />
+  </Page>
+);
+
+// Sachet roll listing, one line per sachet in the order the machine dispenses them
+const SachetRollPage: React.FC<{
+  pack: LayoutPack;
+  patient: LayoutPatient;
+  medicationsByTime: MedicationsByTime;
+  administrationTimes: AdministrationTime[];
+}> = ({ pack, patient, medicationsByTime, administrationTimes }) => {
+  const sachets = Array.from({ length: DAYS_PER_PACK }, (_, day) =>
+    administrationTimes.map((time) => ({
+      day,
+      label: formatAdministrationTime(time),
+      medications: getDayMedications(pack, day, medicationsByTime[time.id] ?? []),
+    })).filter((sachet) => sachet.medications.length > 0)
+  ).flat();
+
+  return (
+    <Page size="A4" style={styles.page}>
+      <PackHeader pack={pack} patient={patient} title="Sachet Roll" />
+
+      <View style={styles.descriptionHeader} fixed>
+        <Text style={[styles.headerText, styles.colSachet]}>#</Text>
+        <Text style={[styles.headerText, styles.colSachetTime]}>Day / Time</Text>
+        <Text style={[styles.headerText, styles.colSachetContents]}>Contents</Text>
+        <Text style={[styles.headerText, styles.colSachetTotal]}>Total</Text>
+      </View>
+      {sachets.map((sachet, index) => (
+        <View key={`${sachet.day}-${sachet.label}`} style={styles.descriptionRow} wrap={false}>
+          <Text style={[styles.cellBold, styles.colSachet]}>{index + 1}</Text>
+          <Text style={[styles.cellText, styles.colSachetTime]}>{getDayLabel(pack, sachet.day)} • {sachet.label}</Text>
+          <View style={styles.colSachetContents}>
+            {sachet.medications.map((medication) => (
+              <Text key={medication._id} style={styles.cellText}>{describeDose(medication)}</Text>
+            ))}
+          </View>
+          <Text style={[styles.cellText, styles.colSachetTotal]}>{getSlotTotal(sachet.medications)}</Text>
+        </View>
+      ))}
+
+      <MedicationDescriptions pack={pack} medicationsByTime={medicationsByTime} administrationTimes={administrationTimes} />
+    </Page>
+  );
+};
+
+// PDF Document Component
+const PackLayoutPDFDocument: React.FC<{
+  packs: LayoutPack[];
+  patient: LayoutPatient;
+  medicationsByTime: MedicationsByTime;
+  administrationTimes: AdministrationTime[];
+}> = ({ packs, patient, medicationsByTime, administrationTimes }) => (
+  <Document>
+    {packs.map((pack) => pack.packType === 'sachets' ? (
+      <SachetRollPage
+        key={pack.websterPackId}
+        pack={pack}
+        patient={patient}
+        medicationsByTime={medicationsByTime}
+        administrationTimes={administrationTimes}
+      />
+    ) : (
+      <BlisterLayoutPage
+        key={pack.websterPackId}
+        pack={pack}
+        patient={patient}
+        medicationsByTime={medicationsByTime}
+        administrationTimes={administrationTimes}
+      />
+    ))}
+  </Document>
+);
+
+// Styles for PDF
+const styles = StyleSheet.create({
+  page: {
+    backgroundColor: '#FFFFFF',
+    padding: 24,
+    fontSize: 8,
+    fontFamily: 'Helvetica',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    marginBottom: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: '#2563EB',
+    paddingBottom: 8,
+  },
+  headerDetails: {
+    alignItems: 'flex-end',
+  },
+  title: {
+    fontSize: 10,
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+  patientName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  packId: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 2,
+  },
+  subtitle: {
+    fontSize: 9,
+    color: '#4B5563',
+  },
+  gridRow: {
+    flexDirection: 'row',
+  },
+  gridHeaderCell: {
+    minHeight: 20,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  slotLabelCell: {
+    width: 70,
+    borderWidth: 0.5,
+    borderColor: '#9CA3AF',
+    padding: 4,
+    justifyContent: 'center',
+  },
+  slotLabel: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  slotTime: {
+    fontSize: 8,
+    color: '#6B7280',
+  },
+  gridCell: {
+    flex: 1,
+    borderWidth: 0.5,
+    borderColor: '#9CA3AF',
+    padding: 4,
+  },
+  blisterCell: {
+    minHeight: 72,
+  },
+  emptyCell: {
+    fontSize: 7,
+    color: '#9CA3AF',
+    textAlign: 'center',
+  },
+  cellTotal: {
+    marginTop: 'auto',
+    paddingTop: 3,
+    fontSize: 8,
+    fontWeight: 'bold',
+    color: '#1D4ED8',
+  },
+  sectionTitle: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  descriptions: {
+    marginTop: 14,
+  },
+  descriptionHeader: {
+    flexDirection: 'row',
+    backgroundColor: '#F3F4F6',
+    borderWidth: 0.5,
+    borderColor: '#D1D5DB',
+    paddingVertical: 4,
+  },
+  descriptionRow: {
+    flexDirection: 'row',
+    borderWidth: 0.5,
+    borderTopWidth: 0,
+    borderColor: '#D1D5DB',
+    paddingVertical: 4,
+  },
+  headerText: {
+    fontSize: 8,
+    fontWeight: 'bold',
+    color: '#374151',
+  },
+  cellText: {
+    fontSize: 8,
+    color: '#1F2937',
+  },
+  cellBold: {
+    fontSize: 8,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  cellMuted: {
+    fontSize: 7,
+    color: '#6B7280',
+  },
+  cellSchedule: {
+    fontSize: 7,
+    fontWeight: 'bold',
+    color: '#7C3AED',
+  },
+  scheduleNote: {
+    fontSize: 8,
+    color: '#B45309',
+    marginBottom: 4,
+  },
+  scheduleProblem: {
+    fontSize: 8,
+    fontWeight: 'bold',
+    color: '#B91C1C',
+    marginBottom: 4,
+  },
+  colMedication: {
+    width: '30%',
+    paddingHorizontal: 4,
+  },
+  colSlotDose: {
+    paddingHorizontal: 4,
+  },
+  colInstructions: {
+    width: '26%',
+    paddingHorizontal: 4,
+  },
+  colSachet: {
+    width: '6%',
+    paddingHorizontal: 4,
+  },
+  colSachetTime: {
+    width: '22%',
+    paddingHorizontal: 4,
+  },
+  colSachetContents: {
+    width: '52%',
+    paddingHorizontal: 4,
+  },
+  colSachetTotal: {
+    width: '20%',
+    paddingHorizontal: 4,
+  },
+});
+
+// Export function
+export const exportPackLayoutToPDF = async (
+  packs: LayoutPack[],
+  patient: LayoutPatient,
+  medicationsByTime: MedicationsByTime,
+  administrationTimes: AdministrationTime[]
+): Promise<void> => {
+  try {
+    const blob = await pdf(
+      <PackLayoutPDFDocument
+        packs={packs}
+        patient={patient}
+        medicationsByTime={medicationsByTime}
+        administrationTimes={administrationTimes}
+      />
+    ).toBlob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pack-layout-${patient.shareToken.toLowerCase()}-${format(new Date(), 'yyyy-MM-dd-HHmm')}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error generating pack layout PDF:', error);
+    throw new Error('Failed to export pack layout to PDF');
+  }
+};
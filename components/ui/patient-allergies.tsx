@@ -0,0 +1,329 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { BadgeCheck, Plus, ShieldAlert, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import {
+  ALLERGY_SEVERITIES,
+  ALLERGY_SOURCES,
+  ALLERGY_TYPES,
+  AllergySeverity,
+  AllergySource,
+  AllergyType,
+} from "@/lib/allergies";
+
+interface PatientAllergiesProps {
+  patientId: Id<"patients">;
+}
+
+const SEVERITY_CLASSES: Record<AllergySeverity, string> = {
+  severe: "text-red-700 bg-red-50 border-red-200",
+  moderate: "text-orange-700 bg-orange-50 border-orange-200",
+  mild: "text-yellow-700 bg-yellow-50 border-yellow-200",
+};
+
+const EMPTY_FORM = {
+  substance: "",
+  allergyType: "allergy" as AllergyType,
+  reaction: "",
+  severity: "moderate" as AllergySeverity,
+  source: "patient" as AllergySource,
+  notes: "",
+};
+
+// Allergies at a glance, for the patient header
+export function AllergySummary({ patientId }: PatientAllergiesProps) {
+  const allergies = useQuery(api.patientAllergies.getPatientAllergies, { patientId });
+
+  if (!allergies) return null;
+
+  if (allergies.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground flex items-center gap-1">
+        <ShieldAlert className="h-4 w-4" />
+        No allergies recorded
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium text-red-700 flex items-center gap-1">
+        <ShieldAlert className="h-4 w-4" />
+        Allergies:
+      </span>
+      {allergies.map((allergy) => (
+        <Badge key={allergy._id} className={`border ${SEVERITY_CLASSES[allergy.severity]}`}>
+          {allergy.substance}
+          {allergy.allergyType === "intolerance" && " (intolerance)"}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+// The patient's allergy and intolerance register
+export function PatientAllergies({ patientId }: PatientAllergiesProps) {
+  const allergies = useQuery(api.patientAllergies.getPatientAllergies, { patientId });
+  const addAllergy = useMutation(api.patientAllergies.addPatientAllergy);
+  const verifyAllergy = useMutation(api.patientAllergies.verifyPatientAllergy);
+  const removeAllergy = useMutation(api.patientAllergies.removePatientAllergy);
+
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const handleAdd = async () => {
+    if (!formData.substance.trim()) {
+      toast.error("Enter the substance the patient reacts to");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addAllergy({
+        patientId,
+        substance: formData.substance,
+        allergyType: formData.allergyType,
+        reaction: formData.reaction || undefined,
+        severity: formData.severity,
+        source: formData.source,
+        notes: formData.notes || undefined,
+      });
+      toast.success("Allergy recorded");
+      setFormData(EMPTY_FORM);
+      setIsAddDialogOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to record allergy");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVerify = async (allergyId: Id<"patientAllergies">) => {
+    try {
+      await verifyAllergy({ allergyId });
+      toast.success("Allergy verified");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to verify allergy");
+    }
+  };
+
+  const handleRemove = async (allergyId: Id<"patientAllergies">, substance: string) => {
+    if (!confirm(`Remove ${substance} from the allergy register? Medications will no longer be checked against it.`)) {
+      return;
+    }
+
+    try {
+      await removeAllergy({ allergyId });
+      toast.success("Allergy removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove allergy");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Allergies &amp; Adverse Reactions
+            </CardTitle>
+            <CardDescription>
+              Medications added for this patient are checked against these entries
+            </CardDescription>
+          </div>
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Allergy
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Add Allergy or Intolerance</DialogTitle>
+                <DialogDescription>
+                  Record a single ingredient, or a drug class such as penicillins or NSAIDs
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="allergySubstance">Substance *</Label>
+                  <Input
+                    id="allergySubstance"
+                    value={formData.substance}
+                    onChange={(e) => setFormData(prev => ({ ...prev, substance: e.target.value }))}
+                    placeholder="e.g., Penicillins"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select
+                      value={formData.allergyType}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, allergyType: value as AllergyType }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ALLERGY_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Severity</Label>
+                    <Select
+                      value={formData.severity}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, severity: value as AllergySeverity }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ALLERGY_SEVERITIES.map((severity) => (
+                          <SelectItem key={severity.value} value={severity.value}>
+                            {severity.label} ({severity.description})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="allergyReaction">Reaction</Label>
+                  <Input
+                    id="allergyReaction"
+                    value={formData.reaction}
+                    onChange={(e) => setFormData(prev => ({ ...prev, reaction: e.target.value }))}
+                    placeholder="e.g., Anaphylaxis"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Source</Label>
+                  <Select
+                    value={formData.source}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, source: value as AllergySource }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALLERGY_SOURCES.map((source) => (
+                        <SelectItem key={source.value} value={source.value}>{source.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="allergyNotes">Notes</Label>
+                  <Textarea
+                    id="allergyNotes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                    placeholder="e.g., Reaction in 2019 hospital admission"
+                    rows={2}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setIsAddDialogOpen(false)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleAdd} disabled={isSaving}>
+                    {isSaving ? "Saving..." : "Add Allergy"}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!allergies || allergies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No allergies or adverse reactions recorded</p>
+        ) : (
+          <div className="space-y-3">
+            {allergies.map((allergy) => (
+              <div key={allergy._id} className={`border rounded-lg p-3 ${SEVERITY_CLASSES[allergy.severity]}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {allergy.substance}
+                      <span className="text-xs font-normal ml-2">
+                        {ALLERGY_SEVERITIES.find((severity) => severity.value === allergy.severity)?.label}{" "}
+                        {allergy.allergyType}
+                      </span>
+                    </p>
+                    {allergy.reaction && <p className="text-sm">Reaction: {allergy.reaction}</p>}
+                    {allergy.notes && <p className="text-sm">{allergy.notes}</p>}
+                    <p className="text-xs opacity-80">
+                      Source: {ALLERGY_SOURCES.find((source) => source.value === allergy.source)?.label}
+                      {" - "}recorded by {allergy.addedByUser?.firstName} {allergy.addedByUser?.lastName}
+                      {allergy.addedByOrg && ` (${allergy.addedByOrg.name})`}{" "}
+                      {formatDistanceToNow(new Date(allergy.addedAt), { addSuffix: true })}
+                    </p>
+                    {allergy.verifiedAt ? (
+                      <p className="text-xs flex items-center gap-1">
+                        <BadgeCheck className="h-3 w-3" />
+                        Verified by {allergy.verifiedByUser?.firstName} {allergy.verifiedByUser?.lastName}{" "}
+                        {formatDistanceToNow(new Date(allergy.verifiedAt), { addSuffix: true })}
+                      </p>
+                    ) : (
+                      <Badge variant="outline" className="text-xs">Unverified</Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    {!allergy.verifiedAt && (
+                      <Button variant="ghost" size="sm" onClick={() => handleVerify(allergy._id)}>
+                        <BadgeCheck className="h-4 w-4 mr-1" />
+                        Verify
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(allergy._id, allergy.substance)}
+                      aria-label={`Remove ${allergy.substance}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
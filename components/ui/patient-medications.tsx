@@ -33,7 +33,15 @@ import { api } from "@/convex/_generated/api";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 import { MedicationForm } from "@/components/medication-form";
+import { InteractionWarnings } from "@/components/ui/interaction-warnings";
+import { AllergyWarnings } from "@/components/ui/allergy-warnings";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { useMedicationsPDFExport } from "@/components/ui/medications-pdf-export";
+import { describeSchedule, MedicationSchedule } from "@/lib/medication-schedule";
+import { getMedicationDoses, TimedDose } from "@/lib/doses";
+import { DEFAULT_ADMINISTRATION_TIMES, findAdministrationTime } from "@/lib/administration-times";
+import { hasMajorInteraction, InteractionWarning } from "@/lib/drug-interactions";
 
 interface PatientMedicationsProps {
   patientId: string;
@@ -47,11 +55,15 @@ interface MedicationFormData {
   afternoonDose: string;
   eveningDose: string;
   nightDose: string;
+  // Doses at administration times other than the standard four
+  additionalDoses?: TimedDose[];
   instructions: string;
   prescribedBy: string;
   prescribedDate: string;
   startDate: string;
   endDate: string;
+  // Days the doses are taken; every day when not set
+  schedule?: MedicationSchedule;
   // FDA NDC fields
   fdaNdc?: string;
   genericName?: string;
@@ -61,8 +73,15 @@ interface MedicationFormData {
   manufacturer?: string;
   activeIngredient?: string;
   strength?: string;
+  // Australian catalogue codes
+  amtCode?: string;
+  pbsItemCode?: string;
   // Request notes for shared users
   requestNotes?: string;
+  // Why the medication is going ahead despite a major interaction
+  interactionOverrideReason?: string;
+  // Why the medication is being added despite a recorded allergy
+  allergyOverrideReason?: string;
 }
 
 export function PatientMedications({ patientId }: PatientMedicationsProps) {
@@ -70,6 +89,9 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
   const [editingMedication, setEditingMedication] = useState<any>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  // Request awaiting a reason before it is approved despite a major interaction
+  const [overridingRequest, setOverridingRequest] = useState<{ requestId: string; warnings: InteractionWarning[] } | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
 
   // Query for medications, patient, and current user
   const medications = useQuery(api.patientManagement.getPatientMedications, {
@@ -79,11 +101,16 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
     id: patientId as any,
   });
   const currentUser = useQuery(api.users.getCurrentUserProfile);
+  const administrationTimesResult = useQuery(api.administrationTimes.getAdministrationTimes, {
+    patientId: patientId as any,
+  });
+  const administrationTimes = administrationTimesResult?.administrationTimes ?? DEFAULT_ADMINISTRATION_TIMES;
 
   // PDF Export hook
   const { handleExport } = useMedicationsPDFExport(
     medications || [],
     patient?.patient || null,
+    administrationTimes,
     () => {
       setIsExporting(false);
       toast.success("Medications list exported successfully!");
@@ -136,11 +163,13 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         afternoonDose: data.afternoonDose || undefined,
         eveningDose: data.eveningDose || undefined,
         nightDose: data.nightDose || undefined,
+        additionalDoses: data.additionalDoses,
         instructions: data.instructions || undefined,
         prescribedBy: data.prescribedBy || undefined,
         prescribedDate: data.prescribedDate || undefined,
         startDate: data.startDate || undefined,
         endDate: data.endDate || undefined,
+        schedule: data.schedule,
         // FDA NDC fields
         fdaNdc: data.fdaNdc || undefined,
         genericName: data.genericName || undefined,
@@ -150,7 +179,11 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         manufacturer: data.manufacturer || undefined,
         activeIngredient: data.activeIngredient || undefined,
         strength: data.strength || undefined,
+        amtCode: data.amtCode || undefined,
+        pbsItemCode: data.pbsItemCode || undefined,
         requestNotes: data.requestNotes || undefined,
+        interactionOverrideReason: data.interactionOverrideReason,
+        allergyOverrideReason: data.allergyOverrideReason,
       });
       
       toast.success("Medication addition request submitted successfully");
@@ -165,11 +198,13 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         afternoonDose: data.afternoonDose || undefined,
         eveningDose: data.eveningDose || undefined,
         nightDose: data.nightDose || undefined,
+        additionalDoses: data.additionalDoses,
         instructions: data.instructions || undefined,
         prescribedBy: data.prescribedBy || undefined,
         prescribedDate: data.prescribedDate || undefined,
         startDate: data.startDate || undefined,
         endDate: data.endDate || undefined,
+        schedule: data.schedule,
         // FDA NDC fields
         fdaNdc: data.fdaNdc || undefined,
         genericName: data.genericName || undefined,
@@ -179,6 +214,10 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         manufacturer: data.manufacturer || undefined,
         activeIngredient: data.activeIngredient || undefined,
         strength: data.strength || undefined,
+        amtCode: data.amtCode || undefined,
+        pbsItemCode: data.pbsItemCode || undefined,
+        interactionOverrideReason: data.interactionOverrideReason,
+        allergyOverrideReason: data.allergyOverrideReason,
       });
       
       toast.success("Medication added successfully");
@@ -207,11 +246,13 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         afternoonDose: data.afternoonDose || undefined,
         eveningDose: data.eveningDose || undefined,
         nightDose: data.nightDose || undefined,
+        additionalDoses: data.additionalDoses,
         instructions: data.instructions || undefined,
         prescribedBy: data.prescribedBy || undefined,
         prescribedDate: data.prescribedDate || undefined,
         startDate: data.startDate || undefined,
         endDate: data.endDate || undefined,
+        schedule: data.schedule,
         // FDA NDC fields
         fdaNdc: data.fdaNdc || undefined,
         genericName: data.genericName || undefined,
@@ -221,6 +262,9 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         manufacturer: data.manufacturer || undefined,
         activeIngredient: data.activeIngredient || undefined,
         strength: data.strength || undefined,
+        amtCode: data.amtCode || undefined,
+        pbsItemCode: data.pbsItemCode || undefined,
+        interactionOverrideReason: data.interactionOverrideReason,
       });
       
       toast.success("Medication updated successfully");
@@ -259,11 +303,13 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         afternoonDose: data.afternoonDose || undefined,
         eveningDose: data.eveningDose || undefined,
         nightDose: data.nightDose || undefined,
+        additionalDoses: data.additionalDoses,
         instructions: data.instructions || undefined,
         prescribedBy: data.prescribedBy || undefined,
         prescribedDate: data.prescribedDate || undefined,
         startDate: data.startDate || undefined,
         endDate: data.endDate || undefined,
+        schedule: data.schedule,
         // FDA NDC fields
         fdaNdc: data.fdaNdc || undefined,
         genericName: data.genericName || undefined,
@@ -273,6 +319,8 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         manufacturer: data.manufacturer || undefined,
         activeIngredient: data.activeIngredient || undefined,
         strength: data.strength || undefined,
+        amtCode: data.amtCode || undefined,
+        pbsItemCode: data.pbsItemCode || undefined,
       } : undefined;
 
       await requestMedicationChange({
@@ -280,6 +328,7 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         requestType,
         requestedChanges,
         requestNotes: data.requestNotes,
+        interactionOverrideReason: requestType === "update" ? data.interactionOverrideReason : undefined,
       });
       
       const actionText = requestType === "remove" ? "removal" : "change";
@@ -293,10 +342,21 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
     }
   };
 
-  const handleApproveRequest = async (requestId: string) => {
+  const handleApproveRequest = async (
+    pendingRequest: { requestId: string; interactionWarnings?: InteractionWarning[] },
+    interactionOverrideReason?: string
+  ) => {
+    // Major interactions need a reason before the request can be approved
+    if (hasMajorInteraction(pendingRequest.interactionWarnings ?? []) && !interactionOverrideReason) {
+      setOverrideReason("");
+      setOverridingRequest({ requestId: pendingRequest.requestId, warnings: pendingRequest.interactionWarnings ?? [] });
+      return;
+    }
+
     try {
-      await approveMedicationRequest({ requestId: requestId as any });
+      await approveMedicationRequest({ requestId: pendingRequest.requestId as any, interactionOverrideReason });
       toast.success("Request approved successfully");
+      setOverridingRequest(null);
     } catch (error) {
       toast.error("Failed to approve request");
       console.error(error);
@@ -357,11 +417,13 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
       afternoonDose: medication.afternoonDose || "",
       eveningDose: medication.eveningDose || "",
       nightDose: medication.nightDose || "",
+      additionalDoses: medication.additionalDoses,
       instructions: medication.instructions || "",
       prescribedBy: medication.prescribedBy || "",
       prescribedDate: medication.prescribedDate || "",
       startDate: medication.startDate || "",
       endDate: medication.endDate || "",
+      schedule: medication.schedule,
       fdaNdc: medication.fdaNdc || "",
       genericName: medication.genericName || "",
       brandName: medication.brandName || "",
@@ -370,6 +432,8 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
       manufacturer: medication.manufacturer || "",
       activeIngredient: medication.activeIngredient || "",
       strength: medication.strength || "",
+      amtCode: medication.amtCode || "",
+      pbsItemCode: medication.pbsItemCode || "",
     };
   };
 
@@ -426,6 +490,8 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
                 </DialogDescription>
               </DialogHeader>
               <MedicationForm
+                administrationTimes={administrationTimes}
+                patientId={patientId}
                 onSubmit={handleAddMedication}
                 onCancel={() => setIsAddDialogOpen(false)}
                 isLoading={isSubmitting}
@@ -438,6 +504,47 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
         </div>
       </div>
 
+      {/* Major interaction override */}
+      <Dialog open={overridingRequest !== null} onOpenChange={(open) => !open && setOverridingRequest(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Approve Despite Major Interaction</DialogTitle>
+            <DialogDescription>
+              The requested medication has a major interaction with the patient&apos;s current medications
+            </DialogDescription>
+          </DialogHeader>
+          {overridingRequest && (
+            <div className="space-y-4">
+              <InteractionWarnings warnings={overridingRequest.warnings} />
+              <div className="space-y-2">
+                <Label htmlFor="approveOverrideReason">Reason for overriding *</Label>
+                <Textarea
+                  id="approveOverrideReason"
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  placeholder="e.g., Discussed with the prescriber, who confirmed the combination is intended"
+                  rows={3}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setOverridingRequest(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => handleApproveRequest(
+                    { requestId: overridingRequest.requestId, interactionWarnings: overridingRequest.warnings },
+                    overrideReason.trim()
+                  )}
+                  disabled={!overrideReason.trim()}
+                >
+                  Approve
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Medications List */}
       {medications?.length === 0 ? (
         <Card>
@@ -513,6 +620,12 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
                           FDA Verified
                         </Badge>
                       )}
+                      {medication.pbsItemCode && (
+                        <Badge variant="outline" className="text-blue-600">
+                          <FlaskConical className="h-3 w-3 mr-1" />
+                          PBS {medication.pbsItemCode}
+                        </Badge>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
@@ -547,6 +660,9 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
                               </DialogHeader>
                               <MedicationForm
                                 initialData={getEditInitialData(medication)}
+                                administrationTimes={administrationTimes}
+                                patientId={patientId}
+                                medicationId={medication._id}
                                 onSubmit={handleEditMedication}
                                 onRequestChange={handleRequestChange}
                                 onCancel={() => setEditingMedication(null)}
@@ -566,7 +682,7 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
                         <Button 
                           variant="default" 
                           size="sm"
-                          onClick={() => handleApproveRequest(medication.pendingRequest.requestId)}
+                          onClick={() => handleApproveRequest(medication.pendingRequest)}
                           className="bg-green-600 hover:bg-green-700"
                         >
                           Approve
@@ -596,15 +712,26 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
                   <div>
                     <p className="text-muted-foreground mb-1">Dosage & Schedule</p>
                     <p className="font-medium">{medication.dosage}</p>
+                    {medication.schedule && medication.schedule.type !== "daily" && (
+                      <p className="text-xs font-medium text-purple-700 mt-1">
+                        <Calendar className="h-3 w-3 inline mr-1" />
+                        {describeSchedule(medication.schedule)}
+                      </p>
+                    )}
                     <div className="text-xs text-muted-foreground mt-1 space-y-1">
-                      {medication.morningDose && <p>Morning: {medication.morningDose}</p>}
-                      {medication.afternoonDose && <p>Afternoon: {medication.afternoonDose}</p>}
-                      {medication.eveningDose && <p>Evening: {medication.eveningDose}</p>}
-                      {medication.nightDose && <p>Night: {medication.nightDose}</p>}
-                      {!medication.morningDose && !medication.afternoonDose && !medication.eveningDose && !medication.nightDose && (
+                      {getMedicationDoses(medication).map(({ timeSlot, dose }) => (
+                        <p key={timeSlot}>{findAdministrationTime(administrationTimes, timeSlot).label}: {dose}</p>
+                      ))}
+                      {getMedicationDoses(medication).length === 0 && (
                         <p className="text-muted-foreground">No schedule specified</p>
                       )}
                     </div>
+                    {medication.unparsedDoses && medication.unparsedDoses.length > 0 && (
+                      <p className="text-xs text-amber-700 mt-1">
+                        <AlertCircle className="h-3 w-3 inline mr-1" />
+                        Dose needs re-entering: {medication.unparsedDoses.map((dose: { text: string }) => `"${dose.text}"`).join(", ")}
+                      </p>
+                    )}
                     {medication.route && (
                       <p className="text-xs text-muted-foreground mt-1">
                         <Layers className="h-3 w-3 inline mr-1" />
@@ -682,20 +809,42 @@ export function PatientMedications({ patientId }: PatientMedicationsProps) {
                           </p>
                         </div>
                       )}
+                      {medication.pendingRequest.allergyWarnings?.length > 0 && (
+                        <div className="mt-3">
+                          <AllergyWarnings warnings={medication.pendingRequest.allergyWarnings} />
+                        </div>
+                      )}
+                      {medication.pendingRequest.interactionWarnings?.length > 0 && (
+                        <div className="mt-3">
+                          <InteractionWarnings warnings={medication.pendingRequest.interactionWarnings} />
+                        </div>
+                      )}
                     </div>
                   </>
                 )}
 
-                {/* FDA Information */}
-                {(medication.fdaNdc || medication.genericName || medication.brandName || medication.manufacturer) && (
+                {/* Medicine Information */}
+                {(medication.fdaNdc || medication.amtCode || medication.pbsItemCode || medication.genericName || medication.brandName || medication.manufacturer) && (
                   <>
                     <Separator className="my-4" />
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                       <p className="text-sm font-medium text-blue-900 mb-2 flex items-center gap-2">
                         <FlaskConical className="h-4 w-4" />
-                        FDA Database Information
+                        Medicine Information
                       </p>
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 text-xs">
+                        {medication.pbsItemCode && (
+                          <div>
+                            <p className="text-blue-600 font-medium">PBS Item Code</p>
+                            <p className="text-blue-800">{medication.pbsItemCode}</p>
+                          </div>
+                        )}
+                        {medication.amtCode && (
+                          <div>
+                            <p className="text-blue-600 font-medium">AMT Code</p>
+                            <p className="text-blue-800">{medication.amtCode}</p>
+                          </div>
+                        )}
                         {medication.fdaNdc && (
                           <div>
                             <p className="text-blue-600 font-medium">NDC Code</p>
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Pencil, Save, X } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Id } from "@/convex/_generated/dataModel";
+
+interface PatientPackScheduleProps {
+  patientId: Id<"patients">;
+}
+
+type Frequency = "weekly" | "fortnightly" | "every_28_days";
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  every_28_days: "Every 28 days",
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const formatCycleDate = (date: string) => format(new Date(`${date}T00:00:00`), "EEE dd/MM/yyyy");
+
+export function PatientPackSchedule({ patientId }: PatientPackScheduleProps) {
+  const schedule = useQuery(api.websterPacks.getPatientPackSchedule, {
+    patientId,
+    date: format(new Date(), "yyyy-MM-dd"),
+  });
+  const setPackSchedule = useMutation(api.websterPacks.setPackSchedule);
+  const removePackSchedule = useMutation(api.websterPacks.removePackSchedule);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    frequency: "weekly" as Frequency,
+    startWeekday: "1",
+    cycleStartDate: format(new Date(), "yyyy-MM-dd"),
+    packType: "blister" as "blister" | "sachets",
+    leadDays: "2",
+    notes: "",
+  });
+
+  const startEditing = () => {
+    if (schedule) {
+      setFormData({
+        frequency: schedule.frequency,
+        startWeekday: schedule.startWeekday.toString(),
+        cycleStartDate: schedule.cycleStartDate,
+        packType: schedule.packType,
+        leadDays: schedule.leadDays.toString(),
+        notes: schedule.notes || "",
+      });
+    }
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const leadDays = parseInt(formData.leadDays);
+    if (isNaN(leadDays) || leadDays < 0 || leadDays > 14) {
+      toast.error("Packing lead time must be between 0 and 14 days");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setPackSchedule({
+        patientId,
+        frequency: formData.frequency,
+        startWeekday: parseInt(formData.startWeekday),
+        cycleStartDate: formData.cycleStartDate,
+        packType: formData.packType,
+        leadDays,
+        notes: formData.notes.trim() || undefined,
+      });
+      toast.success("Pack schedule saved");
+      setIsEditing(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save pack schedule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm("Stop the recurring pack schedule for this patient?")) return;
+
+    try {
+      await removePackSchedule({ patientId });
+      toast.success("Pack schedule removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove pack schedule");
+    }
+  };
+
+  if (schedule === undefined) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Pack Schedule
+            </CardTitle>
+            <CardDescription>
+              Recurring packing cycle used for the packs due queue
+            </CardDescription>
+          </div>
+          {!isEditing && (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <Pencil className="h-4 w-4 mr-2" />
+              {schedule ? "Edit" : "Set Schedule"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isEditing ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select
+                  value={formData.frequency}
+                  onValueChange={(value) => setFormData({ ...formData, frequency: value as Frequency })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FREQUENCY_LABELS) as Frequency[]).map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {FREQUENCY_LABELS[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Pack Starts On</Label>
+                <Select
+                  value={formData.startWeekday}
+                  onValueChange={(value) => setFormData({ ...formData, startWeekday: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((weekday, index) => (
+                      <SelectItem key={weekday} value={index.toString()}>
+                        {weekday}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cycle-start">First Cycle From</Label>
+                <Input
+                  id="cycle-start"
+                  type="date"
+                  value={formData.cycleStartDate}
+                  onChange={(e) => setFormData({ ...formData, cycleStartDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Pack Type</Label>
+                <Select
+                  value={formData.packType}
+                  onValueChange={(value) => setFormData({ ...formData, packType: value as "blister" | "sachets" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="blister">Blister Pack</SelectItem>
+                    <SelectItem value="sachets">Sachets</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lead-days">Pack Days Ahead</Label>
+                <Input
+                  id="lead-days"
+                  type="number"
+                  min="0"
+                  max="14"
+                  value={formData.leadDays}
+                  onChange={(e) => setFormData({ ...formData, leadDays: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-notes">Notes</Label>
+                <Input
+                  id="schedule-notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving || !formData.cycleStartDate}>
+                <Save className="h-4 w-4 mr-2" />
+                {isSaving ? "Saving..." : "Save Schedule"}
+              </Button>
+            </div>
+          </div>
+        ) : schedule ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="secondary">{FREQUENCY_LABELS[schedule.frequency]}</Badge>
+              <Badge variant="outline" className="capitalize">{schedule.packType}</Badge>
+              <span>Starts {WEEKDAYS[schedule.startWeekday]}</span>
+              <span className="text-muted-foreground">
+                • Packed {schedule.leadDays} day{schedule.leadDays === 1 ? "" : "s"} ahead
+              </span>
+            </div>
+            {schedule.notes && (
+              <p className="text-sm text-muted-foreground">{schedule.notes}</p>
+            )}
+            <div className="text-sm">
+              <span className="font-medium">Upcoming cycles: </span>
+              {schedule.upcomingCycles.map(formatCycleDate).join(", ")}
+            </div>
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={handleRemove}>
+                <X className="h-4 w-4 mr-2" />
+                Remove Schedule
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No pack schedule set. Packs for this patient will not appear in the packs due queue.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
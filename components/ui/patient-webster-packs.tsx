@@ -17,10 +17,13 @@ import {
   Truck,
   Calendar,
   FileText,
-  Filter
+  Filter,
+  PenLine
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import Link from "next/link";
 import { Id } from "@/convex/_generated/dataModel";
+import { PatientPackSchedule } from "@/components/ui/patient-pack-schedule";
 
 interface PatientWebsterPacksProps {
   patientId: Id<"patients">;
@@ -53,6 +56,7 @@ export function PatientWebsterPacks({ patientId }: PatientWebsterPacksProps) {
       case "requires_review": return "text-yellow-600 bg-yellow-50 border-yellow-200";
       case "dispatched": return "text-blue-600 bg-blue-50 border-blue-200";
       case "collected": return "text-green-600 bg-green-50 border-green-200";
+      case "delivered": return "text-green-600 bg-green-50 border-green-200";
       default: return "text-gray-600 bg-gray-50 border-gray-200";
     }
   };
@@ -64,6 +68,7 @@ export function PatientWebsterPacks({ patientId }: PatientWebsterPacksProps) {
       case "requires_review": return <AlertTriangle className="h-4 w-4" />;
       case "dispatched": return <Truck className="h-4 w-4" />;
       case "collected": return <CheckCircle2 className="h-4 w-4" />;
+      case "delivered": return <CheckCircle2 className="h-4 w-4" />;
       default: return <Clock className="h-4 w-4" />;
     }
   };
@@ -136,6 +141,8 @@ export function PatientWebsterPacks({ patientId }: PatientWebsterPacksProps) {
 
   return (
     <div className="space-y-4">
+      <PatientPackSchedule patientId={patientId} />
+
       {/* Header and Filter */}
       <div className="flex items-center justify-between">
         <div>
@@ -246,7 +253,12 @@ export function PatientWebsterPacks({ patientId }: PatientWebsterPacksProps) {
                      </div>
                      <div className="flex-1">
                        <div className="flex items-center gap-2 mb-2">
-                         <span className="font-medium">Webster Pack: {item.websterPackId}</span>
+                         <Link
+                           href={`/webster-packs/packs/${encodeURIComponent(item.websterPackId)}`}
+                           className="font-medium hover:underline"
+                         >
+                           Webster Pack: {item.websterPackId}
+                         </Link>
                          <Badge variant="outline" className="capitalize">
                            {item.packType}
                          </Badge>
@@ -294,6 +306,37 @@ export function PatientWebsterPacks({ patientId }: PatientWebsterPacksProps) {
                              </span>
                            </div>
                          )}
+                         {item.type === "scanout" && "signatureUrl" in item && (item.signatureUrl || item.photoUrl) && (
+                           <div className="space-y-2">
+                             <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                               <PenLine className="h-4 w-4" />
+                               Proof of {item.deliveryMethod === "pickup" ? "collection" : "delivery"}
+                               {item.recipientName && <span className="font-normal text-muted-foreground">• {item.recipientName}</span>}
+                             </div>
+                             <div className="flex items-start gap-3">
+                               {item.signatureUrl && (
+                                 <a href={item.signatureUrl} target="_blank" rel="noopener noreferrer">
+                                   {/* eslint-disable-next-line @next/next/no-img-element */}
+                                   <img
+                                     src={item.signatureUrl}
+                                     alt={`Signature for ${item.websterPackId}`}
+                                     className="h-16 rounded border bg-white object-contain"
+                                   />
+                                 </a>
+                               )}
+                               {item.photoUrl && (
+                                 <a href={item.photoUrl} target="_blank" rel="noopener noreferrer">
+                                   {/* eslint-disable-next-line @next/next/no-img-element */}
+                                   <img
+                                     src={item.photoUrl}
+                                     alt={`Handover photo for ${item.websterPackId}`}
+                                     className="h-16 w-16 rounded border object-cover"
+                                   />
+                                 </a>
+                               )}
+                             </div>
+                           </div>
+                         )}
                        </div>
                      </div>
                    </div>
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Camera, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { SignaturePad } from "@/components/ui/signature-pad";
+
+export interface ProofOfDelivery {
+  signature: Blob | null;
+  photo: File | null;
+}
+
+export const EMPTY_PROOF_OF_DELIVERY: ProofOfDelivery = { signature: null, photo: null };
+
+interface ProofOfDeliveryCaptureProps {
+  value: ProofOfDelivery;
+  onChange: (proof: ProofOfDelivery) => void;
+}
+
+// Recipient signature and optional handover photo for collections and deliveries
+export function ProofOfDeliveryCapture({ value, onChange }: ProofOfDeliveryCaptureProps) {
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!value.photo) {
+      setPhotoPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(value.photo);
+    setPhotoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [value.photo]);
+
+  const handlePhotoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const photo = event.target.files?.[0] ?? null;
+    event.target.value = "";
+    onChange({ ...value, photo });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Recipient Signature</Label>
+        <SignaturePad onChange={(signature) => onChange({ ...value, signature })} />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Photo (optional)</Label>
+        {photoPreview ? (
+          <div className="relative w-fit">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={photoPreview} alt="Handover photo" className="h-32 rounded-md border object-cover" />
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              className="absolute top-1 right-1 h-6 w-6"
+              onClick={() => onChange({ ...value, photo: null })}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ) : (
+          <Button type="button" variant="outline" asChild>
+            <label className="cursor-pointer">
+              <Camera className="h-4 w-4 mr-2" />
+              Take Photo
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={handlePhotoChange}
+              />
+            </label>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Upload captured proof of delivery to Convex storage, returning the storage IDs to save
+export function useProofOfDeliveryUpload() {
+  const generateUploadUrl = useMutation(api.websterPacks.generateProofOfDeliveryUploadUrl);
+
+  const uploadFile = async (file: Blob): Promise<Id<"_storage">> => {
+    const uploadUrl = await generateUploadUrl();
+    const result = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": file.type },
+      body: file,
+    });
+
+    if (!result.ok) {
+      throw new Error("Failed to upload proof of delivery");
+    }
+
+    const { storageId } = await result.json();
+    return storageId;
+  };
+
+  return async (proof: ProofOfDelivery) => ({
+    signatureStorageId: proof.signature ? await uploadFile(proof.signature) : undefined,
+    photoStorageId: proof.photo ? await uploadFile(proof.photo) : undefined,
+  });
+}
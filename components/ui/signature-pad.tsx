@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SignaturePadProps {
+  onChange: (signature: Blob | null) => void;
+  className?: string;
+}
+
+// Touch, pen and mouse signature capture; reports the drawing as a PNG after each stroke
+export function SignaturePad({ onChange, className }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Match the canvas resolution to its displayed size so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const { width, height } = canvas.getBoundingClientRect();
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+  }, []);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isDrawingRef.current = true;
+
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+    // Draw a dot so a single tap still leaves a mark
+    context.lineTo(x + 0.1, y + 0.1);
+    context.stroke();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+
+    setIsEmpty(false);
+    event.currentTarget.toBlob((blob) => onChange(blob), "image/png");
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="relative rounded-md border bg-white">
+        <canvas
+          ref={canvasRef}
+          className="block h-40 w-full touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+        {isEmpty && (
+          <span className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            Sign here
+          </span>
+        )}
+        <div className="pointer-events-none absolute bottom-8 left-4 right-4 border-b border-dashed border-gray-300" />
+      </div>
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={isEmpty}>
+          <Eraser className="h-4 w-4 mr-2" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
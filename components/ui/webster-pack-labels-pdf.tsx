@@ -0,0 +1,184 @@
+"use client";
+
+import React from 'react';
+import { Document, Page, Text, View, StyleSheet, Svg, Rect, Path, pdf } from '@react-pdf/renderer';
+import { format } from 'date-fns';
+import QRCode from 'qrcode';
+import { encodeCode128 } from '@/lib/code128';
+import { formatPackLabelPayload } from '@/lib/pack-labels';
+
+// Define types for label data
+interface PackLabel {
+  websterPackId: string;
+  packWeekStart?: string; // YYYY-MM-DD
+  packType: 'blister' | 'sachets';
+}
+
+interface LabelPatient {
+  name: string;
+  shareToken: string;
+}
+
+// Label sheet geometry (A4, 2 columns x 7 rows)
+const LABELS_PER_ROW = 2;
+const ROWS_PER_PAGE = 7;
+const LABELS_PER_PAGE = LABELS_PER_ROW * ROWS_PER_PAGE;
+const QR_SIZE = 78;
+const BARCODE_WIDTH = 150;
+const BARCODE_HEIGHT = 26;
+
+// QR code drawn as a single SVG path of dark modules
+const QRCodeGraphic: React.FC<{ value: string; size: number }> = ({ value, size }) => {
+  const modules = QRCode.create(value, { errorCorrectionLevel: 'M' }).modules;
+  const quietZone = 2;
+  const viewBoxSize = modules.size + quietZone * 2;
+
+  let path = '';
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        path += `M${col + quietZone} ${row + quietZone}h1v1h-1z`;
+      }
+    }
+  }
+
+  return (
+    <Svg width={size} height={size} viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}>
+      <Rect x={0} y={0} width={viewBoxSize} height={viewBoxSize} fill="#FFFFFF" />
+      <Path d={path} fill="#000000" />
+    </Svg>
+  );
+};
+
+// Code 128 barcode drawn as SVG bars
+const Code128Graphic: React.FC<{ value: string; width: number; height: number }> = ({ value, width, height }) => {
+  const symbol = encodeCode128(value);
+
+  return (
+    <Svg width={width} height={height} viewBox={`0 0 ${symbol.totalModules} ${height}`} preserveAspectRatio="none">
+      {symbol.bars.map((bar, index) => (
+        <Rect key={index} x={bar.x} y={0} width={bar.width} height={height} fill="#000000" />
+      ))}
+    </Svg>
+  );
+};
+
+// PDF Document Component
+const WebsterPackLabelsPDFDocument: React.FC<{ labels: PackLabel[]; patient: LabelPatient }> = ({
+  labels,
+  patient
+}) => {
+  const pages: PackLabel[][] = [];
+  for (let i = 0; i < labels.length; i += LABELS_PER_PAGE) {
+    pages.push(labels.slice(i, i + LABELS_PER_PAGE));
+  }
+
+  return (
+    <Document>
+      {pages.map((pageLabels, pageIndex) => (
+        <Page key={pageIndex} size="A4" style={styles.page}>
+          <View style={styles.sheet}>
+            {pageLabels.map((label) => (
+              <View key={label.websterPackId} style={styles.label}>
+                <QRCodeGraphic
+                  value={formatPackLabelPayload({
+                    websterPackId: label.websterPackId,
+                    patientShareToken: patient.shareToken,
+                    packWeekStart: label.packWeekStart || '',
+                  })}
+                  size={QR_SIZE}
+                />
+                <View style={styles.labelDetails}>
+                  <Text style={styles.packId}>{label.websterPackId}</Text>
+                  <Text style={styles.patientName}>{patient.name}</Text>
+                  <Text style={styles.detailText}>{patient.shareToken}</Text>
+                  <Text style={styles.detailText}>
+                    {label.packWeekStart
+                      ? `Week of ${format(new Date(`${label.packWeekStart}T00:00:00`), 'dd/MM/yyyy')} • `
+                      : ''}
+                    {label.packType === 'blister' ? 'Blister' : 'Sachets'}
+                  </Text>
+                  <View style={styles.barcode}>
+                    <Code128Graphic value={label.websterPackId} width={BARCODE_WIDTH} height={BARCODE_HEIGHT} />
+                  </View>
+                </View>
+              </View>
+            ))}
+          </View>
+        </Page>
+      ))}
+    </Document>
+  );
+};
+
+// Styles for PDF
+const styles = StyleSheet.create({
+  page: {
+    backgroundColor: '#FFFFFF',
+    paddingTop: 36,
+    paddingHorizontal: 14,
+    fontSize: 8,
+    fontFamily: 'Helvetica',
+  },
+  sheet: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  label: {
+    width: '50%',
+    height: 108,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+    borderWidth: 0.5,
+    borderColor: '#D1D5DB',
+    borderStyle: 'dashed',
+  },
+  labelDetails: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  packId: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 2,
+  },
+  patientName: {
+    fontSize: 9,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 1,
+  },
+  detailText: {
+    fontSize: 7,
+    color: '#4B5563',
+    marginBottom: 1,
+  },
+  barcode: {
+    marginTop: 3,
+  },
+});
+
+// Export function
+export const exportWebsterPackLabelsToPDF = async (
+  labels: PackLabel[],
+  patient: LabelPatient
+): Promise<void> => {
+  try {
+    const blob = await pdf(
+      <WebsterPackLabelsPDFDocument labels={labels} patient={patient} />
+    ).toBlob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pack-labels-${patient.shareToken.toLowerCase()}-${format(new Date(), 'yyyy-MM-dd-HHmm')}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error generating pack labels PDF:', error);
+    throw new Error('Failed to export pack labels to PDF');
+  }
+};
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { PackageX, RotateCcw, Trash2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { Id } from "@/convex/_generated/dataModel";
+
+type ReturnSource = "failed_delivery" | "failed_scan_out" | "patient_return";
+
+const SOURCE_LABELS: Record<ReturnSource, string> = {
+  failed_delivery: "Failed delivery",
+  failed_scan_out: "Failed scan out",
+  patient_return: "Patient return",
+};
+
+const RETURN_REASONS = [
+  "No one home",
+  "Wrong address",
+  "Patient in hospital",
+  "Regimen changed",
+  "Refused",
+  "Damaged pack",
+];
+
+// Returned Webster packs awaiting a destroy or re-use decision, with a form to record new returns
+export function WebsterPackReturns() {
+  const outstandingReturns = useQuery(api.websterPacks.getOutstandingReturns);
+  const updatePackStatus = useMutation(api.websterPacks.updateWebsterPackStatus);
+  const resolveReturn = useMutation(api.websterPacks.resolveWebsterPackReturn);
+
+  const [websterPackId, setWebsterPackId] = useState("");
+  const [reason, setReason] = useState("");
+  const [isRecording, setIsRecording] = useState(false);
+  const [resolvingId, setResolvingId] = useState<Id<"websterPackReturns"> | null>(null);
+
+  const handleRecordReturn = async () => {
+    if (!websterPackId.trim() || !reason.trim()) {
+      toast.error("Enter the pack ID and a reason for the return");
+      return;
+    }
+
+    setIsRecording(true);
+    try {
+      await updatePackStatus({
+        websterPackId: websterPackId.trim(),
+        status: "returned",
+        notes: reason.trim(),
+      });
+      toast.success(`Webster pack ${websterPackId.trim()} recorded as returned`);
+      setWebsterPackId("");
+      setReason("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to record return");
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const handleResolve = async (
+    returnId: Id<"websterPackReturns">,
+    packId: string,
+    disposition: "destroyed" | "reused"
+  ) => {
+    if (disposition === "destroyed" && !confirm(`Destroy the contents of Webster pack ${packId}?`)) return;
+
+    setResolvingId(returnId);
+    try {
+      await resolveReturn({ returnId, disposition });
+      toast.success(
+        disposition === "reused"
+          ? `Webster pack ${packId} re-packed and waiting for a new check`
+          : `Webster pack ${packId} destroyed`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to resolve return");
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Undo2 className="h-5 w-5" />
+          Outstanding Returns
+          {outstandingReturns && outstandingReturns.length > 0 && (
+            <Badge variant="secondary">{outstandingReturns.length}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Returned packs must be destroyed or re-used and checked again before dispatch
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {outstandingReturns && outstandingReturns.length > 0 ? (
+          <div className="space-y-3">
+            {outstandingReturns.map((packReturn) => (
+              <div key={packReturn._id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm">{packReturn.patientName}</span>
+                  <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200">
+                    {SOURCE_LABELS[packReturn.source]}
+                  </Badge>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  Pack: {packReturn.websterPackId} • {packReturn.reason}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Recorded by {packReturn.recordedByName} • {formatDistanceToNow(new Date(packReturn.recordedAt))} ago
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolvingId === packReturn._id}
+                    onClick={() => handleResolve(packReturn._id, packReturn.websterPackId, "reused")}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Re-use & Re-check
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600"
+                    disabled={resolvingId === packReturn._id}
+                    onClick={() => handleResolve(packReturn._id, packReturn.websterPackId, "destroyed")}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Destroy
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground">
+            <PackageX className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No outstanding returns</p>
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <Label htmlFor="returnPackId">Record a Return</Label>
+          <Input
+            id="returnPackId"
+            value={websterPackId}
+            onChange={(e) => setWebsterPackId(e.target.value)}
+            placeholder="Webster pack ID"
+          />
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for return"
+          />
+          <div className="flex flex-wrap gap-1">
+            {RETURN_REASONS.map((quickReason) => (
+              <Button
+                key={quickReason}
+                type="button"
+                size="sm"
+                variant={reason === quickReason ? "default" : "outline"}
+                className="h-7 text-xs"
+                onClick={() => setReason(quickReason)}
+              >
+                {quickReason}
+              </Button>
+            ))}
+          </div>
+          <Button
+            onClick={handleRecordReturn}
+            disabled={isRecording || !websterPackId.trim() || !reason.trim()}
+            className="w-full"
+          >
+            <Undo2 className="h-4 w-4 mr-2" />
+            {isRecording ? "Recording..." : "Record Return"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CameraBarcodeScanner } from "@/components/ui/camera-barcode-scanner";
+import { Camera, ScanLine } from "lucide-react";
+import { toast } from "sonner";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { parsePackLabelPayload, PackLabelData } from "@/lib/pack-labels";
+
+type PackCheckStatus = FunctionReturnType<typeof api.websterPacks.getWebsterPackCheckStatus>;
+
+export interface ScannedWebsterPack {
+  websterPackId: string;
+  packType: "blister" | "sachets";
+  patient: {
+    _id: Id<"patients">;
+    name: string;
+    shareToken: string;
+    preferredPack: string;
+  };
+  checkStatus: PackCheckStatus;
+}
+
+interface WebsterPackScannerProps {
+  // Only listen for scans while the page is ready for a new pack
+  active: boolean;
+  onPackScanned: (pack: ScannedWebsterPack) => void;
+}
+
+export function WebsterPackScanner({ active, onPackScanned }: WebsterPackScannerProps) {
+  const [scanMode, setScanMode] = useState(true);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [scannedLabel, setScannedLabel] = useState<(Partial<PackLabelData> & { websterPackId: string }) | null>(null);
+
+  // Resolve the scanned pack and its patient
+  const scannedPackStatus = useQuery(
+    api.websterPacks.getWebsterPackCheckStatus,
+    scannedLabel ? { websterPackId: scannedLabel.websterPackId } : "skip"
+  );
+
+  const handleScan = (value: string) => {
+    const label = parsePackLabelPayload(value);
+    if (!label.websterPackId) return;
+    setScannedLabel(label);
+  };
+
+  useBarcodeScanner(handleScan, scanMode && active && !isCameraOpen);
+
+  useEffect(() => {
+    if (!scannedLabel || scannedPackStatus === undefined) return;
+
+    const packDetails = scannedPackStatus.packDetails;
+    if (!packDetails) {
+      toast.error(`Webster pack ${scannedLabel.websterPackId} was not found`, {
+        description: scannedPackStatus.message,
+      });
+    } else if (!packDetails.patient) {
+      toast.error(`The patient for Webster pack ${scannedLabel.websterPackId} is no longer active`);
+    } else if (scannedLabel.patientShareToken && scannedLabel.patientShareToken !== packDetails.patient.shareToken) {
+      // QR labels carry the patient token; a mismatch means the label does not belong to this pack
+      toast.error(`Label for ${scannedLabel.websterPackId} does not match the patient the pack was issued to`);
+    } else {
+      onPackScanned({
+        websterPackId: packDetails.websterPackId,
+        packType: packDetails.packType,
+        patient: packDetails.patient,
+        checkStatus: scannedPackStatus,
+      });
+    }
+
+    setScannedLabel(null);
+  }, [scannedLabel, scannedPackStatus, onPackScanned]);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 p-3 border rounded-md bg-gray-50">
+      <div className="flex items-center gap-3">
+        <Switch
+          id="scan-mode"
+          checked={scanMode}
+          onCheckedChange={setScanMode}
+        />
+        <Label htmlFor="scan-mode" className="flex items-center gap-2 cursor-pointer">
+          <ScanLine className="h-4 w-4" />
+          Scan mode
+        </Label>
+        {scanMode && active && (
+          <span className="text-sm text-muted-foreground">
+            {scannedLabel ? `Looking up ${scannedLabel.websterPackId}...` : "Scan a pack label to begin"}
+          </span>
+        )}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setIsCameraOpen(true)}
+        disabled={!active}
+      >
+        <Camera className="h-4 w-4 mr-2" />
+        Use Camera
+      </Button>
+      <CameraBarcodeScanner
+        open={isCameraOpen}
+        onOpenChange={setIsCameraOpen}
+        onScan={handleScan}
+      />
+    </div>
+  );
+}
@@ -9,13 +9,23 @@
  */
 
 import type * as ResendOTPPasswordReset from "../ResendOTPPasswordReset.js";
+import type * as administrationTimes from "../administrationTimes.js";
 import type * as auth from "../auth.js";
+import type * as deliveryRuns from "../deliveryRuns.js";
+import type * as drugInteractions from "../drugInteractions.js";
 import type * as emailTemplates from "../emailTemplates.js";
 import type * as emails from "../emails.js";
 import type * as http from "../http.js";
+import type * as medicationSearch from "../medicationSearch.js";
+import type * as medicineCatalogue from "../medicineCatalogue.js";
+import type * as packAnalytics from "../packAnalytics.js";
+import type * as packBatches from "../packBatches.js";
+import type * as packIssues from "../packIssues.js";
+import type * as patientAllergies from "../patientAllergies.js";
 import type * as patientManagement from "../patientManagement.js";
 import type * as patients from "../patients.js";
 import type * as polar from "../polar.js";
+import type * as sachetExport from "../sachetExport.js";
 import type * as users from "../users.js";
 import type * as websterPacks from "../websterPacks.js";
 
@@ -35,13 +45,23 @@ import type {
  */
 declare const fullApi: ApiFromModules<{
   ResendOTPPasswordReset: typeof ResendOTPPasswordReset;
+  administrationTimes: typeof administrationTimes;
   auth: typeof auth;
+  deliveryRuns: typeof deliveryRuns;
+  drugInteractions: typeof drugInteractions;
   emailTemplates: typeof emailTemplates;
   emails: typeof emails;
   http: typeof http;
+  medicationSearch: typeof medicationSearch;
+  medicineCatalogue: typeof medicineCatalogue;
+  packAnalytics: typeof packAnalytics;
+  packBatches: typeof packBatches;
+  packIssues: typeof packIssues;
+  patientAllergies: typeof patientAllergies;
   patientManagement: typeof patientManagement;
   patients: typeof patients;
   polar: typeof polar;
+  sachetExport: typeof sachetExport;
   users: typeof users;
   websterPacks: typeof websterPacks;
 }>;
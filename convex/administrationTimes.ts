@@ -0,0 +1,217 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc } from "./_generated/dataModel";
+import { getMedicationDoses } from "../lib/doses";
+import {
+  AdministrationTime,
+  DEFAULT_ADMINISTRATION_TIMES,
+  getAdministrationTimesProblem,
+  resolveAdministrationTimes,
+} from "../lib/administration-times";
+import { checkPatientAccess } from "./websterPacks";
+
+const administrationTimesValidator = v.array(v.object({
+  id: v.string(),
+  label: v.string(),
+  time: v.string(), // HH:mm
+}));
+
+// The rounds a patient's doses are given at: their own, else their organisation's, else the standard four
+export async function getPatientAdministrationTimes(
+  ctx: QueryCtx,
+  patient: Doc<"patients">
+): Promise<AdministrationTime[]> {
+  const organization = await ctx.db.get(patient.organizationId);
+  return resolveAdministrationTimes(patient.administrationTimes, organization?.administrationTimes);
+}
+
+// Administration times for a patient, or for the user's organisation when no patient is given
+export const getAdministrationTimes = query({
+  args: {
+    patientId: v.optional(v.id("patients")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return null; // Return null instead of throwing
+    }
+
+    if (!args.patientId) {
+      const organization = await ctx.db.get(userProfile.organizationId);
+      if (!organization) {
+        return null;
+      }
+      return {
+        administrationTimes: resolveAdministrationTimes(undefined, organization.administrationTimes),
+        source: organization.administrationTimes?.length ? "organization" as const : "default" as const,
+        canEdit: userProfile.role === "owner" || userProfile.role === "admin",
+      };
+    }
+
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const patient = await ctx.db.get(args.patientId);
+    if (!patient) {
+      return null;
+    }
+    const organization = await ctx.db.get(patient.organizationId);
+
+    return {
+      administrationTimes: resolveAdministrationTimes(patient.administrationTimes, organization?.administrationTimes),
+      source: patient.administrationTimes?.length
+        ? "patient" as const
+        : organization?.administrationTimes?.length ? "organization" as const : "default" as const,
+      // Only the patient's own organisation sets their rounds
+      canEdit: patient.organizationId === userProfile.organizationId,
+    };
+  },
+});
+
+// Set the organisation's medication rounds, or go back to the standard four when none are given.
+// Owners and admins only.
+export const setOrganizationAdministrationTimes = mutation({
+  args: {
+    administrationTimes: v.optional(administrationTimesValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+    if (userProfile.role !== "owner" && userProfile.role !== "admin") {
+      throw new Error("Only organization owners and admins can change administration times");
+    }
+
+    const administrationTimes = normalizeAdministrationTimes(args.administrationTimes);
+    const organizationTimes = resolveAdministrationTimes(undefined, administrationTimes);
+
+    // Patients with their own rounds are not affected
+    const patients = await ctx.db
+      .query("patients")
+      .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+    await assertTimesNotInUse(
+      ctx,
+      patients.filter((patient) => !patient.administrationTimes?.length),
+      organizationTimes
+    );
+
+    await ctx.db.patch(userProfile.organizationId, { administrationTimes });
+    return organizationTimes;
+  },
+});
+
+// Give a patient their own medication rounds, or go back to their organisation's when none are given.
+// Only the patient's own organisation can do this.
+export const setPatientAdministrationTimes = mutation({
+  args: {
+    patientId: v.id("patients"),
+    administrationTimes: v.optional(administrationTimesValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    const patient = await ctx.db.get(args.patientId);
+    if (!patient) {
+      throw new Error("Patient not found");
+    }
+    if (patient.organizationId !== userProfile.organizationId) {
+      throw new Error("Only the patient's organization can change their administration times");
+    }
+
+    const administrationTimes = normalizeAdministrationTimes(args.administrationTimes);
+    const organization = await ctx.db.get(patient.organizationId);
+    const patientTimes = resolveAdministrationTimes(administrationTimes, organization?.administrationTimes);
+    await assertTimesNotInUse(ctx, [patient], patientTimes);
+
+    await ctx.db.patch(args.patientId, {
+      administrationTimes,
+      updatedAt: Date.now(),
+    });
+    return patientTimes;
+  },
+});
+
+// HELPER FUNCTIONS
+
+// Trimmed rounds ready to save; undefined when clearing
+function normalizeAdministrationTimes(times: AdministrationTime[] | undefined): AdministrationTime[] | undefined {
+  if (!times) return undefined;
+
+  const normalized = times.map((time) => ({ id: time.id.trim(), label: time.label.trim(), time: time.time.trim() }));
+  const problem = getAdministrationTimesProblem(normalized);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  // Saving exactly the standard rounds is the same as using the defaults
+  const isDefault = normalized.length === DEFAULT_ADMINISTRATION_TIMES.length &&
+    DEFAULT_ADMINISTRATION_TIMES.every((standard) =>
+      normalized.some((time) => time.id === standard.id && time.label === standard.label && time.time === standard.time)
+    );
+  return isDefault ? undefined : normalized;
+}
+
+// Rounds can only be removed once no active medication has a dose at them
+async function assertTimesNotInUse(ctx: QueryCtx, patients: Doc<"patients">[], times: AdministrationTime[]) {
+  const inUse = new Map<string, string[]>();
+  for (const patient of patients) {
+    const medications = await ctx.db
+      .query("patientMedications")
+      .withIndex("by_patient", (q) => q.eq("patientId", patient._id))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    for (const medication of medications) {
+      for (const { timeSlot } of getMedicationDoses(medication)) {
+        if (times.some((time) => time.id === timeSlot)) continue;
+        inUse.set(timeSlot, [...(inUse.get(timeSlot) ?? []), `${medication.medicationName} for ${patient.firstName} ${patient.lastName}`]);
+      }
+    }
+  }
+
+  if (inUse.size > 0) {
+    const details = Array.from(inUse.entries()).map(([timeSlot, medications]) => {
+      const label = DEFAULT_ADMINISTRATION_TIMES.find((time) => time.id === timeSlot)?.label ?? timeSlot;
+      const listed = medications.slice(0, 3).join(", ");
+      return `${label} (${medications.length} dose${medications.length === 1 ? "" : "s"}: ${listed}${medications.length > 3 ? ", ..." : ""})`;
+    });
+    throw new Error(`Move these doses to another administration time before removing it: ${details.join("; ")}`);
+  }
+}
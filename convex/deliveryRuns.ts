@@ -0,0 +1,446 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc } from "./_generated/dataModel";
+import { assertProofOfDeliveryImage, recordPackReturn, transitionWebsterPack } from "./websterPacks";
+
+// Stops still counted against a scan out. A failed stop marks the scan out failed and returns the
+// pack to the pharmacy, so the pack goes out again on a new scan out once it is re-packed and
+// checked, not on another run for the same scan out.
+function isStopOpen(stop: Doc<"deliveryRunStops">): boolean {
+  return stop.status !== "failed";
+}
+
+// Order stops so the driver works through one area at a time
+function compareStops(
+  a: { postcode: string; suburb: string; deliveryAddress: string; patientName: string },
+  b: { postcode: string; suburb: string; deliveryAddress: string; patientName: string }
+): number {
+  return a.suburb.localeCompare(b.suburb) ||
+    a.postcode.localeCompare(b.postcode) ||
+    a.deliveryAddress.localeCompare(b.deliveryAddress) ||
+    a.patientName.localeCompare(b.patientName);
+}
+
+// Get dispatched home deliveries that are not yet on a delivery run
+export const getUnassignedDeliveries = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    const scanOuts = await ctx.db
+      .query("websterPackScanOuts")
+      .withIndex("by_scan_out_status", (q) => q.eq("scanOutStatus", "dispatched"))
+      .filter((q) => q.eq(q.field("scannedOutByOrg"), userProfile.organizationId))
+      .filter((q) => q.eq(q.field("deliveryMethod"), "delivery"))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const deliveries = [];
+    for (const scanOut of scanOuts) {
+      const stops = await ctx.db
+        .query("deliveryRunStops")
+        .withIndex("by_scan_out", (q) => q.eq("scanOutId", scanOut._id))
+        .collect();
+      if (stops.some(isStopOpen)) continue;
+
+      // Skip packs that have since been collected or returned
+      const pack = scanOut.packId ? await ctx.db.get(scanOut.packId) : null;
+      if (pack && pack.status !== "dispatched") continue;
+
+      const patient = await ctx.db.get(scanOut.patientId);
+      if (!patient) continue;
+
+      deliveries.push({
+        scanOutId: scanOut._id,
+        websterPackId: scanOut.websterPackId,
+        packType: scanOut.packType,
+        patientId: patient._id,
+        patientName: scanOut.patientName,
+        deliveryAddress: scanOut.deliveryAddress || `${patient.streetAddress}, ${patient.suburb} ${patient.state} ${patient.postcode}`,
+        suburb: patient.suburb,
+        postcode: patient.postcode,
+        deliveryNotes: scanOut.deliveryNotes,
+        scannedOutAt: scanOut.scannedOutAt,
+      });
+    }
+
+    return deliveries.sort(compareStops);
+  },
+});
+
+// Get the delivery runs for a date with stop progress
+export const getDeliveryRuns = query({
+  args: {
+    runDate: v.string(), // YYYY-MM-DD
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    const runs = await ctx.db
+      .query("deliveryRuns")
+      .withIndex("by_organization_date", (q) =>
+        q.eq("organizationId", userProfile.organizationId!).eq("runDate", args.runDate)
+      )
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const runsWithProgress = await Promise.all(
+      runs.map(async (run) => {
+        const stops = await ctx.db
+          .query("deliveryRunStops")
+          .withIndex("by_run", (q) => q.eq("runId", run._id))
+          .collect();
+
+        return {
+          ...run,
+          isMyRun: run.driverId === userProfile._id,
+          totalStops: stops.length,
+          deliveredStops: stops.filter((stop) => stop.status === "delivered").length,
+          failedStops: stops.filter((stop) => stop.status === "failed").length,
+        };
+      })
+    );
+
+    return runsWithProgress.sort((a, b) => a.driverName.localeCompare(b.driverName));
+  },
+});
+
+// Get a delivery run with its stops in delivery order
+export const getDeliveryRun = query({
+  args: {
+    runId: v.id("deliveryRuns"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return null; // Return null instead of throwing
+    }
+
+    const run = await ctx.db.get(args.runId);
+    if (!run || !run.isActive || run.organizationId !== userProfile.organizationId) {
+      return null;
+    }
+
+    const stops = await ctx.db
+      .query("deliveryRunStops")
+      .withIndex("by_run", (q) => q.eq("runId", run._id))
+      .collect();
+
+    return {
+      run,
+      stops: stops.sort((a, b) => a.sequence - b.sequence),
+      // The driver and pharmacy admins can record stop outcomes
+      canUpdateStops: run.driverId === userProfile._id || userProfile.role === "owner" || userProfile.role === "admin",
+    };
+  },
+});
+
+// Assign dispatched packs to a driver for a day
+export const createDeliveryRun = mutation({
+  args: {
+    runDate: v.string(), // YYYY-MM-DD
+    driverId: v.id("userProfiles"),
+    scanOutIds: v.array(v.id("websterPackScanOuts")),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    // Get organization to verify it's a pharmacy
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization || organization.type !== "pharmacy") {
+      throw new Error("Delivery runs are only available to pharmacy organizations");
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(args.runDate)) {
+      throw new Error("Run date must be in YYYY-MM-DD format");
+    }
+
+    const driver = await ctx.db.get(args.driverId);
+    if (!driver || !driver.isActive || driver.organizationId !== userProfile.organizationId) {
+      throw new Error("The selected driver is not a member of your organization");
+    }
+
+    const scanOutIds = Array.from(new Set(args.scanOutIds));
+    if (scanOutIds.length === 0) {
+      throw new Error("Select at least one delivery for the run");
+    }
+
+    const stops: Omit<Doc<"deliveryRunStops">, "_id" | "_creationTime" | "runId" | "sequence">[] = [];
+    for (const scanOutId of scanOutIds) {
+      const scanOut = await ctx.db.get(scanOutId);
+      if (!scanOut || !scanOut.isActive || scanOut.scannedOutByOrg !== userProfile.organizationId) {
+        throw new Error("Delivery not found");
+      }
+      if (scanOut.deliveryMethod !== "delivery" || scanOut.scanOutStatus !== "dispatched") {
+        throw new Error(`Webster pack ${scanOut.websterPackId} is not awaiting home delivery`);
+      }
+
+      const existingStops = await ctx.db
+        .query("deliveryRunStops")
+        .withIndex("by_scan_out", (q) => q.eq("scanOutId", scanOutId))
+        .collect();
+      if (existingStops.some(isStopOpen)) {
+        throw new Error(`Webster pack ${scanOut.websterPackId} is already on a delivery run`);
+      }
+
+      const patient = await ctx.db.get(scanOut.patientId);
+      if (!patient) {
+        throw new Error("Patient not found");
+      }
+
+      stops.push({
+        scanOutId,
+        packId: scanOut.packId,
+        websterPackId: scanOut.websterPackId,
+        patientId: patient._id,
+        patientName: scanOut.patientName,
+        patientPhone: patient.phone,
+        deliveryAddress: scanOut.deliveryAddress || `${patient.streetAddress}, ${patient.suburb} ${patient.state} ${patient.postcode}`,
+        suburb: patient.suburb,
+        postcode: patient.postcode,
+        deliveryNotes: scanOut.deliveryNotes,
+        status: "pending",
+      });
+    }
+
+    const now = Date.now();
+    const runId = await ctx.db.insert("deliveryRuns", {
+      organizationId: userProfile.organizationId,
+      runDate: args.runDate,
+      driverId: driver._id,
+      driverName: `${driver.firstName} ${driver.lastName}`,
+      status: "planned",
+      notes: args.notes?.trim() || undefined,
+      createdBy: userProfile._id,
+      createdAt: now,
+      updatedAt: now,
+      isActive: true,
+    });
+
+    const orderedStops = stops.sort(compareStops);
+    for (let i = 0; i < orderedStops.length; i++) {
+      await ctx.db.insert("deliveryRunStops", {
+        ...orderedStops[i],
+        runId,
+        sequence: i + 1,
+      });
+    }
+
+    return runId;
+  },
+});
+
+// Cancel a delivery run that has not started, releasing its packs for another run
+export const cancelDeliveryRun = mutation({
+  args: {
+    runId: v.id("deliveryRuns"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    const run = await ctx.db.get(args.runId);
+    if (!run || !run.isActive || run.organizationId !== userProfile.organizationId) {
+      throw new Error("Delivery run not found");
+    }
+    if (run.status !== "planned") {
+      throw new Error("A delivery run cannot be cancelled once stops have been completed");
+    }
+
+    const stops = await ctx.db
+      .query("deliveryRunStops")
+      .withIndex("by_run", (q) => q.eq("runId", run._id))
+      .collect();
+    for (const stop of stops) {
+      await ctx.db.delete(stop._id);
+    }
+
+    await ctx.db.patch(run._id, {
+      isActive: false,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Record whether a stop was delivered or failed, updating the scan out and pack
+export const updateDeliveryStopStatus = mutation({
+  args: {
+    stopId: v.id("deliveryRunStops"),
+    status: v.union(v.literal("delivered"), v.literal("failed")),
+    failureReason: v.optional(v.string()),
+    // Proof of delivery, uploaded with websterPacks.generateProofOfDeliveryUploadUrl
+    recipientName: v.optional(v.string()),
+    signatureStorageId: v.optional(v.id("_storage")),
+    photoStorageId: v.optional(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    const stop = await ctx.db.get(args.stopId);
+    const run = stop ? await ctx.db.get(stop.runId) : null;
+    if (!stop || !run || !run.isActive || run.organizationId !== userProfile.organizationId) {
+      throw new Error("Delivery stop not found");
+    }
+
+    if (run.driverId !== userProfile._id && userProfile.role !== "owner" && userProfile.role !== "admin") {
+      throw new Error("Only the assigned driver can update this delivery run");
+    }
+    if (stop.status !== "pending") {
+      throw new Error(`Stop ${stop.sequence} has already been marked ${stop.status}`);
+    }
+
+    const failureReason = args.failureReason?.trim();
+    if (args.status === "failed" && !failureReason) {
+      throw new Error("A reason is required for a failed delivery");
+    }
+    if (args.status === "failed" && (args.signatureStorageId || args.photoStorageId)) {
+      throw new Error("Proof of delivery can only be recorded for a delivered stop");
+    }
+    if (args.signatureStorageId) await assertProofOfDeliveryImage(ctx, args.signatureStorageId);
+    if (args.photoStorageId) await assertProofOfDeliveryImage(ctx, args.photoStorageId);
+    const hasProof = !!(args.signatureStorageId || args.photoStorageId);
+
+    const now = Date.now();
+
+    await ctx.db.patch(stop._id, {
+      status: args.status,
+      failureReason: args.status === "failed" ? failureReason : undefined,
+      completedBy: userProfile._id,
+      completedAt: now,
+    });
+
+    await ctx.db.patch(stop.scanOutId, {
+      scanOutStatus: args.status,
+      ...(args.recipientName?.trim() ? { recipientName: args.recipientName.trim() } : {}),
+      ...(hasProof ? {
+        signatureStorageId: args.signatureStorageId,
+        photoStorageId: args.photoStorageId,
+        proofCapturedBy: userProfile._id,
+        proofCapturedAt: now,
+      } : {}),
+    });
+
+    // A delivered pack is with the patient; a failed one comes back to the pharmacy as a return
+    const pack = stop.packId ? await ctx.db.get(stop.packId) : null;
+    if (pack && pack.status === "dispatched") {
+      if (args.status === "delivered") {
+        await transitionWebsterPack(ctx, pack, "collected", {
+          performedBy: userProfile._id,
+          performedByOrg: userProfile.organizationId,
+          scanOutId: stop.scanOutId,
+          notes: `Delivered by ${run.driverName}`,
+        });
+      } else {
+        await recordPackReturn(ctx, pack, {
+          source: "failed_delivery",
+          reason: failureReason ?? "Delivery failed",
+          scanOutId: stop.scanOutId,
+          performedBy: userProfile._id,
+          performedByOrg: userProfile.organizationId,
+        });
+      }
+    }
+
+    // Keep the run status in step with its stops
+    const stops = await ctx.db
+      .query("deliveryRunStops")
+      .withIndex("by_run", (q) => q.eq("runId", run._id))
+      .collect();
+    const remaining = stops.filter((other) => other._id !== stop._id && other.status === "pending").length;
+    await ctx.db.patch(run._id, {
+      status: remaining === 0 ? "completed" : "in_progress",
+      updatedAt: now,
+    });
+
+    await ctx.db.insert("patientComments", {
+      patientId: stop.patientId,
+      authorId: userProfile._id,
+      authorOrg: userProfile.organizationId,
+      content: args.status === "delivered"
+        ? `Webster pack ${stop.websterPackId} delivered by ${run.driverName}`
+        : `Delivery of Webster pack ${stop.websterPackId} failed\nReason: ${failureReason}`,
+      commentType: "system",
+      isPrivate: false,
+      isActive: true,
+      createdAt: now,
+    });
+
+    return stop._id;
+  },
+});
@@ -0,0 +1,126 @@
+import { v } from "convex/values";
+import { action, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { normalizeMedicationQuery, searchMedicationsFlexible } from "../lib/fda-api";
+import { MedicationSuggestion } from "../lib/medicine-sources";
+
+const suggestionValidator = v.object({
+  id: v.string(),
+  source: v.union(v.literal("au_catalogue"), v.literal("fda")),
+  name: v.string(),
+  genericName: v.optional(v.string()),
+  brandName: v.optional(v.string()),
+  strength: v.optional(v.string()),
+  dosageForm: v.optional(v.string()),
+  route: v.optional(v.string()),
+  manufacturer: v.optional(v.string()),
+  activeIngredient: v.optional(v.string()),
+  ndc: v.optional(v.string()),
+  amtCode: v.optional(v.string()),
+  pbsItemCode: v.optional(v.string()),
+});
+
+// Cached searches are refreshed after a day; the FDA NDC directory is updated daily
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// Expired entries are kept for a while as a fallback when the FDA API is down
+const STALE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_BATCH_SIZE = 20;
+// Every search caches the same number of results, so callers asking for fewer share the entry
+const CACHED_RESULTS = 20;
+
+// Search the FDA NDC database through the shared cache. The API key is read from the FDA_API_KEY
+// environment variable of the Convex deployment, so it never reaches the browser.
+export const searchFdaMedications = action({
+  args: {
+    query: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<MedicationSuggestion[]> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    const normalizedQuery = normalizeMedicationQuery(args.query);
+    if (normalizedQuery.length < 2) {
+      return [];
+    }
+    const limit = Math.min(args.limit ?? 10, CACHED_RESULTS);
+
+    const cached: Doc<"medicationSearchCache"> | null = await ctx.runQuery(
+      internal.medicationSearch.getCachedSearch,
+      { normalizedQuery }
+    );
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.results.slice(0, limit);
+    }
+
+    try {
+      const { results, complete } = await searchMedicationsFlexible(normalizedQuery, CACHED_RESULTS, process.env.FDA_API_KEY);
+      if (!complete) {
+        // Some strategies failed, so the results may be missing matches: don't keep them for a day
+        return (results.length > 0 || !cached ? results : cached.results).slice(0, limit);
+      }
+      await ctx.runMutation(internal.medicationSearch.cacheSearch, { normalizedQuery, results });
+      return results.slice(0, limit);
+    } catch (error) {
+      console.error("Error searching FDA medications:", error);
+      // Fall back to the expired results, if any, while the FDA API is unavailable
+      return cached ? cached.results.slice(0, limit) : [];
+    }
+  },
+});
+
+export const getCachedSearch = internalQuery({
+  args: {
+    normalizedQuery: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("medicationSearchCache")
+      .withIndex("by_query", (q) => q.eq("normalizedQuery", args.normalizedQuery))
+      .first();
+  },
+});
+
+// Store the results of a search, and remove a few entries that have been expired for too long
+export const cacheSearch = internalMutation({
+  args: {
+    normalizedQuery: v.string(),
+    results: v.array(suggestionValidator),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    const existing = await ctx.db
+      .query("medicationSearchCache")
+      .withIndex("by_query", (q) => q.eq("normalizedQuery", args.normalizedQuery))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        results: args.results,
+        fetchedAt: now,
+        expiresAt: now + CACHE_TTL_MS,
+      });
+    } else {
+      await ctx.db.insert("medicationSearchCache", {
+        normalizedQuery: args.normalizedQuery,
+        results: args.results,
+        fetchedAt: now,
+        expiresAt: now + CACHE_TTL_MS,
+      });
+    }
+
+    const stale = await ctx.db
+      .query("medicationSearchCache")
+      .withIndex("by_expires_at", (q) => q.lt("expiresAt", now - STALE_RETENTION_MS))
+      .take(PRUNE_BATCH_SIZE);
+
+    for (const entry of stale) {
+      await ctx.db.delete(entry._id);
+    }
+  },
+});
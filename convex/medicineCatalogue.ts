@@ -0,0 +1,247 @@
+import { v } from "convex/values";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Id } from "./_generated/dataModel";
+import { CATALOGUE_IMPORT_BATCH_SIZE, getCatalogueSearchText } from "../lib/medicine-catalogue";
+
+const catalogueItemValidator = v.object({
+  amtCode: v.optional(v.string()),
+  pbsItemCode: v.optional(v.string()),
+  brandName: v.optional(v.string()),
+  genericName: v.optional(v.string()),
+  activeIngredient: v.optional(v.string()),
+  strength: v.optional(v.string()),
+  dosageForm: v.optional(v.string()),
+  route: v.optional(v.string()),
+  manufacturer: v.optional(v.string()),
+});
+
+// Items are deleted in batches so large catalogues stay within a mutation's limits
+const CLEAR_BATCH_SIZE = 1000;
+
+// An import adds its items as a new catalogue version, numbered by when it started. Searches only
+// see the organisation's current version, which changes when recordMedicineCatalogueImport runs, so
+// an import that fails part way leaves the previous catalogue in place.
+
+// Search the organisation's imported catalogue by name or code
+export const searchMedicineCatalogue = query({
+  args: {
+    query: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    const search = args.query.trim().toLowerCase();
+    if (search.length < 2) {
+      return [];
+    }
+
+    const organization = await ctx.db.get(userProfile.organizationId);
+    const version = organization?.medicineCatalogue?.version;
+
+    const items = await ctx.db
+      .query("medicineCatalogueItems")
+      .withSearchIndex("search_text", (q) =>
+        q.search("searchText", search).eq("organizationId", userProfile.organizationId!).eq("version", version)
+      )
+      .take(Math.min(args.limit ?? 10, 50));
+
+    return items.map((item) => ({
+      _id: item._id,
+      amtCode: item.amtCode,
+      pbsItemCode: item.pbsItemCode,
+      brandName: item.brandName,
+      genericName: item.genericName,
+      activeIngredient: item.activeIngredient,
+      strength: item.strength,
+      dosageForm: item.dosageForm,
+      route: item.route,
+      manufacturer: item.manufacturer,
+    }));
+  },
+});
+
+// The organisation's last catalogue import, and whether the current user can replace it
+export const getMedicineCatalogueStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null; // Return null instead of throwing
+    }
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return null; // Return null instead of throwing
+    }
+
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization) {
+      return null;
+    }
+
+    const importedBy = organization.medicineCatalogue
+      ? await ctx.db.get(organization.medicineCatalogue.importedBy)
+      : null;
+
+    return {
+      lastImport: organization.medicineCatalogue
+        ? {
+            ...organization.medicineCatalogue,
+            importedByName: importedBy ? `${importedBy.firstName} ${importedBy.lastName}` : "Unknown",
+          }
+        : null,
+      canImport: userProfile.role === "owner" || userProfile.role === "admin",
+    };
+  },
+});
+
+// Start an import, returning the catalogue version its items are added to. Owners and admins only.
+export const startMedicineCatalogueImport = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await getCatalogueAdmin(ctx);
+    return { version: Date.now() };
+  },
+});
+
+// Add a batch of parsed catalogue items to an import's version. Owners and admins only.
+export const importMedicineCatalogueItems = mutation({
+  args: {
+    version: v.number(),
+    items: v.array(catalogueItemValidator),
+  },
+  handler: async (ctx, args) => {
+    const userProfile = await getCatalogueAdmin(ctx);
+    await assertNewCatalogueVersion(ctx, userProfile.organizationId!, args.version);
+
+    if (args.items.length > CATALOGUE_IMPORT_BATCH_SIZE) {
+      throw new Error(`Import at most ${CATALOGUE_IMPORT_BATCH_SIZE} catalogue items at a time`);
+    }
+
+    for (const item of args.items) {
+      if (!item.brandName && !item.genericName) {
+        throw new Error("Each catalogue item needs a brand or generic name");
+      }
+      await ctx.db.insert("medicineCatalogueItems", {
+        ...item,
+        organizationId: userProfile.organizationId!,
+        searchText: getCatalogueSearchText(item),
+        version: args.version,
+      });
+    }
+    return args.items.length;
+  },
+});
+
+// Record a finished import, making its version the one searched. Owners and admins only.
+export const recordMedicineCatalogueImport = mutation({
+  args: {
+    version: v.number(),
+    fileName: v.string(),
+    itemCount: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userProfile = await getCatalogueAdmin(ctx);
+    await assertNewCatalogueVersion(ctx, userProfile.organizationId!, args.version);
+
+    const imported = await ctx.db
+      .query("medicineCatalogueItems")
+      .withIndex("by_organization_version", (q) =>
+        q.eq("organizationId", userProfile.organizationId!).eq("version", args.version)
+      )
+      .first();
+    if (!imported) {
+      throw new Error("No catalogue items were imported");
+    }
+
+    await ctx.db.patch(userProfile.organizationId!, {
+      medicineCatalogue: {
+        fileName: args.fileName,
+        itemCount: args.itemCount,
+        importedBy: userProfile._id,
+        importedAt: Date.now(),
+        version: args.version,
+      },
+    });
+  },
+});
+
+// Remove a batch of items from catalogue versions older than the current one: replaced catalogues
+// and imports that never finished. Call until hasMore is false. Owners and admins only.
+export const removeOldMedicineCatalogueItems = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userProfile = await getCatalogueAdmin(ctx);
+
+    const organization = await ctx.db.get(userProfile.organizationId!);
+    const currentVersion = organization?.medicineCatalogue?.version;
+    if (currentVersion === undefined) {
+      return { hasMore: false };
+    }
+
+    const items = await ctx.db
+      .query("medicineCatalogueItems")
+      .withIndex("by_organization_version", (q) =>
+        q.eq("organizationId", userProfile.organizationId!).lt("version", currentVersion)
+      )
+      .take(CLEAR_BATCH_SIZE);
+
+    for (const item of items) {
+      await ctx.db.delete(item._id);
+    }
+    return { hasMore: items.length === CLEAR_BATCH_SIZE };
+  },
+});
+
+// HELPER FUNCTIONS
+
+// The current user, when they may manage their organisation's catalogue
+async function getCatalogueAdmin(ctx: MutationCtx) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const userProfile = await ctx.db
+    .query("userProfiles")
+    .withIndex("by_user_id", (q) => q.eq("userId", userId))
+    .first();
+
+  if (!userProfile || !userProfile.organizationId) {
+    throw new Error("User must be part of an organization");
+  }
+
+  if (userProfile.role !== "owner" && userProfile.role !== "admin") {
+    throw new Error("Only organization owners and admins can import the medicines catalogue");
+  }
+
+  return userProfile;
+}
+
+// Throw unless a version is newer than the organisation's current catalogue, so an import can't add
+// to the catalogue being searched or replace a newer one
+async function assertNewCatalogueVersion(ctx: MutationCtx, organizationId: Id<"organizations">, version: number) {
+  const organization = await ctx.db.get(organizationId);
+  const currentVersion = organization?.medicineCatalogue?.version;
+  if (currentVersion !== undefined && version <= currentVersion) {
+    throw new Error("A newer catalogue has been imported since this import started. Import the file again.");
+  }
+}
@@ -0,0 +1,206 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StaffStats {
+  userId: Id<"userProfiles">;
+  name: string;
+  checks: number;
+  failed: number;
+  requiresReview: number;
+  failureRate: number;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Share of checks that did not pass, as a percentage rounded to one decimal place
+function getFailureRate(checks: number, failed: number, requiresReview: number): number {
+  return checks > 0 ? Math.round(((failed + requiresReview) / checks) * 1000) / 10 : 0;
+}
+
+// Formats times as calendar dates and hours in an IANA time zone, e.g. "Australia/Sydney"
+function getTimeZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  try {
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+    });
+  } catch {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+}
+
+// The calendar date (YYYY-MM-DD) and hour of day of a time, as the formatter's time zone sees it
+function getLocalTime(formatter: Intl.DateTimeFormat, time: number): { date: string; hour: number } {
+  const parts = Object.fromEntries(formatter.formatToParts(time).map(({ type, value }) => [type, value]));
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, hour: Number(parts.hour) % 24 };
+}
+
+function getNextDate(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10);
+}
+
+// Tally checks per staff member, using the checker or the recorded packer
+function getStaffStats(
+  checks: Doc<"websterPackChecks">[],
+  getUserId: (check: Doc<"websterPackChecks">) => Id<"userProfiles"> | undefined,
+  names: Map<Id<"userProfiles">, string>
+): StaffStats[] {
+  const stats = new Map<Id<"userProfiles">, StaffStats>();
+
+  for (const check of checks) {
+    const userId = getUserId(check);
+    if (!userId) continue;
+
+    const entry = stats.get(userId) ?? {
+      userId,
+      name: names.get(userId) ?? "Unknown User",
+      checks: 0,
+      failed: 0,
+      requiresReview: 0,
+      failureRate: 0,
+    };
+    entry.checks++;
+    if (check.checkStatus === "failed") entry.failed++;
+    if (check.checkStatus === "requires_review") entry.requiresReview++;
+    stats.set(userId, entry);
+  }
+
+  return Array.from(stats.values())
+    .map((entry) => ({ ...entry, failureRate: getFailureRate(entry.checks, entry.failed, entry.requiresReview) }))
+    .sort((a, b) => b.checks - a.checks || a.name.localeCompare(b.name));
+}
+
+// QA analytics for Webster pack checks in a date range: failure rates by packer and checker,
+// checks by hour of day, daily trend and time from passing a check to scan out.
+// Hours and days are bucketed in the caller's time zone, following its daylight saving changes.
+export const getPackQaAnalytics = query({
+  args: {
+    startDate: v.number(), // Timestamp (inclusive)
+    endDate: v.number(), // Timestamp (exclusive)
+    timeZone: v.string(), // IANA time zone, e.g. "Australia/Sydney"
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get organization to verify it's a pharmacy
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization || organization.type !== "pharmacy") {
+      return null;
+    }
+
+    const checks = await ctx.db
+      .query("websterPackChecks")
+      .withIndex("by_checked_at", (q) => q.gte("checkedAt", args.startDate).lt("checkedAt", args.endDate))
+      .filter((q) => q.eq(q.field("checkedByOrg"), userProfile.organizationId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const scanOuts = await ctx.db
+      .query("websterPackScanOuts")
+      .withIndex("by_scanned_out_at", (q) => q.gte("scannedOutAt", args.startDate).lt("scannedOutAt", args.endDate))
+      .filter((q) => q.eq(q.field("scannedOutByOrg"), userProfile.organizationId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .filter((q) => q.neq(q.field("scanOutStatus"), "failed"))
+      .collect();
+
+    // Staff names for everyone who packed or checked in the period
+    const names = new Map<Id<"userProfiles">, string>();
+    for (const staffId of new Set(checks.flatMap((check) => check.packedBy ? [check.checkedBy, check.packedBy] : [check.checkedBy]))) {
+      const staff = await ctx.db.get(staffId);
+      if (staff) {
+        names.set(staffId, `${staff.firstName} ${staff.lastName}`);
+      }
+    }
+
+    const formatter = getTimeZoneFormatter(args.timeZone);
+
+    // Checks per hour of day
+    const byHour = Array.from({ length: 24 }, (_, hour) => ({ hour, checks: 0, failed: 0 }));
+    // Daily trend, with every day in the range present so charts have no gaps
+    const byDay = new Map<string, { date: string; checks: number; failed: number; requiresReview: number }>();
+    const lastDate = getLocalTime(formatter, args.endDate - 1).date;
+    for (let date = getLocalTime(formatter, args.startDate).date; date <= lastDate; date = getNextDate(date)) {
+      byDay.set(date, { date, checks: 0, failed: 0, requiresReview: 0 });
+    }
+
+    let failedChecks = 0;
+    let reviewChecks = 0;
+    for (const check of checks) {
+      const { date, hour } = getLocalTime(formatter, check.checkedAt);
+      const isFailure = check.checkStatus !== "passed";
+
+      const hourEntry = byHour[hour];
+      hourEntry.checks++;
+      if (isFailure) hourEntry.failed++;
+
+      const dayEntry = byDay.get(date) ?? { date, checks: 0, failed: 0, requiresReview: 0 };
+      dayEntry.checks++;
+      if (check.checkStatus === "failed") dayEntry.failed++;
+      if (check.checkStatus === "requires_review") dayEntry.requiresReview++;
+      byDay.set(date, dayEntry);
+
+      if (check.checkStatus === "failed") failedChecks++;
+      if (check.checkStatus === "requires_review") reviewChecks++;
+    }
+
+    // Minutes from the passed check that cleared each pack to its scan out
+    const checkToScanOutMinutes: number[] = [];
+    for (const scanOut of scanOuts) {
+      const packChecks = await ctx.db
+        .query("websterPackChecks")
+        .withIndex("by_webster_pack_id", (q) => q.eq("websterPackId", scanOut.websterPackId))
+        .filter((q) => q.eq(q.field("checkedByOrg"), userProfile.organizationId))
+        .filter((q) => q.eq(q.field("checkStatus"), "passed"))
+        .filter((q) => q.lte(q.field("checkedAt"), scanOut.scannedOutAt))
+        .collect();
+      if (packChecks.length === 0) continue;
+
+      const clearingCheckAt = Math.max(...packChecks.map((check) => check.checkedAt));
+      checkToScanOutMinutes.push((scanOut.scannedOutAt - clearingCheckAt) / 60000);
+    }
+    const medianMinutes = median(checkToScanOutMinutes);
+
+    return {
+      totalChecks: checks.length,
+      passedChecks: checks.length - failedChecks - reviewChecks,
+      failedChecks,
+      reviewChecks,
+      failureRate: getFailureRate(checks.length, failedChecks, reviewChecks),
+      checksPerDay: Math.round((checks.length / Math.max(byDay.size, 1)) * 10) / 10,
+      totalScanOuts: scanOuts.length,
+      medianCheckToScanOutMinutes: medianMinutes === null ? null : Math.round(medianMinutes),
+      byChecker: getStaffStats(checks, (check) => check.checkedBy, names),
+      byPacker: getStaffStats(checks, (check) => check.packedBy, names),
+      byHour,
+      byDay: Array.from(byDay.values())
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((entry) => ({ ...entry, failureRate: getFailureRate(entry.checks, entry.failed, entry.requiresReview) })),
+    };
+  },
+});
@@ -0,0 +1,222 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc } from "./_generated/dataModel";
+import { formatCalendarDate } from "./websterPacks";
+import {
+  getBatchesExpiringInPeriod,
+  getPackPeriod,
+  normalizeBatchNumber,
+  PackedBatch,
+} from "../lib/pack-expiry";
+
+// Packs that have been checked and not destroyed, i.e. still with the pharmacy or the patient
+const PACKED_STATUSES: Doc<"websterPacks">["status"][] = ["checked", "dispatched", "collected", "returned"];
+
+// Batches recorded on a check. Legacy checks only have a pack-level batch and earliest expiry.
+function getCheckBatches(check: Doc<"websterPackChecks">): (PackedBatch & { strength?: string })[] {
+  if (check.medicationBatches && check.medicationBatches.length > 0) {
+    return check.medicationBatches.map((batch) => ({
+      medicationName: batch.medicationName,
+      strength: batch.strength,
+      batchNumber: batch.batchNumber,
+      expiryDate: batch.expiryDate,
+    }));
+  }
+  if (check.batchNumber || check.expiryDate) {
+    return [{
+      medicationName: "Whole pack",
+      batchNumber: check.batchNumber ?? "",
+      expiryDate: check.expiryDate ?? "",
+    }];
+  }
+  return [];
+}
+
+// Packs in use whose latest check recorded a medication expiring on or before the pack's last day
+export const getPackExpiryAlerts = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get organization to verify it's a pharmacy
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization || organization.type !== "pharmacy") {
+      return [];
+    }
+
+    const packs = await ctx.db
+      .query("websterPacks")
+      .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const today = formatCalendarDate(Date.now());
+    const alerts = [];
+    for (const pack of packs) {
+      if (!PACKED_STATUSES.includes(pack.status) || !pack.latestCheckId) continue;
+
+      const check = await ctx.db.get(pack.latestCheckId);
+      if (!check) continue;
+
+      // Packs whose week has finished are no longer in use
+      const period = getPackPeriod(pack.packWeekStart, formatCalendarDate(check.checkedAt));
+      if (period.end < today) continue;
+
+      const expiringBatches = getBatchesExpiringInPeriod(
+        getCheckBatches(check).filter((batch) => batch.expiryDate),
+        period
+      );
+      if (expiringBatches.length === 0) continue;
+
+      alerts.push({
+        packId: pack._id,
+        websterPackId: pack.websterPackId,
+        patientId: pack.patientId,
+        patientName: pack.patientName,
+        packType: pack.packType,
+        status: pack.status,
+        periodStart: period.start,
+        periodEnd: period.end,
+        checkedAt: check.checkedAt,
+        expiringBatches: expiringBatches.map((batch) => ({
+          medicationName: batch.medicationName,
+          strength: batch.strength,
+          batchNumber: batch.batchNumber,
+          expiryDate: batch.expiryDate,
+          isExpired: batch.expiryDate < today,
+        })),
+      });
+    }
+
+    return alerts.sort((a, b) => a.expiringBatches[0].expiryDate.localeCompare(b.expiringBatches[0].expiryDate));
+  },
+});
+
+// Every patient and pack ever checked with a batch of a drug, for answering a recall. Earlier checks
+// count too: a pack re-packed after a return or a failed check may already have reached the patient.
+// The drug matches brand or generic names; batch numbers ignore case, spaces and hyphens. Legacy
+// pack-level batches match when the drug was on the pack's checklist.
+export const searchBatchRecall = query({
+  args: {
+    medication: v.string(),
+    batchNumber: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get organization to verify it's a pharmacy
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization || organization.type !== "pharmacy") {
+      return [];
+    }
+
+    const medication = args.medication.trim().toLowerCase();
+    const batchNumber = normalizeBatchNumber(args.batchNumber);
+    if (!medication || !batchNumber) {
+      return [];
+    }
+
+    const checks = await ctx.db
+      .query("websterPackChecks")
+      .withIndex("by_checked_at")
+      .order("desc")
+      .filter((q) => q.eq(q.field("checkedByOrg"), userProfile.organizationId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const matches = [];
+    // A pack checked more than once with the same batch is listed once, from its latest check
+    const listed = new Set<string>();
+    for (const check of checks) {
+      const matchingBatches = check.medicationBatches && check.medicationBatches.length > 0
+        ? check.medicationBatches.filter((batch) =>
+            normalizeBatchNumber(batch.batchNumber) === batchNumber &&
+            (batch.medicationName.toLowerCase().includes(medication) ||
+              !!batch.genericName?.toLowerCase().includes(medication))
+          )
+        : check.batchNumber && normalizeBatchNumber(check.batchNumber) === batchNumber
+          ? (check.checklist ?? [])
+              .filter((item) => item.medicationName.toLowerCase().includes(medication))
+              .slice(0, 1)
+              .map((item) => ({
+                medicationName: item.medicationName,
+                strength: item.strength,
+                batchNumber: check.batchNumber!,
+                expiryDate: check.expiryDate ?? "",
+              }))
+          : [];
+      if (matchingBatches.length === 0) continue;
+
+      // Legacy checks were recorded before packs had a lifecycle record
+      const pack = check.packId
+        ? await ctx.db.get(check.packId)
+        : await ctx.db
+            .query("websterPacks")
+            .withIndex("by_webster_pack_id", (q) => q.eq("websterPackId", check.websterPackId))
+            .filter((q) => q.eq(q.field("organizationId"), userProfile.organizationId))
+            .first();
+      if (!pack || !pack.isActive) continue;
+
+      const patient = await ctx.db.get(pack.patientId);
+      const checker = await ctx.db.get(check.checkedBy);
+      const scanOut = pack.latestScanOutId ? await ctx.db.get(pack.latestScanOutId) : null;
+
+      for (const batch of matchingBatches) {
+        const key = `${pack._id}:${batch.medicationName}:${normalizeBatchNumber(batch.batchNumber)}`;
+        if (listed.has(key)) continue;
+        listed.add(key);
+
+        matches.push({
+          packId: pack._id,
+          websterPackId: pack.websterPackId,
+          patientId: pack.patientId,
+          patientName: pack.patientName,
+          shareToken: patient?.shareToken,
+          dateOfBirth: patient?.dateOfBirth,
+          packType: pack.packType,
+          status: pack.status,
+          packWeekStart: pack.packWeekStart,
+          medicationName: batch.medicationName,
+          strength: batch.strength,
+          batchNumber: batch.batchNumber,
+          expiryDate: batch.expiryDate,
+          packLevelBatch: !check.medicationBatches || check.medicationBatches.length === 0,
+          // The pack has been checked again since, so the batch may no longer be in it
+          fromEarlierCheck: check._id !== pack.latestCheckId,
+          checkedAt: check.checkedAt,
+          checkedByName: checker ? `${checker.firstName} ${checker.lastName}` : "Unknown User",
+          scannedOutAt: scanOut?.scannedOutAt,
+        });
+      }
+    }
+
+    return matches.sort((a, b) => a.patientName.localeCompare(b.patientName) || b.checkedAt - a.checkedAt);
+  },
+});
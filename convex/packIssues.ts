@@ -0,0 +1,356 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+
+type IssueSeverity = Doc<"packIssueCategories">["severity"];
+
+const severityValidator = v.union(
+  v.literal("low"),
+  v.literal("medium"),
+  v.literal("high"),
+  v.literal("critical")
+);
+
+// Standard categories offered to pharmacies setting up their catalogue
+const DEFAULT_ISSUE_CATEGORIES: { name: string; description: string; severity: IssueSeverity }[] = [
+  { name: "Missing dose", description: "A medication is missing from a slot", severity: "high" },
+  { name: "Wrong slot", description: "A medication is in the wrong day or time slot", severity: "high" },
+  { name: "Extra tablet", description: "A slot contains more than the prescribed dose", severity: "high" },
+  { name: "Wrong medication", description: "A medication not on the patient's profile is in the pack", severity: "critical" },
+  { name: "Wrong strength", description: "A medication is packed at the wrong strength", severity: "critical" },
+  { name: "Wrong patient", description: "The pack belongs to a different patient", severity: "critical" },
+  { name: "Damaged seal", description: "A blister or sachet seal is broken or damaged", severity: "medium" },
+  { name: "Label error", description: "The pack label is missing, incorrect or unreadable", severity: "medium" },
+  { name: "Expired medication", description: "A medication in the pack is expired or expires during the pack period", severity: "high" },
+  { name: "Broken tablet", description: "A tablet is chipped or broken", severity: "low" },
+];
+
+// Compare category names without case or spacing differences
+function normalizeIssueName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Get the issue catalogue for the user's organization
+export const getPackIssueCategories = query({
+  args: {
+    includeInactive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    const categories = await ctx.db
+      .query("packIssueCategories")
+      .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+      .collect();
+
+    return categories
+      .filter((category) => args.includeInactive || category.isActive)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// Add an issue category to the organization's catalogue
+export const createPackIssueCategory = mutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+    severity: severityValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    if (userProfile.role !== "owner" && userProfile.role !== "admin") {
+      throw new Error("Insufficient permissions to manage issue categories");
+    }
+
+    const name = args.name.trim().replace(/\s+/g, " ");
+    if (!name) {
+      throw new Error("Issue category name is required");
+    }
+
+    const existingCategories = await ctx.db
+      .query("packIssueCategories")
+      .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+      .collect();
+
+    const duplicate = existingCategories.find(
+      (category) => normalizeIssueName(category.name) === normalizeIssueName(name)
+    );
+    if (duplicate) {
+      if (duplicate.isActive) {
+        throw new Error(`An issue category named "${duplicate.name}" already exists`);
+      }
+      // Bring back a previously removed category rather than creating a second one
+      await ctx.db.patch(duplicate._id, {
+        description: args.description?.trim() || undefined,
+        severity: args.severity,
+        isActive: true,
+        updatedAt: Date.now(),
+      });
+      return duplicate._id;
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("packIssueCategories", {
+      organizationId: userProfile.organizationId,
+      name,
+      description: args.description?.trim() || undefined,
+      severity: args.severity,
+      createdBy: userProfile._id,
+      createdAt: now,
+      updatedAt: now,
+      isActive: true,
+    });
+  },
+});
+
+// Update an issue category. Past checks keep the name and severity recorded at the time.
+export const updatePackIssueCategory = mutation({
+  args: {
+    categoryId: v.id("packIssueCategories"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    severity: v.optional(severityValidator),
+    isActive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    if (userProfile.role !== "owner" && userProfile.role !== "admin") {
+      throw new Error("Insufficient permissions to manage issue categories");
+    }
+
+    const category = await ctx.db.get(args.categoryId);
+    if (!category || category.organizationId !== userProfile.organizationId) {
+      throw new Error("Issue category not found");
+    }
+
+    const updates: Partial<Doc<"packIssueCategories">> = { updatedAt: Date.now() };
+
+    if (args.name !== undefined) {
+      const name = args.name.trim().replace(/\s+/g, " ");
+      if (!name) {
+        throw new Error("Issue category name is required");
+      }
+
+      const otherCategories = await ctx.db
+        .query("packIssueCategories")
+        .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+        .filter((q) => q.neq(q.field("_id"), args.categoryId))
+        .collect();
+
+      if (otherCategories.some((other) => normalizeIssueName(other.name) === normalizeIssueName(name))) {
+        throw new Error(`An issue category named "${name}" already exists`);
+      }
+      updates.name = name;
+    }
+    if (args.description !== undefined) updates.description = args.description.trim() || undefined;
+    if (args.severity !== undefined) updates.severity = args.severity;
+    if (args.isActive !== undefined) updates.isActive = args.isActive;
+
+    await ctx.db.patch(args.categoryId, updates);
+  },
+});
+
+// Add any standard issue categories the organization does not already have
+export const addDefaultPackIssueCategories = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    if (userProfile.role !== "owner" && userProfile.role !== "admin") {
+      throw new Error("Insufficient permissions to manage issue categories");
+    }
+
+    const existingNames = new Set(
+      (await ctx.db
+        .query("packIssueCategories")
+        .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+        .collect()
+      ).map((category) => normalizeIssueName(category.name))
+    );
+
+    const now = Date.now();
+    let added = 0;
+    for (const category of DEFAULT_ISSUE_CATEGORIES) {
+      if (existingNames.has(normalizeIssueName(category.name))) continue;
+
+      await ctx.db.insert("packIssueCategories", {
+        organizationId: userProfile.organizationId,
+        ...category,
+        createdBy: userProfile._id,
+        createdAt: now,
+        updatedAt: now,
+        isActive: true,
+      });
+      added++;
+    }
+
+    return added;
+  },
+});
+
+// Rank issue categories by how often they were recorded on checks in a date range (Pareto analysis).
+// Checks recorded before the catalogue existed are grouped by their free-text issue.
+export const getIssueParetoReport = query({
+  args: {
+    startDate: v.number(), // Timestamp (inclusive)
+    endDate: v.number(), // Timestamp (exclusive)
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return null; // Return null instead of throwing
+    }
+
+    const checks = await ctx.db
+      .query("websterPackChecks")
+      .withIndex("by_checked_at", (q) => q.gte("checkedAt", args.startDate).lt("checkedAt", args.endDate))
+      .filter((q) => q.eq(q.field("checkedByOrg"), userProfile.organizationId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const categories = await ctx.db
+      .query("packIssueCategories")
+      .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+      .collect();
+    const categoriesById = new Map<Id<"packIssueCategories">, Doc<"packIssueCategories">>(
+      categories.map((category) => [category._id, category])
+    );
+
+    const counts = new Map<string, {
+      key: string;
+      name: string;
+      severity?: IssueSeverity;
+      isUncategorised: boolean;
+      count: number;
+    }>();
+
+    let checksWithIssues = 0;
+    for (const check of checks) {
+      const issueKeys = new Set<string>();
+
+      if (check.issueCategories && check.issueCategories.length > 0) {
+        for (const issue of check.issueCategories) {
+          // Report under the current name and severity so renamed categories stay together
+          const category = categoriesById.get(issue.categoryId);
+          const key = issue.categoryId;
+          if (issueKeys.has(key)) continue;
+          issueKeys.add(key);
+
+          const entry = counts.get(key) ?? {
+            key,
+            name: category?.name ?? issue.name,
+            severity: category?.severity ?? issue.severity,
+            isUncategorised: false,
+            count: 0,
+          };
+          entry.count++;
+          counts.set(key, entry);
+        }
+      } else {
+        for (const issue of check.issues ?? []) {
+          const key = `text:${normalizeIssueName(issue)}`;
+          if (!issue.trim() || issueKeys.has(key)) continue;
+          issueKeys.add(key);
+
+          const entry = counts.get(key) ?? {
+            key,
+            name: issue.trim(),
+            isUncategorised: true,
+            count: 0,
+          };
+          entry.count++;
+          counts.set(key, entry);
+        }
+      }
+
+      if (issueKeys.size > 0) {
+        checksWithIssues++;
+      }
+    }
+
+    const ranked = Array.from(counts.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    const totalIssues = ranked.reduce((sum, entry) => sum + entry.count, 0);
+
+    let cumulativeCount = 0;
+    const issues = ranked.map((entry) => {
+      cumulativeCount += entry.count;
+      return {
+        ...entry,
+        percentage: totalIssues > 0 ? (entry.count / totalIssues) * 100 : 0,
+        cumulativePercentage: totalIssues > 0 ? (cumulativeCount / totalIssues) * 100 : 0,
+      };
+    });
+
+    return {
+      totalChecks: checks.length,
+      checksWithIssues,
+      totalIssues,
+      issues,
+    };
+  },
+});
@@ -1,8 +1,70 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { generatePatientAccessGrantEmailHTML, generatePatientShareCodeEmailHTML } from "./emailTemplates";
 import { resend } from "./emails";
+import { DoseTimeSlot, getMedicationDoses, MedicationDoseFields, parseDose } from "../lib/doses";
+import { getScheduleProblem, MedicationSchedule } from "../lib/medication-schedule";
+import {
+  describeInteraction,
+  findInteractions,
+  getMedicationIngredients,
+  hasMajorInteraction,
+  InteractionMedication,
+  InteractionWarning,
+} from "../lib/drug-interactions";
+import { getPatientInteractionWarnings } from "./drugInteractions";
+import { AllergyWarning, describeAllergyWarning } from "../lib/allergies";
+import { getPatientAllergyWarnings } from "./patientAllergies";
+import { pickMedicationState, reconstructRegimen } from "../lib/medication-history";
+import {
+  getReconciliationProblem,
+  getReconciliationSourceLabel,
+  IncomingMedication,
+  isSameMedication,
+} from "../lib/medication-reconciliation";
+
+const scheduleValidator = v.object({
+  type: v.union(
+    v.literal("daily"),
+    v.literal("days_of_week"),
+    v.literal("interval"),
+    v.literal("cycle"),
+    v.literal("prn")
+  ),
+  daysOfWeek: v.optional(v.array(v.number())),
+  intervalDays: v.optional(v.number()),
+  daysOn: v.optional(v.number()),
+  daysOff: v.optional(v.number()),
+  anchorDate: v.optional(v.string()),
+  prnIndication: v.optional(v.string()),
+});
+
+// Doses at administration times other than the standard four (see lib/administration-times.ts)
+const additionalDosesValidator = v.array(v.object({
+  timeSlot: v.string(),
+  dose: v.string(),
+}));
+
+// A medication's name, dosing, schedule and identifiers, as on an incoming list at a medication reconciliation
+const medicationStateValidator = v.object({
+  medicationName: v.string(),
+  dosage: v.optional(v.string()),
+  morningDose: v.optional(v.string()),
+  afternoonDose: v.optional(v.string()),
+  eveningDose: v.optional(v.string()),
+  nightDose: v.optional(v.string()),
+  additionalDoses: v.optional(additionalDosesValidator),
+  instructions: v.optional(v.string()),
+  schedule: v.optional(scheduleValidator),
+  genericName: v.optional(v.string()),
+  activeIngredient: v.optional(v.string()),
+  strength: v.optional(v.string()),
+  fdaNdc: v.optional(v.string()),
+  amtCode: v.optional(v.string()),
+  pbsItemCode: v.optional(v.string()),
+});
 
 // TOKEN ACCESS MANAGEMENT
 
@@ -564,6 +626,8 @@ export const addPatientMedication = mutation({
     afternoonDose: v.optional(v.string()),
     eveningDose: v.optional(v.string()),
     nightDose: v.optional(v.string()),
+    additionalDoses: v.optional(additionalDosesValidator),
+    schedule: v.optional(scheduleValidator),
     instructions: v.optional(v.string()),
     prescribedBy: v.optional(v.string()),
     prescribedDate: v.optional(v.string()),
@@ -578,6 +642,12 @@ export const addPatientMedication = mutation({
     manufacturer: v.optional(v.string()),
     activeIngredient: v.optional(v.string()),
     strength: v.optional(v.string()),
+    amtCode: v.optional(v.string()),
+    pbsItemCode: v.optional(v.string()),
+    // Why the medication is being added despite a major interaction
+    interactionOverrideReason: v.optional(v.string()),
+    // Why the medication is being added despite a recorded allergy
+    allergyOverrideReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -600,6 +670,10 @@ export const addPatientMedication = mutation({
       throw new Error("Unauthorized: No access to this patient");
     }
 
+    assertSafeSchedule(args);
+    const allergies = await reviewAllergies(ctx, args.patientId, args, args.allergyOverrideReason);
+    const interactions = await reviewInteractions(ctx, args.patientId, args, args.interactionOverrideReason);
+
     const medicationId = await ctx.db.insert("patientMedications", {
       patientId: args.patientId,
       organizationId: userProfile.organizationId!,
@@ -610,6 +684,9 @@ export const addPatientMedication = mutation({
       afternoonDose: args.afternoonDose,
       eveningDose: args.eveningDose,
       nightDose: args.nightDose,
+      additionalDoses: args.additionalDoses,
+      ...getStructuredDoses(args),
+      schedule: args.schedule,
       instructions: args.instructions,
       prescribedBy: args.prescribedBy,
       prescribedDate: args.prescribedDate,
@@ -624,6 +701,8 @@ export const addPatientMedication = mutation({
       manufacturer: args.manufacturer,
       activeIngredient: args.activeIngredient,
       strength: args.strength,
+      amtCode: args.amtCode,
+      pbsItemCode: args.pbsItemCode,
       isActive: true,
       addedBy: userProfile._id,
       addedAt: Date.now(),
@@ -642,7 +721,10 @@ export const addPatientMedication = mutation({
       currentAfternoonDose: args.afternoonDose,
       currentEveningDose: args.eveningDose,
       currentNightDose: args.nightDose,
+      currentAdditionalDoses: args.additionalDoses,
       currentInstructions: args.instructions,
+      ...allergies,
+      ...interactions,
     });
 
     // Add to communication log
@@ -672,6 +754,8 @@ export const updatePatientMedication = mutation({
     afternoonDose: v.optional(v.string()),
     eveningDose: v.optional(v.string()),
     nightDose: v.optional(v.string()),
+    additionalDoses: v.optional(additionalDosesValidator),
+    schedule: v.optional(scheduleValidator),
     instructions: v.optional(v.string()),
     prescribedBy: v.optional(v.string()),
     prescribedDate: v.optional(v.string()),
@@ -687,6 +771,10 @@ export const updatePatientMedication = mutation({
     manufacturer: v.optional(v.string()),
     activeIngredient: v.optional(v.string()),
     strength: v.optional(v.string()),
+    amtCode: v.optional(v.string()),
+    pbsItemCode: v.optional(v.string()),
+    // Why the change is being made despite a major interaction
+    interactionOverrideReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -720,6 +808,8 @@ export const updatePatientMedication = mutation({
     if (args.afternoonDose !== undefined) updates.afternoonDose = args.afternoonDose;
     if (args.eveningDose !== undefined) updates.eveningDose = args.eveningDose;
     if (args.nightDose !== undefined) updates.nightDose = args.nightDose;
+    if (args.additionalDoses !== undefined) updates.additionalDoses = args.additionalDoses;
+    if (args.schedule !== undefined) updates.schedule = args.schedule;
     if (args.instructions !== undefined) updates.instructions = args.instructions;
     if (args.prescribedBy !== undefined) updates.prescribedBy = args.prescribedBy;
     if (args.prescribedDate !== undefined) updates.prescribedDate = args.prescribedDate;
@@ -735,6 +825,24 @@ export const updatePatientMedication = mutation({
     if (args.manufacturer !== undefined) updates.manufacturer = args.manufacturer;
     if (args.activeIngredient !== undefined) updates.activeIngredient = args.activeIngredient;
     if (args.strength !== undefined) updates.strength = args.strength;
+    if (args.amtCode !== undefined) updates.amtCode = args.amtCode;
+    if (args.pbsItemCode !== undefined) updates.pbsItemCode = args.pbsItemCode;
+    // Re-parse the structured doses from the updated dose text
+    Object.assign(updates, getStructuredDoses({ ...medication, ...updates }));
+    // Stopping a medication is always allowed, even when its schedule needs fixing
+    if (args.isActive !== false) {
+      assertSafeSchedule({ ...medication, ...updates });
+    }
+    // Only a change of ingredient can bring in a new interaction
+    const interactions = args.isActive !== false && changesIngredients(medication, { ...medication, ...updates })
+      ? await reviewInteractions(
+          ctx,
+          medication.patientId,
+          { ...medication, ...updates },
+          args.interactionOverrideReason,
+          args.medicationId
+        )
+      : {};
 
     // Store previous state for logging
     const previousState = JSON.stringify({
@@ -744,6 +852,7 @@ export const updatePatientMedication = mutation({
       afternoonDose: medication.afternoonDose,
       eveningDose: medication.eveningDose,
       nightDose: medication.nightDose,
+      additionalDoses: medication.additionalDoses,
       instructions: medication.instructions,
     });
 
@@ -765,8 +874,10 @@ export const updatePatientMedication = mutation({
       currentAfternoonDose: updatedMedication?.afternoonDose,
       currentEveningDose: updatedMedication?.eveningDose,
       currentNightDose: updatedMedication?.nightDose,
+      currentAdditionalDoses: updatedMedication?.additionalDoses,
       currentInstructions: updatedMedication?.instructions,
       previousState,
+      ...interactions,
     });
 
     // Add to communication log
@@ -784,6 +895,71 @@ export const updatePatientMedication = mutation({
   },
 });
 
+// MIGRATION FUNCTION - Parse free-text doses on the organization's medications into structured
+// doses. Medications whose dose text cannot be parsed are returned (and flagged on the medication)
+// so they can be re-entered. Active medications recorded with an unsafe schedule (e.g. methotrexate
+// without a weekly day) are returned too; packing holds them back until they are corrected.
+export const migrateMedicationDoses = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Authentication required");
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+    if (userProfile.role !== "owner" && userProfile.role !== "admin") {
+      throw new Error("Only organization owners and admins can migrate medication doses");
+    }
+
+    const medications = await ctx.db
+      .query("patientMedications")
+      .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+      .filter((q) => q.eq(q.field("structuredDoses"), undefined))
+      .collect();
+
+    const flagged = [];
+    for (const medication of medications) {
+      const doses = getStructuredDoses(medication);
+      await ctx.db.patch(medication._id, doses);
+
+      if (doses.unparsedDoses) {
+        flagged.push({
+          medicationId: medication._id,
+          patientId: medication.patientId,
+          medicationName: medication.medicationName,
+          unparsedDoses: doses.unparsedDoses,
+        });
+      }
+    }
+
+    const activeMedications = await ctx.db
+      .query("patientMedications")
+      .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+    const scheduleProblems = activeMedications.flatMap((medication) => {
+      const problem = getScheduleProblem(medication, medication.schedule);
+      return problem
+        ? [{ medicationId: medication._id, patientId: medication.patientId, medicationName: medication.medicationName, problem }]
+        : [];
+    });
+
+    return {
+      success: true,
+      message: `Migrated ${medications.length} medications; ${flagged.length} need their doses re-entered; ${scheduleProblems.length} need their schedule corrected`,
+      migratedCount: medications.length,
+      flagged,
+      scheduleProblems,
+    };
+  },
+});
+
 // Get patient medications
 export const getPatientMedications = query({
   args: {
@@ -857,6 +1033,10 @@ export const getPatientMedications = query({
               type: requestedByOrg.type,
             } : null,
             requestedChanges: pendingRequest.requestedChanges,
+            // Interactions the change would bring in, for the reviewer
+            interactionWarnings: pendingRequest.requestType === "update"
+              ? getRequestedChangeInteractions(medication, pendingRequest.requestedChanges, medications)
+              : [],
           };
         }
 
@@ -893,6 +1073,8 @@ export const getPatientMedications = query({
           afternoonDose: request.requestedChanges.afternoonDose,
           eveningDose: request.requestedChanges.eveningDose,
           nightDose: request.requestedChanges.nightDose,
+          additionalDoses: request.requestedChanges.additionalDoses,
+          schedule: request.requestedChanges.schedule,
           instructions: request.requestedChanges.instructions,
           prescribedBy: request.requestedChanges.prescribedBy,
           prescribedDate: request.requestedChanges.prescribedDate,
@@ -906,6 +1088,8 @@ export const getPatientMedications = query({
           manufacturer: request.requestedChanges.manufacturer,
           activeIngredient: request.requestedChanges.activeIngredient,
           strength: request.requestedChanges.strength,
+          amtCode: request.requestedChanges.amtCode,
+          pbsItemCode: request.requestedChanges.pbsItemCode,
           isActive: true,
           addedBy: request.requestedBy,
           addedAt: request.requestedAt,
@@ -931,6 +1115,15 @@ export const getPatientMedications = query({
               type: requestedByOrg.type,
             } : null,
             requestedChanges: request.requestedChanges,
+            interactionWarnings: findInteractions(
+              { ...request.requestedChanges, medicationName: request.requestedChanges.medicationName || "" },
+              medications
+            ),
+            allergyWarnings: await getPatientAllergyWarnings(
+              ctx,
+              args.patientId,
+              { ...request.requestedChanges, medicationName: request.requestedChanges.medicationName || "" }
+            ),
           },
           hasPendingRequest: true,
           isPendingAddition: true,
@@ -1101,6 +1294,43 @@ export const getPatientMedicationLogs = query({
   },
 });
 
+// The medications a patient was on at a point in time, replayed from the medication log
+export const getMedicationRegimenAt = query({
+  args: {
+    patientId: v.id("patients"),
+    at: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return []; // Return empty array instead of throwing
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile) return []; // Return empty array instead of throwing
+
+    // Check if user has access to this patient
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      return []; // Return empty array instead of throwing
+    }
+
+    const logs = await ctx.db
+      .query("medicationLogs")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .collect();
+
+    const medications = await ctx.db
+      .query("patientMedications")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .collect();
+
+    return reconstructRegimen(logs, args.at, medications);
+  },
+});
+
 // Request medication change (for shared users)
 export const requestMedicationChange = mutation({
   args: {
@@ -1113,6 +1343,8 @@ export const requestMedicationChange = mutation({
       afternoonDose: v.optional(v.string()),
       eveningDose: v.optional(v.string()),
       nightDose: v.optional(v.string()),
+      additionalDoses: v.optional(additionalDosesValidator),
+      schedule: v.optional(scheduleValidator),
       instructions: v.optional(v.string()),
       prescribedBy: v.optional(v.string()),
       prescribedDate: v.optional(v.string()),
@@ -1127,8 +1359,12 @@ export const requestMedicationChange = mutation({
       manufacturer: v.optional(v.string()),
       activeIngredient: v.optional(v.string()),
       strength: v.optional(v.string()),
+      amtCode: v.optional(v.string()),
+      pbsItemCode: v.optional(v.string()),
     })),
     requestNotes: v.optional(v.string()),
+    // Why the change is being requested despite a major interaction
+    interactionOverrideReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -1156,6 +1392,27 @@ export const requestMedicationChange = mutation({
       throw new Error("Only users from other organizations can request changes");
     }
 
+    let interactions = {};
+    if (args.requestType === "update" && args.requestedChanges) {
+      const changes = args.requestedChanges;
+      const requested = {
+        medicationName: changes.medicationName ?? medication.medicationName,
+        genericName: changes.genericName ?? medication.genericName,
+        activeIngredient: changes.activeIngredient ?? medication.activeIngredient,
+        schedule: changes.schedule ?? medication.schedule,
+      };
+      assertSafeSchedule(requested);
+      if (changesIngredients(medication, requested)) {
+        interactions = await reviewInteractions(
+          ctx,
+          medication.patientId,
+          requested,
+          args.interactionOverrideReason,
+          args.medicationId
+        );
+      }
+    }
+
     // Cancel any existing pending requests for this medication by this user
     const existingRequests = await ctx.db
       .query("medicationChangeRequests")
@@ -1189,6 +1446,8 @@ export const requestMedicationChange = mutation({
       afternoonDose: medication.afternoonDose,
       eveningDose: medication.eveningDose,
       nightDose: medication.nightDose,
+      additionalDoses: medication.additionalDoses,
+      schedule: medication.schedule,
       instructions: medication.instructions,
       prescribedBy: medication.prescribedBy,
       prescribedDate: medication.prescribedDate,
@@ -1202,6 +1461,8 @@ export const requestMedicationChange = mutation({
       manufacturer: medication.manufacturer,
       activeIngredient: medication.activeIngredient,
       strength: medication.strength,
+      amtCode: medication.amtCode,
+      pbsItemCode: medication.pbsItemCode,
     });
 
     // Create the change request
@@ -1229,6 +1490,7 @@ export const requestMedicationChange = mutation({
       performedByOrg: userProfile.organizationId!,
       requestNotes: args.requestNotes,
       status: "pending",
+      ...interactions,
     });
 
     // Add to communication log
@@ -1253,6 +1515,8 @@ export const approveMedicationRequest = mutation({
   args: {
     requestId: v.id("medicationChangeRequests"),
     reviewNotes: v.optional(v.string()),
+    // Why the request is being approved despite a major interaction
+    interactionOverrideReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -1296,10 +1560,18 @@ export const approveMedicationRequest = mutation({
     // Apply the changes
     let medicationId = request.medicationId;
     let medicationName = medication?.medicationName || "";
+    let interactions = {};
     
     if (request.requestType === "add") {
       // Create new medication for addition requests
       const changes = request.requestedChanges;
+      assertSafeSchedule({ ...changes, medicationName: changes.medicationName || "" });
+      interactions = await reviewInteractions(
+        ctx,
+        request.patientId,
+        { ...changes, medicationName: changes.medicationName || "" },
+        args.interactionOverrideReason
+      );
       medicationId = await ctx.db.insert("patientMedications", {
         patientId: request.patientId,
         organizationId: userProfile.organizationId!,
@@ -1309,6 +1581,9 @@ export const approveMedicationRequest = mutation({
         afternoonDose: changes.afternoonDose,
         eveningDose: changes.eveningDose,
         nightDose: changes.nightDose,
+        additionalDoses: changes.additionalDoses,
+        ...getStructuredDoses(changes),
+        schedule: changes.schedule,
         instructions: changes.instructions,
         prescribedBy: changes.prescribedBy,
         prescribedDate: changes.prescribedDate,
@@ -1322,6 +1597,8 @@ export const approveMedicationRequest = mutation({
         manufacturer: changes.manufacturer,
         activeIngredient: changes.activeIngredient,
         strength: changes.strength,
+        amtCode: changes.amtCode,
+        pbsItemCode: changes.pbsItemCode,
         isActive: true,
         addedBy: userProfile._id,
         addedAt: Date.now(),
@@ -1343,6 +1620,8 @@ export const approveMedicationRequest = mutation({
       if (changes.afternoonDose !== undefined) updates.afternoonDose = changes.afternoonDose;
       if (changes.eveningDose !== undefined) updates.eveningDose = changes.eveningDose;
       if (changes.nightDose !== undefined) updates.nightDose = changes.nightDose;
+      if (changes.additionalDoses !== undefined) updates.additionalDoses = changes.additionalDoses;
+      if (changes.schedule !== undefined) updates.schedule = changes.schedule;
       if (changes.instructions !== undefined) updates.instructions = changes.instructions;
       if (changes.prescribedBy !== undefined) updates.prescribedBy = changes.prescribedBy;
       if (changes.prescribedDate !== undefined) updates.prescribedDate = changes.prescribedDate;
@@ -1356,6 +1635,19 @@ export const approveMedicationRequest = mutation({
       if (changes.manufacturer !== undefined) updates.manufacturer = changes.manufacturer;
       if (changes.activeIngredient !== undefined) updates.activeIngredient = changes.activeIngredient;
       if (changes.strength !== undefined) updates.strength = changes.strength;
+      if (changes.amtCode !== undefined) updates.amtCode = changes.amtCode;
+      if (changes.pbsItemCode !== undefined) updates.pbsItemCode = changes.pbsItemCode;
+      Object.assign(updates, getStructuredDoses({ ...medication, ...updates }));
+      assertSafeSchedule({ ...medication, ...updates });
+      if (changesIngredients(medication, { ...medication, ...updates })) {
+        interactions = await reviewInteractions(
+          ctx,
+          request.patientId,
+          { ...medication, ...updates },
+          args.interactionOverrideReason,
+          request.medicationId
+        );
+      }
 
       await ctx.db.patch(request.medicationId, updates);
     } else if (request.requestType === "remove") {
@@ -1377,17 +1669,38 @@ export const approveMedicationRequest = mutation({
       reviewNotes: args.reviewNotes,
     });
 
-    // Log the approval
+    // Log the approval with the medication's state before and after, so its history can be replayed
     const actionType = request.requestType === "remove" ? "removal_approved" : 
                       request.requestType === "add" ? "addition_approved" : "change_approved";
+    const approvedMedication = request.requestType !== "remove" && medicationId
+      ? await ctx.db.get(medicationId)
+      : null;
     await logMedicationChange(ctx, {
       patientId: request.patientId,
       medicationId: medicationId,
       actionType,
-      medicationName: medicationName,
+      medicationName: approvedMedication?.medicationName || medicationName,
       performedBy: userProfile._id,
       performedByOrg: userProfile.organizationId!,
       status: "approved",
+      currentDosage: approvedMedication?.dosage,
+      currentMorningDose: approvedMedication?.morningDose,
+      currentAfternoonDose: approvedMedication?.afternoonDose,
+      currentEveningDose: approvedMedication?.eveningDose,
+      currentNightDose: approvedMedication?.nightDose,
+      currentAdditionalDoses: approvedMedication?.additionalDoses,
+      currentInstructions: approvedMedication?.instructions,
+      previousState: medication ? JSON.stringify({
+        medicationName: medication.medicationName,
+        dosage: medication.dosage,
+        morningDose: medication.morningDose,
+        afternoonDose: medication.afternoonDose,
+        eveningDose: medication.eveningDose,
+        nightDose: medication.nightDose,
+        additionalDoses: medication.additionalDoses,
+        instructions: medication.instructions,
+      }) : undefined,
+      ...interactions,
     });
 
     // Add to communication log
@@ -1507,6 +1820,8 @@ export const requestMedicationAddition = mutation({
     afternoonDose: v.optional(v.string()),
     eveningDose: v.optional(v.string()),
     nightDose: v.optional(v.string()),
+    additionalDoses: v.optional(additionalDosesValidator),
+    schedule: v.optional(scheduleValidator),
     instructions: v.optional(v.string()),
     prescribedBy: v.optional(v.string()),
     prescribedDate: v.optional(v.string()),
@@ -1521,7 +1836,13 @@ export const requestMedicationAddition = mutation({
     manufacturer: v.optional(v.string()),
     activeIngredient: v.optional(v.string()),
     strength: v.optional(v.string()),
+    amtCode: v.optional(v.string()),
+    pbsItemCode: v.optional(v.string()),
     requestNotes: v.optional(v.string()),
+    // Why the addition is being requested despite a major interaction
+    interactionOverrideReason: v.optional(v.string()),
+    // Why the addition is being requested despite a recorded allergy
+    allergyOverrideReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -1549,6 +1870,10 @@ export const requestMedicationAddition = mutation({
       throw new Error("Only users from other organizations can request medication additions");
     }
 
+    assertSafeSchedule(args);
+    const allergies = await reviewAllergies(ctx, args.patientId, args, args.allergyOverrideReason);
+    const interactions = await reviewInteractions(ctx, args.patientId, args, args.interactionOverrideReason);
+
     // Store the requested medication data
     const requestedMedication = {
       medicationName: args.medicationName,
@@ -1557,6 +1882,8 @@ export const requestMedicationAddition = mutation({
       afternoonDose: args.afternoonDose,
       eveningDose: args.eveningDose,
       nightDose: args.nightDose,
+      additionalDoses: args.additionalDoses,
+      schedule: args.schedule,
       instructions: args.instructions,
       prescribedBy: args.prescribedBy,
       prescribedDate: args.prescribedDate,
@@ -1570,6 +1897,8 @@ export const requestMedicationAddition = mutation({
       manufacturer: args.manufacturer,
       activeIngredient: args.activeIngredient,
       strength: args.strength,
+      amtCode: args.amtCode,
+      pbsItemCode: args.pbsItemCode,
     };
 
     // Create the addition request
@@ -1601,7 +1930,10 @@ export const requestMedicationAddition = mutation({
       currentAfternoonDose: args.afternoonDose,
       currentEveningDose: args.eveningDose,
       currentNightDose: args.nightDose,
+      currentAdditionalDoses: args.additionalDoses,
       currentInstructions: args.instructions,
+      ...allergies,
+      ...interactions,
     });
 
     // Add to communication log
@@ -1620,6 +1952,331 @@ export const requestMedicationAddition = mutation({
   },
 });
 
+// MEDICATION RECONCILIATION
+
+// Generate an upload URL for the signature on a medication reconciliation
+export const generateReconciliationSignatureUploadUrl = mutation({
+  args: {
+    patientId: v.id("patients"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Authentication required");
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile) throw new Error("User profile not found");
+
+    // Check if user has access to this patient
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      throw new Error("Unauthorized: No access to this patient");
+    }
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Apply every decision from a medication reconciliation at once, logging each one, and keep a signed
+// record of the reconciliation. Every active medication needs a decision so none is overlooked.
+export const commitMedicationReconciliation = mutation({
+  args: {
+    patientId: v.id("patients"),
+    source: v.union(
+      v.literal("hospital_discharge"),
+      v.literal("gp_update"),
+      v.literal("other")
+    ),
+    sourceDetails: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    signatureStorageId: v.id("_storage"),
+    lines: v.array(v.object({
+      decision: v.union(
+        v.literal("continue"),
+        v.literal("change"),
+        v.literal("stop"),
+        v.literal("new")
+      ),
+      medicationId: v.optional(v.id("patientMedications")),
+      incoming: v.optional(medicationStateValidator),
+      notes: v.optional(v.string()),
+      // Why a new or changed medication goes ahead despite an allergy or major interaction
+      overrideReason: v.optional(v.string()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Authentication required");
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile) throw new Error("User profile not found");
+
+    // Check if user has access and is from the owning organization
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      throw new Error("Unauthorized: No access to this patient");
+    }
+
+    const patient = await ctx.db.get(args.patientId);
+    if (!patient) throw new Error("Patient not found");
+
+    if (userProfile.organizationId !== patient.organizationId) {
+      throw new Error("Only users from the owning organization can reconcile medications");
+    }
+
+    const signature = await ctx.db.system.get(args.signatureStorageId);
+    if (!signature || !signature.contentType?.startsWith("image/")) {
+      throw new Error("Sign the reconciliation before committing it");
+    }
+
+    const problem = getReconciliationProblem(args.lines);
+    if (problem) throw new Error(problem);
+
+    const medications = await ctx.db
+      .query("patientMedications")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    for (const medication of medications) {
+      if (args.lines.filter((line) => line.medicationId === medication._id).length !== 1) {
+        throw new Error(`Choose one decision for ${medication.medicationName}`);
+      }
+    }
+    if (args.lines.some((line) => line.medicationId && !medications.some((medication) => medication._id === line.medicationId))) {
+      throw new Error("A reconciled medication is no longer one of the patient's current medications");
+    }
+
+    const now = Date.now();
+    const sourceText = `${getReconciliationSourceLabel(args.source)}${args.sourceDetails ? ` (${args.sourceDetails})` : ""}`;
+    const reconciliationId = await ctx.db.insert("medicationReconciliations", {
+      patientId: args.patientId,
+      organizationId: userProfile.organizationId!,
+      source: args.source,
+      sourceDetails: args.sourceDetails,
+      notes: args.notes,
+      lines: [],
+      reconciledBy: userProfile._id,
+      reconciledAt: now,
+      signatureStorageId: args.signatureStorageId,
+    });
+
+    // Stops are applied first, so changed and new medications aren't checked for interactions
+    // with medications that are being stopped
+    const order = ["stop", "continue", "change", "new"];
+    const lineIndexes = args.lines
+      .map((_, index) => index)
+      .sort((a, b) => order.indexOf(args.lines[a].decision) - order.indexOf(args.lines[b].decision));
+
+    const recordedLines: Doc<"medicationReconciliations">["lines"] = new Array(args.lines.length);
+    for (const index of lineIndexes) {
+      const line = args.lines[index];
+      const changes = `Medication reconciliation against ${sourceText}${line.notes ? `: ${line.notes}` : ""}`;
+
+      if (line.decision === "new") {
+        const incoming = line.incoming!;
+        assertSafeSchedule(incoming);
+        const allergies = await reviewAllergies(ctx, args.patientId, incoming, line.overrideReason);
+        const interactions = await reviewInteractions(ctx, args.patientId, incoming, line.overrideReason);
+
+        const medicationId = await ctx.db.insert("patientMedications", {
+          patientId: args.patientId,
+          organizationId: userProfile.organizationId!,
+          medicationName: incoming.medicationName,
+          dosage: incoming.dosage || "",
+          morningDose: incoming.morningDose,
+          afternoonDose: incoming.afternoonDose,
+          eveningDose: incoming.eveningDose,
+          nightDose: incoming.nightDose,
+          additionalDoses: incoming.additionalDoses,
+          ...getStructuredDoses(incoming),
+          schedule: incoming.schedule,
+          instructions: incoming.instructions,
+          genericName: incoming.genericName,
+          activeIngredient: incoming.activeIngredient,
+          strength: incoming.strength,
+          fdaNdc: incoming.fdaNdc,
+          amtCode: incoming.amtCode,
+          pbsItemCode: incoming.pbsItemCode,
+          isActive: true,
+          addedBy: userProfile._id,
+          addedAt: now,
+        });
+
+        await logMedicationChange(ctx, {
+          patientId: args.patientId,
+          medicationId,
+          actionType: "added",
+          medicationName: incoming.medicationName,
+          performedBy: userProfile._id,
+          performedByOrg: userProfile.organizationId!,
+          currentDosage: incoming.dosage || "",
+          currentMorningDose: incoming.morningDose,
+          currentAfternoonDose: incoming.afternoonDose,
+          currentEveningDose: incoming.eveningDose,
+          currentNightDose: incoming.nightDose,
+          currentAdditionalDoses: incoming.additionalDoses,
+          currentInstructions: incoming.instructions,
+          changes,
+          reconciliationId,
+          ...allergies,
+          ...interactions,
+        });
+
+        recordedLines[index] = {
+          decision: "new",
+          medicationId,
+          medicationName: incoming.medicationName,
+          after: { ...pickMedicationState(incoming), dosage: incoming.dosage || "" },
+          notes: line.notes,
+        };
+        continue;
+      }
+
+      const medication = medications.find((candidate) => candidate._id === line.medicationId)!;
+      const before = pickMedicationState(medication);
+      let after: Doc<"patientMedications"> = medication;
+      let actionType: "stopped" | "reconciled" | "updated" = "reconciled";
+      let reviews = {};
+
+      if (line.decision === "stop") {
+        actionType = "stopped";
+        await ctx.db.patch(medication._id, {
+          isActive: false,
+          updatedBy: userProfile._id,
+          updatedAt: now,
+        });
+      } else if (line.decision === "change") {
+        actionType = "updated";
+        const incoming = line.incoming!;
+        const updates = {
+          medicationName: incoming.medicationName,
+          dosage: incoming.dosage || "",
+          morningDose: incoming.morningDose,
+          afternoonDose: incoming.afternoonDose,
+          eveningDose: incoming.eveningDose,
+          nightDose: incoming.nightDose,
+          additionalDoses: incoming.additionalDoses,
+          instructions: incoming.instructions,
+          ...getReconciledIdentity(medication, incoming),
+          updatedBy: userProfile._id,
+          updatedAt: now,
+        };
+        after = { ...medication, ...updates, ...getStructuredDoses({ ...medication, ...updates }) };
+        assertSafeSchedule(after);
+        // A change of drug is checked like a new medication
+        if (changesIngredients(medication, after)) {
+          reviews = {
+            ...(await reviewAllergies(ctx, args.patientId, after, line.overrideReason)),
+            ...(await reviewInteractions(ctx, args.patientId, after, line.overrideReason, medication._id)),
+          };
+        }
+        await ctx.db.patch(medication._id, { ...updates, ...getStructuredDoses(after) });
+      }
+
+      await logMedicationChange(ctx, {
+        patientId: args.patientId,
+        medicationId: medication._id,
+        actionType,
+        medicationName: after.medicationName,
+        performedBy: userProfile._id,
+        performedByOrg: userProfile.organizationId!,
+        currentDosage: after.dosage,
+        currentMorningDose: after.morningDose,
+        currentAfternoonDose: after.afternoonDose,
+        currentEveningDose: after.eveningDose,
+        currentNightDose: after.nightDose,
+        currentAdditionalDoses: after.additionalDoses,
+        currentInstructions: after.instructions,
+        previousState: line.decision === "continue" ? undefined : JSON.stringify(before),
+        changes,
+        reconciliationId,
+        ...reviews,
+      });
+
+      recordedLines[index] = {
+        decision: line.decision,
+        medicationId: medication._id,
+        medicationName: after.medicationName,
+        before,
+        after: line.decision === "stop" ? undefined : pickMedicationState(after),
+        notes: line.notes,
+      };
+    }
+
+    await ctx.db.patch(reconciliationId, { lines: recordedLines });
+
+    // Add to communication log
+    const counts = (["continue", "change", "stop", "new"] as const)
+      .map((decision) => ({ decision, count: args.lines.filter((line) => line.decision === decision).length }))
+      .filter(({ count }) => count > 0)
+      .map(({ decision, count }) => `${count} ${decision === "continue" ? "continued" : decision === "change" ? "changed" : decision === "stop" ? "stopped" : "new"}`);
+    await ctx.db.insert("patientComments", {
+      patientId: args.patientId,
+      authorId: userProfile._id,
+      authorOrg: userProfile.organizationId!,
+      content: `Reconciled medications against ${sourceText}: ${counts.join(", ")}${args.notes ? ` - ${args.notes}` : ""}`,
+      commentType: "system",
+      isPrivate: false,
+      isActive: true,
+      createdAt: now,
+    });
+
+    return reconciliationId;
+  },
+});
+
+// Get a patient's medication reconciliations, newest first
+export const getMedicationReconciliations = query({
+  args: {
+    patientId: v.id("patients"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return []; // Return empty array instead of throwing
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile) return []; // Return empty array instead of throwing
+
+    // Check if user has access to this patient
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      return []; // Return empty array instead of throwing
+    }
+
+    const reconciliations = await ctx.db
+      .query("medicationReconciliations")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      reconciliations.map(async (reconciliation) => {
+        const reconciledBy = await ctx.db.get(reconciliation.reconciledBy);
+        const organization = await ctx.db.get(reconciliation.organizationId);
+
+        return {
+          ...reconciliation,
+          reconciledByName: reconciledBy ? `${reconciledBy.firstName} ${reconciledBy.lastName}` : "Unknown",
+          organizationName: organization?.name ?? "Unknown Organisation",
+          signatureUrl: await ctx.storage.getUrl(reconciliation.signatureStorageId),
+        };
+      })
+    );
+  },
+});
+
 // SCRIPTS MANAGEMENT
 
 // Generate upload URL for patient scripts
@@ -2055,6 +2712,122 @@ export const deletePatientEtoken = mutation({
 
 // HELPER FUNCTIONS
 
+// Reject incomplete schedules, and weekly-only medications (e.g. methotrexate) scheduled daily
+function assertSafeSchedule(medication: {
+  medicationName: string;
+  genericName?: string;
+  activeIngredient?: string;
+  schedule?: MedicationSchedule;
+}) {
+  const problem = getScheduleProblem(medication, medication.schedule);
+  if (problem) {
+    throw new Error(problem);
+  }
+}
+
+// Interactions between a medication being added or changed and the patient's other active
+// medications. Major interactions need a reason to go ahead; the warnings and reason are logged.
+async function reviewInteractions(
+  ctx: any,
+  patientId: any,
+  medication: InteractionMedication,
+  overrideReason: string | undefined,
+  excludeMedicationId?: any
+): Promise<{ interactionWarnings?: InteractionWarning[]; interactionOverrideReason?: string }> {
+  const warnings = await getPatientInteractionWarnings(ctx, patientId, medication, excludeMedicationId);
+  if (warnings.length === 0) return {};
+
+  const isMajor = hasMajorInteraction(warnings);
+  const reason = overrideReason?.trim();
+  if (isMajor && !reason) {
+    const major = warnings.filter((warning) => warning.severity === "major").map(describeInteraction);
+    throw new Error(`Enter a reason to override the major interaction: ${major.join("; ")}`);
+  }
+  return {
+    interactionWarnings: warnings,
+    interactionOverrideReason: isMajor ? reason : undefined,
+  };
+}
+
+// Register allergies a medication being added conflicts with. Any conflict needs a reason to go
+// ahead; the warnings and reason are logged.
+async function reviewAllergies(
+  ctx: any,
+  patientId: any,
+  medication: InteractionMedication,
+  overrideReason: string | undefined
+): Promise<{ allergyWarnings?: AllergyWarning[]; allergyOverrideReason?: string }> {
+  const warnings = await getPatientAllergyWarnings(ctx, patientId, medication);
+  if (warnings.length === 0) return {};
+
+  const reason = overrideReason?.trim();
+  if (!reason) {
+    throw new Error(`Enter a reason to override the recorded allergy: ${warnings.map(describeAllergyWarning).join("; ")}`);
+  }
+  return {
+    allergyWarnings: warnings,
+    allergyOverrideReason: reason,
+  };
+}
+
+// Whether a change alters the ingredients a medication contains, and so its interactions
+function changesIngredients(medication: InteractionMedication, changed: InteractionMedication) {
+  return getMedicationIngredients(medication).join() !== getMedicationIngredients(changed).join();
+}
+
+// Interactions a requested change to a medication would bring in with the patient's other medications
+function getRequestedChangeInteractions(
+  medication: InteractionMedication & { _id: any },
+  changes: Partial<InteractionMedication>,
+  medications: (InteractionMedication & { _id: any })[]
+): InteractionWarning[] {
+  const changed = {
+    medicationName: changes.medicationName ?? medication.medicationName,
+    genericName: changes.genericName ?? medication.genericName,
+    activeIngredient: changes.activeIngredient ?? medication.activeIngredient,
+  };
+  if (!changesIngredients(medication, changed)) return [];
+  return findInteractions(changed, medications.filter((other) => other._id !== medication._id));
+}
+
+// The schedule and identifiers of a medication changed at a reconciliation: the incoming line's where
+// it gives them, otherwise the current ones, unless the line switches to another drug that they don't
+// describe
+function getReconciledIdentity(medication: Doc<"patientMedications">, incoming: IncomingMedication) {
+  const current: Partial<Doc<"patientMedications">> = isSameMedication(incoming, medication) ? medication : {};
+  return {
+    schedule: incoming.schedule ?? current.schedule,
+    genericName: incoming.genericName ?? current.genericName,
+    activeIngredient: incoming.activeIngredient ?? current.activeIngredient,
+    strength: incoming.strength ?? current.strength,
+    fdaNdc: incoming.fdaNdc ?? current.fdaNdc,
+    amtCode: incoming.amtCode ?? current.amtCode,
+    pbsItemCode: incoming.pbsItemCode ?? current.pbsItemCode,
+    brandName: current.brandName,
+    dosageForm: current.dosageForm,
+    route: current.route,
+    manufacturer: current.manufacturer,
+  };
+}
+
+// Structured doses parsed from a medication's dose text, with any text that could not be parsed
+function getStructuredDoses(medication: MedicationDoseFields & { dosageForm?: string }) {
+  const structuredDoses = [];
+  const unparsedDoses: { timeSlot: DoseTimeSlot; text: string }[] = [];
+  for (const { timeSlot, dose: text } of getMedicationDoses(medication)) {
+    const dose = parseDose(text, medication.dosageForm);
+    if (dose) {
+      structuredDoses.push({ timeSlot, ...dose });
+    } else {
+      unparsedDoses.push({ timeSlot, text });
+    }
+  }
+  return {
+    structuredDoses,
+    unparsedDoses: unparsedDoses.length > 0 ? unparsedDoses : undefined,
+  };
+}
+
 // Check if user has access to a patient
 async function checkPatientAccess(ctx: any, patientId: any, userProfileId: any) {
   const patient = await ctx.db.get(patientId);
@@ -2097,7 +2870,7 @@ async function checkPatientAccess(ctx: any, patientId: any, userProfileId: any)
 async function logMedicationChange(ctx: any, params: {
   patientId: any;
   medicationId?: any;
-  actionType: "added" | "updated" | "stopped" | "deleted" | "change_requested" | "change_approved" | "change_rejected" | "removal_requested" | "removal_approved" | "removal_rejected" | "request_canceled" | "addition_requested" | "addition_approved" | "addition_rejected";
+  actionType: "added" | "updated" | "stopped" | "deleted" | "change_requested" | "change_approved" | "change_rejected" | "removal_requested" | "removal_approved" | "removal_rejected" | "request_canceled" | "addition_requested" | "addition_approved" | "addition_rejected" | "reconciled";
   medicationName: string;
   performedBy: any;
   performedByOrg: any;
@@ -2106,11 +2879,17 @@ async function logMedicationChange(ctx: any, params: {
   currentAfternoonDose?: string;
   currentEveningDose?: string;
   currentNightDose?: string;
+  currentAdditionalDoses?: { timeSlot: string; dose: string }[];
   currentInstructions?: string;
   changes?: string;
   previousState?: string;
   requestNotes?: string;
   status?: "completed" | "pending" | "approved" | "rejected" | "canceled";
+  interactionWarnings?: InteractionWarning[];
+  interactionOverrideReason?: string;
+  allergyWarnings?: AllergyWarning[];
+  allergyOverrideReason?: string;
+  reconciliationId?: any;
 }) {
   await ctx.db.insert("medicationLogs", {
     patientId: params.patientId,
@@ -2127,8 +2906,14 @@ async function logMedicationChange(ctx: any, params: {
     currentAfternoonDose: params.currentAfternoonDose,
     currentEveningDose: params.currentEveningDose,
     currentNightDose: params.currentNightDose,
+    currentAdditionalDoses: params.currentAdditionalDoses,
     currentInstructions: params.currentInstructions,
     previousState: params.previousState,
     status: params.status || "completed",
+    interactionWarnings: params.interactionWarnings,
+    interactionOverrideReason: params.interactionOverrideReason,
+    allergyWarnings: params.allergyWarnings,
+    allergyOverrideReason: params.allergyOverrideReason,
+    reconciliationId: params.reconciliationId,
   });
 }
\ No newline at end of file
@@ -280,6 +280,7 @@ export const updatePatient = mutation({
     state: v.optional(v.string()),
     postcode: v.optional(v.string()),
     preferredPack: v.optional(v.union(v.literal("blister"), v.literal("sachets"))),
+    requiresSecondCheck: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -0,0 +1,172 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { checkPatientAccess, formatCalendarDate, groupMedicationsByTime } from "./websterPacks";
+import { getPatientAdministrationTimes } from "./administrationTimes";
+import { findAdministrationTime } from "../lib/administration-times";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EXPORT_DAYS = 62;
+
+// Sachet patients in the organization and shared with the user, for choosing who to include in a
+// machine export
+export const getSachetPatients = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    const ownOrgPatients = await ctx.db
+      .query("patients")
+      .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .filter((q) => q.eq(q.field("preferredPack"), "sachets"))
+      .collect();
+
+    // Get patients user has been granted access to via token access
+    const accessGrants = await ctx.db
+      .query("tokenAccessGrants")
+      .withIndex("by_grantee", (q) => q.eq("grantedTo", userProfile._id))
+      .filter((q) => q.eq(q.field("status"), "approved"))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const sharedPatients = [];
+    for (const grant of accessGrants) {
+      if (grant.expiresAt && grant.expiresAt < Date.now()) continue;
+      const patient = await ctx.db.get(grant.patientId);
+      if (patient && patient.isActive && patient.preferredPack === "sachets") {
+        sharedPatients.push(patient);
+      }
+    }
+
+    const patients = [...ownOrgPatients, ...sharedPatients].filter((patient, index, self) =>
+      index === self.findIndex((other) => other._id === patient._id)
+    );
+
+    return patients
+      .map((patient) => ({
+        _id: patient._id,
+        name: `${patient.firstName} ${patient.lastName}`,
+        shareToken: patient.shareToken,
+        dateOfBirth: patient.dateOfBirth,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// Dose-by-dose list of active medications for sachet patients over a date range, ready for a
+// packing machine formatter. Medications are only included on days within their start and end dates.
+// Medications with an unsafe schedule (e.g. methotrexate without a weekly day) are held back and
+// listed so they can be corrected before they are packed.
+export const getSachetMachineDoses = query({
+  args: {
+    patientIds: v.array(v.id("patients")),
+    startDate: v.string(), // YYYY-MM-DD (inclusive)
+    endDate: v.string(), // YYYY-MM-DD (inclusive)
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get organization to verify it's a pharmacy
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization || organization.type !== "pharmacy") {
+      return null;
+    }
+
+    // Invalid or over-long ranges return null rather than throwing
+    const start = Date.parse(`${args.startDate}T00:00:00Z`);
+    const end = Date.parse(`${args.endDate}T00:00:00Z`);
+    if (isNaN(start) || isNaN(end) || end < start || (end - start) / DAY_MS + 1 > MAX_EXPORT_DAYS) {
+      return null;
+    }
+
+    const dates: string[] = [];
+    for (let time = start; time <= end; time += DAY_MS) {
+      dates.push(formatCalendarDate(time));
+    }
+
+    const results = [];
+    for (const patientId of new Set(args.patientIds)) {
+      const patient = await ctx.db.get(patientId);
+      if (!patient || !patient.isActive || !(await checkPatientAccess(ctx, patientId, userProfile._id))) {
+        continue;
+      }
+
+      const medications = await ctx.db
+        .query("patientMedications")
+        .withIndex("by_patient", (q) => q.eq("patientId", patientId))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .collect();
+      const medicationsById = new Map(medications.map((medication) => [medication._id, medication]));
+      const administrationTimes = await getPatientAdministrationTimes(ctx, patient);
+      const slots = Object.values(groupMedicationsByTime(medications, dates, administrationTimes)).flat();
+
+      const heldMedications = medications.flatMap((medication) => {
+        const held = slots.find((item) => item._id === medication._id && item.scheduleProblem);
+        return held?.scheduleProblem
+          ? [{ medicationId: medication._id, medicationName: medication.medicationName, problem: held.scheduleProblem }]
+          : [];
+      });
+
+      const doses = [];
+      for (const date of dates) {
+        for (const item of slots) {
+          if (!item.dueDates.includes(date) || item.scheduleProblem) continue;
+          const medication = medicationsById.get(item._id);
+
+          doses.push({
+            date,
+            timeSlot: item.timeSlot,
+            time: findAdministrationTime(administrationTimes, item.timeSlot).time,
+            timeLabel: item.time,
+            medicationId: item._id,
+            medicationName: item.medicationName,
+            genericName: item.genericName,
+            strength: item.strength,
+            dose: item.dose,
+            tabletCount: item.tabletCount,
+            instructions: item.instructions,
+            fdaNdc: medication?.fdaNdc,
+          });
+        }
+      }
+
+      results.push({
+        patientId: patient._id,
+        patientName: `${patient.firstName} ${patient.lastName}`,
+        shareToken: patient.shareToken,
+        dateOfBirth: patient.dateOfBirth,
+        doses,
+        heldMedications,
+      });
+    }
+
+    return results;
+  },
+});
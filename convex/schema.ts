@@ -2,6 +2,21 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 
+// A medication's name and dosing, as recorded by a medication reconciliation
+const reconciledStateValidator = v.object({
+  medicationName: v.string(),
+  dosage: v.optional(v.string()),
+  morningDose: v.optional(v.string()),
+  afternoonDose: v.optional(v.string()),
+  eveningDose: v.optional(v.string()),
+  nightDose: v.optional(v.string()),
+  additionalDoses: v.optional(v.array(v.object({
+    timeSlot: v.string(),
+    dose: v.string(),
+  }))),
+  instructions: v.optional(v.string()),
+});
+
 // The schema is normally optional, but Convex Auth
 // requires indexes defined on `authTables`.
 // The schema provides more precise TypeScript types.
@@ -80,6 +95,20 @@ export default defineSchema({
     isActive: v.boolean(),
     isApproved: v.optional(v.boolean()),
     approvedAt: v.optional(v.float64()),
+    // Medication rounds used for this organisation's patients (see lib/administration-times.ts)
+    administrationTimes: v.optional(v.array(v.object({
+      id: v.string(),
+      label: v.string(),
+      time: v.string(), // HH:mm
+    }))),
+    // Last Australian medicines catalogue import (see lib/medicine-catalogue.ts)
+    medicineCatalogue: v.optional(v.object({
+      fileName: v.string(),
+      itemCount: v.number(),
+      importedBy: v.id("userProfiles"),
+      importedAt: v.float64(),
+      version: v.optional(v.float64()), // Catalogue version searched (absent before versioned imports)
+    })),
   })
     .index("by_owner", ["ownerId"])
     .index("by_email", ["email"]),
@@ -157,6 +186,14 @@ export default defineSchema({
       v.literal("blister"),
       v.literal("sachets")
     ),
+    // High-risk patients need a second independent check before packs are dispatched
+    requiresSecondCheck: v.optional(v.boolean()),
+    // Medication rounds for this patient, instead of their organisation's
+    administrationTimes: v.optional(v.array(v.object({
+      id: v.string(),
+      label: v.string(),
+      time: v.string(), // HH:mm
+    }))),
     // Medicare card information (for backward compatibility)
     medicareCardNumber: v.optional(v.string()),
     medicareCardExpiry: v.optional(v.string()),
@@ -246,6 +283,39 @@ export default defineSchema({
     afternoonDose: v.optional(v.string()),
     eveningDose: v.optional(v.string()),
     nightDose: v.optional(v.string()),
+    // Doses at administration times other than the standard four above
+    additionalDoses: v.optional(v.array(v.object({
+      timeSlot: v.string(), // Administration time id (see lib/administration-times.ts)
+      dose: v.string(),
+    }))),
+    // Structured dose for each time with a dose, parsed from the text fields above
+    structuredDoses: v.optional(v.array(v.object({
+      timeSlot: v.string(), // Administration time id (see lib/administration-times.ts)
+      quantity: v.number(),
+      unit: v.string(), // tablet, capsule, mL, mg, ... (see lib/doses.ts)
+      form: v.optional(v.string()),
+    }))),
+    // Dose text that could not be parsed and must be re-entered before it can be counted or packed
+    unparsedDoses: v.optional(v.array(v.object({
+      timeSlot: v.string(),
+      text: v.string(),
+    }))),
+    // Days the doses are taken (see lib/medication-schedule.ts); absent means every day
+    schedule: v.optional(v.object({
+      type: v.union(
+        v.literal("daily"),
+        v.literal("days_of_week"),
+        v.literal("interval"),
+        v.literal("cycle"),
+        v.literal("prn")
+      ),
+      daysOfWeek: v.optional(v.array(v.number())), // 0 = Sunday ... 6 = Saturday
+      intervalDays: v.optional(v.number()), // Every N days, e.g. 2 for alternate days
+      daysOn: v.optional(v.number()),
+      daysOff: v.optional(v.number()),
+      anchorDate: v.optional(v.string()), // YYYY-MM-DD - first dose day for interval and cycle schedules
+      prnIndication: v.optional(v.string()),
+    })),
     instructions: v.optional(v.string()),
     prescribedBy: v.optional(v.string()), // Doctor name
     prescribedDate: v.optional(v.string()), // YYYY-MM-DD format
@@ -260,6 +330,9 @@ export default defineSchema({
     manufacturer: v.optional(v.string()), // Manufacturer name
     activeIngredient: v.optional(v.string()), // Active ingredient
     strength: v.optional(v.string()), // Strength/concentration
+    // Australian catalogue codes, when chosen from the organisation's catalogue
+    amtCode: v.optional(v.string()), // AMT concept id
+    pbsItemCode: v.optional(v.string()), // PBS item number
     isActive: v.boolean(),
     addedBy: v.id("userProfiles"),
     addedAt: v.float64(),
@@ -289,7 +362,8 @@ export default defineSchema({
       v.literal("request_canceled"),
       v.literal("addition_requested"),
       v.literal("addition_approved"),
-      v.literal("addition_rejected")
+      v.literal("addition_rejected"),
+      v.literal("reconciled") // Continued unchanged at a medication reconciliation
     ),
     medicationName: v.string(),
     changes: v.optional(v.string()), // JSON string of changes made
@@ -303,8 +377,30 @@ export default defineSchema({
     currentAfternoonDose: v.optional(v.string()),
     currentEveningDose: v.optional(v.string()),
     currentNightDose: v.optional(v.string()),
+    currentAdditionalDoses: v.optional(v.array(v.object({
+      timeSlot: v.string(),
+      dose: v.string(),
+    }))),
     currentInstructions: v.optional(v.string()),
     previousState: v.optional(v.string()), // JSON string of previous state
+    // Interactions with the patient's other medications when added or changed
+    interactionWarnings: v.optional(v.array(v.object({
+      severity: v.union(v.literal("major"), v.literal("moderate"), v.literal("minor")),
+      ingredients: v.array(v.string()),
+      description: v.string(),
+      interactingMedicationName: v.string(),
+    }))),
+    interactionOverrideReason: v.optional(v.string()), // Why a major interaction was accepted
+    // Register allergies the medication conflicted with when added
+    allergyWarnings: v.optional(v.array(v.object({
+      substance: v.string(),
+      allergyType: v.union(v.literal("allergy"), v.literal("intolerance")),
+      reaction: v.optional(v.string()),
+      severity: v.union(v.literal("mild"), v.literal("moderate"), v.literal("severe")),
+      matchedIngredient: v.string(),
+    }))),
+    allergyOverrideReason: v.optional(v.string()), // Why the medication went ahead despite an allergy
+    reconciliationId: v.optional(v.id("medicationReconciliations")), // The reconciliation that made the change
     // Request status
     status: v.union(
       v.literal("completed"),
@@ -338,6 +434,25 @@ export default defineSchema({
       afternoonDose: v.optional(v.string()),
       eveningDose: v.optional(v.string()),
       nightDose: v.optional(v.string()),
+      additionalDoses: v.optional(v.array(v.object({
+        timeSlot: v.string(),
+        dose: v.string(),
+      }))),
+      schedule: v.optional(v.object({
+        type: v.union(
+          v.literal("daily"),
+          v.literal("days_of_week"),
+          v.literal("interval"),
+          v.literal("cycle"),
+          v.literal("prn")
+        ),
+        daysOfWeek: v.optional(v.array(v.number())), // 0 = Sunday ... 6 = Saturday
+        intervalDays: v.optional(v.number()), // Every N days, e.g. 2 for alternate days
+        daysOn: v.optional(v.number()),
+        daysOff: v.optional(v.number()),
+        anchorDate: v.optional(v.string()), // YYYY-MM-DD - first dose day for interval and cycle schedules
+        prnIndication: v.optional(v.string()),
+      })),
       instructions: v.optional(v.string()),
       prescribedBy: v.optional(v.string()),
       prescribedDate: v.optional(v.string()),
@@ -352,6 +467,8 @@ export default defineSchema({
       manufacturer: v.optional(v.string()),
       activeIngredient: v.optional(v.string()),
       strength: v.optional(v.string()),
+      amtCode: v.optional(v.string()),
+      pbsItemCode: v.optional(v.string()),
     }),
     requestNotes: v.optional(v.string()),
     requestedBy: v.id("userProfiles"),
@@ -450,9 +567,179 @@ export default defineSchema({
     .index("by_added_at", ["addedAt"])
     .index("by_active", ["isActive"]),
 
+  // Australian medicines catalogue items imported by an organisation, searched before the FDA database
+  medicineCatalogueItems: defineTable({
+    organizationId: v.id("organizations"),
+    amtCode: v.optional(v.string()), // AMT concept id
+    pbsItemCode: v.optional(v.string()), // PBS item number
+    brandName: v.optional(v.string()),
+    genericName: v.optional(v.string()),
+    activeIngredient: v.optional(v.string()),
+    strength: v.optional(v.string()),
+    dosageForm: v.optional(v.string()),
+    route: v.optional(v.string()),
+    manufacturer: v.optional(v.string()),
+    searchText: v.string(), // Lower case names and codes
+    // When the import that added the item started; only the organisation's current version is searched
+    version: v.optional(v.float64()),
+  })
+    .index("by_organization_version", ["organizationId", "version"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["organizationId", "version"],
+    }),
+
+  // FDA medication searches made through convex/medicationSearch.ts, shared across users. Entries
+  // past their expiry are refreshed on the next search, or served as they are while the FDA API is down.
+  medicationSearchCache: defineTable({
+    normalizedQuery: v.string(), // See normalizeMedicationQuery in lib/fda-api.ts
+    results: v.array(v.object({
+      id: v.string(),
+      source: v.union(v.literal("au_catalogue"), v.literal("fda")),
+      name: v.string(),
+      genericName: v.optional(v.string()),
+      brandName: v.optional(v.string()),
+      strength: v.optional(v.string()),
+      dosageForm: v.optional(v.string()),
+      route: v.optional(v.string()),
+      manufacturer: v.optional(v.string()),
+      activeIngredient: v.optional(v.string()),
+      ndc: v.optional(v.string()),
+      amtCode: v.optional(v.string()),
+      pbsItemCode: v.optional(v.string()),
+    })),
+    fetchedAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_query", ["normalizedQuery"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  // Medication reconciliations: an incoming list (e.g. a hospital discharge summary) compared line by
+  // line with the patient's medications, with every decision applied at once (see
+  // lib/medication-reconciliation.ts)
+  medicationReconciliations: defineTable({
+    patientId: v.id("patients"),
+    organizationId: v.id("organizations"),
+    source: v.union(
+      v.literal("hospital_discharge"),
+      v.literal("gp_update"),
+      v.literal("other")
+    ),
+    sourceDetails: v.optional(v.string()), // e.g. the hospital and discharge date
+    notes: v.optional(v.string()),
+    lines: v.array(v.object({
+      decision: v.union(
+        v.literal("continue"),
+        v.literal("change"),
+        v.literal("stop"),
+        v.literal("new")
+      ),
+      medicationId: v.id("patientMedications"),
+      medicationName: v.string(),
+      // The medication before and after the decision; "new" has no before, "stop" no after
+      before: v.optional(reconciledStateValidator),
+      after: v.optional(reconciledStateValidator),
+      notes: v.optional(v.string()),
+    })),
+    reconciledBy: v.id("userProfiles"),
+    reconciledAt: v.number(),
+    signatureStorageId: v.id("_storage"), // Drawn signature of the person reconciling (PNG)
+  })
+    .index("by_patient", ["patientId"]),
+
+  // Patient allergies and intolerances, checked when medications are added (see lib/allergies.ts)
+  patientAllergies: defineTable({
+    patientId: v.id("patients"),
+    substance: v.string(), // Ingredient or drug class, e.g. "Penicillins"
+    allergyType: v.union(
+      v.literal("allergy"),
+      v.literal("intolerance")
+    ),
+    reaction: v.optional(v.string()),
+    severity: v.union(
+      v.literal("mild"),
+      v.literal("moderate"),
+      v.literal("severe")
+    ),
+    source: v.union(
+      v.literal("patient"),
+      v.literal("carer"),
+      v.literal("prescriber"),
+      v.literal("hospital"),
+      v.literal("pharmacy")
+    ),
+    notes: v.optional(v.string()),
+    addedBy: v.id("userProfiles"),
+    addedByOrg: v.id("organizations"),
+    addedAt: v.float64(),
+    // Set once a pharmacist or prescriber has confirmed the entry
+    verifiedBy: v.optional(v.id("userProfiles")),
+    verifiedAt: v.optional(v.float64()),
+    isActive: v.boolean(),
+    removedBy: v.optional(v.id("userProfiles")),
+    removedAt: v.optional(v.float64()),
+  })
+    .index("by_patient", ["patientId"]),
+
+  // Webster packs - one record per physical pack, moved through its lifecycle
+  websterPacks: defineTable({
+    websterPackId: v.string(), // Webster pack identifier/barcode
+    patientId: v.id("patients"),
+    organizationId: v.id("organizations"), // Pharmacy that owns the pack
+    packType: v.union(
+      v.literal("blister"),
+      v.literal("sachets")
+    ),
+    status: v.union(
+      v.literal("packed"),
+      v.literal("checked"),
+      v.literal("dispatched"),
+      v.literal("collected"),
+      v.literal("returned"),
+      v.literal("destroyed")
+    ),
+    packWeekStart: v.optional(v.string()), // YYYY-MM-DD - first day the pack covers
+    // Team member who packed the pack (must differ from the checker)
+    packedBy: v.optional(v.id("userProfiles")),
+    packedAt: v.optional(v.float64()),
+    // Latest lifecycle records for quick lookups
+    latestCheckId: v.optional(v.id("websterPackChecks")),
+    latestScanOutId: v.optional(v.id("websterPackScanOuts")),
+    // Patient details at time of packing (for historical record)
+    patientName: v.string(),
+    createdBy: v.id("userProfiles"),
+    createdAt: v.float64(),
+    updatedAt: v.float64(),
+    isActive: v.boolean(),
+  })
+    .index("by_webster_pack_id", ["websterPackId"])
+    .index("by_patient", ["patientId"])
+    .index("by_organization", ["organizationId"])
+    .index("by_status", ["status"]),
+
+  // Webster pack lifecycle history - one entry per state transition
+  websterPackEvents: defineTable({
+    packId: v.id("websterPacks"),
+    websterPackId: v.string(),
+    patientId: v.id("patients"),
+    fromStatus: v.optional(v.string()), // null when the pack is first recorded
+    toStatus: v.string(),
+    checkId: v.optional(v.id("websterPackChecks")),
+    scanOutId: v.optional(v.id("websterPackScanOuts")),
+    notes: v.optional(v.string()),
+    performedBy: v.id("userProfiles"),
+    performedByOrg: v.id("organizations"),
+    performedAt: v.float64(),
+  })
+    .index("by_pack", ["packId"])
+    .index("by_webster_pack_id", ["websterPackId"])
+    .index("by_patient", ["patientId"])
+    .index("by_performed_at", ["performedAt"]),
+
   // Webster pack checks for quality control
   websterPackChecks: defineTable({
     patientId: v.id("patients"),
+    packId: v.optional(v.id("websterPacks")), // Lifecycle record (absent on legacy checks)
     websterPackId: v.string(), // Webster pack identifier/barcode
     packType: v.union(
       v.literal("blister"),
@@ -465,9 +752,66 @@ export default defineSchema({
     ),
     notes: v.optional(v.string()), // Quality check notes
     issues: v.optional(v.array(v.string())), // List of identified issues
+    // Issue categories selected on the check (snapshot of name and severity at time of check)
+    issueCategories: v.optional(v.array(v.object({
+      categoryId: v.id("packIssueCategories"),
+      name: v.string(),
+      severity: v.union(
+        v.literal("low"),
+        v.literal("medium"),
+        v.literal("high"),
+        v.literal("critical")
+      ),
+    }))),
+    // Per-slot, per-medication outcomes recorded by the checker
+    checklist: v.optional(v.array(v.object({
+      medicationId: v.id("patientMedications"),
+      medicationName: v.string(),
+      strength: v.optional(v.string()),
+      timeSlot: v.string(), // Administration time id
+      dose: v.string(),
+      outcome: v.union(
+        v.literal("verified"),
+        v.literal("incorrect"),
+        v.literal("missing")
+      ),
+      note: v.optional(v.string()),
+    }))),
+    // Active medications the check verified, so later regimen changes invalidate the check
+    regimenSnapshot: v.optional(v.array(v.object({
+      medicationId: v.id("patientMedications"),
+      medicationName: v.string(),
+      strength: v.optional(v.string()),
+      dosage: v.string(),
+      morningDose: v.optional(v.string()),
+      afternoonDose: v.optional(v.string()),
+      eveningDose: v.optional(v.string()),
+      nightDose: v.optional(v.string()),
+      additionalDoses: v.optional(v.array(v.object({
+        timeSlot: v.string(),
+        dose: v.string(),
+      }))),
+      schedule: v.optional(v.string()), // Description of a non-daily schedule
+    }))),
+    regimenFingerprint: v.optional(v.string()),
+    // Why the tablet count, weight, expiry or a schedule looked wrong; such checks are held for review
+    anomalyReasons: v.optional(v.array(v.string())),
+    // The count or weight outliers among them, which a reviewer other than the packer and checker
+    // can accept with a reason (see acceptWebsterPackMeasurements)
+    measurementAnomalies: v.optional(v.array(v.string())),
+    measurementReview: v.optional(v.object({
+      reason: v.string(),
+      reviewedBy: v.id("userProfiles"),
+      reviewedAt: v.float64(),
+    })),
     checkedBy: v.id("userProfiles"),
     checkedByOrg: v.id("organizations"),
     checkedAt: v.float64(),
+    packedBy: v.optional(v.id("userProfiles")), // Packer at time of check
+    // Second independent check for high-risk patients
+    secondCheckedBy: v.optional(v.id("userProfiles")),
+    secondCheckedAt: v.optional(v.float64()),
+    secondCheckNotes: v.optional(v.string()),
     // Patient details at time of check (for historical record)
     patientName: v.string(),
     patientPreferredPack: v.string(),
@@ -476,6 +820,15 @@ export default defineSchema({
     packWeight: v.optional(v.number()), // Pack weight if measured
     batchNumber: v.optional(v.string()), // Manufacturing batch number
     expiryDate: v.optional(v.string()), // Earliest expiry date in pack
+    // Batch and expiry of each medication packed, for expiry alerts and recall searches
+    medicationBatches: v.optional(v.array(v.object({
+      medicationId: v.id("patientMedications"),
+      medicationName: v.string(),
+      genericName: v.optional(v.string()),
+      strength: v.optional(v.string()),
+      batchNumber: v.string(),
+      expiryDate: v.string(), // YYYY-MM-DD
+    }))),
     isActive: v.boolean(),
   })
     .index("by_patient", ["patientId"])
@@ -486,9 +839,28 @@ export default defineSchema({
     .index("by_checked_at", ["checkedAt"])
     .index("by_active", ["isActive"]),
 
+  // Organization catalogue of issues that can be recorded on a pack check
+  packIssueCategories: defineTable({
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    description: v.optional(v.string()),
+    severity: v.union(
+      v.literal("low"),
+      v.literal("medium"),
+      v.literal("high"),
+      v.literal("critical")
+    ),
+    createdBy: v.id("userProfiles"),
+    createdAt: v.float64(),
+    updatedAt: v.float64(),
+    isActive: v.boolean(),
+  })
+    .index("by_organization", ["organizationId"]),
+
   // Webster pack scan outs for dispatch tracking
   websterPackScanOuts: defineTable({
     patientId: v.id("patients"),
+    packId: v.optional(v.id("websterPacks")), // Lifecycle record (absent on legacy scan outs)
     websterPackId: v.string(), // Webster pack identifier/barcode
     packType: v.union(
       v.literal("blister"),
@@ -506,11 +878,17 @@ export default defineSchema({
     scanOutStatus: v.union(
       v.literal("dispatched"),
       v.literal("collected"),
+      v.literal("delivered"), // Marked delivered by the driver on a delivery run
       v.literal("failed")
     ),
     notes: v.optional(v.string()), // General notes about the scan out
     recipientName: v.optional(v.string()), // Who received the pack
-    recipientSignature: v.optional(v.string()), // Signature if collected
+    recipientSignature: v.optional(v.string()), // Signature if collected (legacy free text)
+    // Proof of delivery captured at collection or delivery (Convex file storage)
+    signatureStorageId: v.optional(v.id("_storage")), // Recipient's drawn signature (PNG)
+    photoStorageId: v.optional(v.id("_storage")), // Optional photo of the handover
+    proofCapturedBy: v.optional(v.id("userProfiles")),
+    proofCapturedAt: v.optional(v.float64()),
     scannedOutBy: v.id("userProfiles"),
     scannedOutByOrg: v.id("organizations"),
     scannedOutAt: v.float64(),
@@ -528,6 +906,105 @@ export default defineSchema({
     .index("by_scanned_out_at", ["scannedOutAt"])
     .index("by_active", ["isActive"]),
 
+  // Returned Webster packs - open until someone records whether the contents were destroyed or re-used
+  websterPackReturns: defineTable({
+    packId: v.id("websterPacks"),
+    websterPackId: v.string(),
+    patientId: v.id("patients"),
+    organizationId: v.id("organizations"),
+    patientName: v.string(),
+    source: v.union(
+      v.literal("failed_delivery"),
+      v.literal("failed_scan_out"),
+      v.literal("patient_return")
+    ),
+    reason: v.string(),
+    scanOutId: v.optional(v.id("websterPackScanOuts")),
+    recordedBy: v.id("userProfiles"),
+    recordedAt: v.float64(),
+    disposition: v.optional(v.union(
+      v.literal("destroyed"),
+      v.literal("reused") // Re-packed; the pack must be checked again before dispatch
+    )),
+    dispositionNotes: v.optional(v.string()),
+    resolvedBy: v.optional(v.id("userProfiles")),
+    resolvedAt: v.optional(v.float64()),
+  })
+    .index("by_pack", ["packId"])
+    .index("by_organization", ["organizationId"]),
+
+  // Delivery runs - dispatched packs assigned to a driver for a day
+  deliveryRuns: defineTable({
+    organizationId: v.id("organizations"),
+    runDate: v.string(), // YYYY-MM-DD
+    driverId: v.id("userProfiles"),
+    driverName: v.string(), // Driver name at time of assignment
+    status: v.union(
+      v.literal("planned"),
+      v.literal("in_progress"),
+      v.literal("completed")
+    ),
+    notes: v.optional(v.string()),
+    createdBy: v.id("userProfiles"),
+    createdAt: v.float64(),
+    updatedAt: v.float64(),
+    isActive: v.boolean(),
+  })
+    .index("by_organization_date", ["organizationId", "runDate"])
+    .index("by_driver", ["driverId"]),
+
+  // Stops on a delivery run - one per scanned out pack, ordered by suburb and postcode
+  deliveryRunStops: defineTable({
+    runId: v.id("deliveryRuns"),
+    scanOutId: v.id("websterPackScanOuts"),
+    packId: v.optional(v.id("websterPacks")),
+    websterPackId: v.string(),
+    patientId: v.id("patients"),
+    // Patient and address details at time of assignment (for the manifest)
+    patientName: v.string(),
+    patientPhone: v.optional(v.string()),
+    deliveryAddress: v.string(),
+    suburb: v.string(),
+    postcode: v.string(),
+    deliveryNotes: v.optional(v.string()),
+    sequence: v.number(), // Stop order within the run, starting at 1
+    status: v.union(
+      v.literal("pending"),
+      v.literal("delivered"),
+      v.literal("failed")
+    ),
+    failureReason: v.optional(v.string()),
+    completedBy: v.optional(v.id("userProfiles")),
+    completedAt: v.optional(v.float64()),
+  })
+    .index("by_run", ["runId"])
+    .index("by_scan_out", ["scanOutId"]),
+
+  // Recurring Webster pack cycles per patient (drives the packs due queue)
+  packSchedules: defineTable({
+    patientId: v.id("patients"),
+    organizationId: v.id("organizations"), // Pharmacy that packs for the patient
+    frequency: v.union(
+      v.literal("weekly"),
+      v.literal("fortnightly"),
+      v.literal("every_28_days")
+    ),
+    startWeekday: v.number(), // 0 = Sunday ... 6 = Saturday - first day each pack covers
+    cycleStartDate: v.string(), // YYYY-MM-DD - first cycle, always on startWeekday
+    packType: v.union(
+      v.literal("blister"),
+      v.literal("sachets")
+    ),
+    leadDays: v.number(), // Days before a cycle starts that its packs are due to be packed
+    notes: v.optional(v.string()),
+    createdBy: v.id("userProfiles"),
+    createdAt: v.float64(),
+    updatedAt: v.float64(),
+    isActive: v.boolean(),
+  })
+    .index("by_patient", ["patientId"])
+    .index("by_organization", ["organizationId"]),
+
   // Password reset tokens for secure password recovery
   passwordResetTokens: defineTable({
     email: v.string(),
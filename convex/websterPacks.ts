@@ -1,7 +1,48 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
+import { DOSE_TIME_SLOTS, DoseTimeSlot, getDoseTabletCount, getMedicationDoses, parseDoseTabletCount } from "../lib/doses";
+import {
+  AdministrationTime,
+  DEFAULT_ADMINISTRATION_TIMES,
+  findAdministrationTime,
+  includeDoseTimes,
+} from "../lib/administration-times";
+import { getPatientAdministrationTimes } from "./administrationTimes";
+import {
+  describeExpiringBatch,
+  getBatchesExpiringInPeriod,
+  getPackDates,
+  getPackPeriod,
+  isCalendarDate,
+} from "../lib/pack-expiry";
+import { describeSchedule, getScheduleProblem, isMedicationDueOn, MedicationSchedule } from "../lib/medication-schedule";
+
+type WebsterPackStatus = Doc<"websterPacks">["status"];
+
+// Generate a Webster pack ID for printing on pack labels
+function generateWebsterPackId(): string {
+  // Omit characters that are easily misread on printed labels (0/O, 1/I)
+  const characters = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let result = '';
+  for (let i = 0; i < 8; i++) {
+    result += characters.charAt(Math.floor(Math.random() * characters.length));
+  }
+  return `WP-${result}`;
+}
+
+// Allowed Webster pack lifecycle transitions. Checking can be repeated until the
+// pack leaves the pharmacy; once dispatched it can only be collected or returned.
+// Returned packs are destroyed or re-packed, and re-packed packs must be checked again.
+const PACK_TRANSITIONS: Record<WebsterPackStatus, WebsterPackStatus[]> = {
+  packed: ["checked"],
+  checked: ["checked", "dispatched", "collected", "returned"],
+  dispatched: ["collected", "returned"],
+  collected: ["returned"],
+  returned: ["packed", "destroyed"],
+  destroyed: [],
+};
 
 // Create a new Webster pack check
 export const createWebsterPackCheck = mutation({
@@ -15,11 +56,28 @@ export const createWebsterPackCheck = mutation({
       v.literal("requires_review")
     ),
     notes: v.optional(v.string()),
-    issues: v.optional(v.array(v.string())),
+    issueCategoryIds: v.optional(v.array(v.id("packIssueCategories"))),
+    // Outcome for every medication in every time slot of the pack
+    checklist: v.array(v.object({
+      medicationId: v.id("patientMedications"),
+      timeSlot: v.string(), // Administration time id
+      outcome: v.union(
+        v.literal("verified"),
+        v.literal("incorrect"),
+        v.literal("missing")
+      ),
+      note: v.optional(v.string()),
+    })),
     medicationCount: v.optional(v.number()),
     packWeight: v.optional(v.number()),
     batchNumber: v.optional(v.string()),
     expiryDate: v.optional(v.string()),
+    // Batch and expiry of each medication packed (a medication may come from more than one batch)
+    medicationBatches: v.optional(v.array(v.object({
+      medicationId: v.id("patientMedications"),
+      batchNumber: v.string(),
+      expiryDate: v.string(), // YYYY-MM-DD
+    }))),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -55,36 +113,203 @@ export const createWebsterPackCheck = mutation({
       throw new Error("Access denied: You don't have permission to check packs for this patient");
     }
 
+    // Only pack IDs issued by PillFlow can be checked
+    const pack = await findWebsterPack(ctx, args.websterPackId, userProfile.organizationId);
+    if (!pack) {
+      throw new Error(`Webster pack ${args.websterPackId} was not issued by PillFlow. Print a label for the pack first.`);
+    }
+    if (pack.patientId !== args.patientId) {
+      throw new Error(`Webster pack ${args.websterPackId} is assigned to a different patient: ${pack.patientName}`);
+    }
+    assertPackTransition(pack, "checked");
+
+    // Dual sign-off: the packer signs the pack off in their own session, and cannot also check it
+    const packedBy = pack.packedBy;
+    if (!packedBy) {
+      throw new Error(`Webster pack ${args.websterPackId} has not been signed off as packed. The packer must sign it off before it is checked.`);
+    }
+    if (packedBy === userProfile._id) {
+      throw new Error("You packed this Webster pack, so it must be checked by another team member");
+    }
+
+    // Resolve issues from the organization's catalogue, keeping a snapshot on the check
+    const issueCategories = [];
+    for (const categoryId of new Set(args.issueCategoryIds ?? [])) {
+      const category = await ctx.db.get(categoryId);
+      if (!category || category.organizationId !== userProfile.organizationId || !category.isActive) {
+        throw new Error("Selected issue category is not available");
+      }
+      issueCategories.push({
+        categoryId: category._id,
+        name: category.name,
+        severity: category.severity,
+      });
+    }
+    const issues = issueCategories.map((category) => category.name);
+
+    // The checklist must cover exactly the medications currently due in each slot
+    const activeMedications = await ctx.db
+      .query("patientMedications")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
     const now = Date.now();
+    const packPeriod = getPackPeriod(pack.packWeekStart, formatCalendarDate(now));
+    const packDates = getPackDates(packPeriod);
+    const administrationTimes = await getPatientAdministrationTimes(ctx, patient);
+    const expectedItems = Object.values(groupMedicationsByTime(activeMedications, packDates, administrationTimes)).flat();
+
+    const outcomes = new Map<string, (typeof args.checklist)[number]>();
+    for (const item of args.checklist) {
+      const key = `${item.timeSlot}:${item.medicationId}`;
+      if (outcomes.has(key)) {
+        throw new Error("Checklist contains the same medication and time slot more than once");
+      }
+      outcomes.set(key, item);
+    }
+
+    const checklist = expectedItems.map((expected) => {
+      const item = outcomes.get(`${expected.timeSlot}:${expected._id}`);
+      if (!item) {
+        throw new Error(`${expected.medicationName} (${expected.time}) has not been checked. Refresh the medication list and check every item.`);
+      }
+      outcomes.delete(`${expected.timeSlot}:${expected._id}`);
+      return {
+        medicationId: expected._id,
+        medicationName: expected.medicationName,
+        strength: expected.strength,
+        timeSlot: expected.timeSlot,
+        dose: expected.dose,
+        outcome: item.outcome,
+        note: item.note?.trim() || undefined,
+      };
+    });
+
+    if (outcomes.size > 0) {
+      throw new Error("Checklist includes medications that are no longer in the patient's schedule. Refresh the medication list and check again.");
+    }
+
+    if (args.checkStatus === "passed" && checklist.some((item) => item.outcome !== "verified")) {
+      throw new Error("A pack can only pass when every medication in every slot is verified");
+    }
+
+    // A medication whose schedule is unsafe may have been packed on the wrong days
+    const scheduleProblems = [...new Set(expectedItems.flatMap((item) => item.scheduleProblem ? [item.scheduleProblem] : []))];
+    if (args.checkStatus === "passed" && scheduleProblems.length > 0) {
+      throw new Error(`${scheduleProblems.join(" ")} Correct the medication before this pack can pass.`);
+    }
+
+    // Batches are recorded against the medications in the pack, keeping their names for recall searches
+    const medicationBatches = [];
+    const batchKeys = new Set<string>();
+    for (const entry of args.medicationBatches ?? []) {
+      const medication = activeMedications.find((candidate) => candidate._id === entry.medicationId);
+      if (!medication) {
+        throw new Error("Batch details include medications that are no longer in the patient's schedule. Refresh the medication list and check again.");
+      }
+      const batchNumber = entry.batchNumber.trim();
+      if (!batchNumber) {
+        throw new Error(`Enter the batch number for ${medication.medicationName}`);
+      }
+      if (!isCalendarDate(entry.expiryDate)) {
+        throw new Error(`Enter a valid expiry date for ${medication.medicationName}`);
+      }
+      const key = `${medication._id}:${batchNumber}`;
+      if (batchKeys.has(key)) {
+        throw new Error(`Batch ${batchNumber} of ${medication.medicationName} is recorded more than once`);
+      }
+      batchKeys.add(key);
+      medicationBatches.push({
+        medicationId: medication._id,
+        medicationName: medication.medicationName,
+        genericName: medication.genericName,
+        strength: medication.strength,
+        batchNumber,
+        expiryDate: entry.expiryDate,
+      });
+    }
+    if (args.expiryDate !== undefined && !isCalendarDate(args.expiryDate)) {
+      throw new Error("Enter a valid expiry date");
+    }
+    const expiryDate = medicationBatches.length > 0
+      ? medicationBatches.reduce((earliest, batch) => batch.expiryDate < earliest ? batch.expiryDate : earliest, medicationBatches[0].expiryDate)
+      : args.expiryDate;
+
+    // Count or weight outliers hold an otherwise passing pack for review
+    const { anomalies } = await assessPackMeasurements(ctx, {
+      patientId: args.patientId,
+      packType: args.packType,
+      medications: activeMedications,
+      dates: packDates,
+      medicationCount: args.medicationCount,
+      packWeight: args.packWeight,
+    });
+
+    // So does any medication that expires before the pack's last day
+    const packedBatches = medicationBatches.length > 0
+      ? medicationBatches
+      : expiryDate ? [{ medicationName: "Pack", batchNumber: args.batchNumber?.trim() || "unknown", expiryDate }] : [];
+    const expiryAlerts = getBatchesExpiringInPeriod(packedBatches, packPeriod)
+      .map((batch) => describeExpiringBatch(batch, packPeriod));
+
+    const holdReasons = [...scheduleProblems, ...anomalies, ...expiryAlerts];
+    const checkStatus = args.checkStatus === "passed" && holdReasons.length > 0 ? "requires_review" : args.checkStatus;
+
+    const regimenSnapshot = getRegimenSnapshot(activeMedications);
 
     // Create the Webster pack check record
     const checkId = await ctx.db.insert("websterPackChecks", {
       patientId: args.patientId,
+      packId: pack._id,
       websterPackId: args.websterPackId,
       packType: args.packType,
-      checkStatus: args.checkStatus,
+      checkStatus,
       notes: args.notes,
-      issues: args.issues,
+      issues,
+      issueCategories,
+      checklist,
+      regimenSnapshot,
+      regimenFingerprint: getRegimenFingerprint(regimenSnapshot),
+      anomalyReasons: holdReasons.length > 0 ? holdReasons : undefined,
+      measurementAnomalies: anomalies.length > 0 ? anomalies : undefined,
       checkedBy: userProfile._id,
       checkedByOrg: userProfile.organizationId,
       checkedAt: now,
+      packedBy,
       patientName: `${patient.firstName} ${patient.lastName}`,
       patientPreferredPack: patient.preferredPack,
       medicationCount: args.medicationCount,
       packWeight: args.packWeight,
-      batchNumber: args.batchNumber,
-      expiryDate: args.expiryDate,
+      batchNumber: args.batchNumber?.trim() || undefined,
+      expiryDate,
+      medicationBatches: medicationBatches.length > 0 ? medicationBatches : undefined,
       isActive: true,
     });
 
+    await transitionWebsterPack(ctx, pack, "checked", {
+      performedBy: userProfile._id,
+      performedByOrg: userProfile.organizationId,
+      checkId,
+      notes: `Check ${checkStatus.replace("_", " ")}`,
+    });
+
     // Log the check in patient comments if there are issues or failures
-    if (args.checkStatus === "failed" || args.checkStatus === "requires_review" || (args.issues && args.issues.length > 0)) {
-      const statusText = args.checkStatus === "failed" ? "failed quality check" : 
-                        args.checkStatus === "requires_review" ? "requires review" : "has issues";
+    if (checkStatus === "failed" || checkStatus === "requires_review" || issueCategories.length > 0) {
+      const statusText = checkStatus === "failed" ? "failed quality check" : 
+                        checkStatus === "requires_review" ? "requires review" : "has issues";
       
       let commentContent = `Webster pack ${args.websterPackId} ${statusText}`;
-      if (args.issues && args.issues.length > 0) {
-        commentContent += `\nIssues identified: ${args.issues.join(", ")}`;
+      if (issueCategories.length > 0) {
+        commentContent += `\nIssues identified: ${issueCategories.map((issue) => `${issue.name} (${issue.severity})`).join(", ")}`;
+      }
+      if (scheduleProblems.length > 0) {
+        commentContent += `\nSchedule problems: ${scheduleProblems.join("; ")}`;
+      }
+      if (anomalies.length > 0) {
+        commentContent += `\nMeasurement anomalies: ${anomalies.join("; ")}`;
+      }
+      if (expiryAlerts.length > 0) {
+        commentContent += `\nExpiry alerts: ${expiryAlerts.join("; ")}`;
       }
       if (args.notes) {
         commentContent += `\nNotes: ${args.notes}`;
@@ -102,7 +327,7 @@ export const createWebsterPackCheck = mutation({
       });
     }
 
-    return checkId;
+    return { checkId, checkStatus, anomalies: holdReasons };
   },
 });
 
@@ -296,10 +521,14 @@ export const searchPatientsForWebsterCheck = query({
   },
 });
 
-// Get patient medications organized by time of day for Webster pack verification
+// Get patient medications organized by time of day for Webster pack verification. Only doses due
+// from the date for the given number of days (one by default) are included; as-needed medications
+// are listed separately as they are never packed.
 export const getPatientMedicationsByTime = query({
   args: {
     patientId: v.id("patients"),
+    date: v.string(), // YYYY-MM-DD
+    days: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -329,6 +558,15 @@ export const getPatientMedicationsByTime = query({
       throw new Error("Access denied: You don't have permission to view medications for this patient");
     }
 
+    if (!isCalendarDate(args.date)) {
+      return null;
+    }
+    const days = Math.min(Math.max(Math.floor(args.days ?? 1), 1), 91);
+    const dates = getPackDates({
+      start: args.date,
+      end: formatCalendarDate(parseCalendarDate(args.date) + (days - 1) * DAY_MS),
+    });
+
     // Get active medications for the patient
     const medications = await ctx.db
       .query("patientMedications")
@@ -336,82 +574,96 @@ export const getPatientMedicationsByTime = query({
       .filter((q) => q.eq(q.field("isActive"), true))
       .collect();
 
-    // Organize medications by time of day
-    const medicationsByTime = {
-      morning: [] as any[],
-      afternoon: [] as any[],
-      evening: [] as any[],
-      night: [] as any[],
-    };
-
-    medications.forEach(med => {
-      const medInfo = {
+    // Organize medications by the patient's administration times
+    const patient = await ctx.db.get(args.patientId);
+    if (!patient) {
+      return null;
+    }
+    const patientTimes = await getPatientAdministrationTimes(ctx, patient);
+    const medicationsByTime = groupMedicationsByTime(medications, dates, patientTimes);
+    // Doses at times that are no longer configured are still listed, after the configured times
+    const administrationTimes = includeDoseTimes(patientTimes, Object.keys(medicationsByTime));
+
+    const asNeeded = medications
+      .filter((med) => med.schedule?.type === "prn")
+      .map((med) => ({
         _id: med._id,
         medicationName: med.medicationName,
+        strength: med.strength,
         dosage: med.dosage,
         instructions: med.instructions,
-        prescribedBy: med.prescribedBy,
-        brandName: med.brandName,
-        genericName: med.genericName,
-        activeIngredient: med.activeIngredient,
-        strength: med.strength,
-      };
-
-      // Add to appropriate time slots based on dosing schedule
-      if (med.morningDose && med.morningDose.trim() !== "") {
-        medicationsByTime.morning.push({
-          ...medInfo,
-          dose: med.morningDose,
-          time: "Morning",
-        });
-      }
-      
-      if (med.afternoonDose && med.afternoonDose.trim() !== "") {
-        medicationsByTime.afternoon.push({
-          ...medInfo,
-          dose: med.afternoonDose,
-          time: "Afternoon",
-        });
-      }
-      
-      if (med.eveningDose && med.eveningDose.trim() !== "") {
-        medicationsByTime.evening.push({
-          ...medInfo,
-          dose: med.eveningDose,
-          time: "Evening",
-        });
-      }
-      
-      if (med.nightDose && med.nightDose.trim() !== "") {
-        medicationsByTime.night.push({
-          ...medInfo,
-          dose: med.nightDose,
-          time: "Night",
-        });
-      }
-    });
+        scheduleLabel: describeSchedule(med.schedule),
+      }));
 
     // Calculate totals
     const totalMedications = medications.length;
-    const totalDoses = medicationsByTime.morning.length + 
-                      medicationsByTime.afternoon.length + 
-                      medicationsByTime.evening.length + 
-                      medicationsByTime.night.length;
+    const totalDoses = Object.values(medicationsByTime).reduce((total, items) => total + items.length, 0);
 
     return {
+      administrationTimes,
       medicationsByTime,
+      asNeeded,
+      dates,
       totalMedications,
       totalDoses,
-      summary: {
-        morning: medicationsByTime.morning.length,
-        afternoon: medicationsByTime.afternoon.length,
-        evening: medicationsByTime.evening.length,
-        night: medicationsByTime.night.length,
-      },
+      summary: Object.fromEntries(
+        Object.entries(medicationsByTime).map(([timeSlot, items]) => [timeSlot, items.length])
+      ),
     };
   },
 });
 
+// Expected tablet count and usual weight for a patient's pack, with any outliers in the entered measurements
+export const getPackMeasurementAssessment = query({
+  args: {
+    patientId: v.id("patients"),
+    packType: v.union(v.literal("blister"), v.literal("sachets")),
+    packWeekStart: v.optional(v.string()), // YYYY-MM-DD, defaults to today
+    medicationCount: v.optional(v.number()),
+    packWeight: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return null; // Return null instead of throwing
+    }
+
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const medications = await ctx.db
+      .query("patientMedications")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    if (args.packWeekStart !== undefined && !isCalendarDate(args.packWeekStart)) {
+      return null;
+    }
+
+    return await assessPackMeasurements(ctx, {
+      patientId: args.patientId,
+      packType: args.packType,
+      medications,
+      dates: getPackDates(getPackPeriod(args.packWeekStart, formatCalendarDate(Date.now()))),
+      medicationCount: args.medicationCount,
+      packWeight: args.packWeight,
+    });
+  },
+});
+
 // Get Webster pack check statistics
 export const getWebsterCheckStats = query({
   args: {},
@@ -474,71 +726,553 @@ export const getWebsterCheckStats = query({
   },
 });
 
-// Helper function to check if user has access to a patient
-async function checkPatientAccess(
-  ctx: { db: any }, 
-  patientId: Id<"patients">, 
-  userProfileId: Id<"userProfiles">
-): Promise<boolean> {
-  const patient = await ctx.db.get(patientId);
-  if (!patient) {
-    return false;
+// Tablets in a medication's dose for a slot. Medications not yet migrated to structured doses are
+// parsed from their dose text; doses that could not be parsed are not counted.
+function getSlotTabletCount(medication: Doc<"patientMedications">, slot: DoseTimeSlot, dose: string): number | null {
+  if (medication.unparsedDoses?.some((unparsed) => unparsed.timeSlot === slot)) return null;
+  if (!medication.structuredDoses) return parseDoseTabletCount(dose);
+  const structured = medication.structuredDoses.find((candidate) => candidate.timeSlot === slot);
+  return structured ? getDoseTabletCount(structured) : null;
+}
+
+// Organize active medications into the pack's administration times based on their dosing schedule.
+// Only medications due on at least one of the dates are included, with the dates they are due. Doses
+// at times that are not in administrationTimes are grouped under their own time after the others.
+// Medications recorded before schedules were checked (e.g. methotrexate with no weekly day) carry a
+// scheduleProblem: their due dates can't be trusted, so they must not be packed until it is fixed.
+export function groupMedicationsByTime(
+  medications: Doc<"patientMedications">[],
+  dates: string[],
+  administrationTimes: AdministrationTime[] = DEFAULT_ADMINISTRATION_TIMES
+) {
+  const medicationsByTime: Record<DoseTimeSlot, {
+    _id: Id<"patientMedications">;
+    medicationName: string;
+    dosage: string;
+    instructions?: string;
+    prescribedBy?: string;
+    brandName?: string;
+    genericName?: string;
+    activeIngredient?: string;
+    strength?: string;
+    dose: string;
+    tabletCount: number | null; // Null when the dose is not a tablet or capsule count
+    time: string;
+    timeSlot: DoseTimeSlot;
+    schedule?: MedicationSchedule;
+    scheduleLabel: string;
+    scheduleProblem: string | null;
+    dueDates: string[];
+  }[]> = Object.fromEntries(administrationTimes.map((time) => [time.id, []]));
+
+  medications.forEach(med => {
+    const dueDates = dates.filter((date) => isMedicationDueOn(med, date));
+    if (dueDates.length === 0) return;
+
+    const medInfo = {
+      _id: med._id,
+      medicationName: med.medicationName,
+      dosage: med.dosage,
+      instructions: med.instructions,
+      prescribedBy: med.prescribedBy,
+      brandName: med.brandName,
+      genericName: med.genericName,
+      activeIngredient: med.activeIngredient,
+      strength: med.strength,
+      schedule: med.schedule,
+      scheduleLabel: describeSchedule(med.schedule),
+      scheduleProblem: getScheduleProblem(med, med.schedule),
+      dueDates,
+    };
+
+    // Add to appropriate time slots based on dosing schedule
+    for (const { timeSlot, dose } of getMedicationDoses(med)) {
+      medicationsByTime[timeSlot] = medicationsByTime[timeSlot] ?? [];
+      medicationsByTime[timeSlot].push({
+        ...medInfo,
+        dose,
+        tabletCount: getSlotTabletCount(med, timeSlot, dose),
+        time: findAdministrationTime(administrationTimes, timeSlot).label,
+        timeSlot,
+      });
+    }
+  });
+
+  return medicationsByTime;
+}
+
+type RegimenSnapshot = NonNullable<Doc<"websterPackChecks">["regimenSnapshot"]>;
+
+// The parts of the active medications that decide what goes into a pack, in a stable order
+function getRegimenSnapshot(medications: Doc<"patientMedications">[]): RegimenSnapshot {
+  return medications
+    .map((med) => ({
+      medicationId: med._id,
+      medicationName: med.medicationName,
+      strength: med.strength?.trim() || undefined,
+      dosage: med.dosage,
+      morningDose: med.morningDose?.trim() || undefined,
+      afternoonDose: med.afternoonDose?.trim() || undefined,
+      eveningDose: med.eveningDose?.trim() || undefined,
+      nightDose: med.nightDose?.trim() || undefined,
+      additionalDoses: med.additionalDoses?.some((dose) => dose.dose.trim())
+        ? med.additionalDoses
+            .filter((dose) => dose.dose.trim())
+            .map((dose) => ({ timeSlot: dose.timeSlot, dose: dose.dose.trim() }))
+            .sort((a, b) => a.timeSlot.localeCompare(b.timeSlot))
+        : undefined,
+      schedule: med.schedule && med.schedule.type !== "daily" ? describeSchedule(med.schedule) : undefined,
+    }))
+    .sort((a, b) => a.medicationId.localeCompare(b.medicationId));
+}
+
+// FNV-1a hash of a regimen snapshot, for a cheap "has anything changed" comparison
+function getRegimenFingerprint(snapshot: RegimenSnapshot): string {
+  const canonical = JSON.stringify(snapshot.map((item) => [
+    item.medicationId,
+    item.medicationName,
+    item.strength ?? "",
+    item.dosage,
+    ...DOSE_TIME_SLOTS.map(({ doseField }) => item[doseField] ?? ""),
+    // Only scheduled medications and doses at other administration times add fields, so
+    // fingerprints of standard daily regimens are unchanged
+    ...(item.schedule ? [item.schedule] : []),
+    ...(item.additionalDoses ?? []).map((dose) => `${dose.timeSlot}=${dose.dose}`),
+  ]));
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
 
-  const userProfile = await ctx.db.get(userProfileId);
-  if (!userProfile) {
-    return false;
+// Human-readable list of differences between the checked regimen and the current one
+function describeRegimenChanges(
+  checked: RegimenSnapshot,
+  current: RegimenSnapshot,
+  administrationTimes: AdministrationTime[]
+): string[] {
+  const changes: string[] = [];
+  const checkedById = new Map(checked.map((item) => [item.medicationId, item]));
+  const describeValue = (value?: string) => value || "none";
+
+  for (const item of current) {
+    const before = checkedById.get(item.medicationId);
+    checkedById.delete(item.medicationId);
+    if (!before) {
+      changes.push(`${item.medicationName} added`);
+      continue;
+    }
+
+    if (before.medicationName !== item.medicationName) {
+      changes.push(`${before.medicationName} renamed to ${item.medicationName}`);
+    }
+    if (before.strength !== item.strength) {
+      changes.push(`${item.medicationName}: strength ${describeValue(before.strength)} → ${describeValue(item.strength)}`);
+    }
+    if (before.dosage !== item.dosage) {
+      changes.push(`${item.medicationName}: dosage ${describeValue(before.dosage)} → ${describeValue(item.dosage)}`);
+    }
+    const beforeDoses = getMedicationDoses(before);
+    const currentDoses = getMedicationDoses(item);
+    const timeSlots = includeDoseTimes(
+      administrationTimes,
+      [...beforeDoses, ...currentDoses].map((dose) => dose.timeSlot)
+    ).map((time) => time.id);
+    for (const timeSlot of timeSlots) {
+      const beforeDose = beforeDoses.find((dose) => dose.timeSlot === timeSlot)?.dose;
+      const currentDose = currentDoses.find((dose) => dose.timeSlot === timeSlot)?.dose;
+      if (beforeDose !== currentDose) {
+        const label = findAdministrationTime(administrationTimes, timeSlot).label;
+        changes.push(`${item.medicationName}: ${label.toLowerCase()} dose ${describeValue(beforeDose)} → ${describeValue(currentDose)}`);
+      }
+    }
+    if (before.schedule !== item.schedule) {
+      changes.push(`${item.medicationName}: schedule ${before.schedule ?? "Daily"} → ${item.schedule ?? "Daily"}`);
+    }
+  }
+
+  for (const removed of checkedById.values()) {
+    changes.push(`${removed.medicationName} stopped`);
+  }
+
+  return changes;
+}
+
+// What has changed in a patient's regimen since a check verified it. Legacy checks without a
+// snapshot cannot be compared and report no changes.
+async function getRegimenChangesSinceCheck(
+  ctx: QueryCtx,
+  check: Doc<"websterPackChecks">
+): Promise<string[]> {
+  if (!check.regimenSnapshot || !check.regimenFingerprint) {
+    return [];
+  }
+
+  const activeMedications = await ctx.db
+    .query("patientMedications")
+    .withIndex("by_patient", (q) => q.eq("patientId", check.patientId))
+    .filter((q) => q.eq(q.field("isActive"), true))
+    .collect();
+  const currentSnapshot = getRegimenSnapshot(activeMedications);
+
+  if (getRegimenFingerprint(currentSnapshot) === check.regimenFingerprint) {
+    return [];
+  }
+  const patient = await ctx.db.get(check.patientId);
+  const administrationTimes = patient ? await getPatientAdministrationTimes(ctx, patient) : DEFAULT_ADMINISTRATION_TIMES;
+  return describeRegimenChanges(check.regimenSnapshot, currentSnapshot, administrationTimes);
+}
+
+// Passed checks of an identical regimen needed before weights are compared against history
+const MIN_WEIGHT_HISTORY = 3;
+const WEIGHT_HISTORY_LIMIT = 20;
+
+// Tablets a pack covering the given dates should hold, or null when a dose is not a whole number of
+// tablets (e.g. "5 mL", or half a tablet, whose pieces can't be counted against the regimen)
+function getExpectedTabletCount(medications: Doc<"patientMedications">[], dates: string[]): number | null {
+  let total = 0;
+  for (const item of Object.values(groupMedicationsByTime(medications, dates)).flat()) {
+    if (item.tabletCount === null || !Number.isInteger(item.tabletCount)) return null;
+    total += item.tabletCount * item.dueDates.length;
+  }
+  return total;
+}
+
+// Compare a pack's tablet count and weight with what the regimen and the patient's previous passed
+// checks of the same regimen say it should be, returning a reason for each outlier
+async function assessPackMeasurements(
+  ctx: QueryCtx,
+  params: {
+    patientId: Id<"patients">;
+    packType: "blister" | "sachets";
+    medications: Doc<"patientMedications">[];
+    dates: string[]; // Days the pack covers
+    medicationCount?: number;
+    packWeight?: number;
+  }
+) {
+  const regimenFingerprint = getRegimenFingerprint(getRegimenSnapshot(params.medications));
+  const history = await ctx.db
+    .query("websterPackChecks")
+    .withIndex("by_patient", (q) => q.eq("patientId", params.patientId))
+    .order("desc")
+    .filter((q) => q.eq(q.field("isActive"), true))
+    .filter((q) => q.eq(q.field("checkStatus"), "passed"))
+    .filter((q) => q.eq(q.field("packType"), params.packType))
+    .filter((q) => q.eq(q.field("regimenFingerprint"), regimenFingerprint))
+    .take(WEIGHT_HISTORY_LIMIT);
+
+  // Fall back to the count recorded on previous checks when doses are not plain tablet counts
+  let expectedTabletCount = getExpectedTabletCount(params.medications, params.dates);
+  if (expectedTabletCount === null) {
+    const counts = history.flatMap((check) => check.medicationCount !== undefined ? [check.medicationCount] : []);
+    if (counts.length >= 2 && counts.every((count) => count === counts[0])) {
+      expectedTabletCount = counts[0];
+    }
   }
 
-  // Check if patient belongs to user's organization
+  const weights = history.flatMap((check) => check.packWeight !== undefined ? [check.packWeight] : []);
+  let typicalWeight: { mean: number; tolerance: number; samples: number } | null = null;
+  if (weights.length >= MIN_WEIGHT_HISTORY) {
+    const mean = weights.reduce((sum, weight) => sum + weight, 0) / weights.length;
+    const standardDeviation = Math.sqrt(weights.reduce((sum, weight) => sum + (weight - mean) ** 2, 0) / weights.length);
+    typicalWeight = {
+      mean: Math.round(mean * 10) / 10,
+      // Three standard deviations, but never tighter than 5% (or half a gram) so scale noise is not flagged
+      tolerance: Math.round(Math.max(3 * standardDeviation, 0.05 * mean, 0.5) * 10) / 10,
+      samples: weights.length,
+    };
+  }
+
+  const anomalies: string[] = [];
+  if (params.medicationCount !== undefined && expectedTabletCount !== null && params.medicationCount !== expectedTabletCount) {
+    anomalies.push(`Medication count ${params.medicationCount} does not match the ${expectedTabletCount} expected from the regimen`);
+  }
+  if (params.packWeight !== undefined && typicalWeight && Math.abs(params.packWeight - typicalWeight.mean) > typicalWeight.tolerance) {
+    anomalies.push(`Pack weight ${params.packWeight}g is outside the usual ${typicalWeight.mean}g ± ${typicalWeight.tolerance}g for this regimen (${typicalWeight.samples} previous checks)`);
+  }
+
+  return { expectedTabletCount, typicalWeight, anomalies };
+}
+
+function formatRegimenProblem(changes: string[]): string {
+  return `Medications changed since this pack was checked and it must be re-checked: ${changes.join("; ")}`;
+}
+
+// Whether a user can see a patient: the patient is in the user's organization, or the user holds an
+// approved, unexpired access grant for them
+export async function checkPatientAccess(ctx: QueryCtx, patientId: Id<"patients">, userProfileId: Id<"userProfiles">) {
+  const patient = await ctx.db.get(patientId);
+  if (!patient) return false;
+
+  const userProfile = await ctx.db.get(userProfileId);
+  if (!userProfile) return false;
+
+  // Same organization always has access
   if (patient.organizationId === userProfile.organizationId) {
     return true;
   }
 
-  // Check if user has been granted access via token access
+  // Check if user has been granted access via token
   const accessGrant = await ctx.db
     .query("tokenAccessGrants")
-    .withIndex("by_grantee")
-    .filter((q: any) => q.eq(q.field("grantedTo"), userProfileId))
-    .filter((q: any) => q.eq(q.field("patientId"), patientId))
-    .filter((q: any) => q.eq(q.field("status"), "approved"))
+    .withIndex("by_patient", (q) => q.eq("patientId", patientId))
+    .filter((q) => q.eq(q.field("grantedTo"), userProfileId))
+    .filter((q) => q.eq(q.field("status"), "approved"))
+    .filter((q) => q.eq(q.field("isActive"), true))
+    .first();
+
+  if (!accessGrant) return false;
+
+  // Check if access has expired
+  if (accessGrant.expiresAt && accessGrant.expiresAt < Date.now()) {
+    return false;
+  }
+
+  return true;
+}
+
+// Find the lifecycle record for a Webster pack within an organization
+async function findWebsterPack(
+  ctx: { db: any },
+  websterPackId: string,
+  organizationId: Id<"organizations">
+): Promise<Doc<"websterPacks"> | null> {
+  return await ctx.db
+    .query("websterPacks")
+    .withIndex("by_webster_pack_id", (q: any) => q.eq("websterPackId", websterPackId))
+    .filter((q: any) => q.eq(q.field("organizationId"), organizationId))
     .filter((q: any) => q.eq(q.field("isActive"), true))
     .first();
+}
 
-  if (accessGrant) {
-    // Check if access has expired
-    if (accessGrant.expiresAt && accessGrant.expiresAt < Date.now()) {
-      return false;
-    }
-    return true;
+// Throw if a Webster pack is not allowed to move to the given status
+function assertPackTransition(pack: Doc<"websterPacks">, toStatus: WebsterPackStatus) {
+  if (!PACK_TRANSITIONS[pack.status].includes(toStatus)) {
+    throw new Error(`Webster pack ${pack.websterPackId} is ${pack.status} and cannot be ${toStatus}`);
   }
+}
 
-  return false;
+// Describe what still stops a passed check from clearing a pack for dispatch, if anything
+function getSignOffProblem(
+  check: Doc<"websterPackChecks">,
+  patient: Doc<"patients"> | null
+): string | null {
+  if (!check.packedBy) {
+    return "Webster pack has no packer recorded and must be re-checked";
+  }
+  if (check.packedBy === check.checkedBy) {
+    return "Webster pack was packed and checked by the same person and must be re-checked by someone else";
+  }
+  if (patient?.requiresSecondCheck && !check.secondCheckedBy) {
+    return "Webster pack requires a second check before dispatch";
+  }
+  return null;
 }
 
-// Create a new Webster pack scan out
-export const createWebsterPackScanOut = mutation({
+// Whether a check was held for review only by count or weight outliers, with everything else verified
+function canAcceptMeasurements(check: Doc<"websterPackChecks">): boolean {
+  const measurementAnomalies = check.measurementAnomalies ?? [];
+  return check.checkStatus === "requires_review" &&
+    !check.measurementReview &&
+    measurementAnomalies.length > 0 &&
+    (check.anomalyReasons ?? []).every((reason) => measurementAnomalies.includes(reason)) &&
+    (check.issueCategories ?? []).length === 0 &&
+    (check.issues ?? []).length === 0 &&
+    !!check.checklist &&
+    check.checklist.every((item) => item.outcome === "verified");
+}
+
+// Move a Webster pack to returned and open a return awaiting a decision on its contents
+export async function recordPackReturn(
+  ctx: MutationCtx,
+  pack: Doc<"websterPacks">,
+  params: {
+    source: Doc<"websterPackReturns">["source"];
+    reason: string;
+    scanOutId?: Id<"websterPackScanOuts">;
+    performedBy: Id<"userProfiles">;
+    performedByOrg: Id<"organizations">;
+  }
+): Promise<Id<"websterPackReturns">> {
+  const scanOutId = params.scanOutId ?? pack.latestScanOutId;
+
+  await transitionWebsterPack(ctx, pack, "returned", {
+    performedBy: params.performedBy,
+    performedByOrg: params.performedByOrg,
+    scanOutId: params.scanOutId,
+    notes: `Returned: ${params.reason}`,
+  });
+
+  // A pack returned while still out for delivery never reached the patient
+  const scanOut = scanOutId ? await ctx.db.get(scanOutId) : null;
+  if (scanOut && scanOut.scanOutStatus === "dispatched") {
+    await ctx.db.patch(scanOut._id, { scanOutStatus: "failed" });
+  }
+
+  return await ctx.db.insert("websterPackReturns", {
+    packId: pack._id,
+    websterPackId: pack.websterPackId,
+    patientId: pack.patientId,
+    organizationId: pack.organizationId,
+    patientName: pack.patientName,
+    source: params.source,
+    reason: params.reason,
+    scanOutId,
+    recordedBy: params.performedBy,
+    recordedAt: Date.now(),
+  });
+}
+
+// Record what happened to a returned pack's contents. Re-used packs go back to packed under
+// the person re-packing them, so they must pass a fresh check before they can be dispatched.
+async function resolvePackReturn(
+  ctx: MutationCtx,
+  pack: Doc<"websterPacks">,
+  params: {
+    disposition: "destroyed" | "reused";
+    notes?: string;
+    performedBy: Id<"userProfiles">;
+    performedByOrg: Id<"organizations">;
+  }
+) {
+  const toStatus: WebsterPackStatus = params.disposition === "reused" ? "packed" : "destroyed";
+  const now = Date.now();
+
+  await transitionWebsterPack(ctx, pack, toStatus, {
+    performedBy: params.performedBy,
+    performedByOrg: params.performedByOrg,
+    notes: params.disposition === "reused"
+      ? `Contents re-used and re-packed${params.notes ? `: ${params.notes}` : ""}`
+      : `Contents destroyed${params.notes ? `: ${params.notes}` : ""}`,
+  });
+
+  if (params.disposition === "reused") {
+    await ctx.db.patch(pack._id, { packedBy: params.performedBy, packedAt: now });
+  }
+
+  const openReturn = await ctx.db
+    .query("websterPackReturns")
+    .withIndex("by_pack", (q) => q.eq("packId", pack._id))
+    .filter((q) => q.eq(q.field("resolvedAt"), undefined))
+    .first();
+
+  if (openReturn) {
+    await ctx.db.patch(openReturn._id, {
+      disposition: params.disposition,
+      dispositionNotes: params.notes,
+      resolvedBy: params.performedBy,
+      resolvedAt: now,
+    });
+  }
+}
+
+// Throw unless an uploaded proof of delivery file is an image of a sensible size
+export async function assertProofOfDeliveryImage(ctx: MutationCtx, storageId: Id<"_storage">) {
+  const file = await ctx.db.system.get(storageId);
+  if (!file) {
+    throw new Error("Proof of delivery upload not found");
+  }
+  if (!file.contentType?.startsWith("image/")) {
+    throw new Error("Proof of delivery must be an image");
+  }
+  if (file.size > 10 * 1024 * 1024) {
+    throw new Error("Proof of delivery image must be less than 10MB");
+  }
+}
+
+// Create a Webster pack lifecycle record in the packed state
+async function recordWebsterPack(
+  ctx: MutationCtx,
+  params: {
+    websterPackId: string;
+    patient: Doc<"patients">;
+    packType: "blister" | "sachets";
+    packWeekStart?: string;
+    performedBy: Id<"userProfiles">;
+    performedByOrg: Id<"organizations">;
+    notes?: string;
+  }
+): Promise<Doc<"websterPacks">> {
+  const now = Date.now();
+
+  const packId = await ctx.db.insert("websterPacks", {
+    websterPackId: params.websterPackId,
+    patientId: params.patient._id,
+    organizationId: params.performedByOrg,
+    packType: params.packType,
+    status: "packed",
+    packWeekStart: params.packWeekStart,
+    patientName: `${params.patient.firstName} ${params.patient.lastName}`,
+    createdBy: params.performedBy,
+    createdAt: now,
+    updatedAt: now,
+    isActive: true,
+  });
+
+  await ctx.db.insert("websterPackEvents", {
+    packId,
+    websterPackId: params.websterPackId,
+    patientId: params.patient._id,
+    toStatus: "packed",
+    notes: params.notes,
+    performedBy: params.performedBy,
+    performedByOrg: params.performedByOrg,
+    performedAt: now,
+  });
+
+  return (await ctx.db.get(packId))!;
+}
+
+// Move a Webster pack to a new status and record the transition in its history
+export async function transitionWebsterPack(
+  ctx: MutationCtx,
+  pack: Doc<"websterPacks">,
+  toStatus: WebsterPackStatus,
+  params: {
+    performedBy: Id<"userProfiles">;
+    performedByOrg: Id<"organizations">;
+    checkId?: Id<"websterPackChecks">;
+    scanOutId?: Id<"websterPackScanOuts">;
+    notes?: string;
+  }
+) {
+  assertPackTransition(pack, toStatus);
+
+  const now = Date.now();
+
+  await ctx.db.patch(pack._id, {
+    status: toStatus,
+    updatedAt: now,
+    ...(params.checkId ? { latestCheckId: params.checkId } : {}),
+    ...(params.scanOutId ? { latestScanOutId: params.scanOutId } : {}),
+  });
+
+  await ctx.db.insert("websterPackEvents", {
+    packId: pack._id,
+    websterPackId: pack.websterPackId,
+    patientId: pack.patientId,
+    fromStatus: pack.status,
+    toStatus,
+    checkId: params.checkId,
+    scanOutId: params.scanOutId,
+    notes: params.notes,
+    performedBy: params.performedBy,
+    performedByOrg: params.performedByOrg,
+    performedAt: now,
+  });
+}
+
+// Issue new Webster pack IDs for a patient, one per pack week, ready for label printing
+export const issueWebsterPacks = mutation({
   args: {
     patientId: v.id("patients"),
-    websterPackId: v.string(),
     packType: v.union(v.literal("blister"), v.literal("sachets")),
-    numberOfPacks: v.optional(v.number()),
-    memberInitials: v.optional(v.string()),
-    deliveryMethod: v.union(
-      v.literal("pickup"),
-      v.literal("delivery"),
-      v.literal("courier")
-    ),
-    deliveryAddress: v.optional(v.string()),
-    deliveryNotes: v.optional(v.string()),
-    scanOutStatus: v.union(
-      v.literal("dispatched"),
-      v.literal("collected"),
-      v.literal("failed")
-    ),
-    notes: v.optional(v.string()),
-    recipientName: v.optional(v.string()),
-    recipientSignature: v.optional(v.string()),
+    firstPackWeekStart: v.string(), // YYYY-MM-DD
+    numberOfPacks: v.number(),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -559,7 +1293,7 @@ export const createWebsterPackScanOut = mutation({
     // Get organization to verify it's a pharmacy
     const organization = await ctx.db.get(userProfile.organizationId);
     if (!organization || organization.type !== "pharmacy") {
-      throw new Error("Webster pack scan out is only available to pharmacy organizations");
+      throw new Error("Webster pack labels are only available to pharmacy organizations");
     }
 
     // Get patient details
@@ -571,33 +1305,691 @@ export const createWebsterPackScanOut = mutation({
     // Check if user has access to this patient
     const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
     if (!hasAccess) {
-      throw new Error("Access denied: You don't have permission to scan out packs for this patient");
+      throw new Error("Access denied: You don't have permission to issue packs for this patient");
     }
 
-    const now = Date.now();
+    if (args.numberOfPacks < 1 || args.numberOfPacks > 12) {
+      throw new Error("Between 1 and 12 packs can be issued at a time");
+    }
 
-    // Create the Webster pack scan out record
-    const scanOutId = await ctx.db.insert("websterPackScanOuts", {
-      patientId: args.patientId,
-      websterPackId: args.websterPackId,
-      packType: args.packType,
-      numberOfPacks: args.numberOfPacks || 1,
-      memberInitials: args.memberInitials || "",
-      deliveryMethod: args.deliveryMethod,
-      deliveryAddress: args.deliveryAddress,
-      deliveryNotes: args.deliveryNotes,
-      scanOutStatus: args.scanOutStatus,
-      notes: args.notes,
-      recipientName: args.recipientName,
-      recipientSignature: args.recipientSignature,
-      scannedOutBy: userProfile._id,
-      scannedOutByOrg: userProfile.organizationId,
+    const firstWeek = new Date(`${args.firstPackWeekStart}T00:00:00Z`);
+    if (isNaN(firstWeek.getTime())) {
+      throw new Error("Pack week start must be a valid date");
+    }
+
+    const issuedPacks = [];
+    for (let i = 0; i < args.numberOfPacks; i++) {
+      // Ensure the pack ID is unique
+      let websterPackId = generateWebsterPackId();
+      while (await ctx.db.query("websterPacks").withIndex("by_webster_pack_id", (q) => q.eq("websterPackId", websterPackId)).first()) {
+        websterPackId = generateWebsterPackId();
+      }
+
+      const packWeek = new Date(firstWeek.getTime() + i * 7 * 24 * 60 * 60 * 1000);
+      const packWeekStart = packWeek.toISOString().split("T")[0];
+
+      const pack = await recordWebsterPack(ctx, {
+        websterPackId,
+        patient,
+        packType: args.packType,
+        packWeekStart,
+        performedBy: userProfile._id,
+        performedByOrg: userProfile.organizationId,
+        notes: "Label issued",
+      });
+
+      issuedPacks.push({
+        websterPackId: pack.websterPackId,
+        packWeekStart,
+        packType: pack.packType,
+      });
+    }
+
+    return {
+      patientName: `${patient.firstName} ${patient.lastName}`,
+      patientShareToken: patient.shareToken,
+      packs: issuedPacks,
+    };
+  },
+});
+
+// Get Webster packs that have been issued but not yet checked (for label reprints)
+export const getPatientIssuedWebsterPacks = query({
+  args: {
+    patientId: v.id("patients"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Check if user has access to this patient
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      return []; // Return empty array instead of throwing
+    }
+
+    return await ctx.db
+      .query("websterPacks")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .filter((q) => q.eq(q.field("organizationId"), userProfile.organizationId))
+      .filter((q) => q.eq(q.field("status"), "packed"))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .order("desc")
+      .take(50);
+  },
+});
+
+// Move a Webster pack to collected, returned, destroyed or back to packed (re-use after return).
+// Checking and dispatch go through createWebsterPackCheck and createWebsterPackScanOut.
+export const updateWebsterPackStatus = mutation({
+  args: {
+    websterPackId: v.string(),
+    status: v.union(
+      v.literal("packed"),
+      v.literal("collected"),
+      v.literal("returned"),
+      v.literal("destroyed")
+    ),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    const pack = await findWebsterPack(ctx, args.websterPackId, userProfile.organizationId);
+    if (!pack) {
+      throw new Error(`Webster pack ${args.websterPackId} not found`);
+    }
+
+    // Returns and their outcome go through the returns workflow
+    if (args.status === "returned") {
+      if (!args.notes?.trim()) {
+        throw new Error("A reason is required to return a Webster pack");
+      }
+      await recordPackReturn(ctx, pack, {
+        source: "patient_return",
+        reason: args.notes.trim(),
+        performedBy: userProfile._id,
+        performedByOrg: userProfile.organizationId,
+      });
+    } else if (pack.status === "returned" && args.status !== "collected") {
+      await resolvePackReturn(ctx, pack, {
+        disposition: args.status === "packed" ? "reused" : "destroyed",
+        notes: args.notes?.trim() || undefined,
+        performedBy: userProfile._id,
+        performedByOrg: userProfile.organizationId,
+      });
+    } else {
+      await transitionWebsterPack(ctx, pack, args.status, {
+        performedBy: userProfile._id,
+        performedByOrg: userProfile.organizationId,
+        notes: args.notes,
+      });
+    }
+
+    let commentContent = `Webster pack ${args.websterPackId} marked as ${args.status}`;
+    if (args.notes) {
+      commentContent += `\nNotes: ${args.notes}`;
+    }
+
+    await ctx.db.insert("patientComments", {
+      patientId: pack.patientId,
+      authorId: userProfile._id,
+      authorOrg: userProfile.organizationId,
+      content: commentContent,
+      commentType: "system",
+      isPrivate: false,
+      isActive: true,
+      createdAt: Date.now(),
+    });
+
+    return pack._id;
+  },
+});
+
+// Decide what happens to a returned pack's contents: re-use them (back to packed for a fresh check) or destroy them
+export const resolveWebsterPackReturn = mutation({
+  args: {
+    returnId: v.id("websterPackReturns"),
+    disposition: v.union(v.literal("destroyed"), v.literal("reused")),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    const packReturn = await ctx.db.get(args.returnId);
+    if (!packReturn || packReturn.organizationId !== userProfile.organizationId) {
+      throw new Error("Return not found");
+    }
+
+    if (packReturn.resolvedAt) {
+      throw new Error(`Return for Webster pack ${packReturn.websterPackId} has already been resolved`);
+    }
+
+    const pack = await ctx.db.get(packReturn.packId);
+    if (!pack) {
+      throw new Error(`Webster pack ${packReturn.websterPackId} not found`);
+    }
+
+    const notes = args.notes?.trim() || undefined;
+    await resolvePackReturn(ctx, pack, {
+      disposition: args.disposition,
+      notes,
+      performedBy: userProfile._id,
+      performedByOrg: userProfile.organizationId,
+    });
+
+    let commentContent = args.disposition === "reused"
+      ? `Returned Webster pack ${pack.websterPackId} re-packed for re-use and awaiting a new check`
+      : `Returned Webster pack ${pack.websterPackId} destroyed`;
+    if (notes) {
+      commentContent += `\nNotes: ${notes}`;
+    }
+
+    await ctx.db.insert("patientComments", {
+      patientId: pack.patientId,
+      authorId: userProfile._id,
+      authorOrg: userProfile.organizationId,
+      content: commentContent,
+      commentType: "system",
+      isPrivate: false,
+      isActive: true,
+      createdAt: Date.now(),
+    });
+
+    return pack._id;
+  },
+});
+
+// Get returned packs still waiting on a destroy or re-use decision
+export const getOutstandingReturns = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return [];
+    }
+
+    const organizationId = userProfile.organizationId;
+    const openReturns = await ctx.db
+      .query("websterPackReturns")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .filter((q) => q.eq(q.field("resolvedAt"), undefined))
+      .collect();
+
+    const returnsWithDetails = await Promise.all(
+      openReturns.map(async (packReturn) => {
+        const recorder = await ctx.db.get(packReturn.recordedBy);
+        return {
+          ...packReturn,
+          recordedByName: recorder ? `${recorder.firstName} ${recorder.lastName}` : "Unknown User",
+        };
+      })
+    );
+
+    return returnsWithDetails.sort((a, b) => a.recordedAt - b.recordedAt);
+  },
+});
+
+// Generate an upload URL for a proof of delivery signature or photo
+export const generateProofOfDeliveryUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    // Get organization to verify it's a pharmacy
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization || organization.type !== "pharmacy") {
+      throw new Error("Proof of delivery is only available to pharmacy organizations");
+    }
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Sign off a Webster pack as packed by the current user
+export const signOffWebsterPackPacking = mutation({
+  args: {
+    websterPackId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    const pack = await findWebsterPack(ctx, args.websterPackId, userProfile.organizationId);
+    if (!pack) {
+      throw new Error(`Webster pack ${args.websterPackId} not found`);
+    }
+    if (pack.status !== "packed") {
+      throw new Error(`Webster pack ${args.websterPackId} is ${pack.status} and can no longer be signed off as packed`);
+    }
+    if (pack.packedBy && pack.packedBy !== userProfile._id) {
+      throw new Error(`Webster pack ${args.websterPackId} has already been signed off by another packer`);
+    }
+
+    await ctx.db.patch(pack._id, {
+      packedBy: userProfile._id,
+      packedAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    return pack._id;
+  },
+});
+
+// Record the second independent check required for high-risk patients
+export const signOffWebsterPackSecondCheck = mutation({
+  args: {
+    websterPackId: v.string(),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    const pack = await findWebsterPack(ctx, args.websterPackId, userProfile.organizationId);
+    if (!pack) {
+      throw new Error(`Webster pack ${args.websterPackId} not found`);
+    }
+
+    const latestCheck = pack.latestCheckId ? await ctx.db.get(pack.latestCheckId) : null;
+    if (pack.status !== "checked" || !latestCheck || latestCheck.checkStatus !== "passed") {
+      throw new Error(`Webster pack ${args.websterPackId} must pass its quality check before a second check`);
+    }
+
+    const patient = await ctx.db.get(pack.patientId);
+    if (!patient?.requiresSecondCheck) {
+      throw new Error(`${pack.patientName} does not require a second check`);
+    }
+    if (latestCheck.secondCheckedBy) {
+      throw new Error(`Webster pack ${args.websterPackId} has already had its second check`);
+    }
+    if (latestCheck.packedBy === userProfile._id || latestCheck.checkedBy === userProfile._id) {
+      throw new Error("The second check must be done by someone other than the packer and the first checker");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(latestCheck._id, {
+      secondCheckedBy: userProfile._id,
+      secondCheckedAt: now,
+      secondCheckNotes: args.notes?.trim() || undefined,
+    });
+
+    await transitionWebsterPack(ctx, pack, "checked", {
+      performedBy: userProfile._id,
+      performedByOrg: userProfile.organizationId,
+      checkId: latestCheck._id,
+      notes: args.notes?.trim() ? `Second check signed off: ${args.notes.trim()}` : "Second check signed off",
+    });
+
+    return latestCheck._id;
+  },
+});
+
+// Accept count or weight outliers that held an otherwise passing check for review
+export const acceptWebsterPackMeasurements = mutation({
+  args: {
+    websterPackId: v.string(),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    const pack = await findWebsterPack(ctx, args.websterPackId, userProfile.organizationId);
+    if (!pack) {
+      throw new Error(`Webster pack ${args.websterPackId} not found`);
+    }
+
+    const latestCheck = pack.latestCheckId ? await ctx.db.get(pack.latestCheckId) : null;
+    if (pack.status !== "checked" || !latestCheck || !canAcceptMeasurements(latestCheck)) {
+      throw new Error(`Webster pack ${args.websterPackId} is not held for measurements alone`);
+    }
+    if (latestCheck.packedBy === userProfile._id || latestCheck.checkedBy === userProfile._id) {
+      throw new Error("Measurements must be accepted by someone other than the packer and the checker");
+    }
+
+    const reason = args.reason.trim();
+    if (!reason) {
+      throw new Error("Enter why the measurements are correct");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(latestCheck._id, {
+      checkStatus: "passed",
+      measurementReview: {
+        reason,
+        reviewedBy: userProfile._id,
+        reviewedAt: now,
+      },
+    });
+
+    await transitionWebsterPack(ctx, pack, "checked", {
+      performedBy: userProfile._id,
+      performedByOrg: userProfile.organizationId,
+      checkId: latestCheck._id,
+      notes: `Measurements accepted: ${reason}`,
+    });
+
+    return latestCheck._id;
+  },
+});
+
+// Get the full lifecycle history of a Webster pack
+export const getWebsterPackHistory = query({
+  args: {
+    websterPackId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return null; // Return null instead of throwing
+    }
+
+    const pack = await findWebsterPack(ctx, args.websterPackId, userProfile.organizationId);
+    if (!pack) {
+      return null;
+    }
+
+    const events = await ctx.db
+      .query("websterPackEvents")
+      .withIndex("by_pack", (q) => q.eq("packId", pack._id))
+      .order("asc")
+      .collect();
+
+    // Attach the performer and any check or scan out recorded with each transition
+    const eventsWithDetails = await Promise.all(
+      events.map(async (event) => {
+        const performer = await ctx.db.get(event.performedBy);
+        const check = event.checkId ? await ctx.db.get(event.checkId) : null;
+        const scanOut = event.scanOutId ? await ctx.db.get(event.scanOutId) : null;
+
+        return {
+          ...event,
+          performerName: performer ? `${performer.firstName} ${performer.lastName}` : "Unknown User",
+          check,
+          scanOut,
+        };
+      })
+    );
+
+    const patient = await ctx.db.get(pack.patientId);
+    const packer = pack.packedBy ? await ctx.db.get(pack.packedBy) : null;
+    const latestCheck = pack.latestCheckId ? await ctx.db.get(pack.latestCheckId) : null;
+    const hasPassedCheck = pack.status === "checked" && latestCheck?.checkStatus === "passed";
+    const regimenChanges = hasPassedCheck ? await getRegimenChangesSinceCheck(ctx, latestCheck!) : [];
+
+    return {
+      pack,
+      patientShareToken: patient?.shareToken || "",
+      packerName: packer ? `${packer.firstName} ${packer.lastName}` : undefined,
+      requiresSecondCheck: patient?.requiresSecondCheck ?? false,
+      signOffProblem: hasPassedCheck
+        ? getSignOffProblem(latestCheck!, patient) ?? (regimenChanges.length > 0 ? formatRegimenProblem(regimenChanges) : null)
+        : null,
+      regimenChanges,
+      canSignOffPacking: pack.status === "packed" && !pack.packedBy,
+      canSignOffSecondCheck: hasPassedCheck &&
+        !!patient?.requiresSecondCheck &&
+        !latestCheck!.secondCheckedBy &&
+        latestCheck!.packedBy !== userProfile._id &&
+        latestCheck!.checkedBy !== userProfile._id,
+      canAcceptMeasurements: pack.status === "checked" &&
+        !!latestCheck &&
+        canAcceptMeasurements(latestCheck) &&
+        latestCheck.packedBy !== userProfile._id &&
+        latestCheck.checkedBy !== userProfile._id,
+      allowedTransitions: PACK_TRANSITIONS[pack.status],
+      events: eventsWithDetails,
+    };
+  },
+});
+
+// Create a new Webster pack scan out
+export const createWebsterPackScanOut = mutation({
+  args: {
+    patientId: v.id("patients"),
+    websterPackId: v.string(),
+    packType: v.union(v.literal("blister"), v.literal("sachets")),
+    numberOfPacks: v.optional(v.number()),
+    memberInitials: v.optional(v.string()),
+    deliveryMethod: v.union(
+      v.literal("pickup"),
+      v.literal("delivery"),
+      v.literal("courier")
+    ),
+    deliveryAddress: v.optional(v.string()),
+    deliveryNotes: v.optional(v.string()),
+    scanOutStatus: v.union(
+      v.literal("dispatched"),
+      v.literal("collected"),
+      v.literal("failed")
+    ),
+    notes: v.optional(v.string()),
+    recipientName: v.optional(v.string()),
+    recipientSignature: v.optional(v.string()),
+    // Proof of collection uploaded with generateProofOfDeliveryUploadUrl
+    signatureStorageId: v.optional(v.id("_storage")),
+    photoStorageId: v.optional(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    // Get organization to verify it's a pharmacy
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization || organization.type !== "pharmacy") {
+      throw new Error("Webster pack scan out is only available to pharmacy organizations");
+    }
+
+    // Get patient details
+    const patient = await ctx.db.get(args.patientId);
+    if (!patient) {
+      throw new Error("Patient not found");
+    }
+
+    // Check if user has access to this patient
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      throw new Error("Access denied: You don't have permission to scan out packs for this patient");
+    }
+
+    // The pack must have a lifecycle record belonging to this patient with a passed latest check
+    const pack = await findWebsterPack(ctx, args.websterPackId, userProfile.organizationId);
+    if (!pack) {
+      throw new Error(`Webster pack ${args.websterPackId} has not been checked yet`);
+    }
+    if (pack.patientId !== args.patientId) {
+      throw new Error(`Webster pack ${args.websterPackId} is assigned to a different patient: ${pack.patientName}`);
+    }
+
+    // A failed scan out sends the pack to returns, so it is checked again before another dispatch
+    const toStatus: WebsterPackStatus = args.scanOutStatus === "failed" ? "returned" : args.scanOutStatus;
+    assertPackTransition(pack, toStatus);
+
+    const latestCheck = pack.latestCheckId ? await ctx.db.get(pack.latestCheckId) : null;
+    if (!latestCheck || latestCheck.checkStatus !== "passed") {
+      throw new Error(`Webster pack ${args.websterPackId} has not passed its quality check`);
+    }
+    const signOffProblem = getSignOffProblem(latestCheck, patient);
+    if (signOffProblem) {
+      throw new Error(signOffProblem);
+    }
+
+    // The regimen must still match what the checker verified, except when recording a failed hand-over
+    if (args.scanOutStatus !== "failed") {
+      const regimenChanges = await getRegimenChangesSinceCheck(ctx, latestCheck);
+      if (regimenChanges.length > 0) {
+        throw new Error(formatRegimenProblem(regimenChanges));
+      }
+    }
+
+    if (args.signatureStorageId) await assertProofOfDeliveryImage(ctx, args.signatureStorageId);
+    if (args.photoStorageId) await assertProofOfDeliveryImage(ctx, args.photoStorageId);
+    const hasProof = !!(args.signatureStorageId || args.photoStorageId);
+
+    const now = Date.now();
+
+    // Create the Webster pack scan out record
+    const scanOutId = await ctx.db.insert("websterPackScanOuts", {
+      patientId: args.patientId,
+      packId: pack._id,
+      websterPackId: args.websterPackId,
+      packType: args.packType,
+      numberOfPacks: args.numberOfPacks || 1,
+      memberInitials: args.memberInitials || "",
+      deliveryMethod: args.deliveryMethod,
+      deliveryAddress: args.deliveryAddress,
+      deliveryNotes: args.deliveryNotes,
+      scanOutStatus: args.scanOutStatus,
+      notes: args.notes,
+      recipientName: args.recipientName,
+      recipientSignature: args.recipientSignature,
+      signatureStorageId: args.signatureStorageId,
+      photoStorageId: args.photoStorageId,
+      proofCapturedBy: hasProof ? userProfile._id : undefined,
+      proofCapturedAt: hasProof ? now : undefined,
+      scannedOutBy: userProfile._id,
+      scannedOutByOrg: userProfile.organizationId,
       scannedOutAt: now,
       patientName: `${patient.firstName} ${patient.lastName}`,
       patientShareToken: patient.shareToken,
       isActive: true,
     });
 
+    if (args.scanOutStatus === "failed") {
+      await recordPackReturn(ctx, pack, {
+        source: "failed_scan_out",
+        reason: args.notes?.trim() || "Scan out failed",
+        scanOutId,
+        performedBy: userProfile._id,
+        performedByOrg: userProfile.organizationId,
+      });
+    } else {
+      await transitionWebsterPack(ctx, pack, toStatus, {
+        performedBy: userProfile._id,
+        performedByOrg: userProfile.organizationId,
+        scanOutId,
+        notes: `Scanned out via ${args.deliveryMethod}`,
+      });
+    }
+
     // Log the scan out in patient comments
     const statusText = args.scanOutStatus === "dispatched" ? "dispatched" : 
                       args.scanOutStatus === "collected" ? "collected" : "failed to dispatch";
@@ -662,6 +2054,7 @@ export const getWebsterScanOutStats = query({
     const totalScanOuts = allScanOuts.length;
     const dispatchedCount = allScanOuts.filter(s => s.scanOutStatus === "dispatched").length;
     const collectedCount = allScanOuts.filter(s => s.scanOutStatus === "collected").length;
+    const deliveredCount = allScanOuts.filter(s => s.scanOutStatus === "delivered").length;
     const failedCount = allScanOuts.filter(s => s.scanOutStatus === "failed").length;
     
     // Today's scan outs
@@ -678,10 +2071,11 @@ export const getWebsterScanOutStats = query({
       totalScanOuts,
       dispatchedCount,
       collectedCount,
+      deliveredCount,
       failedCount,
       todayScanOuts,
       weekScanOuts,
-      successRate: totalScanOuts > 0 ? Math.round(((dispatchedCount + collectedCount) / totalScanOuts) * 100) : 0,
+      successRate: totalScanOuts > 0 ? Math.round(((dispatchedCount + collectedCount + deliveredCount) / totalScanOuts) * 100) : 0,
     };
   },
 });
@@ -732,6 +2126,8 @@ export const getPatientWebsterScanOuts = query({
           ...scanOut,
           scannerName: scanner ? `${scanner.firstName} ${scanner.lastName}` : "Unknown User",
           scannerOrganization: scannerOrg?.name || "Unknown Organization",
+          signatureUrl: scanOut.signatureStorageId ? await ctx.storage.getUrl(scanOut.signatureStorageId) : null,
+          photoUrl: scanOut.photoStorageId ? await ctx.storage.getUrl(scanOut.photoStorageId) : null,
         };
       })
     );
@@ -832,51 +2228,119 @@ export const getWebsterPackCheckStatus = query({
       };
     }
 
-    // Find the most recent check for this Webster pack
-    const websterCheck = await ctx.db
-      .query("websterPackChecks")
-      .withIndex("by_webster_pack_id")
-      .filter((q) => q.eq(q.field("websterPackId"), args.websterPackId))
-      .filter((q) => q.eq(q.field("checkedByOrg"), userProfile.organizationId))
-      .filter((q) => q.eq(q.field("isActive"), true))
-      .order("desc")
-      .first();
+    // Find the lifecycle record for this Webster pack
+    const pack = await findWebsterPack(ctx, args.websterPackId, userProfile.organizationId);
+
+    if (!pack) {
+      // Packs checked before lifecycle tracking have checks but no pack record
+      const legacyCheck = await ctx.db
+        .query("websterPackChecks")
+        .withIndex("by_webster_pack_id", (q) => q.eq("websterPackId", args.websterPackId))
+        .filter((q) => q.eq(q.field("checkedByOrg"), userProfile.organizationId))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .first();
 
-    if (!websterCheck) {
       return {
         isChecked: false,
         canScanOut: false,
-        message: "Webster pack has not been checked yet",
+        message: legacyCheck
+          ? "Webster pack was checked before pack tracking was enabled and must be re-checked"
+          : "Webster pack has not been checked yet",
       };
     }
 
+    const websterCheck = pack.latestCheckId ? await ctx.db.get(pack.latestCheckId) : null;
+
+    // Pack and patient details so a scanned pack can be resolved without searching for the patient
+    const packPatient = await ctx.db.get(pack.patientId);
+    const packer = pack.packedBy ? await ctx.db.get(pack.packedBy) : null;
+    const packDetails = {
+      websterPackId: pack.websterPackId,
+      packType: pack.packType,
+      packWeekStart: pack.packWeekStart,
+      packedBy: packer ? {
+        _id: packer._id,
+        name: `${packer.firstName} ${packer.lastName}`,
+      } : undefined,
+      requiresSecondCheck: packPatient?.requiresSecondCheck ?? false,
+      patient: packPatient && packPatient.isActive ? {
+        _id: packPatient._id,
+        name: `${packPatient.firstName} ${packPatient.lastName}`,
+        shareToken: packPatient.shareToken,
+        preferredPack: packPatient.preferredPack,
+      } : undefined,
+    };
+
     // If patientId is provided, check if it matches the pack's assigned patient
-    if (args.patientId && websterCheck.patientId !== args.patientId) {
+    if (args.patientId && pack.patientId !== args.patientId) {
       return {
-        isChecked: true,
+        isChecked: websterCheck !== null,
         canScanOut: false,
-        message: `Webster pack is assigned to a different customer: ${websterCheck.patientName}`,
-        checkDetails: {
+        packStatus: pack.status,
+        packDetails,
+        message: `Webster pack is assigned to a different customer: ${pack.patientName}`,
+        checkDetails: websterCheck ? {
           checkStatus: websterCheck.checkStatus,
           checkedAt: websterCheck.checkedAt,
           checkedBy: websterCheck.checkedBy,
           patientName: websterCheck.patientName,
           notes: websterCheck.notes,
           patientId: websterCheck.patientId, // Include the correct patient ID
-        },
+        } : undefined,
+      };
+    }
+
+    // Only checked packs can leave the pharmacy
+    if (pack.status !== "checked") {
+      const statusMessages: Record<WebsterPackStatus, string> = {
+        packed: "Webster pack has not been checked yet",
+        checked: "",
+        dispatched: "Webster pack has already been dispatched",
+        collected: "Webster pack has already been collected",
+        returned: "Webster pack was returned and must be re-checked before dispatch",
+        destroyed: "Webster pack was destroyed and cannot be scanned out",
+      };
+
+      return {
+        isChecked: websterCheck !== null,
+        canScanOut: false,
+        packStatus: pack.status,
+        packDetails,
+        message: statusMessages[pack.status],
+      };
+    }
+
+    if (!websterCheck) {
+      return {
+        isChecked: false,
+        canScanOut: false,
+        packStatus: pack.status,
+        packDetails,
+        message: "Webster pack has not been checked yet",
       };
     }
 
-    // Check if the pack passed the quality check
+    // Check if the pack passed the quality check and has every sign-off it needs
     if (websterCheck.checkStatus === "passed") {
+      const signOffProblem = getSignOffProblem(websterCheck, packPatient);
+      const regimenChanges = await getRegimenChangesSinceCheck(ctx, websterCheck);
       return {
         isChecked: true,
-        canScanOut: true,
-        message: "Webster pack has passed quality check",
+        canScanOut: signOffProblem === null && regimenChanges.length === 0,
+        packStatus: pack.status,
+        packDetails,
+        message: signOffProblem ??
+          (regimenChanges.length > 0
+            ? "Medications changed since this pack was checked. Re-check the pack before dispatch."
+            : "Webster pack has passed quality check"),
+        regimenChanges,
         checkDetails: {
           checkStatus: websterCheck.checkStatus,
           checkedAt: websterCheck.checkedAt,
           checkedBy: websterCheck.checkedBy,
+          packedBy: websterCheck.packedBy,
+          secondCheckedBy: websterCheck.secondCheckedBy,
+          secondCheckedAt: websterCheck.secondCheckedAt,
           patientName: websterCheck.patientName,
           notes: websterCheck.notes,
           patientId: websterCheck.patientId,
@@ -886,6 +2350,8 @@ export const getWebsterPackCheckStatus = query({
       return {
         isChecked: true,
         canScanOut: false,
+        packStatus: pack.status,
+        packDetails,
         message: "Webster pack failed quality check and cannot be scanned out",
         checkDetails: {
           checkStatus: websterCheck.checkStatus,
@@ -901,6 +2367,8 @@ export const getWebsterPackCheckStatus = query({
       return {
         isChecked: true,
         canScanOut: false,
+        packStatus: pack.status,
+        packDetails,
         message: "Webster pack requires review before scan out",
         checkDetails: {
           checkStatus: websterCheck.checkStatus,
@@ -914,4 +2382,365 @@ export const getWebsterPackCheckStatus = query({
       };
     }
   },
-}); 
\ No newline at end of file
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days between pack cycles for each schedule frequency. Each cycle supplies one pack per week.
+const CYCLE_LENGTH_DAYS: Record<Doc<"packSchedules">["frequency"], number> = {
+  weekly: 7,
+  fortnightly: 14,
+  every_28_days: 28,
+};
+
+// Parse a YYYY-MM-DD calendar date to a UTC timestamp
+function parseCalendarDate(date: string): number {
+  const time = Date.parse(`${date}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(time)) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+  return time;
+}
+
+export function formatCalendarDate(time: number): string {
+  return new Date(time).toISOString().split("T")[0];
+}
+
+// How far back before the current cycle packs that never went out are still listed as overdue
+const OVERDUE_LOOKBACK_DAYS = 28;
+
+// Start dates of the schedule's cycles that fall within [fromDate, toDate]
+function getCycleStartDates(schedule: Doc<"packSchedules">, fromDate: string, toDate: string): string[] {
+  const cycleLength = CYCLE_LENGTH_DAYS[schedule.frequency] * DAY_MS;
+  const anchor = parseCalendarDate(schedule.cycleStartDate);
+  const from = Math.max(parseCalendarDate(fromDate), anchor);
+  const to = parseCalendarDate(toDate);
+
+  const cycleStarts: string[] = [];
+  for (let time = anchor + Math.ceil((from - anchor) / cycleLength) * cycleLength; time <= to; time += cycleLength) {
+    cycleStarts.push(formatCalendarDate(time));
+  }
+  return cycleStarts;
+}
+
+// Create or update the pack schedule for a patient
+export const setPackSchedule = mutation({
+  args: {
+    patientId: v.id("patients"),
+    frequency: v.union(
+      v.literal("weekly"),
+      v.literal("fortnightly"),
+      v.literal("every_28_days")
+    ),
+    startWeekday: v.number(), // 0 = Sunday ... 6 = Saturday
+    cycleStartDate: v.string(), // YYYY-MM-DD - moved forward to the start weekday if needed
+    packType: v.union(v.literal("blister"), v.literal("sachets")),
+    leadDays: v.number(),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    // Get organization to verify it's a pharmacy
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization || organization.type !== "pharmacy") {
+      throw new Error("Pack schedules are only available to pharmacy organizations");
+    }
+
+    // Check if user has access to this patient
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      throw new Error("Access denied: You don't have permission to schedule packs for this patient");
+    }
+
+    if (!Number.isInteger(args.startWeekday) || args.startWeekday < 0 || args.startWeekday > 6) {
+      throw new Error("Start weekday must be between 0 (Sunday) and 6 (Saturday)");
+    }
+
+    if (!Number.isInteger(args.leadDays) || args.leadDays < 0 || args.leadDays > 14) {
+      throw new Error("Packing lead time must be between 0 and 14 days");
+    }
+
+    // Align the first cycle to the chosen weekday
+    const requestedStart = parseCalendarDate(args.cycleStartDate);
+    const daysToWeekday = (args.startWeekday - new Date(requestedStart).getUTCDay() + 7) % 7;
+    const cycleStartDate = formatCalendarDate(requestedStart + daysToWeekday * DAY_MS);
+
+    const now = Date.now();
+    const scheduleFields = {
+      frequency: args.frequency,
+      startWeekday: args.startWeekday,
+      cycleStartDate,
+      packType: args.packType,
+      leadDays: args.leadDays,
+      notes: args.notes?.trim() || undefined,
+      updatedAt: now,
+    };
+
+    const existingSchedule = await ctx.db
+      .query("packSchedules")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .filter((q) => q.eq(q.field("organizationId"), userProfile.organizationId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .first();
+
+    if (existingSchedule) {
+      await ctx.db.patch(existingSchedule._id, scheduleFields);
+      return existingSchedule._id;
+    }
+
+    return await ctx.db.insert("packSchedules", {
+      patientId: args.patientId,
+      organizationId: userProfile.organizationId,
+      ...scheduleFields,
+      createdBy: userProfile._id,
+      createdAt: now,
+      isActive: true,
+    });
+  },
+});
+
+// Stop the recurring pack schedule for a patient
+export const removePackSchedule = mutation({
+  args: {
+    patientId: v.id("patients"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      throw new Error("User must be part of an organization");
+    }
+
+    const schedule = await ctx.db
+      .query("packSchedules")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .filter((q) => q.eq(q.field("organizationId"), userProfile.organizationId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .first();
+
+    if (!schedule) {
+      throw new Error("Patient does not have a pack schedule");
+    }
+
+    await ctx.db.patch(schedule._id, {
+      isActive: false,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Get a patient's pack schedule with its upcoming cycles
+export const getPatientPackSchedule = query({
+  args: {
+    patientId: v.id("patients"),
+    date: v.string(), // YYYY-MM-DD - today in the pharmacy's time zone
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return null; // Return null instead of throwing
+    }
+
+    // Check if user has access to this patient
+    const hasAccess = await checkPatientAccess(ctx, args.patientId, userProfile._id);
+    if (!hasAccess) {
+      return null; // Return null instead of throwing
+    }
+
+    const schedule = await ctx.db
+      .query("packSchedules")
+      .withIndex("by_patient", (q) => q.eq("patientId", args.patientId))
+      .filter((q) => q.eq(q.field("organizationId"), userProfile.organizationId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .first();
+
+    if (!schedule || !isCalendarDate(args.date)) {
+      return null;
+    }
+
+    const cycleLengthDays = CYCLE_LENGTH_DAYS[schedule.frequency];
+    const upcomingCycles = getCycleStartDates(
+      schedule,
+      args.date,
+      formatCalendarDate(parseCalendarDate(args.date) + cycleLengthDays * 4 * DAY_MS)
+    ).slice(0, 4);
+
+    return {
+      ...schedule,
+      upcomingCycles,
+    };
+  },
+});
+
+// Packs due to be packed, checked and dispatched on a given day, worked out from each
+// patient's schedule and the lifecycle of the packs already issued for each pack week
+export const getPacksDue = query({
+  args: {
+    date: v.string(), // YYYY-MM-DD
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get user profile to find organization
+    const userProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!userProfile || !userProfile.organizationId) {
+      return []; // Return empty array instead of throwing
+    }
+
+    // Get organization to verify it's a pharmacy
+    const organization = await ctx.db.get(userProfile.organizationId);
+    if (!organization || organization.type !== "pharmacy") {
+      return []; // Return empty array instead of throwing
+    }
+
+    const date = parseCalendarDate(args.date);
+
+    const schedules = await ctx.db
+      .query("packSchedules")
+      .withIndex("by_organization", (q) => q.eq("organizationId", userProfile.organizationId!))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const packsDue = [];
+    for (const schedule of schedules) {
+      const patient = await ctx.db.get(schedule.patientId);
+      if (!patient || !patient.isActive) {
+        continue;
+      }
+
+      // The current cycle, any cycle whose packing window has opened, and earlier cycles from the
+      // last few weeks whose packs never went out (they are overdue). Cycles that were already
+      // over when the schedule was set up are left out.
+      const cycleLengthDays = CYCLE_LENGTH_DAYS[schedule.frequency];
+      const scheduleCreated = parseCalendarDate(formatCalendarDate(schedule.createdAt));
+      const cycleStarts = getCycleStartDates(
+        schedule,
+        formatCalendarDate(Math.max(
+          date - (cycleLengthDays - 1 + OVERDUE_LOOKBACK_DAYS) * DAY_MS,
+          scheduleCreated - (cycleLengthDays - 1) * DAY_MS
+        )),
+        formatCalendarDate(date + schedule.leadDays * DAY_MS)
+      );
+      if (cycleStarts.length === 0) {
+        continue;
+      }
+
+      // Packs already issued for this patient, keyed by the week they cover
+      const patientPacks = await ctx.db
+        .query("websterPacks")
+        .withIndex("by_patient", (q) => q.eq("patientId", schedule.patientId))
+        .filter((q) => q.eq(q.field("organizationId"), userProfile.organizationId))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .filter((q) => q.neq(q.field("status"), "destroyed"))
+        .collect();
+
+      const packsByWeek = new Map<string, Doc<"websterPacks">>();
+      for (const pack of patientPacks) {
+        if (!pack.packWeekStart) continue;
+        const existing = packsByWeek.get(pack.packWeekStart);
+        if (!existing || existing.createdAt < pack.createdAt) {
+          packsByWeek.set(pack.packWeekStart, pack);
+        }
+      }
+
+      for (const cycleStart of cycleStarts) {
+        const cycleStartTime = parseCalendarDate(cycleStart);
+        const packByDate = formatCalendarDate(cycleStartTime - schedule.leadDays * DAY_MS);
+
+        for (let week = 0; week < cycleLengthDays / 7; week++) {
+          const packWeekStart = formatCalendarDate(cycleStartTime + week * 7 * DAY_MS);
+          const pack = packsByWeek.get(packWeekStart);
+
+          let stage: "pack" | "check" | "dispatch";
+          let checkStatus: Doc<"websterPackChecks">["checkStatus"] | undefined;
+          let signOffProblem: string | undefined;
+          if (!pack || pack.status === "returned") {
+            stage = "pack";
+          } else if (pack.status === "packed") {
+            stage = "check";
+          } else if (pack.status === "checked") {
+            const latestCheck = pack.latestCheckId ? await ctx.db.get(pack.latestCheckId) : null;
+            checkStatus = latestCheck?.checkStatus;
+            if (latestCheck && checkStatus === "passed") {
+              signOffProblem = getSignOffProblem(latestCheck, patient) ?? undefined;
+              if (!signOffProblem) {
+                const regimenChanges = await getRegimenChangesSinceCheck(ctx, latestCheck);
+                if (regimenChanges.length > 0) {
+                  signOffProblem = formatRegimenProblem(regimenChanges);
+                }
+              }
+            }
+            // Failed or flagged packs, and packs still awaiting sign-off, go back for another check
+            stage = checkStatus === "passed" && !signOffProblem ? "dispatch" : "check";
+          } else {
+            continue; // Dispatched or collected
+          }
+
+          const dueDate = stage === "dispatch" ? cycleStart : packByDate;
+
+          packsDue.push({
+            scheduleId: schedule._id,
+            patientId: patient._id,
+            patientName: `${patient.firstName} ${patient.lastName}`,
+            patientShareToken: patient.shareToken,
+            frequency: schedule.frequency,
+            packType: pack?.packType ?? schedule.packType,
+            cycleStart,
+            packWeekStart,
+            stage,
+            dueDate,
+            isOverdue: dueDate < args.date,
+            websterPackId: pack?.websterPackId,
+            packStatus: pack?.status,
+            checkStatus,
+            signOffProblem,
+          });
+        }
+      }
+    }
+
+    return packsDue.sort((a, b) =>
+      a.dueDate.localeCompare(b.dueDate) || a.patientName.localeCompare(b.patientName)
+    );
+  },
+});
@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+
+// Keyboard-wedge scanners type faster than any person can
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_SCAN_LENGTH = 4;
+
+// Keystrokes into a field belong to that field, so they are never taken as a scan
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Custom hook that listens for USB keyboard-wedge barcode scanners.
+ * A scan is a burst of keystrokes followed by Enter; normal typing is ignored, as is anything typed
+ * while a text field has focus.
+ * @param onScan - Called with the scanned text
+ * @param enabled - Whether to listen for scans
+ */
+export function useBarcodeScanner(onScan: (value: string) => void, enabled: boolean = true) {
+  // Keep the latest callback without re-binding the listener
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyTime = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) {
+        buffer = '';
+        return;
+      }
+
+      const now = Date.now();
+      const isBurst = now - lastKeyTime <= MAX_KEY_INTERVAL_MS;
+      lastKeyTime = now;
+
+      if (event.key === 'Enter') {
+        if (isBurst && buffer.length >= MIN_SCAN_LENGTH) {
+          // Stop the Enter from submitting whatever form has focus
+          event.preventDefault();
+          event.stopPropagation();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+        return;
+      }
+
+      if (event.key.length !== 1 || event.ctrlKey || event.metaKey || event.altKey) {
+        return;
+      }
+
+      // Start a new buffer when the previous key was too long ago
+      buffer = isBurst ? buffer + event.key : event.key;
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,86 @@
+// Administration times: the medication rounds doses are given at, each with a clock time and label.
+// Organisations set their own rounds and a patient can have their own instead. Without either the
+// standard morning, afternoon, evening and night rounds are used. The standard rounds keep their ids
+// when renamed or retimed, as medications store those doses in dedicated fields.
+
+export interface AdministrationTime {
+  id: string; // Stable key doses are stored against, e.g. "morning" or "t0600"
+  label: string; // e.g. "Breakfast"
+  time: string; // HH:mm
+}
+
+export const DEFAULT_ADMINISTRATION_TIMES: AdministrationTime[] = [
+  { id: "morning", label: "Morning", time: "08:00" },
+  { id: "afternoon", label: "Afternoon", time: "12:00" },
+  { id: "evening", label: "Evening", time: "17:00" },
+  { id: "night", label: "Night", time: "21:00" },
+];
+
+export const MAX_ADMINISTRATION_TIMES = 8;
+
+// Earliest round first; rounds without a clock time go last
+export function sortAdministrationTimes(times: AdministrationTime[]): AdministrationTime[] {
+  return [...times].sort((a, b) => {
+    if (!a.time !== !b.time) return a.time ? -1 : 1;
+    return a.time.localeCompare(b.time) || a.label.localeCompare(b.label);
+  });
+}
+
+// The patient's own rounds, else their organisation's, else the standard four
+export function resolveAdministrationTimes(
+  patientTimes: AdministrationTime[] | undefined,
+  organizationTimes: AdministrationTime[] | undefined
+): AdministrationTime[] {
+  if (patientTimes && patientTimes.length > 0) return sortAdministrationTimes(patientTimes);
+  if (organizationTimes && organizationTimes.length > 0) return sortAdministrationTimes(organizationTimes);
+  return DEFAULT_ADMINISTRATION_TIMES;
+}
+
+// The round with an id. Rounds that are no longer configured fall back to the standard round, or
+// to the bare id with no clock time.
+export function findAdministrationTime(times: AdministrationTime[], id: string): AdministrationTime {
+  return (
+    times.find((time) => time.id === id) ??
+    DEFAULT_ADMINISTRATION_TIMES.find((time) => time.id === id) ?? { id, label: id, time: "" }
+  );
+}
+
+// Rounds plus any that doses are still recorded against but are no longer configured, so those
+// doses are shown and packed rather than silently dropped
+export function includeDoseTimes(times: AdministrationTime[], doseTimeIds: string[]): AdministrationTime[] {
+  const missing = doseTimeIds
+    .filter((id, index) => doseTimeIds.indexOf(id) === index && !times.some((time) => time.id === id))
+    .map((id) => findAdministrationTime(times, id));
+  return missing.length > 0 ? sortAdministrationTimes([...times, ...missing]) : times;
+}
+
+// Id for a new round at a clock time, unique among the existing rounds
+export function createAdministrationTimeId(times: AdministrationTime[], time: string): string {
+  const base = `t${time.replace(/\D/g, "")}`;
+  let id = base;
+  for (let suffix = 2; times.some((existing) => existing.id === id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+// e.g. "Breakfast (06:00)"
+export function formatAdministrationTime(time: AdministrationTime): string {
+  return time.time ? `${time.label} (${time.time})` : time.label;
+}
+
+// Why a set of rounds cannot be saved, or null when it is fine
+export function getAdministrationTimesProblem(times: AdministrationTime[]): string | null {
+  if (times.length === 0) return "Add at least one administration time";
+  if (times.length > MAX_ADMINISTRATION_TIMES) {
+    return `No more than ${MAX_ADMINISTRATION_TIMES} administration times can be set`;
+  }
+  for (const time of times) {
+    if (!time.id.trim()) return "Every administration time needs an id";
+    if (!time.label.trim()) return "Every administration time needs a label";
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time.time)) return `${time.label} needs a time between 00:00 and 23:59`;
+  }
+  if (new Set(times.map((time) => time.id)).size !== times.length) return "Administration times must be unique";
+  if (new Set(times.map((time) => time.time)).size !== times.length) return "Two administration times are at the same time";
+  return null;
+}
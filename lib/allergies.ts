@@ -0,0 +1,118 @@
+// Patient allergy and intolerance register entries, and checking medications against them. A
+// medication conflicts with an allergy when its active ingredient, generic name or name includes the
+// substance, or a member of the drug class the substance names, so a penicillin allergy flags
+// amoxicillin. Like the interaction dataset, this supports, not replaces, a pharmacist's review.
+
+import { InteractionMedication } from "./drug-interactions";
+
+export type AllergyType = "allergy" | "intolerance";
+export type AllergySeverity = "mild" | "moderate" | "severe";
+export type AllergySource = "patient" | "carer" | "prescriber" | "hospital" | "pharmacy";
+
+export const ALLERGY_TYPES: { value: AllergyType; label: string }[] = [
+  { value: "allergy", label: "Allergy" },
+  { value: "intolerance", label: "Intolerance" },
+];
+
+export const ALLERGY_SEVERITIES: { value: AllergySeverity; label: string; description: string }[] = [
+  { value: "mild", label: "Mild", description: "e.g. rash or nausea" },
+  { value: "moderate", label: "Moderate", description: "e.g. widespread hives or vomiting" },
+  { value: "severe", label: "Severe", description: "e.g. anaphylaxis or angioedema" },
+];
+
+export const ALLERGY_SOURCES: { value: AllergySource; label: string }[] = [
+  { value: "patient", label: "Patient reported" },
+  { value: "carer", label: "Carer or family" },
+  { value: "prescriber", label: "Prescriber" },
+  { value: "hospital", label: "Hospital record" },
+  { value: "pharmacy", label: "Pharmacy record" },
+];
+
+export interface AllergyRecord {
+  substance: string;
+  allergyType: AllergyType;
+  reaction?: string;
+  severity: AllergySeverity;
+}
+
+export interface AllergyWarning {
+  substance: string;
+  allergyType: AllergyType;
+  reaction?: string;
+  severity: AllergySeverity;
+  matchedIngredient: string; // The substance, or the member of its class, found in the medication
+}
+
+// Drug classes a register entry may name instead of a single ingredient
+const ALLERGY_CLASSES: Record<string, string[]> = {
+  penicillin: [
+    "amoxicillin", "ampicillin", "flucloxacillin", "dicloxacillin", "phenoxymethylpenicillin",
+    "benzylpenicillin", "procaine penicillin", "piperacillin", "ticarcillin",
+  ],
+  cephalosporin: ["cefalexin", "cephalexin", "cefaclor", "cefuroxime", "cefazolin", "ceftriaxone", "cefepime"],
+  sulfonamide: ["sulfamethoxazole", "sulfasalazine", "sulfadiazine"],
+  sulfa: ["sulfamethoxazole", "sulfasalazine", "sulfadiazine"],
+  sulpha: ["sulfamethoxazole", "sulfasalazine", "sulfadiazine"],
+  macrolide: ["erythromycin", "clarithromycin", "azithromycin", "roxithromycin"],
+  tetracycline: ["doxycycline", "minocycline"],
+  quinolone: ["ciprofloxacin", "norfloxacin", "moxifloxacin"],
+  fluoroquinolone: ["ciprofloxacin", "norfloxacin", "moxifloxacin"],
+  nsaid: [
+    "aspirin", "ibuprofen", "naproxen", "diclofenac", "celecoxib", "meloxicam", "indomethacin",
+    "ketorolac", "piroxicam", "etoricoxib", "mefenamic acid",
+  ],
+  opioid: [
+    "codeine", "morphine", "oxycodone", "hydromorphone", "tapentadol", "fentanyl", "buprenorphine",
+    "methadone", "tramadol",
+  ],
+  statin: ["atorvastatin", "rosuvastatin", "simvastatin", "pravastatin", "fluvastatin", "lovastatin"],
+  "ace inhibitor": [
+    "perindopril", "ramipril", "enalapril", "lisinopril", "captopril", "trandolapril", "quinapril", "fosinopril",
+  ],
+};
+
+// Lower case words separated by single spaces, padded so whole words can be matched
+function normalizeNames(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z]+/g, " ").trim()} `;
+}
+
+// The substance itself, plus the members of the class it names ("Penicillins" names penicillin)
+function getAllergyTerms(substance: string): string[] {
+  const name = normalizeNames(substance).trim();
+  if (!name) return [];
+  const className = name in ALLERGY_CLASSES ? name : name.replace(/s$/, "");
+  return [name, ...(ALLERGY_CLASSES[className] ?? [])];
+}
+
+// Register entries the medication conflicts with, most severe first
+export function findAllergyConflicts(medication: InteractionMedication, allergies: AllergyRecord[]): AllergyWarning[] {
+  const names = normalizeNames(
+    [medication.activeIngredient, medication.genericName, medication.medicationName].filter(Boolean).join(" ")
+  );
+
+  const warnings: AllergyWarning[] = [];
+  for (const allergy of allergies) {
+    const matchedIngredient = getAllergyTerms(allergy.substance).find((term) => names.includes(` ${term} `));
+    if (matchedIngredient) {
+      warnings.push({
+        substance: allergy.substance,
+        allergyType: allergy.allergyType,
+        reaction: allergy.reaction,
+        severity: allergy.severity,
+        matchedIngredient,
+      });
+    }
+  }
+
+  const order: AllergySeverity[] = ["severe", "moderate", "mild"];
+  return warnings.sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+}
+
+// e.g. "Severe allergy to Penicillin (amoxicillin) - anaphylaxis"
+export function describeAllergyWarning(warning: AllergyWarning): string {
+  const severity = ALLERGY_SEVERITIES.find(({ value }) => value === warning.severity)?.label ?? warning.severity;
+  const matched = warning.matchedIngredient === normalizeNames(warning.substance).trim()
+    ? ""
+    : ` (${warning.matchedIngredient})`;
+  return `${severity} ${warning.allergyType} to ${warning.substance}${matched}${warning.reaction ? ` - ${warning.reaction}` : ""}`;
+}
@@ -0,0 +1,63 @@
+// Code 128 (subset B) barcode encoding for printable pack labels
+
+// Bar/space module widths for each Code 128 symbol value (0-106)
+const PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+
+const START_B = 104;
+const STOP = 106;
+
+export interface Code128Bar {
+  x: number; // Offset in modules from the start of the symbol
+  width: number; // Width in modules
+}
+
+export interface Code128Symbol {
+  bars: Code128Bar[];
+  totalModules: number;
+}
+
+// Encode printable ASCII text as Code 128B bars, including start, checksum and stop symbols
+export function encodeCode128(text: string): Code128Symbol {
+  const values: number[] = [];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 127) {
+      throw new Error(`Character "${char}" cannot be encoded in Code 128B`);
+    }
+    values.push(code - 32);
+  }
+
+  const checksum = values.reduce(
+    (sum, value, index) => sum + value * (index + 1),
+    START_B
+  ) % 103;
+
+  const symbols = [START_B, ...values, checksum, STOP];
+
+  const bars: Code128Bar[] = [];
+  let x = 0;
+  for (const symbol of symbols) {
+    const widths = PATTERNS[symbol].split("").map(Number);
+    widths.forEach((width, index) => {
+      // Even positions are bars, odd positions are spaces
+      if (index % 2 === 0) {
+        bars.push({ x, width });
+      }
+      x += width;
+    });
+  }
+
+  return { bars, totalModules: x };
+}
@@ -0,0 +1,75 @@
+// CSV building and download for report exports, and parsing for imports
+
+export type CsvValue = string | number | null | undefined;
+
+// Quote a value when it contains a delimiter, quote or line break
+function formatCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(formatCsvValue).join(",")).join("\r\n");
+}
+
+// Rows of a CSV file. Quoted values may contain delimiters, doubled quotes and line breaks; blank
+// lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    value = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  if (value !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+// Save rows as a CSV file in the browser
+export function downloadCsv(filename: string, rows: CsvValue[][]): void {
+  downloadFile(filename, toCsv(rows), "text/csv");
+}
+
+// Save text as a file in the browser
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,234 @@
+// Structured doses: a quantity, unit and form for each administration time. Medications keep a
+// text version of each dose (e.g. "1 tablet", "½ tablet", "5 mL") for display, and the structured
+// dose is parsed from it whenever it changes.
+
+// Id of the administration time a dose is given at (see lib/administration-times.ts)
+export type DoseTimeSlot = string;
+
+export type DoseField = "morningDose" | "afternoonDose" | "eveningDose" | "nightDose";
+
+// The standard rounds, whose dose text is kept in its own field. Doses at other administration
+// times are kept in additionalDoses.
+export const DOSE_TIME_SLOTS: { slot: DoseTimeSlot; label: string; doseField: DoseField }[] = [
+  { slot: "morning", label: "Morning", doseField: "morningDose" },
+  { slot: "afternoon", label: "Afternoon", doseField: "afternoonDose" },
+  { slot: "evening", label: "Evening", doseField: "eveningDose" },
+  { slot: "night", label: "Night", doseField: "nightDose" },
+];
+
+export interface TimedDose {
+  timeSlot: DoseTimeSlot;
+  dose: string;
+}
+
+export type MedicationDoseFields = Partial<Record<DoseField, string>> & { additionalDoses?: TimedDose[] };
+
+// Dose text at an administration time, if the medication is taken then
+export function getDoseText(medication: MedicationDoseFields, timeSlot: DoseTimeSlot): string | undefined {
+  const standard = DOSE_TIME_SLOTS.find(({ slot }) => slot === timeSlot);
+  const dose = standard
+    ? medication[standard.doseField]
+    : medication.additionalDoses?.find((candidate) => candidate.timeSlot === timeSlot)?.dose;
+  return dose?.trim() || undefined;
+}
+
+// Every dose of a medication with the administration time it is given at
+export function getMedicationDoses(medication: MedicationDoseFields): TimedDose[] {
+  const doses: TimedDose[] = [];
+  for (const { slot, doseField } of DOSE_TIME_SLOTS) {
+    const dose = medication[doseField]?.trim();
+    if (dose) doses.push({ timeSlot: slot, dose });
+  }
+  for (const additional of medication.additionalDoses ?? []) {
+    if (additional.dose.trim()) doses.push({ timeSlot: additional.timeSlot, dose: additional.dose.trim() });
+  }
+  return doses;
+}
+
+// Doses recorded on a medication log entry, which keeps the fields prefixed with "current"
+export function getLoggedDoses(log: {
+  currentMorningDose?: string;
+  currentAfternoonDose?: string;
+  currentEveningDose?: string;
+  currentNightDose?: string;
+  currentAdditionalDoses?: TimedDose[];
+}): TimedDose[] {
+  return getMedicationDoses({
+    morningDose: log.currentMorningDose,
+    afternoonDose: log.currentAfternoonDose,
+    eveningDose: log.currentEveningDose,
+    nightDose: log.currentNightDose,
+    additionalDoses: log.currentAdditionalDoses,
+  });
+}
+
+// Split doses by administration time into the standard fields and additionalDoses
+export function splitDoses(doses: TimedDose[]): Record<DoseField, string> & { additionalDoses: TimedDose[] } {
+  const fields = { morningDose: "", afternoonDose: "", eveningDose: "", nightDose: "", additionalDoses: [] as TimedDose[] };
+  for (const { timeSlot, dose } of doses) {
+    const standard = DOSE_TIME_SLOTS.find(({ slot }) => slot === timeSlot);
+    if (standard) {
+      fields[standard.doseField] = dose;
+    } else if (dose.trim()) {
+      fields.additionalDoses.push({ timeSlot, dose });
+    }
+  }
+  return fields;
+}
+
+export const DOSE_UNITS = [
+  "tablet",
+  "capsule",
+  "mL",
+  "mg",
+  "mcg",
+  "g",
+  "unit",
+  "puff",
+  "drop",
+  "spray",
+  "sachet",
+  "patch",
+  "application",
+] as const;
+
+export type DoseUnit = (typeof DOSE_UNITS)[number];
+
+export interface StructuredDose {
+  quantity: number;
+  unit: string; // One of DOSE_UNITS
+  form?: string; // Dosage form, e.g. "tablet", "liquid", "inhaler"
+}
+
+// Units packed as individual tablets or capsules, so they can be counted in a pack
+const COUNTED_UNITS: string[] = ["tablet", "capsule"];
+
+// Units that describe a measured amount rather than a number of items
+const MEASURED_UNITS: string[] = ["mL", "mg", "mcg", "g"];
+
+const UNIT_ALIASES: Record<string, DoseUnit> = {
+  tab: "tablet",
+  tabs: "tablet",
+  tablet: "tablet",
+  tablets: "tablet",
+  cap: "capsule",
+  caps: "capsule",
+  capsule: "capsule",
+  capsules: "capsule",
+  ml: "mL",
+  mls: "mL",
+  mg: "mg",
+  mcg: "mcg",
+  µg: "mcg",
+  microgram: "mcg",
+  micrograms: "mcg",
+  g: "g",
+  gram: "g",
+  grams: "g",
+  unit: "unit",
+  units: "unit",
+  iu: "unit",
+  puff: "puff",
+  puffs: "puff",
+  drop: "drop",
+  drops: "drop",
+  spray: "spray",
+  sprays: "spray",
+  sachet: "sachet",
+  sachets: "sachet",
+  patch: "patch",
+  patches: "patch",
+  application: "application",
+  applications: "application",
+};
+
+// Dosage form implied by a unit; measured units take the form from the medication instead
+const UNIT_FORMS: Partial<Record<DoseUnit, string>> = {
+  tablet: "tablet",
+  capsule: "capsule",
+  mL: "liquid",
+  puff: "inhaler",
+  drop: "drops",
+  spray: "spray",
+  sachet: "sachet",
+  patch: "patch",
+  application: "topical",
+};
+
+const FRACTION_CHARACTERS: Record<string, number> = { "¼": 0.25, "½": 0.5, "¾": 0.75 };
+
+const NUMBER_WORDS: Record<string, number> = { half: 0.5, one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+// Leading quantity of a dose, e.g. "1 1/2", "1½", "0.5", "half", with the text that follows it
+function parseQuantity(text: string): { quantity: number; rest: string } | null {
+  let match = text.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)/);
+  if (match && Number(match[3]) > 0) {
+    return { quantity: Number(match[1]) + Number(match[2]) / Number(match[3]), rest: text.slice(match[0].length) };
+  }
+  match = text.match(/^(\d+)\s*\/\s*(\d+)/);
+  if (match && Number(match[2]) > 0) {
+    return { quantity: Number(match[1]) / Number(match[2]), rest: text.slice(match[0].length) };
+  }
+  match = text.match(/^(\d*)\s*([¼½¾])/);
+  if (match) {
+    return { quantity: Number(match[1] || 0) + FRACTION_CHARACTERS[match[2]], rest: text.slice(match[0].length) };
+  }
+  match = text.match(/^\d+(\.\d+)?/);
+  if (match) {
+    return { quantity: Number(match[0]), rest: text.slice(match[0].length) };
+  }
+  match = text.match(/^(half|one|two|three|four|five)\b/);
+  if (match) {
+    return { quantity: NUMBER_WORDS[match[1]], rest: text.slice(match[0].length) };
+  }
+  return null;
+}
+
+// Parse dose text such as "1 tablet", "½ tab", "2 caps", "5ml" or "1" (a bare number is a tablet
+// count). Returns null for anything else, e.g. "1 tab daily" or "as directed", which needs review.
+export function parseDose(text: string, dosageForm?: string): StructuredDose | null {
+  const value = text.trim().toLowerCase().replace(/\s+/g, " ");
+  const parsed = parseQuantity(value);
+  if (!parsed || parsed.quantity <= 0) return null;
+
+  const unitText = parsed.rest
+    .trim()
+    .replace(/^(x|×)\s*/, "")
+    .replace(/^(a|an)\s+/, "")
+    .replace(/\(s\)$/, "")
+    .replace(/\.$/, "");
+
+  const defaultUnit: DoseUnit = dosageForm?.toLowerCase().includes("capsule") ? "capsule" : "tablet";
+  const unit = unitText === "" ? defaultUnit : UNIT_ALIASES[unitText];
+  if (!unit) return null;
+
+  const form = UNIT_FORMS[unit] ?? (dosageForm?.trim().toLowerCase() || undefined);
+  return { quantity: parsed.quantity, unit, form };
+}
+
+export function formatDoseQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const fraction = Object.keys(FRACTION_CHARACTERS).find((character) => FRACTION_CHARACTERS[character] === quantity - whole);
+  if (fraction) return `${whole > 0 ? whole : ""}${fraction}`;
+  return Number.isInteger(quantity) ? quantity.toString() : (Math.round(quantity * 100) / 100).toString();
+}
+
+// Display text for a dose, e.g. "1 tablet", "1½ tablets", "5 mL"
+export function formatDose(dose: { quantity: number; unit: string }): string {
+  const quantity = formatDoseQuantity(dose.quantity);
+  if (MEASURED_UNITS.includes(dose.unit) || dose.quantity <= 1) {
+    return `${quantity} ${dose.unit}`;
+  }
+  return `${quantity} ${dose.unit === "patch" ? "patches" : `${dose.unit}s`}`;
+}
+
+// Number of tablets or capsules in a dose; null when the dose is not counted (e.g. "5 mL")
+export function getDoseTabletCount(dose: StructuredDose): number | null {
+  return COUNTED_UNITS.includes(dose.unit) ? dose.quantity : null;
+}
+
+// Tablet count for dose text that has no structured dose yet
+export function parseDoseTabletCount(text: string): number | null {
+  const dose = parseDose(text);
+  return dose ? getDoseTabletCount(dose) : null;
+}
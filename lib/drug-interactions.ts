@@ -0,0 +1,286 @@
+// Drug-drug interaction checking against a local dataset, keyed on active ingredient. Medications
+// are matched by the ingredients named in their active ingredient, generic name or name, so
+// "WARFARIN SODIUM" and "Coumadin (warfarin)" both match warfarin. The dataset covers interactions
+// commonly seen in packed community regimens; it supports, not replaces, a pharmacist's review.
+
+export type InteractionSeverity = "major" | "moderate" | "minor";
+
+export const INTERACTION_SEVERITIES: { severity: InteractionSeverity; label: string; description: string }[] = [
+  { severity: "major", label: "Major", description: "Avoid the combination unless the benefit outweighs the risk" },
+  { severity: "moderate", label: "Moderate", description: "Monitor the patient or adjust the regimen" },
+  { severity: "minor", label: "Minor", description: "Usually managed by separating doses or counselling" },
+];
+
+export interface InteractionMedication {
+  medicationName: string;
+  genericName?: string;
+  activeIngredient?: string;
+}
+
+export interface InteractionWarning {
+  severity: InteractionSeverity;
+  ingredients: string[]; // [ingredient in the medication checked, ingredient in the other medication]
+  description: string;
+  interactingMedicationName: string;
+}
+
+interface InteractionRule {
+  first: string[];
+  second: string[];
+  severity: InteractionSeverity;
+  description: string;
+}
+
+const ANTICOAGULANTS = ["warfarin", "apixaban", "rivaroxaban", "dabigatran", "enoxaparin"];
+const ANTIPLATELETS = ["aspirin", "clopidogrel", "ticagrelor", "prasugrel"];
+const NSAIDS = [
+  "ibuprofen", "naproxen", "diclofenac", "celecoxib", "meloxicam", "indomethacin", "ketorolac",
+  "piroxicam", "etoricoxib", "mefenamic acid",
+];
+const SEROTONERGIC_ANTIDEPRESSANTS = [
+  "sertraline", "fluoxetine", "paroxetine", "citalopram", "escitalopram", "fluvoxamine",
+  "venlafaxine", "desvenlafaxine", "duloxetine",
+];
+const MAOIS = ["phenelzine", "tranylcypromine", "moclobemide"];
+const ACE_INHIBITORS = [
+  "perindopril", "ramipril", "enalapril", "lisinopril", "captopril", "trandolapril", "quinapril", "fosinopril",
+];
+const ANGIOTENSIN_RECEPTOR_BLOCKERS = ["candesartan", "irbesartan", "losartan", "telmisartan", "valsartan", "olmesartan"];
+const POTASSIUM_SPARING_DIURETICS = ["spironolactone", "eplerenone", "amiloride", "triamterene"];
+const THIAZIDE_DIURETICS = ["hydrochlorothiazide", "chlorthalidone", "indapamide"];
+const NITRATES = ["glyceryl trinitrate", "nitroglycerin", "isosorbide mononitrate", "isosorbide dinitrate"];
+const PDE5_INHIBITORS = ["sildenafil", "tadalafil", "vardenafil"];
+const STRONG_CYP3A4_INHIBITORS = ["clarithromycin", "erythromycin", "ketoconazole", "itraconazole", "posaconazole", "voriconazole"];
+const OPIOIDS = [
+  "oxycodone", "morphine", "hydromorphone", "tapentadol", "codeine", "fentanyl", "buprenorphine", "methadone", "tramadol",
+];
+const BENZODIAZEPINES = ["diazepam", "oxazepam", "temazepam", "alprazolam", "clonazepam", "lorazepam", "nitrazepam"];
+const BETA_BLOCKERS = ["metoprolol", "atenolol", "propranolol", "bisoprolol", "carvedilol", "nebivolol"];
+const RATE_LIMITING_CALCIUM_CHANNEL_BLOCKERS = ["verapamil", "diltiazem"];
+const POLYVALENT_CATIONS = [
+  "calcium carbonate", "calcium citrate", "ferrous sulfate", "ferrous fumarate", "magnesium oxide",
+  "magnesium aspartate", "zinc",
+];
+
+const INTERACTION_RULES: InteractionRule[] = [
+  {
+    first: ANTICOAGULANTS,
+    second: NSAIDS,
+    severity: "major",
+    description: "Increased risk of serious bleeding, including gastrointestinal bleeding",
+  },
+  {
+    first: ANTICOAGULANTS,
+    second: ANTIPLATELETS,
+    severity: "major",
+    description: "Increased risk of serious bleeding; confirm the combination is intended",
+  },
+  {
+    first: ["warfarin"],
+    second: ["amiodarone", "fluconazole", "metronidazole"],
+    severity: "major",
+    description: "Raises the INR and bleeding risk; the warfarin dose usually needs reducing",
+  },
+  {
+    first: ["methotrexate"],
+    second: ["trimethoprim", "sulfamethoxazole"],
+    severity: "major",
+    description: "Additive folate antagonism can cause fatal bone marrow suppression",
+  },
+  {
+    first: ["methotrexate"],
+    second: NSAIDS,
+    severity: "moderate",
+    description: "Reduced methotrexate clearance; monitor full blood count and renal function",
+  },
+  {
+    first: NITRATES,
+    second: PDE5_INHIBITORS,
+    severity: "major",
+    description: "Severe, potentially fatal hypotension",
+  },
+  {
+    first: ["simvastatin", "lovastatin"],
+    second: STRONG_CYP3A4_INHIBITORS,
+    severity: "major",
+    description: "Greatly raised statin levels with a risk of myopathy and rhabdomyolysis",
+  },
+  {
+    first: ["atorvastatin"],
+    second: STRONG_CYP3A4_INHIBITORS,
+    severity: "moderate",
+    description: "Raised statin levels; consider a lower statin dose or withholding it during the course",
+  },
+  {
+    first: ["colchicine"],
+    second: STRONG_CYP3A4_INHIBITORS,
+    severity: "major",
+    description: "Raised colchicine levels with a risk of fatal toxicity",
+  },
+  {
+    first: SEROTONERGIC_ANTIDEPRESSANTS,
+    second: MAOIS,
+    severity: "major",
+    description: "Risk of serotonin syndrome",
+  },
+  {
+    first: ["tramadol"],
+    second: MAOIS,
+    severity: "major",
+    description: "Risk of serotonin syndrome",
+  },
+  {
+    first: ["tramadol"],
+    second: SEROTONERGIC_ANTIDEPRESSANTS,
+    severity: "moderate",
+    description: "Risk of serotonin syndrome and a lowered seizure threshold",
+  },
+  {
+    first: OPIOIDS,
+    second: BENZODIAZEPINES,
+    severity: "major",
+    description: "Additive sedation and respiratory depression",
+  },
+  {
+    first: ["allopurinol", "febuxostat"],
+    second: ["azathioprine", "mercaptopurine"],
+    severity: "major",
+    description: "Raised azathioprine levels with a risk of severe bone marrow suppression",
+  },
+  {
+    first: POTASSIUM_SPARING_DIURETICS,
+    second: ["potassium chloride"],
+    severity: "major",
+    description: "Risk of severe hyperkalaemia",
+  },
+  {
+    first: POTASSIUM_SPARING_DIURETICS,
+    second: [...ACE_INHIBITORS, ...ANGIOTENSIN_RECEPTOR_BLOCKERS],
+    severity: "moderate",
+    description: "Risk of hyperkalaemia; monitor potassium and renal function",
+  },
+  {
+    first: ACE_INHIBITORS,
+    second: ANGIOTENSIN_RECEPTOR_BLOCKERS,
+    severity: "moderate",
+    description: "Dual renin-angiotensin blockade raises the risk of hyperkalaemia and renal impairment",
+  },
+  {
+    first: ["lithium"],
+    second: [...NSAIDS, ...THIAZIDE_DIURETICS],
+    severity: "major",
+    description: "Reduced lithium clearance with a risk of lithium toxicity",
+  },
+  {
+    first: ["lithium"],
+    second: [...ACE_INHIBITORS, ...ANGIOTENSIN_RECEPTOR_BLOCKERS],
+    severity: "moderate",
+    description: "Raised lithium levels; monitor lithium levels",
+  },
+  {
+    first: ["digoxin"],
+    second: ["amiodarone"],
+    severity: "major",
+    description: "Raised digoxin levels with a risk of toxicity; the digoxin dose usually needs halving",
+  },
+  {
+    first: ["digoxin"],
+    second: RATE_LIMITING_CALCIUM_CHANNEL_BLOCKERS,
+    severity: "moderate",
+    description: "Raised digoxin levels and additive slowing of the heart rate",
+  },
+  {
+    first: BETA_BLOCKERS,
+    second: RATE_LIMITING_CALCIUM_CHANNEL_BLOCKERS,
+    severity: "moderate",
+    description: "Risk of bradycardia, heart block and hypotension",
+  },
+  {
+    first: ["clopidogrel"],
+    second: ["omeprazole", "esomeprazole"],
+    severity: "moderate",
+    description: "Reduced antiplatelet effect of clopidogrel; pantoprazole is preferred",
+  },
+  {
+    first: ["levothyroxine"],
+    second: POLYVALENT_CATIONS,
+    severity: "minor",
+    description: "Reduced levothyroxine absorption; pack the doses at least 4 hours apart",
+  },
+  {
+    first: ["ciprofloxacin", "norfloxacin", "moxifloxacin", "doxycycline"],
+    second: POLYVALENT_CATIONS,
+    severity: "minor",
+    description: "Reduced antibiotic absorption; pack the doses at least 2 hours apart",
+  },
+  {
+    first: ["alendronate", "risedronate"],
+    second: POLYVALENT_CATIONS,
+    severity: "minor",
+    description: "Reduced bisphosphonate absorption; give the supplement later in the day",
+  },
+];
+
+const KNOWN_INGREDIENTS = Array.from(
+  new Set(INTERACTION_RULES.flatMap((rule) => [...rule.first, ...rule.second]))
+);
+
+const SEVERITY_ORDER: InteractionSeverity[] = ["major", "moderate", "minor"];
+
+// Lower case words separated by single spaces, padded so whole words can be matched
+function normalizeNames(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z]+/g, " ").trim()} `;
+}
+
+// Known ingredients in a medication, from its active ingredient, generic name and name
+export function getMedicationIngredients(medication: InteractionMedication): string[] {
+  const names = normalizeNames(
+    [medication.activeIngredient, medication.genericName, medication.medicationName].filter(Boolean).join(" ")
+  );
+  return KNOWN_INGREDIENTS.filter((ingredient) => names.includes(` ${ingredient} `));
+}
+
+// Interactions between a medication and each of the other medications, most severe first
+export function findInteractions(
+  medication: InteractionMedication,
+  otherMedications: InteractionMedication[]
+): InteractionWarning[] {
+  const ingredients = getMedicationIngredients(medication);
+  if (ingredients.length === 0) return [];
+
+  const warnings: InteractionWarning[] = [];
+  for (const other of otherMedications) {
+    const otherIngredients = getMedicationIngredients(other);
+    for (const rule of INTERACTION_RULES) {
+      const pair =
+        findPair(ingredients, otherIngredients, rule.first, rule.second) ??
+        findPair(ingredients, otherIngredients, rule.second, rule.first);
+      if (pair) {
+        warnings.push({
+          severity: rule.severity,
+          ingredients: pair,
+          description: rule.description,
+          interactingMedicationName: other.medicationName,
+        });
+      }
+    }
+  }
+
+  return warnings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+function findPair(ingredients: string[], otherIngredients: string[], first: string[], second: string[]): string[] | null {
+  const ingredient = ingredients.find((candidate) => first.includes(candidate));
+  const otherIngredient = otherIngredients.find((candidate) => second.includes(candidate));
+  return ingredient && otherIngredient ? [ingredient, otherIngredient] : null;
+}
+
+export function hasMajorInteraction(warnings: { severity: InteractionSeverity }[]): boolean {
+  return warnings.some((warning) => warning.severity === "major");
+}
+
+// e.g. "Major: warfarin with ibuprofen (Nurofen) - Increased risk of serious bleeding"
+export function describeInteraction(warning: InteractionWarning): string {
+  const label = INTERACTION_SEVERITIES.find(({ severity }) => severity === warning.severity)?.label ?? warning.severity;
+  return `${label}: ${warning.ingredients[0]} with ${warning.ingredients[1]} (${warning.interactingMedicationName}) - ${warning.description}`;
+}
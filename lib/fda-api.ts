@@ -1,5 +1,8 @@
+import { MedicationSuggestion, MedicineSource } from './medicine-sources';
+
+// These requests are made on the server (see convex/medicationSearch.ts), which passes the API key
+// from its environment. Without a key the FDA API still answers, at a lower rate limit.
 const FDA_API_BASE_URL = 'https://api.fda.gov/drug/ndc.json';
-const FDA_API_KEY = 'uMXW9UC73BuSchp8i0zRgFUBxwLpx4hB4Bqq36CQ';
 
 export interface FDAMedication {
   product_ndc: string;
@@ -27,22 +30,27 @@ export interface FDASearchResponse {
   results: FDAMedication[];
 }
 
-export interface MedicationSuggestion {
-  ndc: string;
-  name: string;
-  genericName?: string;
-  brandName?: string;
-  strength?: string;
-  dosageForm?: string;
-  route?: string;
-  manufacturer?: string;
-  activeIngredient?: string;
+function buildSearchUrl(searchQuery: string, limit: number, apiKey?: string): string {
+  const url = `${FDA_API_BASE_URL}?search=${encodeURIComponent(searchQuery)}&limit=${limit}`;
+  return apiKey ? `${url}&api_key=${encodeURIComponent(apiKey)}` : url;
+}
+
+/**
+ * Normalize a search so equivalent queries share a cache entry: lower case, collapsed whitespace and
+ * none of the characters with a meaning in FDA search syntax
+ */
+export function normalizeMedicationQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[^a-z0-9.\- ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
 }
 
 /**
  * Search for medications using the FDA NDC API
  */
-export async function searchMedications(query: string, limit: number = 10): Promise<MedicationSuggestion[]> {
+export async function searchMedications(query: string, limit: number = 10, apiKey?: string): Promise<MedicationSuggestion[]> {
   try {
     if (!query || query.length < 2) {
       return [];
@@ -50,7 +58,7 @@ export async function searchMedications(query: string, limit: number = 10): Prom
 
     // Construct search query - search by generic name or brand name
     const searchQuery = `(generic_name:"${query}"+brand_name:"${query}")`;
-    const url = `${FDA_API_BASE_URL}?search=${encodeURIComponent(searchQuery)}&limit=${limit}&api_key=${FDA_API_KEY}`;
+    const url = buildSearchUrl(searchQuery, limit, apiKey);
 
     const response = await fetch(url);
     
@@ -64,6 +72,8 @@ export async function searchMedications(query: string, limit: number = 10): Prom
     const data: FDASearchResponse = await response.json();
     
     return data.results.map(medication => ({
+      id: medication.product_ndc,
+      source: 'fda',
       ndc: medication.product_ndc,
       name: medication.brand_name || medication.generic_name || 'Unknown',
       genericName: medication.generic_name,
@@ -84,10 +94,10 @@ export async function searchMedications(query: string, limit: number = 10): Prom
 /**
  * Get detailed medication information by NDC
  */
-export async function getMedicationByNDC(ndc: string): Promise<FDAMedication | null> {
+export async function getMedicationByNDC(ndc: string, apiKey?: string): Promise<FDAMedication | null> {
   try {
     const searchQuery = `product_ndc:"${ndc}"`;
-    const url = `${FDA_API_BASE_URL}?search=${encodeURIComponent(searchQuery)}&limit=1&api_key=${FDA_API_KEY}`;
+    const url = buildSearchUrl(searchQuery, 1, apiKey);
 
     const response = await fetch(url);
     
@@ -108,66 +118,93 @@ export async function getMedicationByNDC(ndc: string): Promise<FDAMedication | n
 }
 
 /**
- * Search medications with more flexible query patterns
+ * Search medications with more flexible query patterns. Throws when the FDA API can't be reached,
+ * so callers can tell an outage from a search with no matches. The results are incomplete when
+ * some strategies failed (e.g. rate limited) and may be missing matches.
  */
-export async function searchMedicationsFlexible(query: string, limit: number = 10): Promise<MedicationSuggestion[]> {
-  try {
-    if (!query || query.length < 2) {
-      return [];
-    }
+export async function searchMedicationsFlexible(
+  query: string,
+  limit: number = 10,
+  apiKey?: string
+): Promise<{ results: MedicationSuggestion[]; complete: boolean }> {
+  if (!query || query.length < 2) {
+    return { results: [], complete: true };
+  }
 
-    // Try multiple search strategies
-    const searchStrategies = [
-      // Exact phrase in generic_name or brand_name
-      `(generic_name:"${query}"+brand_name:"${query}")`,
-      // Wildcard search in generic_name
-      `generic_name:${query}*`,
-      // Wildcard search in brand_name
-      `brand_name:${query}*`,
-      // Search in active ingredients
-      `active_ingredients.name:${query}*`,
-    ];
-
-    const allResults: MedicationSuggestion[] = [];
-    const seenNDCs = new Set<string>();
-
-    for (const searchQuery of searchStrategies) {
-      if (allResults.length >= limit) break;
-
-      try {
-        const url = `${FDA_API_BASE_URL}?search=${encodeURIComponent(searchQuery)}&limit=${limit}&api_key=${FDA_API_KEY}`;
-        const response = await fetch(url);
-        
-        if (response.ok) {
-          const data: FDASearchResponse = await response.json();
-          
-          data.results.forEach(medication => {
-            if (!seenNDCs.has(medication.product_ndc) && allResults.length < limit) {
-              seenNDCs.add(medication.product_ndc);
-              allResults.push({
-                ndc: medication.product_ndc,
-                name: medication.brand_name || medication.generic_name || 'Unknown',
-                genericName: medication.generic_name,
-                brandName: medication.brand_name,
-                strength: medication.active_ingredients?.[0]?.strength,
-                dosageForm: medication.dosage_form,
-                route: medication.route?.[0],
-                manufacturer: medication.labeler_name,
-                activeIngredient: medication.active_ingredients?.[0]?.name,
-              });
-            }
-          });
+  // Try multiple search strategies
+  const searchStrategies = [
+    // Exact phrase in generic_name or brand_name
+    `(generic_name:"${query}"+brand_name:"${query}")`,
+    // Wildcard search in generic_name
+    `generic_name:${query}*`,
+    // Wildcard search in brand_name
+    `brand_name:${query}*`,
+    // Search in active ingredients
+    `active_ingredients.name:${query}*`,
+  ];
+
+  const allResults: MedicationSuggestion[] = [];
+  const seenNDCs = new Set<string>();
+  let lastError: unknown = null;
+  let failedStrategies = 0;
+
+  for (const searchQuery of searchStrategies) {
+    if (allResults.length >= limit) break;
+
+    try {
+      const response = await fetch(buildSearchUrl(searchQuery, limit, apiKey));
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          continue; // No results for this strategy
         }
-      } catch {
-        // Continue with next strategy if this one fails
-        continue;
+        throw new Error(`FDA API error: ${response.status} ${response.statusText}`);
       }
-    }
 
-    return allResults;
+      const data: FDASearchResponse = await response.json();
+
+      data.results.forEach(medication => {
+        if (!seenNDCs.has(medication.product_ndc) && allResults.length < limit) {
+          seenNDCs.add(medication.product_ndc);
+          allResults.push({
+            id: medication.product_ndc,
+            source: 'fda',
+            ndc: medication.product_ndc,
+            name: medication.brand_name || medication.generic_name || 'Unknown',
+            genericName: medication.generic_name,
+            brandName: medication.brand_name,
+            strength: medication.active_ingredients?.[0]?.strength,
+            dosageForm: medication.dosage_form,
+            route: medication.route?.[0],
+            manufacturer: medication.labeler_name,
+            activeIngredient: medication.active_ingredients?.[0]?.name,
+          });
+        }
+      });
+    } catch (error) {
+      // Continue with next strategy if this one fails
+      lastError = error;
+      failedStrategies++;
+    }
+  }
 
-  } catch (error) {
-    console.error('Error in flexible medication search:', error);
-    return [];
+  if (allResults.length === 0 && failedStrategies === searchStrategies.length) {
+    throw lastError;
   }
-} 
\ No newline at end of file
+
+  return { results: allResults, complete: failedStrategies === 0 };
+}
+
+/**
+ * The FDA NDC database as a medicine source for the medication autocomplete, searched through the
+ * given lookup so the request is made on the server
+ */
+export function createFdaSource(
+  searchFda: (query: string, limit: number) => Promise<MedicationSuggestion[]>
+): MedicineSource {
+  return {
+    id: 'fda',
+    label: 'FDA Database',
+    search: searchFda,
+  };
+}
@@ -0,0 +1,144 @@
+// Point-in-time medication history: the regimen a patient was on at a given moment, replayed from
+// the medication log. Entries that change the regimen record the medication's state afterwards
+// (the fields prefixed with "current") and, for changes, its state before (previousState). Older
+// approvals recorded neither, so their state is taken from the next change's previousState, or from
+// the medication itself when nothing has changed since.
+
+import { TimedDose } from "./doses";
+
+export interface RecordedMedicationState {
+  medicationName: string;
+  dosage?: string;
+  morningDose?: string;
+  afternoonDose?: string;
+  eveningDose?: string;
+  nightDose?: string;
+  additionalDoses?: TimedDose[];
+  instructions?: string;
+}
+
+export interface MedicationHistoryLog {
+  medicationId?: string;
+  actionType: string;
+  medicationName: string;
+  performedAt: number;
+  currentDosage?: string;
+  currentMorningDose?: string;
+  currentAfternoonDose?: string;
+  currentEveningDose?: string;
+  currentNightDose?: string;
+  currentAdditionalDoses?: TimedDose[];
+  currentInstructions?: string;
+  previousState?: string;
+}
+
+export interface HistoricalMedication extends RecordedMedicationState {
+  medicationId: string;
+  since?: number; // When the medication last changed before the moment asked about
+  // The log doesn't say how the medication was taken then; only its name is known
+  approximate: boolean;
+}
+
+// Log entries that start, change or end a medication. Requests, rejections and cancellations
+// leave the regimen as it was.
+const STARTS = ["added", "addition_approved"];
+const ENDS = ["stopped", "removal_approved", "deleted"];
+const REGIMEN_CHANGES = [...STARTS, "updated", "change_approved", ...ENDS];
+
+export function isRegimenChange(actionType: string): boolean {
+  return REGIMEN_CHANGES.includes(actionType);
+}
+
+function getRecordedState(log: MedicationHistoryLog): RecordedMedicationState | null {
+  if (log.currentDosage === undefined) return null;
+  return {
+    medicationName: log.medicationName,
+    dosage: log.currentDosage,
+    morningDose: log.currentMorningDose,
+    afternoonDose: log.currentAfternoonDose,
+    eveningDose: log.currentEveningDose,
+    nightDose: log.currentNightDose,
+    additionalDoses: log.currentAdditionalDoses,
+    instructions: log.currentInstructions,
+  };
+}
+
+function parsePreviousState(log: MedicationHistoryLog): RecordedMedicationState | null {
+  if (!log.previousState) return null;
+  try {
+    const state = JSON.parse(log.previousState);
+    return typeof state?.medicationName === "string" ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+// Just the name and dosing of a medication
+export function pickMedicationState(state: RecordedMedicationState): RecordedMedicationState {
+  return {
+    medicationName: state.medicationName,
+    dosage: state.dosage,
+    morningDose: state.morningDose,
+    afternoonDose: state.afternoonDose,
+    eveningDose: state.eveningDose,
+    nightDose: state.nightDose,
+    additionalDoses: state.additionalDoses,
+    instructions: state.instructions,
+  };
+}
+
+// Medications the patient was on at the given time, ordered by name. Medications added before the
+// log was kept count from when they were added.
+export function reconstructRegimen(
+  logs: MedicationHistoryLog[],
+  at: number,
+  medications: (RecordedMedicationState & { _id: string; addedAt: number; isActive: boolean })[]
+): HistoricalMedication[] {
+  const eventsByMedication = new Map<string, MedicationHistoryLog[]>();
+  for (const log of logs) {
+    if (!log.medicationId || !isRegimenChange(log.actionType)) continue;
+    const events = eventsByMedication.get(log.medicationId) ?? [];
+    events.push(log);
+    eventsByMedication.set(log.medicationId, events);
+  }
+  for (const medication of medications) {
+    if (!eventsByMedication.has(medication._id)) {
+      eventsByMedication.set(medication._id, []);
+    }
+  }
+
+  const regimen: HistoricalMedication[] = [];
+  for (const [medicationId, events] of eventsByMedication) {
+    events.sort((a, b) => a.performedAt - b.performedAt);
+    const medication = medications.find((candidate) => candidate._id === medicationId);
+    const before = events.filter((event) => event.performedAt <= at);
+    const last = before[before.length - 1];
+    const next = events.find((event) => event.performedAt > at);
+
+    if (last) {
+      if (ENDS.includes(last.actionType)) continue;
+    } else if (
+      !medication ||
+      medication.addedAt > at ||
+      events.some((event) => STARTS.includes(event.actionType)) ||
+      (!next && !medication.isActive)
+    ) {
+      continue;
+    }
+
+    const nextPreviousState = next ? parsePreviousState(next) : null;
+    const state =
+      (last && getRecordedState(last)) ??
+      nextPreviousState ??
+      (!next && medication ? pickMedicationState(medication) : null);
+
+    regimen.push({
+      medicationId,
+      since: last?.performedAt,
+      ...(state ?? { medicationName: last?.medicationName ?? medication?.medicationName ?? "Unknown" }),
+      approximate: !state,
+    });
+  }
+
+  return regimen.sort((a, b) => a.medicationName.localeCompare(b.medicationName));
+}
@@ -0,0 +1,204 @@
+// Medication reconciliation: an incoming medication list (a hospital discharge summary or a GP's
+// updated list) compared line by line with the patient's current medications. Each line is marked
+// continue, change, stop or new, and all the decisions are committed together with a signature.
+
+import { parseCsv } from "./csv";
+import { getMedicationIngredients } from "./drug-interactions";
+import { getMedicationDoses, TimedDose } from "./doses";
+import { AdministrationTime, findAdministrationTime } from "./administration-times";
+import { RecordedMedicationState } from "./medication-history";
+import { MedicationSchedule } from "./medication-schedule";
+
+export type ReconciliationDecision = "continue" | "change" | "stop" | "new";
+
+export const RECONCILIATION_DECISIONS: { decision: ReconciliationDecision; label: string }[] = [
+  { decision: "continue", label: "Continue" },
+  { decision: "change", label: "Change" },
+  { decision: "stop", label: "Stop" },
+  { decision: "new", label: "New" },
+];
+
+export type ReconciliationSource = "hospital_discharge" | "gp_update" | "other";
+
+export const RECONCILIATION_SOURCES: { source: ReconciliationSource; label: string }[] = [
+  { source: "hospital_discharge", label: "Hospital discharge" },
+  { source: "gp_update", label: "GP update" },
+  { source: "other", label: "Other" },
+];
+
+// A medication on the incoming list: the state the medication log records, with the days it is
+// taken and what identifies the drug when the list gives them
+export interface IncomingMedication extends RecordedMedicationState {
+  schedule?: MedicationSchedule;
+  genericName?: string;
+  activeIngredient?: string;
+  strength?: string;
+  fdaNdc?: string;
+  amtCode?: string;
+  pbsItemCode?: string;
+}
+
+export interface CurrentMedication extends RecordedMedicationState {
+  _id: string;
+  schedule?: MedicationSchedule;
+  genericName?: string;
+  activeIngredient?: string;
+}
+
+export interface ReconciliationLine {
+  medicationId?: string; // The current medication the line is about, unless it is new
+  incoming?: IncomingMedication; // The line from the incoming list, unless it leaves the medication out
+  decision: ReconciliationDecision | null; // Null until someone decides
+  notes?: string;
+  overrideReason?: string; // Why a new or changed medication goes ahead despite an allergy or interaction
+}
+
+// A strength column is read as the dosage; schedules are entered on each line by hand
+const COLUMN_ALIASES: Record<keyof Omit<IncomingMedication, "additionalDoses" | "schedule" | "strength">, string[]> = {
+  medicationName: ["medication", "medication name", "medicine", "drug", "name"],
+  dosage: ["dosage", "dose", "strength"],
+  morningDose: ["morning", "breakfast", "mane"],
+  afternoonDose: ["afternoon", "lunch", "midday"],
+  eveningDose: ["evening", "dinner", "tea"],
+  nightDose: ["night", "bedtime", "nocte"],
+  instructions: ["instructions", "directions", "comments", "notes"],
+  genericName: ["generic", "generic name"],
+  activeIngredient: ["active ingredient", "ingredient"],
+  fdaNdc: ["ndc", "fda ndc"],
+  amtCode: ["amt", "amt code"],
+  pbsItemCode: ["pbs", "pbs code", "pbs item code"],
+};
+
+function normalizeHeading(heading: string): string {
+  return heading.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Medications in an incoming list CSV file, and the problems with any rows left out
+export function parseIncomingMedicationList(text: string): { items: IncomingMedication[]; problems: string[] } {
+  const [headings, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!headings) {
+    return { items: [], problems: ["The file is empty"] };
+  }
+
+  const normalized = headings.map(normalizeHeading);
+  const columns = Object.entries(COLUMN_ALIASES)
+    .map(([field, aliases]) => ({
+      field: field as keyof typeof COLUMN_ALIASES,
+      index: normalized.findIndex((heading) => aliases.includes(heading)),
+    }))
+    .filter(({ index }) => index !== -1);
+
+  if (!columns.some(({ field }) => field === "medicationName")) {
+    return { items: [], problems: ["The file needs a medication name column"] };
+  }
+
+  const items: IncomingMedication[] = [];
+  const problems: string[] = [];
+  rows.forEach((row, index) => {
+    const item: IncomingMedication = { medicationName: "" };
+    for (const { field, index: column } of columns) {
+      const value = row[column]?.trim();
+      if (value) item[field] = value;
+    }
+
+    if (!item.medicationName) {
+      if (row.some((cell) => cell.trim())) problems.push(`Row ${index + 2}: no medication name`);
+    } else {
+      items.push(item);
+    }
+  });
+
+  return { items, problems };
+}
+
+// The first word of a name, which is usually the drug
+function getNameKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9 ]+/g, " ").trim().split(/\s+/)[0] ?? "";
+}
+
+// Whether an incoming medication is the same drug as a current one: the same known ingredients,
+// or otherwise the same leading word of any of their names
+export function isSameMedication(incoming: IncomingMedication, current: CurrentMedication): boolean {
+  const incomingIngredients = getMedicationIngredients(incoming);
+  const currentIngredients = getMedicationIngredients(current);
+  if (incomingIngredients.length > 0 && currentIngredients.length > 0) {
+    return incomingIngredients.join() === currentIngredients.join();
+  }
+
+  const incomingKey = getNameKey(incoming.medicationName);
+  return [current.medicationName, current.genericName, current.activeIngredient]
+    .filter((name): name is string => !!name)
+    .some((name) => getNameKey(name) === incomingKey);
+}
+
+function formatDoses(doses: TimedDose[]): string {
+  return doses.map(({ timeSlot, dose }) => `${timeSlot}:${dose.toLowerCase()}`).sort().join();
+}
+
+function isSameName(a: RecordedMedicationState, b: RecordedMedicationState): boolean {
+  return a.medicationName.trim().toLowerCase() === b.medicationName.trim().toLowerCase();
+}
+
+// Whether two states give the same dose at the same times, with the same instructions
+export function isSameDosing(a: RecordedMedicationState, b: RecordedMedicationState): boolean {
+  return (
+    (a.dosage ?? "").trim().toLowerCase() === (b.dosage ?? "").trim().toLowerCase() &&
+    formatDoses(getMedicationDoses(a)) === formatDoses(getMedicationDoses(b)) &&
+    (a.instructions ?? "").trim() === (b.instructions ?? "").trim()
+  );
+}
+
+// Lines for a reconciliation: each current medication with the incoming line that matches it, then
+// the incoming lines that match nothing. Matched lines start as continue when the name and dosing
+// are unchanged and as change otherwise, unmatched incoming lines as new; current medications left
+// off the list need a decision.
+export function matchIncomingMedications(
+  incoming: IncomingMedication[],
+  current: CurrentMedication[]
+): ReconciliationLine[] {
+  const unmatched = [...incoming];
+  const lines: ReconciliationLine[] = current.map((medication) => {
+    const index = unmatched.findIndex((item) => isSameMedication(item, medication));
+    if (index === -1) {
+      return { medicationId: medication._id, decision: null };
+    }
+    const [match] = unmatched.splice(index, 1);
+    return {
+      medicationId: medication._id,
+      // The list rarely says which days a dose is taken, so the current schedule carries over
+      incoming: { schedule: medication.schedule, ...match },
+      decision: isSameName(match, medication) && isSameDosing(match, medication) ? "continue" : "change",
+    };
+  });
+
+  return [...lines, ...unmatched.map((item): ReconciliationLine => ({ incoming: item, decision: "new" }))];
+}
+
+// Why a set of lines can't be committed yet, if it can't
+export function getReconciliationProblem(lines: ReconciliationLine[]): string | null {
+  for (const line of lines) {
+    if (!line.decision) return "Choose continue, change or stop for every current medication";
+    if ((line.decision === "change" || line.decision === "new") && !line.incoming?.medicationName.trim()) {
+      return "Enter the medication name for every changed or new line";
+    }
+    if (line.decision === "new" && line.medicationId) return "A current medication can't be marked new";
+    if (line.decision !== "new" && !line.medicationId) return "Only current medications can be continued, changed or stopped";
+  }
+  return null;
+}
+
+// A medication's dosage, doses and instructions on one line, e.g. "10 mg - Morning 1 tablet - With food"
+export function describeMedicationState(state: RecordedMedicationState, administrationTimes: AdministrationTime[]): string {
+  const doses = getMedicationDoses(state)
+    .map(({ timeSlot, dose }) => `${findAdministrationTime(administrationTimes, timeSlot).label} ${dose}`)
+    .join(", ");
+  return [state.dosage, doses, state.instructions].filter(Boolean).join(" - ");
+}
+
+export function getReconciliationSourceLabel(source: ReconciliationSource): string {
+  return RECONCILIATION_SOURCES.find((candidate) => candidate.source === source)?.label ?? source;
+}
+
+export function getReconciliationDecisionLabel(decision: ReconciliationDecision): string {
+  return RECONCILIATION_DECISIONS.find((candidate) => candidate.decision === decision)?.label ?? decision;
+}
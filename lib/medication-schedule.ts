@@ -0,0 +1,154 @@
+// Dosing schedules: which days a medication's doses are taken. Medications without a schedule are
+// taken every day. As-needed (PRN) medications are never due on a day, so they are not packed.
+
+export type MedicationScheduleType = "daily" | "days_of_week" | "interval" | "cycle" | "prn";
+
+export interface MedicationSchedule {
+  type: MedicationScheduleType;
+  daysOfWeek?: number[]; // days_of_week: 0 = Sunday ... 6 = Saturday
+  intervalDays?: number; // interval: every N days, e.g. 2 for alternate days
+  daysOn?: number; // cycle: days taken ...
+  daysOff?: number; // ... followed by days not taken
+  anchorDate?: string; // YYYY-MM-DD - first dose day for interval and cycle schedules
+  prnIndication?: string; // prn: what it is taken for, e.g. "pain"
+}
+
+export const SCHEDULE_TYPES: { type: MedicationScheduleType; label: string }[] = [
+  { type: "daily", label: "Every day" },
+  { type: "days_of_week", label: "Days of the week" },
+  { type: "interval", label: "Every few days" },
+  { type: "cycle", label: "Cycle (days on / days off)" },
+  { type: "prn", label: "As needed (PRN)" },
+];
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Ingredients that are only ever taken weekly in community practice. Packing them daily is a
+// known fatal error, so they must have a weekly schedule.
+const WEEKLY_ONLY_INGREDIENTS = ["methotrexate"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getDayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+// Whether a scheduled medication's doses are taken on a date (YYYY-MM-DD)
+export function isDoseDueOn(schedule: MedicationSchedule | undefined, date: string): boolean {
+  if (!schedule || schedule.type === "daily") return true;
+
+  switch (schedule.type) {
+    case "prn":
+      return false;
+    case "days_of_week":
+      return (schedule.daysOfWeek ?? []).includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+    case "interval": {
+      if (!schedule.anchorDate || !schedule.intervalDays) return false;
+      const offset = getDayNumber(date) - getDayNumber(schedule.anchorDate);
+      return offset >= 0 && offset % schedule.intervalDays === 0;
+    }
+    case "cycle": {
+      if (!schedule.anchorDate || !schedule.daysOn) return false;
+      const offset = getDayNumber(date) - getDayNumber(schedule.anchorDate);
+      return offset >= 0 && offset % (schedule.daysOn + (schedule.daysOff ?? 0)) < schedule.daysOn;
+    }
+  }
+}
+
+// Whether a medication's doses are taken on a date: within its start and end dates, on a day its
+// schedule includes
+export function isMedicationDueOn(
+  medication: { startDate?: string; endDate?: string; schedule?: MedicationSchedule },
+  date: string
+): boolean {
+  if (medication.startDate && date < medication.startDate) return false;
+  if (medication.endDate && date > medication.endDate) return false;
+  return isDoseDueOn(medication.schedule, date);
+}
+
+// Only the fields that apply to the schedule's type are saved
+export function getScheduleFields(schedule: MedicationSchedule): MedicationSchedule {
+  switch (schedule.type) {
+    case "days_of_week":
+      return { type: schedule.type, daysOfWeek: [...(schedule.daysOfWeek ?? [])].sort((a, b) => a - b) };
+    case "interval":
+      return { type: schedule.type, intervalDays: schedule.intervalDays, anchorDate: schedule.anchorDate };
+    case "cycle":
+      return { type: schedule.type, daysOn: schedule.daysOn, daysOff: schedule.daysOff, anchorDate: schedule.anchorDate };
+    case "prn":
+      return { type: schedule.type, prnIndication: schedule.prnIndication?.trim() || undefined };
+    default:
+      return { type: "daily" };
+  }
+}
+
+// Short description for lists and printouts, e.g. "Weekly on Monday" or "Mon, Wed, Fri"
+export function describeSchedule(schedule: MedicationSchedule | undefined): string {
+  if (!schedule || schedule.type === "daily") return "Daily";
+
+  switch (schedule.type) {
+    case "prn":
+      return schedule.prnIndication ? `As needed for ${schedule.prnIndication}` : "As needed (PRN)";
+    case "days_of_week": {
+      const days = [...(schedule.daysOfWeek ?? [])].sort((a, b) => a - b);
+      if (days.length === 1) return `Weekly on ${WEEKDAY_NAMES[days[0]]}`;
+      return days.map((day) => WEEKDAY_LABELS[day]).join(", ");
+    }
+    case "interval":
+      return schedule.intervalDays === 2
+        ? `Alternate days from ${schedule.anchorDate}`
+        : `Every ${schedule.intervalDays} days from ${schedule.anchorDate}`;
+    case "cycle":
+      return `${schedule.daysOn} days on, ${schedule.daysOff ?? 0} days off from ${schedule.anchorDate}`;
+  }
+}
+
+// Why a schedule is incomplete or unsafe for a medication, or null when it is fine
+export function getScheduleProblem(
+  medication: { medicationName: string; genericName?: string; activeIngredient?: string },
+  schedule: MedicationSchedule | undefined
+): string | null {
+  if (schedule) {
+    switch (schedule.type) {
+      case "days_of_week":
+        if (!schedule.daysOfWeek || schedule.daysOfWeek.length === 0) {
+          return "Choose at least one day of the week";
+        }
+        if (schedule.daysOfWeek.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+          return "Days of the week must be between Sunday and Saturday";
+        }
+        break;
+      case "interval":
+        if (!schedule.intervalDays || !Number.isInteger(schedule.intervalDays) || schedule.intervalDays < 2) {
+          return "Enter how many days apart the doses are (2 or more)";
+        }
+        if (!schedule.anchorDate) return "Enter the date of the first dose";
+        break;
+      case "cycle":
+        if (!schedule.daysOn || !Number.isInteger(schedule.daysOn) || schedule.daysOn < 1) {
+          return "Enter how many days the medication is taken in each cycle";
+        }
+        if (!schedule.daysOff || !Number.isInteger(schedule.daysOff) || schedule.daysOff < 1) {
+          return "Enter how many days the medication is not taken in each cycle";
+        }
+        if (!schedule.anchorDate) return "Enter the date the first cycle starts";
+        break;
+    }
+  }
+
+  const names = [medication.medicationName, medication.genericName, medication.activeIngredient]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  const weeklyOnly = WEEKLY_ONLY_INGREDIENTS.find((ingredient) => names.includes(ingredient));
+  const isWeekly =
+    (schedule?.type === "days_of_week" && schedule.daysOfWeek?.length === 1) ||
+    (schedule?.type === "interval" && (schedule.intervalDays ?? 0) >= 7);
+  if (weeklyOnly && !isWeekly) {
+    return `${medication.medicationName} contains ${weeklyOnly}, which is taken once a week. Choose the day of the week it is taken.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,117 @@
+// Australian medicines catalogue: items imported from a locally stored CSV extract (for example an
+// AMT or PBS schedule export) and searched before the FDA database. Column headings are matched
+// loosely, so "PBS Item Code", "pbs_item_code" and "Item Code" all work.
+
+import { parseCsv } from "./csv";
+import { MedicationSuggestion, MedicineSource } from "./medicine-sources";
+
+export interface CatalogueItem {
+  amtCode?: string;
+  pbsItemCode?: string;
+  brandName?: string;
+  genericName?: string;
+  activeIngredient?: string;
+  strength?: string;
+  dosageForm?: string;
+  route?: string;
+  manufacturer?: string;
+}
+
+export const MAX_CATALOGUE_ITEMS = 20000;
+export const CATALOGUE_IMPORT_BATCH_SIZE = 500;
+
+const COLUMN_ALIASES: Record<keyof CatalogueItem, string[]> = {
+  amtCode: ["amt code", "amt", "amt id", "tpp id", "mpp id", "ctpp id"],
+  pbsItemCode: ["pbs item code", "pbs item", "pbs code", "item code", "pbs item number"],
+  brandName: ["brand name", "brand", "trade name", "tradename", "product name"],
+  genericName: ["generic name", "generic", "drug name", "mp name"],
+  activeIngredient: ["active ingredient", "ingredient", "active ingredients"],
+  strength: ["strength"],
+  dosageForm: ["dosage form", "form"],
+  route: ["route", "route of administration"],
+  manufacturer: ["manufacturer", "sponsor", "manufacturer name"],
+};
+
+function normalizeHeading(heading: string): string {
+  return heading.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Items in a catalogue CSV file, and the problems with any rows left out
+export function parseCatalogueFile(text: string): { items: CatalogueItem[]; problems: string[] } {
+  const [headings, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!headings) {
+    return { items: [], problems: ["The file is empty"] };
+  }
+
+  const normalized = headings.map(normalizeHeading);
+  const columns = Object.entries(COLUMN_ALIASES)
+    .map(([field, aliases]) => ({
+      field: field as keyof CatalogueItem,
+      index: normalized.findIndex((heading) => aliases.includes(heading)),
+    }))
+    .filter(({ index }) => index !== -1);
+
+  if (!columns.some(({ field }) => field === "brandName" || field === "genericName")) {
+    return { items: [], problems: ["The file needs a brand name or generic name column"] };
+  }
+
+  const items: CatalogueItem[] = [];
+  const problems: string[] = [];
+  rows.forEach((row, index) => {
+    const item: CatalogueItem = {};
+    for (const { field, index: column } of columns) {
+      const value = row[column]?.trim();
+      if (value) item[field] = value;
+    }
+
+    if (!item.brandName && !item.genericName) {
+      problems.push(`Row ${index + 2}: no brand or generic name`);
+    } else if (items.length >= MAX_CATALOGUE_ITEMS) {
+      problems.push(`Row ${index + 2}: more than ${MAX_CATALOGUE_ITEMS} items`);
+    } else {
+      items.push(item);
+    }
+  });
+
+  return { items, problems };
+}
+
+// Lower case names and codes the catalogue search index matches on
+export function getCatalogueSearchText(item: CatalogueItem): string {
+  return [
+    item.brandName,
+    item.genericName,
+    item.activeIngredient,
+    item.strength,
+    item.amtCode,
+    item.pbsItemCode,
+  ].filter(Boolean).join(" ").toLowerCase();
+}
+
+function toCatalogueSuggestion(item: CatalogueItem & { _id: string }): MedicationSuggestion {
+  return {
+    id: item._id,
+    source: "au_catalogue",
+    name: item.brandName || item.genericName || "Unknown",
+    genericName: item.genericName,
+    brandName: item.brandName,
+    strength: item.strength,
+    dosageForm: item.dosageForm,
+    route: item.route,
+    manufacturer: item.manufacturer,
+    activeIngredient: item.activeIngredient || item.genericName,
+    amtCode: item.amtCode,
+    pbsItemCode: item.pbsItemCode,
+  };
+}
+
+// The organisation's imported catalogue, searched through the given lookup
+export function createCatalogueSource(
+  searchCatalogue: (query: string, limit: number) => Promise<(CatalogueItem & { _id: string })[]>
+): MedicineSource {
+  return {
+    id: "au_catalogue",
+    label: "Australian Catalogue",
+    search: async (query, limit) => (await searchCatalogue(query, limit)).map(toCatalogueSuggestion),
+  };
+}
@@ -0,0 +1,63 @@
+// Medicine sources searched by the medication autocomplete. Each source turns a search into
+// suggestions carrying the codes it knows about; sources are searched in order, with later sources
+// only filling the places the earlier ones leave.
+
+export type MedicineSourceId = "au_catalogue" | "fda";
+
+export interface MedicationSuggestion {
+  id: string; // Unique within the source
+  source: MedicineSourceId;
+  name: string;
+  genericName?: string;
+  brandName?: string;
+  strength?: string;
+  dosageForm?: string;
+  route?: string;
+  manufacturer?: string;
+  activeIngredient?: string;
+  // Codes, depending on the source
+  ndc?: string; // FDA National Drug Code
+  amtCode?: string; // Australian Medicines Terminology concept id
+  pbsItemCode?: string; // PBS item number
+}
+
+export interface MedicineSource {
+  id: MedicineSourceId;
+  label: string;
+  search: (query: string, limit: number) => Promise<MedicationSuggestion[]>;
+}
+
+export interface MedicineSourceResults {
+  source: MedicineSource;
+  suggestions: MedicationSuggestion[];
+}
+
+// Search each source in turn until the limit is reached. A source that fails is skipped, so an
+// unreachable online source still leaves the local results.
+export async function searchMedicineSources(
+  sources: MedicineSource[],
+  query: string,
+  limit: number
+): Promise<MedicineSourceResults[]> {
+  const results: MedicineSourceResults[] = [];
+  let remaining = limit;
+
+  for (const source of sources) {
+    if (remaining <= 0) break;
+    try {
+      const suggestions = (await source.search(query, remaining)).slice(0, remaining);
+      if (suggestions.length > 0) {
+        results.push({ source, suggestions });
+        remaining -= suggestions.length;
+      }
+    } catch (error) {
+      console.error(`Error searching ${source.label}:`, error);
+    }
+  }
+
+  return results;
+}
+
+export function getMedicineSourceLabel(source: MedicineSourceId): string {
+  return source === "au_catalogue" ? "Australian catalogue" : "FDA database";
+}
@@ -0,0 +1,56 @@
+// Batch and expiry rules for packed medications. A pack covers a week from its start date, and
+// every medication in it must still be in date on the pack's last day.
+
+export const DAYS_PER_PACK = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PackPeriod {
+  start: string; // YYYY-MM-DD - first day the pack covers
+  end: string; // YYYY-MM-DD - last day the pack covers
+}
+
+export interface PackedBatch {
+  medicationName: string;
+  batchNumber: string;
+  expiryDate: string; // YYYY-MM-DD
+}
+
+export function isCalendarDate(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(`${date}T00:00:00Z`));
+}
+
+// Days a pack covers. Packs without a week start are taken to start on the fallback date
+// (the day they were checked).
+export function getPackPeriod(packWeekStart: string | undefined, fallbackDate: string): PackPeriod {
+  const start = packWeekStart ?? fallbackDate;
+  const end = new Date(Date.parse(`${start}T00:00:00Z`) + (DAYS_PER_PACK - 1) * DAY_MS).toISOString().split("T")[0];
+  return { start, end };
+}
+
+// Every date a pack covers, first to last
+export function getPackDates(period: PackPeriod): string[] {
+  const dates: string[] = [];
+  for (let time = Date.parse(`${period.start}T00:00:00Z`); time <= Date.parse(`${period.end}T00:00:00Z`); time += DAY_MS) {
+    dates.push(new Date(time).toISOString().split("T")[0]);
+  }
+  return dates;
+}
+
+// Batches that expire on or before the pack's last day, earliest first
+export function getBatchesExpiringInPeriod<T extends PackedBatch>(batches: T[], period: PackPeriod): T[] {
+  return batches
+    .filter((batch) => batch.expiryDate <= period.end)
+    .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate));
+}
+
+export function describeExpiringBatch(batch: PackedBatch, period: PackPeriod): string {
+  return batch.expiryDate < period.start
+    ? `${batch.medicationName} batch ${batch.batchNumber} expired on ${batch.expiryDate}`
+    : `${batch.medicationName} batch ${batch.batchNumber} expires on ${batch.expiryDate}, within the pack period ending ${period.end}`;
+}
+
+// Batch numbers are compared ignoring case, spaces and hyphens, as recall notices and cartons differ
+export function normalizeBatchNumber(batchNumber: string): string {
+  return batchNumber.toUpperCase().replace(/[\s-]/g, "");
+}
@@ -0,0 +1,31 @@
+// Webster pack label payloads shared by label printing and pack scanning
+
+export interface PackLabelData {
+  websterPackId: string;
+  patientShareToken: string;
+  packWeekStart: string; // YYYY-MM-DD
+}
+
+const PAYLOAD_PREFIX = "PF1";
+const SEPARATOR = "|";
+
+// Build the QR code payload printed on a pack label
+export function formatPackLabelPayload(label: PackLabelData): string {
+  return [PAYLOAD_PREFIX, label.websterPackId, label.patientShareToken, label.packWeekStart].join(SEPARATOR);
+}
+
+// Read a scanned label. Accepts a full QR payload or a bare pack ID from the Code 128 barcode.
+export function parsePackLabelPayload(scanned: string): Partial<PackLabelData> & { websterPackId: string } {
+  const value = scanned.trim();
+  const parts = value.split(SEPARATOR);
+
+  if (parts[0] === PAYLOAD_PREFIX && parts.length >= 2) {
+    return {
+      websterPackId: parts[1],
+      patientShareToken: parts[2] || undefined,
+      packWeekStart: parts[3] || undefined,
+    };
+  }
+
+  return { websterPackId: value };
+}
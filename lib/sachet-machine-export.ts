@@ -0,0 +1,216 @@
+// Sachet packing machine import files. Each machine vendor gets a formatter that turns the
+// dose-by-dose list for a date range into the file its packer software imports.
+
+import { DoseTimeSlot } from "@/lib/doses";
+import { downloadFile } from "@/lib/csv";
+
+export type { DoseTimeSlot };
+
+export interface SachetMachinePatient {
+  patientId: string;
+  patientName: string;
+  shareToken: string;
+  dateOfBirth: string; // YYYY-MM-DD
+  doses: {
+    date: string; // YYYY-MM-DD
+    timeSlot: DoseTimeSlot;
+    time: string; // HH:mm - the patient's administration time for the slot
+    timeLabel: string;
+    medicationId: string;
+    medicationName: string;
+    genericName?: string;
+    strength?: string;
+    dose: string;
+    tabletCount: number | null;
+    instructions?: string;
+    fdaNdc?: string;
+  }[];
+}
+
+// One line of a machine file: a single medication in a single sachet
+export interface SachetDose {
+  patientId: string; // Share token, which the machine uses as the patient reference
+  patientName: string;
+  dateOfBirth: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  timeSlot: DoseTimeSlot;
+  timeLabel: string;
+  medicationName: string;
+  genericName?: string;
+  strength?: string;
+  drugCode?: string;
+  quantity: number | null; // Null when the dose is not a tablet count
+  dose: string;
+  instructions?: string;
+}
+
+export interface SachetMachineFormatter {
+  id: string;
+  name: string;
+  description: string;
+  fileExtension: string;
+  mimeType: string;
+  format: (doses: SachetDose[]) => string;
+}
+
+// Flatten patients' doses into machine lines, ordered by patient, then date and time
+export function buildSachetDoses(patients: SachetMachinePatient[]): SachetDose[] {
+  return patients.flatMap((patient) =>
+    patient.doses
+      .map((dose) => ({
+        patientId: patient.shareToken,
+        patientName: patient.patientName,
+        dateOfBirth: patient.dateOfBirth,
+        date: dose.date,
+        time: dose.time,
+        timeSlot: dose.timeSlot,
+        timeLabel: dose.timeLabel,
+        medicationName: dose.medicationName,
+        genericName: dose.genericName,
+        strength: dose.strength,
+        drugCode: dose.fdaNdc,
+        quantity: dose.tabletCount,
+        dose: dose.dose,
+        instructions: dose.instructions,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time) || a.medicationName.localeCompare(b.medicationName))
+  );
+}
+
+// Columns written by delimited formatters, in order
+const DELIMITED_COLUMNS: { header: string; value: (dose: SachetDose) => string | number | null | undefined }[] = [
+  { header: "PatientID", value: (dose) => dose.patientId },
+  { header: "PatientName", value: (dose) => dose.patientName },
+  { header: "DateOfBirth", value: (dose) => dose.dateOfBirth },
+  { header: "AdminDate", value: (dose) => dose.date },
+  { header: "AdminTime", value: (dose) => dose.time },
+  { header: "DrugName", value: (dose) => dose.medicationName },
+  { header: "GenericName", value: (dose) => dose.genericName },
+  { header: "Strength", value: (dose) => dose.strength },
+  { header: "DrugCode", value: (dose) => dose.drugCode },
+  { header: "Quantity", value: (dose) => dose.quantity },
+  { header: "Dose", value: (dose) => dose.dose },
+  { header: "Instructions", value: (dose) => dose.instructions },
+];
+
+// Delimited text formatter; values containing the delimiter, quotes or line breaks are quoted
+export function createDelimitedFormatter(options: {
+  id: string;
+  name: string;
+  description: string;
+  delimiter: string;
+  includeHeader: boolean;
+  fileExtension?: string;
+}): SachetMachineFormatter {
+  const formatValue = (value: string | number | null | undefined) => {
+    if (value === null || value === undefined) return "";
+    const text = String(value);
+    return text.includes(options.delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    description: options.description,
+    fileExtension: options.fileExtension ?? (options.delimiter === "," ? "csv" : "txt"),
+    mimeType: options.delimiter === "," ? "text/csv" : "text/plain",
+    format: (doses) => {
+      const rows = doses.map((dose) => DELIMITED_COLUMNS.map((column) => formatValue(column.value(dose))).join(options.delimiter));
+      if (options.includeHeader) {
+        rows.unshift(DELIMITED_COLUMNS.map((column) => column.header).join(options.delimiter));
+      }
+      return rows.join("\r\n") + "\r\n";
+    },
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Generic XML import: patients containing their doses grouped into sachets by date and time
+export const xmlFormatter: SachetMachineFormatter = {
+  id: "xml",
+  name: "XML",
+  description: "Patients with their sachets and doses as nested XML elements",
+  fileExtension: "xml",
+  mimeType: "application/xml",
+  format: (doses) => {
+    const element = (name: string, value: string | number | null | undefined, indent: string) =>
+      value === null || value === undefined || value === "" ? "" : `${indent}<${name}>${escapeXml(String(value))}</${name}>\n`;
+
+    const patients = new Map<string, SachetDose[]>();
+    for (const dose of doses) {
+      patients.set(dose.patientId, [...(patients.get(dose.patientId) ?? []), dose]);
+    }
+
+    let xml = `<?xml version="1.0" encoding="UTF-8"?>\n<SachetOrder>\n`;
+    for (const [patientId, patientDoses] of patients) {
+      xml += `  <Patient id="${escapeXml(patientId)}">\n`;
+      xml += element("Name", patientDoses[0].patientName, "    ");
+      xml += element("DateOfBirth", patientDoses[0].dateOfBirth, "    ");
+
+      const sachets = new Map<string, SachetDose[]>();
+      for (const dose of patientDoses) {
+        const key = `${dose.date}T${dose.time}`;
+        sachets.set(key, [...(sachets.get(key) ?? []), dose]);
+      }
+      for (const sachetDoses of sachets.values()) {
+        const [{ date, time, timeSlot }] = sachetDoses;
+        xml += `    <Sachet date="${escapeXml(date)}" time="${escapeXml(time)}" slot="${escapeXml(timeSlot)}">\n`;
+        for (const dose of sachetDoses) {
+          xml += `      <Dose>\n`;
+          xml += element("DrugName", dose.medicationName, "        ");
+          xml += element("GenericName", dose.genericName, "        ");
+          xml += element("Strength", dose.strength, "        ");
+          xml += element("DrugCode", dose.drugCode, "        ");
+          xml += element("Quantity", dose.quantity, "        ");
+          xml += element("Dose", dose.dose, "        ");
+          xml += element("Instructions", dose.instructions, "        ");
+          xml += `      </Dose>\n`;
+        }
+        xml += `    </Sachet>\n`;
+      }
+      xml += `  </Patient>\n`;
+    }
+    xml += `</SachetOrder>\n`;
+    return xml;
+  },
+};
+
+// Available formatters. Add new machine vendors here.
+export const SACHET_MACHINE_FORMATTERS: SachetMachineFormatter[] = [
+  createDelimitedFormatter({
+    id: "csv",
+    name: "CSV",
+    description: "Comma separated, one dose per line with a header row",
+    delimiter: ",",
+    includeHeader: true,
+  }),
+  createDelimitedFormatter({
+    id: "tab",
+    name: "Tab delimited",
+    description: "Tab separated, one dose per line with a header row",
+    delimiter: "\t",
+    includeHeader: true,
+  }),
+  createDelimitedFormatter({
+    id: "pipe",
+    name: "Pipe delimited",
+    description: "Pipe separated, one dose per line without a header row",
+    delimiter: "|",
+    includeHeader: false,
+  }),
+  xmlFormatter,
+];
+
+// Save a formatted machine file in the browser
+export function downloadSachetMachineFile(formatter: SachetMachineFormatter, doses: SachetDose[], filename: string): void {
+  downloadFile(`${filename}.${formatter.fileExtension}`, formatter.format(doses), formatter.mimeType);
+}